@@ -137,6 +137,9 @@ export const replyAction = {
         if (typeof inlineValues.snapshotSummaryFull === 'string') {
           state.values.snapshotSummaryFull = inlineValues.snapshotSummaryFull;
         }
+        if (typeof inlineValues.portfolioSummary === 'string') {
+          state.values.portfolioSummary = inlineValues.portfolioSummary;
+        }
         if (Array.isArray(inlineValues.pendingAttachments)) {
           state.values.pendingAttachments = inlineValues.pendingAttachments as Media[];
         }
@@ -225,6 +228,7 @@ export const replyAction = {
         delete state.values.snapshotSummary;
         delete state.values.snapshotSummaryFull;
         delete state.values.snapshotData;
+        delete state.values.portfolioSummary;
       }
 
       logAttachmentFlush(corrId, attachmentsToSend.length);
@@ -304,6 +308,7 @@ export const replyAction = {
         delete state.values.snapshotSummary;
         delete state.values.snapshotSummaryFull;
         delete state.values.snapshotData;
+        delete state.values.portfolioSummary;
       }
 
       logAttachmentsCleared(corrId);
@@ -346,6 +351,7 @@ export const replyAction = {
           delete state.values.snapshotSummary;
           delete state.values.snapshotSummaryFull;
           delete state.values.snapshotData;
+          delete state.values.portfolioSummary;
         }
 
         logAttachmentsCleared(corrId);
@@ -1,7 +1,7 @@
 import type { IAgentRuntime, Media, Memory, Provider, State } from '@elizaos/core';
 import { addHeader } from '@elizaos/core';
 
-const buildInstructionBlock = (userQuestion: string, summary: string) => {
+const buildInstructionBlock = (userQuestion: string, summary: string, portfolio: string) => {
   const sections: string[] = [];
 
   const cleanedQuestion = userQuestion?.trim();
@@ -16,6 +16,12 @@ const buildInstructionBlock = (userQuestion: string, summary: string) => {
     )
   );
 
+  if (portfolio.trim()) {
+    sections.push(
+      addHeader("# Il portafoglio dell'utente (dal suo registro rip2etf)", portfolio.trim())
+    );
+  }
+
   sections.push(
     addHeader(
       '# Istruzioni vincolanti per la risposta',
@@ -24,6 +30,7 @@ const buildInstructionBlock = (userQuestion: string, summary: string) => {
         "- Collega l'analisi ai vincoli espliciti dell'utente (es. orizzonte lungo termine per figlio, profilo di rischio, scenari multi-valuta).",
         '- Metti in evidenza pro/contro di ciascun ETF e suggerisci eventuali azioni pragmatiche (accumulo periodico, diversificazione, verifica fiscale).',
         "- Menziona sempre il grafico Chart.js allegato (es. 'vedi grafico allegato per il confronto dei rendimenti').",
+        "- Se è presente il portafoglio dell'utente, rapporta l'analisi alle sue posizioni (peso attuale, prezzo medio, scostamento dal target) senza ripeterlo per intero.",
         '- Se qualche dato è assente o stimato, dichiaralo e indica quali informazioni aggiuntive sarebbero utili.',
         '- Mantieni il tono di Mr. RIP: pragmatico, antifuffa, trasparente sulle ipotesi.',
       ].join('\n')
@@ -53,7 +60,10 @@ export const snapshotProvider: Provider = {
       ? (state.values.snapshotAttachments as Media[])
       : [];
 
-    const providerText = buildInstructionBlock(userQuestion, summary);
+    const portfolio =
+      typeof state?.values?.portfolioSummary === 'string' ? state.values.portfolioSummary : '';
+
+    const providerText = buildInstructionBlock(userQuestion, summary, portfolio);
 
     return {
       text: providerText,
@@ -61,6 +71,7 @@ export const snapshotProvider: Provider = {
         snapshotSummary: summary,
         userQuestion,
         attachmentCount: attachments.length,
+        hasPortfolio: Boolean(portfolio),
       },
       values: {
         snapshotSummary: summary,
@@ -53,7 +53,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(true);
+      expect(result?.success).toBe(true);
       expect(mockHyperliquidSdk.custom.cancelAllOrders).toHaveBeenCalled();
       expect(callback).toHaveBeenCalledWith({
         text: "Successfully cancelled 2 open orders",
@@ -87,7 +87,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(true);
+      expect(result?.success).toBe(true);
       expect(callback).toHaveBeenCalledWith({
         text: "Successfully cancelled 1 open order",
         content: expect.any(Object),
@@ -120,7 +120,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(true);
+      expect(result?.success).toBe(true);
       expect(callback).toHaveBeenCalledWith({
         text: "No open orders to cancel",
         content: expect.any(Object),
@@ -149,7 +149,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(true);
+      expect(result?.success).toBe(true);
       expect(callback).toHaveBeenCalledWith({
         text: "No open orders to cancel",
         content: expect.any(Object),
@@ -178,7 +178,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(false);
+      expect(result?.success).toBe(false);
       expect(callback).toHaveBeenCalledWith({
         text: "Error cancelling orders: Network error",
         content: { error: "Network error" },
@@ -203,7 +203,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(true);
+      expect(result?.success).toBe(true);
       // Test passes if handler succeeds with testnet configuration
     });
 
@@ -217,7 +217,7 @@ describe("cancelOrders Action", () => {
 
       const result = await cancelOrders.handler(runtime, memory, state, {});
 
-      expect(result).toBe(true);
+      expect(result?.success).toBe(true);
       expect(mockHyperliquidSdk.custom.cancelAllOrders).toHaveBeenCalled();
     });
 
@@ -243,7 +243,7 @@ describe("cancelOrders Action", () => {
         callback
       );
 
-      expect(result).toBe(false);
+      expect(result?.success).toBe(false);
       expect(callback).toHaveBeenCalledWith({
         text: expect.stringContaining("Error cancelling orders"),
         content: { error: expect.any(String) },
@@ -251,6 +251,88 @@ describe("cancelOrders Action", () => {
     });
   });
 
+  describe("selective cancel", () => {
+    const cancel = async (model: string, settings = {}) => {
+      const runtime = createMockRuntime({
+        HYPERLIQUID_PRIVATE_KEY: "test-private-key",
+        ...settings,
+      });
+      runtime.useModel = jest.fn().mockResolvedValue(model);
+      const callback = createMockCallback();
+      const result = await cancelOrders.handler(
+        runtime,
+        createMockMemory("Cancel orders"),
+        createMockState(),
+        {},
+        callback
+      );
+      return { result, text: callback.mock.calls[0]?.[0]?.text };
+    };
+
+    it("should cancel the orders of one coin", async () => {
+      mockHyperliquidSdk.custom.cancelAllOrders
+        .mockResolvedValueOnce({
+          response: { data: { statuses: ["success"] } },
+        })
+        .mockResolvedValueOnce({
+          response: { data: { statuses: [] } },
+        });
+
+      const { text } = await cancel(
+        "<response><coin>hype</coin><order_ids>null</order_ids></response>"
+      );
+
+      expect(mockHyperliquidSdk.custom.cancelAllOrders).toHaveBeenCalledWith(
+        "HYPE-SPOT"
+      );
+      expect(mockHyperliquidSdk.custom.cancelAllOrders).toHaveBeenCalledWith(
+        "HYPE-PERP"
+      );
+      expect(text).toBe("Successfully cancelled 1 open HYPE order");
+    });
+
+    it("should cancel orders by id", async () => {
+      mockHyperliquidSdk.info.getUserOpenOrders.mockResolvedValueOnce([
+        {
+          coin: "HYPE-SPOT",
+          limitPx: "20",
+          oid: 91490942,
+          side: "B",
+          sz: "1",
+          timestamp: 0,
+        },
+      ]);
+
+      const { result, text } = await cancel(
+        "<response><coin>null</coin><order_ids>#91490942, 12</order_ids></response>",
+        { HYPERLIQUID_WALLET_ADDRESS: "0xabc" }
+      );
+
+      expect(result?.success).toBe(true);
+      expect(mockHyperliquidSdk.exchange.cancelOrder).toHaveBeenCalledWith([
+        { coin: "HYPE-SPOT", o: 91490942 },
+      ]);
+      expect(mockHyperliquidSdk.custom.cancelAllOrders).not.toHaveBeenCalled();
+      expect(text).toBe(
+        "Successfully cancelled 1 open order (order #12 is not open)"
+      );
+      expect(result).toMatchObject({
+        text,
+        data: { cancelled: 1, notes: ["order #12 is not open"] },
+      });
+    });
+
+    it("should need the account address to cancel by id", async () => {
+      const { result, text } = await cancel(
+        "<response><coin>null</coin><order_ids>91490942</order_ids></response>"
+      );
+
+      expect(result?.success).toBe(false);
+      expect(text).toContain("HYPERLIQUID_WALLET_ADDRESS is required");
+      expect(mockHyperliquidSdk.exchange.cancelOrder).not.toHaveBeenCalled();
+    });
+  });
+
   describe("metadata", () => {
     it("should have correct name and similes", () => {
       expect(cancelOrders.name).toBe("CANCEL_ORDERS");
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, jest, mock } from "bun:test";
+import { createUniqueUuid } from "@elizaos/core";
+import { confirmOrder } from "../../actions/confirmOrder";
+import { spotTrade } from "../../actions/spotTrade";
+import { cancelOrders } from "../../actions/cancelOrders";
+import {
+  handleOrderButton,
+  handleTelegramOrderButton,
+  resolvePendingOrder,
+} from "../../pendingOrders";
+import {
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+  mockHyperliquidSdk,
+} from "../test-utils";
+
+// Mock the Hyperliquid module
+mock.module("hyperliquid", () => ({
+  Hyperliquid: jest.fn().mockImplementation(() => mockHyperliquidSdk),
+}));
+
+const MARKET_BUY = `<response>
+  <coin>HYPE</coin>
+  <is_buy>true</is_buy>
+  <sz>1</sz>
+  <limit_px>null</limit_px>
+</response>`;
+
+describe("confirmOrder Action", () => {
+  let runtime: ReturnType<typeof createMockRuntime>;
+  let buttons: { label: string; custom_id: string }[];
+  let telegramButtons: { text: string; data: string }[];
+
+  const preview = async (settings: Record<string, string> = {}) => {
+    runtime = createMockRuntime({
+      HYPERLIQUID_PRIVATE_KEY: "test-private-key",
+      ...settings,
+    });
+    runtime.useModel = jest.fn().mockResolvedValue(MARKET_BUY);
+    const callback = createMockCallback();
+    await spotTrade.handler(
+      runtime,
+      createMockMemory("Buy 1 HYPE"),
+      createMockState(),
+      {},
+      callback
+    );
+    const {
+      content,
+      components,
+      buttons: telegram,
+    } = callback.mock.calls[0][0];
+    buttons = components[0].components;
+    telegramButtons = telegram;
+    return content.pendingOrder;
+  };
+
+  const reply = async (text: string, overrides = {}) => {
+    const callback = createMockCallback();
+    const message = { ...createMockMemory(text), ...overrides };
+    const valid = await confirmOrder.validate(runtime, message, {} as any);
+    const result = valid
+      ? await confirmOrder.handler(runtime, message, undefined, {}, callback)
+      : undefined;
+    return {
+      valid,
+      result: result?.success,
+      text: callback.mock.calls[0]?.[0]?.text,
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("executes the previewed order once confirmed", async () => {
+    const order = await preview();
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+
+    const { valid, result, text } = await reply("yes");
+    expect(valid).toBe(true);
+    expect(result).toBe(true);
+    expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalledWith(
+      order.request
+    );
+    expect(text).toContain("Successfully placed a market order to buy 1 HYPE");
+
+    // the preview is used up
+    expect((await reply("confirm")).valid).toBe(false);
+  });
+
+  it("places the order once when two confirmations arrive together", async () => {
+    const order = await preview();
+    // e.g. the Discord button and a typed "confirm"
+    const confirmation = () =>
+      resolvePendingOrder(runtime, {
+        roomId: order.roomId,
+        entityId: order.entityId,
+        reply: { decision: "confirm" },
+      });
+    const outcomes = await Promise.all([confirmation(), confirmation()]);
+
+    expect(outcomes.map((outcome) => outcome.success)).toEqual([true, false]);
+    expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops the preview on cancel", async () => {
+    const order = await preview();
+    const { result, text } = await reply("cancel");
+
+    expect(result).toBe(true);
+    expect(text).toBe(
+      `Cancelled order preview #${order.id} (buy 1 HYPE); nothing was sent to Hyperliquid.`
+    );
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+  });
+
+  it("reports expired previews without executing them", async () => {
+    const order = await preview({ HYPERLIQUID_CONFIRMATION_TTL_SECONDS: "30" });
+    expect(order.expiresAt - order.createdAt).toBe(30_000);
+    const now = jest
+      .spyOn(Date, "now")
+      .mockReturnValue(order.expiresAt + 1_000);
+
+    const { result, text } = await reply("confirm");
+    now.mockRestore();
+
+    expect(result).toBe(false);
+    expect(text).toContain(`Order preview #${order.id} (buy 1 HYPE) expired`);
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+  });
+
+  it("only accepts the same entity in the same room", async () => {
+    const order = await preview();
+
+    expect((await reply("confirm", { entityId: "another-entity" })).valid).toBe(
+      false
+    );
+    expect((await reply("confirm", { roomId: "another-room" })).valid).toBe(
+      false
+    );
+    const stale = await reply("confirm 0badc0de");
+    expect(stale.result).toBe(false);
+    expect(stale.text).toContain("#0badc0de is not waiting for confirmation");
+    expect((await reply(`confirm ${order.id}`)).result).toBe(true);
+  });
+
+  it("reports exchange rejections", async () => {
+    await preview();
+    mockHyperliquidSdk.exchange.placeOrder.mockResolvedValueOnce({
+      status: "ok",
+      response: {
+        type: "order",
+        data: { statuses: [{ error: "Insufficient balance" }] },
+      },
+    } as any);
+
+    const { result, text } = await reply("confirm");
+    expect(result).toBe(false);
+    expect(text).toBe("Error placing order: Insufficient balance");
+  });
+
+  it("keeps other actions away from the reply", async () => {
+    await preview();
+    const cancel = createMockMemory("cancel");
+
+    expect(await spotTrade.validate(runtime, cancel, {} as any)).toBe(false);
+    expect(await cancelOrders.validate(runtime, cancel, {} as any)).toBe(false);
+    expect(
+      await cancelOrders.validate(
+        runtime,
+        createMockMemory("cancel all my orders"),
+        {} as any
+      )
+    ).toBe(true);
+  });
+
+  it("handles the Discord preview buttons", async () => {
+    const order = await preview();
+    const [confirmButton] = buttons;
+    expect(confirmButton.label).toBe("Confirm");
+    const discordUser = "123456789";
+    const memory = createMockMemory();
+    // the preview belongs to the entity behind the Discord user
+    const entityId = createUniqueUuid(runtime, discordUser);
+    await runtime.setCache(
+      `hyperliquid:pending-order:${memory.roomId}:${entityId}`,
+      { ...order, entityId }
+    );
+    (runtime.getWorld as any).mockResolvedValue({
+      metadata: { roles: { [entityId]: "ADMIN" } },
+    });
+
+    await handleOrderButton({
+      runtime,
+      interaction: { customId: confirmButton.custom_id, user: "someone-else" },
+    });
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+
+    await handleOrderButton({
+      runtime,
+      interaction: { customId: confirmButton.custom_id, user: discordUser },
+    });
+    expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalledTimes(1);
+    expect(runtime.sendMessageToTarget).toHaveBeenLastCalledWith(
+      expect.objectContaining({ roomId: memory.roomId }),
+      expect.objectContaining({
+        text: expect.stringContaining("Successfully placed a market order"),
+      })
+    );
+  });
+
+  it("handles the Telegram preview buttons", async () => {
+    const order = await preview();
+    const [confirmButton, cancelButton] = telegramButtons;
+    expect(confirmButton.text).toBe("Confirm");
+    // Telegram limits callback data to 64 bytes
+    expect(Buffer.byteLength(confirmButton.data)).toBeLessThanOrEqual(64);
+    const memory = createMockMemory();
+
+    await handleTelegramOrderButton({
+      runtime,
+      entityId: "someone-else",
+      roomId: memory.roomId,
+      data: confirmButton.data,
+    });
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+
+    await handleTelegramOrderButton({
+      runtime,
+      entityId: memory.entityId,
+      roomId: memory.roomId,
+      data: cancelButton.data,
+    });
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+    expect(runtime.sendMessageToTarget).toHaveBeenLastCalledWith(
+      expect.objectContaining({ roomId: memory.roomId }),
+      expect.objectContaining({
+        text: expect.stringContaining(`Cancelled order preview #${order.id}`),
+      })
+    );
+  });
+});
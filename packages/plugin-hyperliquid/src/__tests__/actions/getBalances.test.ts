@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, jest, mock } from "bun:test";
+import { getBalances } from "../../actions/getBalances";
+import { accountProvider } from "../../providers/account";
+import {
+  MOCK_ENTITY_ID,
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+  mockHyperliquidSdk,
+} from "../test-utils";
+
+// Mock the Hyperliquid module
+mock.module("hyperliquid", () => ({
+  Hyperliquid: jest.fn().mockImplementation(() => mockHyperliquidSdk),
+}));
+
+describe("getBalances Action", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("validation", () => {
+    it("should need an account address in live mode", async () => {
+      expect(
+        await getBalances.validate(
+          createMockRuntime({ HYPERLIQUID_PRIVATE_KEY: "test-private-key" }),
+          createMockMemory(),
+          {} as any
+        )
+      ).toBe(false);
+      expect(
+        await getBalances.validate(
+          createMockRuntime({ HYPERLIQUID_WALLET_ADDRESS: "0xabc" }),
+          createMockMemory(),
+          {} as any
+        )
+      ).toBe(true);
+      expect(
+        await getBalances.validate(
+          createMockRuntime({ HYPERLIQUID_MODE: "paper" }),
+          createMockMemory(),
+          {} as any
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe("roles", () => {
+    it("should only show the account to the roles allowed to trade", async () => {
+      const runtime = createMockRuntime({
+        HYPERLIQUID_WALLET_ADDRESS: "0xabc",
+      });
+      (runtime.getWorld as any).mockResolvedValue({
+        metadata: { roles: { [MOCK_ENTITY_ID]: "MEMBER" } },
+      });
+      const message = createMockMemory("What do I hold?");
+
+      expect(await getBalances.validate(runtime, message, {} as any)).toBe(
+        false
+      );
+      const result = await getBalances.handler(
+        runtime,
+        message,
+        createMockState(),
+        {}
+      );
+      expect(result).toMatchObject({
+        success: false,
+        error:
+          "The account is not readable here: Trading is limited to OWNER/ADMIN roles on this server",
+      });
+      expect(
+        (await accountProvider.get(runtime, message, createMockState())).text
+      ).toBe("");
+      expect(
+        mockHyperliquidSdk.info.spot.getSpotClearinghouseState
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handler", () => {
+    it("should list the balances with their USDC value", async () => {
+      const runtime = createMockRuntime({
+        HYPERLIQUID_WALLET_ADDRESS: "0xabc",
+      });
+      const callback = createMockCallback();
+
+      const result = await getBalances.handler(
+        runtime,
+        createMockMemory("What do I hold?"),
+        createMockState(),
+        {},
+        callback
+      );
+
+      const text =
+        "Spot balances (≈ 1041.00 USDC in total):\n- USDC: 1000 (20.5 in open orders)\n- HYPE: 2 ≈ 41.00 USDC";
+      expect(
+        mockHyperliquidSdk.info.spot.getSpotClearinghouseState
+      ).toHaveBeenCalledWith("0xabc");
+      expect(callback).toHaveBeenCalledWith({
+        text,
+        content: { balances: expect.any(Array) },
+      });
+      expect(result).toEqual({
+        success: true,
+        text,
+        data: {
+          balances: [
+            { coin: "USDC", free: 979.5, locked: 20.5, usdcValue: 1000 },
+            { coin: "HYPE", free: 2, locked: 0, usdcValue: 41 },
+          ],
+        },
+      });
+    });
+
+    it("should handle SDK errors gracefully", async () => {
+      const runtime = createMockRuntime({
+        HYPERLIQUID_WALLET_ADDRESS: "0xabc",
+      });
+      mockHyperliquidSdk.info.spot.getSpotClearinghouseState.mockRejectedValueOnce(
+        new Error("Network error")
+      );
+      const callback = createMockCallback();
+
+      const result = await getBalances.handler(
+        runtime,
+        createMockMemory(),
+        createMockState(),
+        {},
+        callback
+      );
+
+      expect(result).toMatchObject({ success: false, error: "Network error" });
+      expect(callback).toHaveBeenCalledWith({
+        text: "Error fetching balances: Network error",
+        content: { error: "Network error" },
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, jest, mock } from "bun:test";
+import { getFills } from "../../actions/getFills";
+import {
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+  mockHyperliquidSdk,
+} from "../test-utils";
+
+// Mock the Hyperliquid module
+mock.module("hyperliquid", () => ({
+  Hyperliquid: jest.fn().mockImplementation(() => mockHyperliquidSdk),
+}));
+
+const fill = (oid: number, side: string, px: string, time: number) => ({
+  coin: "HYPE-SPOT",
+  px,
+  sz: "1.0",
+  side,
+  time,
+  dir: side === "B" ? "Buy" : "Sell",
+  closedPnl: side === "B" ? "0.0" : "1.2",
+  fee: "0.01",
+  feeToken: "USDC",
+  oid,
+  tid: oid,
+  hash: "0x0",
+});
+
+describe("getFills Action", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the most recent fills with the realized PnL", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_WALLET_ADDRESS: "0xabc" });
+    mockHyperliquidSdk.info.getUserFills.mockResolvedValueOnce([
+      fill(1, "B", "20.7", Date.UTC(2025, 5, 2, 9, 41)),
+      fill(3, "A", "21.9", Date.UTC(2025, 5, 2, 14, 5)),
+      fill(2, "B", "20.5", Date.UTC(2025, 5, 2, 11, 0)),
+    ]);
+    const callback = createMockCallback();
+
+    const result = await getFills.handler(
+      runtime,
+      createMockMemory("Show my last 2 trades"),
+      createMockState(),
+      {},
+      callback
+    );
+
+    expect(result?.text).toBe(
+      "Last 2 fills (realized PnL 1.20 USDC):\n- 2025-06-02 14:05 UTC: sold 1 HYPE at 21.9 USDC (fee 0.01 USDC, order #3)\n- 2025-06-02 11:00 UTC: bought 1 HYPE at 20.5 USDC (fee 0.01 USDC, order #2)"
+    );
+    expect(result?.data?.fills.map((f: any) => f.orderId)).toEqual(["3", "2"]);
+    expect(mockHyperliquidSdk.info.getUserFills).toHaveBeenCalledWith("0xabc");
+  });
+
+  it("should explain the missing address", async () => {
+    const runtime = createMockRuntime({
+      HYPERLIQUID_PRIVATE_KEY: "test-private-key",
+    });
+
+    const result = await getFills.handler(
+      runtime,
+      createMockMemory(),
+      createMockState(),
+      {}
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "HYPERLIQUID_WALLET_ADDRESS is required to read the account",
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, jest, mock } from "bun:test";
+import { getOpenOrders } from "../../actions/getOpenOrders";
+import {
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+  mockHyperliquidSdk,
+} from "../test-utils";
+
+// Mock the Hyperliquid module
+mock.module("hyperliquid", () => ({
+  Hyperliquid: jest.fn().mockImplementation(() => mockHyperliquidSdk),
+}));
+
+describe("getOpenOrders Action", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the open orders", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_WALLET_ADDRESS: "0xabc" });
+    mockHyperliquidSdk.info.getUserOpenOrders.mockResolvedValueOnce([
+      {
+        coin: "HYPE-SPOT",
+        limitPx: "20.0",
+        oid: 91490942,
+        side: "B",
+        sz: "1.0",
+        timestamp: 1717000000000,
+      },
+      {
+        coin: "HYPE-SPOT",
+        limitPx: "22.0",
+        oid: 91490943,
+        side: "A",
+        sz: "0.5",
+        timestamp: 1717000000000,
+      },
+    ]);
+    const callback = createMockCallback();
+
+    const result = await getOpenOrders.handler(
+      runtime,
+      createMockMemory("Which orders are open?"),
+      createMockState(),
+      {},
+      callback
+    );
+
+    expect(result?.text).toBe(
+      "2 open orders:\n- #91490942: buy 1 HYPE at 20 USDC\n- #91490943: sell 0.5 HYPE at 22 USDC"
+    );
+    expect(result?.data?.orders[1]).toEqual({
+      coin: "HYPE",
+      orderId: "91490943",
+      status: "open",
+      size: 0.5,
+      price: 22,
+      is_buy: false,
+      market: "spot",
+    });
+    expect(callback).toHaveBeenCalledWith({
+      text: result?.text,
+      content: { orders: result?.data?.orders },
+    });
+  });
+
+  it("should report an empty order book", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_WALLET_ADDRESS: "0xabc" });
+
+    const result = await getOpenOrders.handler(
+      runtime,
+      createMockMemory(),
+      createMockState(),
+      {}
+    );
+
+    expect(result).toEqual({
+      success: true,
+      text: "No open orders",
+      data: { orders: [] },
+    });
+  });
+});
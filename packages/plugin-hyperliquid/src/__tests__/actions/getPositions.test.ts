@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, jest, mock } from "bun:test";
+import { getPositions } from "../../actions/getPositions";
+import {
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+  mockHyperliquidSdk,
+} from "../test-utils";
+
+// Mock the Hyperliquid module
+mock.module("hyperliquid", () => ({
+  Hyperliquid: jest.fn().mockImplementation(() => mockHyperliquidSdk),
+}));
+
+describe("getPositions Action", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the positions with entry, liquidation and funding", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_WALLET_ADDRESS: "0xabc" });
+    const callback = createMockCallback();
+
+    const result = await getPositions.handler(
+      runtime,
+      createMockMemory("Show my positions"),
+      createMockState(),
+      {},
+      callback
+    );
+
+    expect(result?.success).toBe(true);
+    expect(result?.data?.positions).toEqual([
+      {
+        coin: "ETH",
+        side: "short",
+        size: 1,
+        entryPrice: 2500,
+        markPrice: 2450.5,
+        liquidationPrice: 2740.1,
+        leverage: 10,
+        marginMode: "cross",
+        marginUsed: 245.05,
+        positionValue: 2450.5,
+        unrealizedPnl: 49.5,
+        fundingSinceOpen: -0.42,
+        fundingRate: -0.00001,
+      },
+    ]);
+    expect(result?.text).toContain("1 open position (unrealized PnL +49.50");
+    expect(result?.text).toContain("liquidation 2740.1");
+    expect(
+      mockHyperliquidSdk.info.perpetuals.getClearinghouseState
+    ).toHaveBeenCalledWith("0xabc");
+    expect(callback).toHaveBeenCalledWith({
+      text: result?.text,
+      content: { positions: result?.data?.positions },
+    });
+  });
+
+  it("should report an account without positions", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_WALLET_ADDRESS: "0xabc" });
+    mockHyperliquidSdk.info.perpetuals.getClearinghouseState.mockResolvedValueOnce(
+      {
+        assetPositions: [],
+        marginSummary: {
+          accountValue: "0",
+          totalMarginUsed: "0",
+          totalNtlPos: "0",
+          totalRawUsd: "0",
+        },
+        crossMarginSummary: {
+          accountValue: "0",
+          totalMarginUsed: "0",
+          totalNtlPos: "0",
+          totalRawUsd: "0",
+        },
+        withdrawable: "0",
+      }
+    );
+
+    const result = await getPositions.handler(
+      runtime,
+      createMockMemory(),
+      createMockState(),
+      {}
+    );
+
+    expect(result?.text).toBe("No open perp positions");
+  });
+
+  it("should explain the missing address", async () => {
+    const result = await getPositions.handler(
+      createMockRuntime(),
+      createMockMemory(),
+      createMockState(),
+      {}
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "HYPERLIQUID_WALLET_ADDRESS is required to read the account",
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, jest, mock } from "bun:test";
+import { perpTrade } from "../../actions/perpTrade";
+import { confirmOrder } from "../../actions/confirmOrder";
+import {
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+  mockHyperliquidSdk,
+} from "../test-utils";
+
+// Mock the Hyperliquid module
+mock.module("hyperliquid", () => ({
+  Hyperliquid: jest.fn().mockImplementation(() => mockHyperliquidSdk),
+}));
+
+const perpResponse = (fields: Record<string, string>) =>
+  `<response>${Object.entries({
+    coin: "BTC",
+    is_buy: "true",
+    sz: "0.01",
+    limit_px: "null",
+    leverage: "null",
+    margin_mode: "null",
+    reduce_only: "false",
+    take_profit: "null",
+    stop_loss: "null",
+    ...fields,
+  })
+    .map(([key, value]) => `<${key}>${value}</${key}>`)
+    .join("")}</response>`;
+
+describe("perpTrade Action", () => {
+  let runtime: ReturnType<typeof createMockRuntime>;
+
+  const preview = async (fields: Record<string, string>) => {
+    runtime.useModel = jest.fn().mockResolvedValue(perpResponse(fields));
+    const callback = createMockCallback();
+    const result = await perpTrade.handler(
+      runtime,
+      createMockMemory("Trade BTC perps"),
+      createMockState(),
+      {},
+      callback
+    );
+    return { result, ...callback.mock.calls[0][0] };
+  };
+
+  const confirm = async () => {
+    const callback = createMockCallback();
+    await confirmOrder.handler(
+      runtime,
+      createMockMemory("confirm"),
+      undefined,
+      {},
+      callback
+    );
+    return callback.mock.calls[0][0].text;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runtime = createMockRuntime({
+      HYPERLIQUID_PRIVATE_KEY: "test-private-key",
+      HYPERLIQUID_WALLET_ADDRESS: "0xabc",
+    });
+  });
+
+  describe("validate", () => {
+    it("should require a private key", async () => {
+      expect(
+        await perpTrade.validate(
+          createMockRuntime(),
+          createMockMemory(),
+          {} as any
+        )
+      ).toBe(false);
+      expect(
+        await perpTrade.validate(runtime, createMockMemory(), {} as any)
+      ).toBe(true);
+    });
+
+    it("should not offer perps in paper mode", async () => {
+      expect(
+        await perpTrade.validate(
+          createMockRuntime({ HYPERLIQUID_MODE: "paper" }),
+          createMockMemory(),
+          {} as any
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("handler", () => {
+    it("should open a leveraged position with take-profit and stop-loss once confirmed", async () => {
+      const { result, text, content } = await preview({
+        leverage: "5",
+        margin_mode: "isolated",
+        take_profit: "70000",
+        stop_loss: "62000",
+      });
+
+      expect(result?.success).toBe(true);
+      expect(text).toContain("market buy 0.01 BTC-PERP");
+      expect(text).toContain("- Leverage: 5x isolated");
+      expect(text).toContain("- Take-profit: 70000 USDC");
+      expect(text).toContain("- Stop-loss: 62000 USDC");
+      expect(content.pendingOrder.request).toEqual({
+        coin: "BTC-PERP",
+        asset: 0,
+        is_buy: true,
+        sz: 0.01,
+        limit_px: 65650,
+        reduce_only: false,
+        order_type: { market: {} },
+      });
+      expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+      expect(mockHyperliquidSdk.exchange.updateLeverage).not.toHaveBeenCalled();
+
+      expect(await confirm()).toContain(
+        "to buy 0.01 BTC-PERP at 20.50, with take-profit at 70000 and stop-loss at 62000"
+      );
+      expect(mockHyperliquidSdk.exchange.updateLeverage).toHaveBeenCalledWith(
+        "BTC-PERP",
+        "isolated",
+        5
+      );
+      const { orders, grouping } =
+        mockHyperliquidSdk.exchange.placeOrder.mock.calls[0][0];
+      expect(grouping).toBe("normalTpsl");
+      expect(orders.slice(1)).toEqual([
+        expect.objectContaining({
+          is_buy: false,
+          reduce_only: true,
+          limit_px: 66500,
+          order_type: {
+            trigger: { triggerPx: 70000, isMarket: true, tpsl: "tp" },
+          },
+        }),
+        expect.objectContaining({
+          is_buy: false,
+          reduce_only: true,
+          limit_px: 58900,
+          order_type: {
+            trigger: { triggerPx: 62000, isMarket: true, tpsl: "sl" },
+          },
+        }),
+      ]);
+    });
+
+    it("should close the open position with a reduce-only order", async () => {
+      const { result, text, content } = await preview({
+        coin: "ETH",
+        sz: "null",
+        reduce_only: "true",
+      });
+
+      expect(result?.success).toBe(true);
+      expect(text).toContain("market buy 1 ETH-PERP");
+      expect(text).toContain("- Reduce-only");
+      expect(content.pendingOrder.request).toMatchObject({
+        coin: "ETH-PERP",
+        asset: 1,
+        is_buy: true,
+        sz: 1,
+        reduce_only: true,
+      });
+      expect(
+        mockHyperliquidSdk.info.perpetuals.getClearinghouseState
+      ).toHaveBeenCalledWith("0xabc");
+
+      await confirm();
+      expect(mockHyperliquidSdk.exchange.updateLeverage).not.toHaveBeenCalled();
+      expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalledWith(
+        content.pendingOrder.request
+      );
+    });
+
+    it("should close positions past the daily volume limit", async () => {
+      runtime = createMockRuntime({
+        HYPERLIQUID_PRIVATE_KEY: "test-private-key",
+        HYPERLIQUID_WALLET_ADDRESS: "0xabc",
+        HYPERLIQUID_MAX_DAILY_VOLUME: "100",
+      });
+
+      expect((await preview({})).text).toContain(
+        "above the daily limit of 100 USDC"
+      );
+      const close = await preview({
+        coin: "ETH",
+        sz: "null",
+        reduce_only: "true",
+      });
+      expect(close.result?.success).toBe(true);
+      expect(await confirm()).toContain("Successfully placed a market order");
+    });
+
+    it("should report a rejected perp order", async () => {
+      await preview({ leverage: "5" });
+      mockHyperliquidSdk.exchange.placeOrder.mockResolvedValueOnce({
+        status: "ok",
+        response: {
+          type: "order",
+          data: { statuses: [{ error: "Insufficient margin" }] },
+        },
+      } as any);
+
+      expect(await confirm()).toBe("Error placing order: Insufficient margin");
+    });
+
+    it("should refuse to close more than the position", async () => {
+      const { result, text } = await preview({
+        coin: "ETH",
+        sz: "2",
+        reduce_only: "true",
+      });
+
+      expect(result?.success).toBe(false);
+      expect(text).toContain("Cannot close 2 ETH: the short position is 1 ETH");
+    });
+
+    it("should refuse leverage above the market maximum", async () => {
+      const { result, text } = await preview({ leverage: "50" });
+
+      expect(result?.success).toBe(false);
+      expect(text).toContain("BTC-PERP allows at most 40x leverage");
+    });
+
+    it("should default isolated-only markets to isolated margin", async () => {
+      const { text, content } = await preview({
+        coin: "PURR",
+        sz: "100",
+        leverage: "3",
+      });
+      expect(text).toContain("- Leverage: 3x isolated");
+      expect(content.pendingOrder.leverage).toEqual({
+        mode: "isolated",
+        value: 3,
+      });
+
+      const cross = await preview({
+        coin: "PURR",
+        sz: "100",
+        leverage: "3",
+        margin_mode: "cross",
+      });
+      expect(cross.text).toContain("PURR-PERP only supports isolated margin");
+    });
+
+    it("should check take-profit and stop-loss against the entry", async () => {
+      const { result, text } = await preview({
+        limit_px: "64000",
+        stop_loss: "66000",
+      });
+
+      expect(result?.success).toBe(false);
+      expect(text).toContain(
+        "Stop-loss must be below the entry price of a long"
+      );
+    });
+
+    it("should refuse perps in paper mode", async () => {
+      runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+      const { result, text } = await preview({});
+
+      expect(result?.success).toBe(false);
+      expect(text).toContain("Perpetuals are not simulated in paper mode");
+    });
+  });
+});
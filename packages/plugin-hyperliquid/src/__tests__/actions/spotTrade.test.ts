@@ -64,12 +64,28 @@ describe("spotTrade Action", () => {
       );
 
       expect(result).toBe(true);
-      expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalled();
+      expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
       expect(callback).toHaveBeenCalledWith({
-        text: expect.stringContaining(
-          "Successfully placed a market order to buy 1 HYPE"
-        ),
-        content: expect.any(Object),
+        text: expect.stringContaining("market buy 1 HYPE"),
+        content: { pendingOrder: expect.any(Object) },
+        components: expect.any(Array),
+        buttons: expect.any(Array),
+      });
+      const { text, content } = callback.mock.calls[0][0];
+      expect(text).toContain(
+        "- Price: up to 20.71 USDC (mid 20.5 USDC, 1% slippage bound)"
+      );
+      expect(text).toContain("- Notional: ~20.71 USDC");
+      expect(text).toContain('Reply "confirm" within 2 minutes');
+      expect(content.pendingOrder.preview).toEqual({
+        coin: "HYPE",
+        side: "buy",
+        size: 1,
+        orderType: "market",
+        midPrice: 20.5,
+        finalPrice: 20.71,
+        notional: 20.71,
+        slippage: 0.01,
       });
     });
 
@@ -101,7 +117,11 @@ describe("spotTrade Action", () => {
       );
 
       expect(result).toBe(true);
-      expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalledWith(
+      expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+      const { text, content } = callback.mock.calls[0][0];
+      expect(text).toContain("limit sell 2 HYPE");
+      expect(text).toContain("- Price: limit 21 USDC (mid 20.5 USDC)");
+      expect(content.pendingOrder.request).toEqual(
         expect.objectContaining({
           coin: "HYPE-SPOT",
           is_buy: false,
@@ -110,12 +130,6 @@ describe("spotTrade Action", () => {
           order_type: { limit: { tif: "Gtc" } },
         })
       );
-      expect(callback).toHaveBeenCalledWith({
-        text: expect.stringContaining(
-          "Successfully placed a limit order to sell 2 HYPE"
-        ),
-        content: expect.any(Object),
-      });
     });
 
     it("should handle parsing errors", async () => {
@@ -243,54 +257,6 @@ describe("spotTrade Action", () => {
       });
     });
 
-    it("should handle order rejection from exchange", async () => {
-      const runtime = createMockRuntime({
-        HYPERLIQUID_PRIVATE_KEY: "test-private-key",
-      });
-
-      runtime.useModel = jest.fn().mockResolvedValue(
-        `<response>
-          <coin>HYPE</coin>
-          <is_buy>true</is_buy>
-          <sz>1</sz>
-          <limit_px>null</limit_px>
-        </response>`
-      );
-
-      // Mock order rejection
-      mockHyperliquidSdk.exchange.placeOrder.mockResolvedValueOnce({
-        status: "ok",
-        response: {
-          type: "order",
-          data: {
-            statuses: [
-              {
-                error: "Insufficient balance",
-              },
-            ],
-          },
-        },
-      });
-
-      const memory = createMockMemory("Buy 1 HYPE");
-      const state = createMockState();
-      const callback = createMockCallback();
-
-      const result = await spotTrade.handler(
-        runtime,
-        memory,
-        state,
-        {},
-        callback
-      );
-
-      expect(result).toBe(false);
-      expect(callback).toHaveBeenCalledWith({
-        text: expect.stringContaining("Insufficient balance"),
-        content: { error: expect.any(String) },
-      });
-    });
-
     it("should work without state parameter", async () => {
       const runtime = createMockRuntime({
         HYPERLIQUID_PRIVATE_KEY: "test-private-key",
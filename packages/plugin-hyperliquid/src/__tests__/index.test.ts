@@ -3,6 +3,13 @@ import { hyperliquidPlugin } from "../index";
 import { spotTrade } from "../actions/spotTrade";
 import { priceCheck } from "../actions/priceCheck";
 import { cancelOrders } from "../actions/cancelOrders";
+import { confirmOrder } from "../actions/confirmOrder";
+import { getBalances } from "../actions/getBalances";
+import { getOpenOrders } from "../actions/getOpenOrders";
+import { getFills } from "../actions/getFills";
+import { perpTrade } from "../actions/perpTrade";
+import { getPositions } from "../actions/getPositions";
+import { accountProvider } from "../providers/account";
 
 describe("Hyperliquid Plugin", () => {
   it("should have correct plugin metadata", () => {
@@ -11,14 +18,20 @@ describe("Hyperliquid Plugin", () => {
   });
 
   it("should export all actions", () => {
-    expect(hyperliquidPlugin.actions).toHaveLength(3);
+    expect(hyperliquidPlugin.actions).toHaveLength(9);
     expect(hyperliquidPlugin.actions).toContain(spotTrade);
     expect(hyperliquidPlugin.actions).toContain(priceCheck);
     expect(hyperliquidPlugin.actions).toContain(cancelOrders);
+    expect(hyperliquidPlugin.actions).toContain(confirmOrder);
+    expect(hyperliquidPlugin.actions).toContain(getBalances);
+    expect(hyperliquidPlugin.actions).toContain(getOpenOrders);
+    expect(hyperliquidPlugin.actions).toContain(getFills);
+    expect(hyperliquidPlugin.actions).toContain(perpTrade);
+    expect(hyperliquidPlugin.actions).toContain(getPositions);
   });
 
-  it("should have empty providers array", () => {
-    expect(hyperliquidPlugin.providers).toEqual([]);
+  it("should export the account provider", () => {
+    expect(hyperliquidPlugin.providers).toEqual([accountProvider]);
   });
 
   it("should have empty evaluators array", () => {
@@ -0,0 +1,277 @@
+import { describe, it, expect, spyOn } from "bun:test";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createHyperliquidClient } from "../client";
+import { getPaperAccount } from "../paperExchange";
+import { HyperliquidError } from "../types";
+import { spotTrade } from "../actions/spotTrade";
+import { confirmOrder } from "../actions/confirmOrder";
+import { cancelOrders } from "../actions/cancelOrders";
+import { getFills } from "../actions/getFills";
+import { accountProvider } from "../providers/account";
+import {
+  createMockRuntime,
+  createMockMemory,
+  createMockState,
+  createMockCallback,
+} from "./test-utils";
+
+const order = (
+  is_buy: boolean,
+  sz: number,
+  limit_px: number,
+  order_type: any = { limit: { tif: "Gtc" } }
+) => ({
+  coin: "HYPE-SPOT",
+  asset: 10000,
+  is_buy,
+  sz,
+  limit_px,
+  reduce_only: false,
+  order_type,
+});
+
+const balance = async (runtime: any, coin: string) =>
+  (await getPaperAccount(runtime)).balances.find((b) => b.coin === coin);
+
+describe("Paper exchange", () => {
+  it("fills marketable orders at the feed mid", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+    const client = await createHyperliquidClient(runtime);
+
+    const [, contexts] = await client.info.spot.getSpotMetaAndAssetCtxs();
+    expect(contexts[0]).toMatchObject({ coin: "HYPE-SPOT", midPx: "20.71" });
+
+    const result = await client.exchange.placeOrder(
+      order(true, 2, 20.92, { market: {} })
+    );
+    expect(result.response?.data?.statuses?.[0]).toEqual({
+      px: "20.71",
+      orderId: "1",
+    });
+    expect(await balance(runtime, "HYPE")).toEqual({
+      coin: "HYPE",
+      free: 2,
+      locked: 0,
+    });
+    expect((await balance(runtime, "USDC"))?.free).toBe(9958.58);
+  });
+
+  it("rests limit orders until the mid crosses them", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+    const client = await createHyperliquidClient(runtime); // mid 20.71
+
+    // the mid moves to 20.64 once the order is in
+    const result = await client.exchange.placeOrder(order(true, 1, 20.6));
+    expect(result.response?.data?.statuses?.[0]).toEqual({ orderId: "1" });
+    expect(await balance(runtime, "USDC")).toEqual({
+      coin: "USDC",
+      free: 9979.4,
+      locked: 20.6,
+    });
+    expect(await client.info.getUserOpenOrders("paper")).toHaveLength(1);
+    expect((await getPaperAccount(runtime)).orders[0].status).toBe("open");
+
+    await client.exchange.placeOrder(order(true, 1, 19)); // mid 20.52
+    const [filled] = (await getPaperAccount(runtime)).orders;
+    expect(filled).toMatchObject({ status: "filled", fillPrice: 20.6 });
+    expect((await balance(runtime, "HYPE"))?.free).toBe(1);
+    expect(await client.info.getUserOpenOrders("paper")).toHaveLength(1);
+  });
+
+  it("does not move prices on reads", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+    for (let i = 0; i < 3; i++) {
+      const client = await createHyperliquidClient(runtime);
+      await client.info.getUserOpenOrders("paper");
+      await accountProvider.get(runtime, createMockMemory(), createMockState());
+    }
+
+    const client = await createHyperliquidClient(runtime);
+    const [, [hype]] = await client.info.spot.getSpotMetaAndAssetCtxs();
+    expect(hype.midPx).toBe("20.71");
+  });
+
+  it("rejects unfunded orders and cancels unmatched market orders", async () => {
+    const runtime = createMockRuntime({
+      HYPERLIQUID_MODE: "paper",
+      HYPERLIQUID_PAPER_BALANCES: JSON.stringify({ usdc: 100, hype: 1 }),
+    });
+    const client = await createHyperliquidClient(runtime);
+
+    const unfunded = await client.exchange.placeOrder(order(false, 2, 21));
+    expect(unfunded.response?.data?.statuses?.[0]?.error).toBe(
+      "Insufficient HYPE balance to place order"
+    );
+    const unmatched = await client.exchange.placeOrder(
+      order(true, 1, 20, { market: {} })
+    );
+    expect(unmatched.response?.data?.statuses?.[0]?.error).toContain(
+      "could not immediately match"
+    );
+    expect(
+      (await getPaperAccount(runtime)).orders.map((o) => o.status)
+    ).toEqual(["rejected", "cancelled"]);
+
+    // neither order was accepted, so the market did not move
+    const [, [hype]] = await client.info.spot.getSpotMetaAndAssetCtxs();
+    expect(hype.midPx).toBe("20.71");
+  });
+
+  it("refuses malformed starting balances", async () => {
+    for (const balances of ['{"USDC": 100', '{"USDC": -1}']) {
+      const client = await createHyperliquidClient(
+        createMockRuntime({
+          HYPERLIQUID_MODE: "paper",
+          HYPERLIQUID_PAPER_BALANCES: balances,
+        })
+      );
+      const error = await client.info
+        .getUserOpenOrders("paper")
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HyperliquidError);
+      expect((error as Error).message).toContain(
+        "HYPERLIQUID_PAPER_BALANCES must map coins to amounts"
+      );
+    }
+  });
+
+  it("fills resting orders as time passes without new orders", async () => {
+    const runtime = createMockRuntime({
+      HYPERLIQUID_MODE: "paper",
+      HYPERLIQUID_PAPER_TICK_SECONDS: "60",
+    });
+    const start = Date.now();
+    const now = spyOn(Date, "now").mockReturnValue(start);
+    try {
+      const client = await createHyperliquidClient(runtime);
+      await client.exchange.placeOrder(order(true, 1, 20.6)); // mid 20.64
+
+      now.mockReturnValue(start + 59_000);
+      expect(await client.info.getUserOpenOrders("paper")).toHaveLength(1);
+
+      now.mockReturnValue(start + 120_000); // two ticks: 20.52, then 20.58
+      expect(await client.info.getUserOpenOrders("paper")).toHaveLength(0);
+      const [, [hype]] = await client.info.spot.getSpotMetaAndAssetCtxs();
+      expect(hype.midPx).toBe("20.58");
+      expect((await getPaperAccount(runtime)).orders[0]).toMatchObject({
+        status: "filled",
+        fillPrice: 20.6,
+      });
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it("cancels open orders and releases their balance", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+    const client = await createHyperliquidClient(runtime);
+    await client.exchange.placeOrder(order(true, 1, 20));
+    await client.exchange.placeOrder(order(true, 1, 19));
+
+    const result = await client.custom.cancelAllOrders();
+    expect(result.response?.data?.statuses).toHaveLength(2);
+    expect(await balance(runtime, "USDC")).toEqual({
+      coin: "USDC",
+      free: 10000,
+      locked: 0,
+    });
+  });
+
+  it("replays a feed from a local file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "paper-feed-"));
+    const path = join(dir, "feed.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        tokens: [{ name: "HYPE", szDecimals: 2 }],
+        ticks: [{ HYPE: 10 }, { HYPE: 12 }],
+      })
+    );
+    const runtime = createMockRuntime({
+      HYPERLIQUID_MODE: "paper",
+      HYPERLIQUID_PAPER_FEED: path,
+    });
+
+    const client = await createHyperliquidClient(runtime);
+    const mids = [];
+    for (let i = 0; i < 3; i++) {
+      const [, [hype]] = await client.info.spot.getSpotMetaAndAssetCtxs();
+      mids.push(hype.midPx);
+      await client.exchange.placeOrder(order(true, 1, 1));
+    }
+    // the last tick holds once the feed ends
+    expect(mids).toEqual(["10", "12", "12"]);
+  });
+
+  it("trades through the actions without a private key", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+    runtime.useModel = async () =>
+      "<response><coin>HYPE</coin><is_buy>true</is_buy><sz>1</sz><limit_px>null</limit_px></response>";
+    const memory = createMockMemory("Buy 1 HYPE");
+    expect(await spotTrade.validate(runtime, memory, {} as any)).toBe(true);
+    await spotTrade.handler(
+      runtime,
+      memory,
+      createMockState(),
+      {},
+      createMockCallback()
+    );
+
+    const confirm = createMockMemory("confirm");
+    const callback = createMockCallback();
+    expect(await confirmOrder.validate(runtime, confirm, {} as any)).toBe(true);
+    await confirmOrder.handler(runtime, confirm, undefined, {}, callback);
+
+    // filled at the previewed mid
+    expect(callback.mock.calls[0][0].text).toBe(
+      "Successfully placed a market order to buy 1 HYPE at 20.71"
+    );
+    expect((await balance(runtime, "USDC"))?.free).toBe(9979.29);
+  });
+
+  it("answers account queries and cancels orders by id", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MODE: "paper" });
+    const client = await createHyperliquidClient(runtime); // mid 20.71
+    await client.exchange.placeOrder(order(true, 1, 20.92, { market: {} }));
+    await client.exchange.placeOrder(order(true, 1, 20));
+    await client.exchange.placeOrder(order(false, 1, 22));
+
+    const context = await accountProvider.get(
+      runtime,
+      createMockMemory(),
+      createMockState()
+    );
+    expect(context.text).toContain("- HYPE: 1 (1 in open orders) ≈ ");
+    expect(context.text).toContain("- #2: buy 1 HYPE at 20 USDC");
+    expect(context.data?.openOrders).toHaveLength(2);
+
+    const fills = await getFills.handler(
+      runtime,
+      createMockMemory("Show my fills"),
+      createMockState(),
+      {}
+    );
+    expect(fills?.data?.fills).toMatchObject([
+      { coin: "HYPE", orderId: "1", price: 20.71 },
+    ]);
+
+    runtime.useModel = async () =>
+      "<response><coin>null</coin><order_ids>3</order_ids></response>";
+    const callback = createMockCallback();
+    await cancelOrders.handler(
+      runtime,
+      createMockMemory("Cancel order 3"),
+      createMockState(),
+      {},
+      callback
+    );
+    expect(callback.mock.calls[0][0].text).toBe(
+      "Successfully cancelled 1 open order"
+    );
+    expect(
+      (await getPaperAccount(runtime)).orders.map((o) => o.status)
+    ).toEqual(["filled", "open", "cancelled"]);
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, jest } from "bun:test";
+import type { Hyperliquid } from "hyperliquid";
+import {
+  agentRiskLimits,
+  enforceRiskPolicy,
+  placeOrderWithPolicy,
+} from "../riskPolicy";
+import { RiskPolicyError } from "../types";
+import {
+  MOCK_ENTITY_ID,
+  createMockRuntime,
+  mockHyperliquidSdk,
+} from "./test-utils";
+
+const sdk = mockHyperliquidSdk as unknown as Hyperliquid;
+const ROOM_ID = "00000000-0000-0000-0000-000000000004";
+
+const order = (coin: string, notional: number) => ({
+  entityId: MOCK_ENTITY_ID,
+  roomId: ROOM_ID,
+  coin,
+  notional,
+});
+
+const request = {
+  coin: "HYPE-SPOT",
+  asset: 10000,
+  is_buy: true,
+  sz: 1,
+  limit_px: 20.71,
+  reduce_only: false,
+  order_type: { market: {} },
+};
+
+const refusal = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(RiskPolicyError);
+    return error as RiskPolicyError;
+  }
+  throw new Error("expected the order to be refused");
+};
+
+describe("Risk policy", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("reads the agent limits from settings", () => {
+    const runtime = createMockRuntime({
+      HYPERLIQUID_MAX_ORDER_NOTIONAL: "500",
+      HYPERLIQUID_ALLOWED_COINS: "hype, eth",
+    });
+    expect(agentRiskLimits(runtime)).toEqual({
+      maxOrderNotional: 500,
+      maxDailyVolume: undefined,
+      allowedCoins: ["HYPE", "ETH"],
+      maxOpenOrders: undefined,
+    });
+  });
+
+  it("only lets OWNER and ADMIN entities trade", async () => {
+    const runtime = createMockRuntime();
+    (runtime.getWorld as any).mockResolvedValue({
+      metadata: { roles: { [MOCK_ENTITY_ID]: "MEMBER" } },
+    });
+
+    const error = await refusal(
+      enforceRiskPolicy(
+        runtime,
+        { ...order("HYPE", 10), phase: "preview" },
+        sdk
+      )
+    );
+    expect(error.rule).toBe("role");
+    expect(runtime.log).toHaveBeenCalledWith({
+      entityId: MOCK_ENTITY_ID,
+      roomId: ROOM_ID,
+      type: "hyperliquid_risk_decision",
+      body: expect.objectContaining({
+        decision: "rejected",
+        rule: "role",
+        coin: "HYPE",
+        phase: "preview",
+      }),
+    });
+
+    // the runtime returns "false" as a boolean
+    for (const disabled of ["false", false]) {
+      const anyone = createMockRuntime({ HYPERLIQUID_REQUIRE_ROLE: disabled });
+      (anyone.getWorld as any).mockResolvedValue(null);
+      await enforceRiskPolicy(
+        anyone,
+        { ...order("HYPE", 10), phase: "preview" },
+        sdk
+      );
+    }
+  });
+
+  it("lets the owners and admins of the agent's servers trade in DMs", async () => {
+    const runtime = createMockRuntime();
+    (runtime.getRoom as any).mockResolvedValue({
+      id: ROOM_ID,
+      source: "telegram",
+    });
+
+    const error = await refusal(
+      enforceRiskPolicy(
+        runtime,
+        { ...order("HYPE", 10), phase: "preview" },
+        sdk
+      )
+    );
+    expect(error.rule).toBe("role");
+    expect(error.message).toContain(
+      "Trading in DMs is limited to entities with an OWNER/ADMIN role on one of the agent's servers"
+    );
+
+    (runtime.getAllWorlds as any).mockResolvedValue([
+      { metadata: { ownership: { ownerId: MOCK_ENTITY_ID } } },
+    ]);
+    await enforceRiskPolicy(
+      runtime,
+      { ...order("HYPE", 10), phase: "preview" },
+      sdk
+    );
+
+    (runtime.getAllWorlds as any).mockResolvedValue([
+      { metadata: { roles: { [MOCK_ENTITY_ID]: "ADMIN" } } },
+    ]);
+    await enforceRiskPolicy(
+      runtime,
+      { ...order("HYPE", 10), phase: "execution" },
+      sdk
+    );
+  });
+
+  it("applies the entity limits before the agent ones", async () => {
+    const runtime = createMockRuntime({
+      HYPERLIQUID_ALLOWED_COINS: "HYPE,ETH",
+      HYPERLIQUID_MAX_ORDER_NOTIONAL: "1000",
+      HYPERLIQUID_ENTITY_LIMITS: JSON.stringify({
+        [MOCK_ENTITY_ID]: { maxOrderNotional: 50 },
+      }),
+    });
+
+    expect(
+      (
+        await refusal(
+          placeOrderWithPolicy(runtime, sdk, order("PIP", 10), request)
+        )
+      ).rule
+    ).toBe("allowed_coins");
+    const notional = await refusal(
+      placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request)
+    );
+    expect(notional.message).toContain("exceeds your limit of 50 USDC");
+    expect(mockHyperliquidSdk.exchange.placeOrder).not.toHaveBeenCalled();
+
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 40), request);
+    expect(mockHyperliquidSdk.exchange.placeOrder).toHaveBeenCalledWith(
+      request
+    );
+    expect(runtime.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          decision: "accepted",
+          phase: "execution",
+        }),
+      })
+    );
+  });
+
+  it("counts the daily volume of placed orders", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MAX_DAILY_VOLUME: "100" });
+
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request);
+    const error = await refusal(
+      placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request)
+    );
+    expect(error.rule).toBe("max_daily_volume");
+    expect(error.message).toContain("the agent's volume today to 120.00 USDC");
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 40), request);
+  });
+
+  it("does not count failed or rejected orders in the daily volume", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MAX_DAILY_VOLUME: "100" });
+    mockHyperliquidSdk.exchange.placeOrder
+      .mockResolvedValueOnce({ status: "err", response: "Internal error" })
+      .mockResolvedValueOnce({
+        status: "ok",
+        response: {
+          type: "order",
+          data: { statuses: [{ error: "Insufficient balance" }] },
+        },
+      });
+
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request);
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request);
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request);
+    const error = await refusal(
+      placeOrderWithPolicy(runtime, sdk, order("HYPE", 60), request)
+    );
+    expect(error.rule).toBe("max_daily_volume");
+  });
+
+  it("lets reduce-only closes through the coin and volume limits", async () => {
+    const runtime = createMockRuntime({
+      HYPERLIQUID_ALLOWED_COINS: "HYPE",
+      HYPERLIQUID_MAX_ORDER_NOTIONAL: "1000",
+      HYPERLIQUID_MAX_DAILY_VOLUME: "1000",
+    });
+    const close = { ...order("ETH", 2450), reduceOnly: true };
+
+    await placeOrderWithPolicy(runtime, sdk, order("HYPE", 900), request);
+    await placeOrderWithPolicy(runtime, sdk, close, request);
+    expect(runtime.log).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          decision: "accepted",
+          reduceOnly: true,
+        }),
+      })
+    );
+    expect(
+      (
+        await refusal(
+          placeOrderWithPolicy(runtime, sdk, order("HYPE", 10), request)
+        )
+      ).rule
+    ).toBe("max_daily_volume");
+
+    // the role requirement still applies
+    (runtime.getWorld as any).mockResolvedValue(null);
+    expect(
+      (await refusal(placeOrderWithPolicy(runtime, sdk, close, request))).rule
+    ).toBe("role");
+  });
+
+  it("refuses new orders past the open orders limit", async () => {
+    const runtime = createMockRuntime({ HYPERLIQUID_MAX_OPEN_ORDERS: "2" });
+    expect(
+      (
+        await refusal(
+          placeOrderWithPolicy(runtime, sdk, order("HYPE", 10), request)
+        )
+      ).message
+    ).toContain("HYPERLIQUID_WALLET_ADDRESS is required");
+
+    const withAddress = createMockRuntime({
+      HYPERLIQUID_MAX_OPEN_ORDERS: "2",
+      HYPERLIQUID_WALLET_ADDRESS: "0xabc",
+    });
+    mockHyperliquidSdk.info.getUserOpenOrders.mockResolvedValueOnce([
+      { oid: 1 },
+      { oid: 2 },
+    ]);
+    const error = await refusal(
+      placeOrderWithPolicy(withAddress, sdk, order("HYPE", 10), request)
+    );
+    expect(error.rule).toBe("max_open_orders");
+    expect(mockHyperliquidSdk.info.getUserOpenOrders).toHaveBeenCalledWith(
+      "0xabc"
+    );
+  });
+});
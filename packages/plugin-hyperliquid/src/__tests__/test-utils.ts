@@ -1,11 +1,32 @@
 import { jest } from "bun:test";
 import type { AgentRuntime, Memory, State } from "@elizaos/core";
 
+export const MOCK_ENTITY_ID = "00000000-0000-0000-0000-000000000002";
+
 export const createMockRuntime = (
   settings: Record<string, any> = {}
 ): AgentRuntime => {
+  const cache = new Map<string, unknown>();
   const mockRuntime = {
     getSetting: jest.fn((key: string) => settings[key]),
+    getCache: jest.fn(async (key: string) => cache.get(key)),
+    setCache: jest.fn(async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    }),
+    deleteCache: jest.fn(async (key: string) => cache.delete(key)),
+    // the test memory's entity is OWNER of the room's server
+    getRoom: jest.fn(async (id: string) => ({
+      id,
+      source: "test",
+      serverId: "test-server",
+    })),
+    getWorld: jest.fn().mockResolvedValue({
+      metadata: { roles: { [MOCK_ENTITY_ID]: "OWNER" } },
+    }),
+    getAllWorlds: jest.fn().mockResolvedValue([]),
+    log: jest.fn().mockResolvedValue(undefined),
+    sendMessageToTarget: jest.fn().mockResolvedValue(undefined),
     composeState: jest.fn().mockResolvedValue({
       userId: "test-user",
       entityId: "test-entity",
@@ -29,7 +50,7 @@ export const createMockRuntime = (
 
 export const createMockMemory = (content: string = "Test message"): Memory => ({
   id: "00000000-0000-0000-0000-000000000001" as any,
-  entityId: "00000000-0000-0000-0000-000000000002" as any,
+  entityId: MOCK_ENTITY_ID as any,
   agentId: "00000000-0000-0000-0000-000000000003" as any,
   roomId: "00000000-0000-0000-0000-000000000004" as any,
   content: {
@@ -54,7 +75,97 @@ export const createMockCallback = () => jest.fn();
 export const mockHyperliquidSdk = {
   connect: jest.fn().mockResolvedValue(undefined),
   info: {
+    getUserOpenOrders: jest.fn().mockResolvedValue([]),
+    getUserFills: jest.fn().mockResolvedValue([]),
+    perpetuals: {
+      getMetaAndAssetCtxs: jest.fn().mockResolvedValue([
+        {
+          universe: [
+            { name: "BTC-PERP", szDecimals: 5, maxLeverage: 40 },
+            { name: "ETH-PERP", szDecimals: 4, maxLeverage: 25 },
+            {
+              name: "PURR-PERP",
+              szDecimals: 0,
+              maxLeverage: 3,
+              onlyIsolated: true,
+            },
+          ],
+        },
+        [
+          {
+            funding: "0.0000125",
+            markPx: "65010",
+            midPx: "65000",
+            oraclePx: "65020",
+            openInterest: "20000",
+            prevDayPx: "64000",
+            dayNtlVlm: "1500000000",
+          },
+          {
+            funding: "-0.00001",
+            markPx: "2450.5",
+            midPx: "2450.4",
+            oraclePx: "2451",
+            openInterest: "300000",
+            prevDayPx: "2400",
+            dayNtlVlm: "500000000",
+          },
+          {
+            funding: "0.00002",
+            markPx: "0.185",
+            midPx: "0.1851",
+            oraclePx: "0.185",
+            openInterest: "1000000",
+            prevDayPx: "0.18",
+            dayNtlVlm: "100000",
+          },
+        ],
+      ]),
+      getClearinghouseState: jest.fn().mockResolvedValue({
+        assetPositions: [
+          {
+            type: "oneWay",
+            position: {
+              coin: "ETH-PERP",
+              cumFunding: {
+                allTime: "1.5",
+                sinceChange: "0.3",
+                sinceOpen: "-0.42",
+              },
+              entryPx: "2500",
+              leverage: { type: "cross", value: 10 },
+              liquidationPx: "2740.1",
+              marginUsed: "245.05",
+              maxLeverage: 25,
+              positionValue: "2450.5",
+              returnOnEquity: "0.2",
+              szi: "-1.0",
+              unrealizedPnl: "49.5",
+            },
+          },
+        ],
+        marginSummary: {
+          accountValue: "1000",
+          totalMarginUsed: "245.05",
+          totalNtlPos: "2450.5",
+          totalRawUsd: "3450.5",
+        },
+        crossMarginSummary: {
+          accountValue: "1000",
+          totalMarginUsed: "245.05",
+          totalNtlPos: "2450.5",
+          totalRawUsd: "3450.5",
+        },
+        withdrawable: "754.95",
+      }),
+    },
     spot: {
+      getSpotClearinghouseState: jest.fn().mockResolvedValue({
+        balances: [
+          { coin: "USDC", hold: "20.5", total: "1000" },
+          { coin: "HYPE", hold: "0", total: "2" },
+        ],
+      }),
       getSpotMetaAndAssetCtxs: jest.fn().mockResolvedValue([
         {
           tokens: [
@@ -101,6 +212,14 @@ export const mockHyperliquidSdk = {
         },
       },
     }),
+    updateLeverage: jest.fn().mockResolvedValue({
+      status: "ok",
+      response: { type: "default" },
+    }),
+    cancelOrder: jest.fn().mockResolvedValue({
+      status: "ok",
+      response: { type: "cancel", data: { statuses: ["success"] } },
+    }),
   },
   custom: {
     cancelAllOrders: jest.fn().mockResolvedValue({
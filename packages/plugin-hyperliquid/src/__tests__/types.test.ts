@@ -2,6 +2,8 @@ import { describe, it, expect } from "bun:test";
 import { z } from "zod";
 import {
   SpotOrderSchema,
+  PerpOrderSchema,
+  OrderSchema,
   HyperliquidError,
   ORDER_STATUS,
   PRICE_VALIDATION,
@@ -102,6 +104,105 @@ describe("Types and Schemas", () => {
     });
   });
 
+  describe("PerpOrderSchema", () => {
+    const long = {
+      market: "perp",
+      coin: "BTC",
+      is_buy: true,
+      sz: 0.01,
+      limit_px: 65000,
+    };
+
+    it("should validate a leveraged order with take-profit and stop-loss", () => {
+      const result = PerpOrderSchema.safeParse({
+        ...long,
+        leverage: 5,
+        margin_mode: "isolated",
+        take_profit: 70000,
+        stop_loss: 62000,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.reduce_only).toBe(false);
+      }
+    });
+
+    it("should reject triggers on the wrong side of the entry", () => {
+      const result = PerpOrderSchema.safeParse({
+        ...long,
+        is_buy: false,
+        take_profit: 70000,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe(
+          "Take-profit must be below the entry price of a short"
+        );
+      }
+    });
+
+    it("should reject triggers on reduce-only orders", () => {
+      expect(
+        PerpOrderSchema.safeParse({
+          ...long,
+          reduce_only: true,
+          stop_loss: 62000,
+        }).success
+      ).toBe(false);
+    });
+
+    it("should reject a margin mode without leverage", () => {
+      expect(
+        PerpOrderSchema.safeParse({ ...long, margin_mode: "cross" }).success
+      ).toBe(false);
+    });
+
+    it("should reject out of range leverage", () => {
+      expect(PerpOrderSchema.safeParse({ ...long, leverage: 0 }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe("OrderSchema", () => {
+    it("should tell spot and perp orders apart by market", () => {
+      const spot = OrderSchema.parse({
+        market: "spot",
+        coin: "HYPE",
+        is_buy: true,
+        sz: 1,
+        limit_px: null,
+      });
+      expect(spot).toMatchObject({ market: "spot", order_type: {} });
+
+      const perp = OrderSchema.parse({
+        market: "perp",
+        coin: "ETH",
+        is_buy: false,
+        sz: 1,
+        limit_px: null,
+        reduce_only: true,
+      });
+      expect(perp).toMatchObject({ market: "perp", reduce_only: true });
+    });
+
+    it("should apply the perp rules to perp orders", () => {
+      expect(
+        OrderSchema.safeParse({
+          market: "perp",
+          coin: "BTC",
+          is_buy: true,
+          sz: 0.01,
+          limit_px: 65000,
+          stop_loss: 66000,
+        }).success
+      ).toBe(false);
+      expect(
+        OrderSchema.safeParse({ market: "futures", coin: "BTC" }).success
+      ).toBe(false);
+    });
+  });
+
   describe("HyperliquidError", () => {
     it("should create error with message only", () => {
       const error = new HyperliquidError("Test error");
@@ -0,0 +1,246 @@
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import { type HyperliquidClient, accountAddress } from "./client.js";
+import { roleRefusal } from "./riskPolicy.js";
+import {
+  type BalanceResponse,
+  type FillResponse,
+  HyperliquidError,
+  ORDER_STATUS,
+  type OrderResponse,
+  type PositionResponse,
+  RiskPolicyError,
+} from "./types.js";
+
+export const DEFAULT_FILLS_LIMIT = 10;
+
+// the SDK names markets "HYPE-SPOT" / "BTC-PERP"; chat and results use the coin
+const coinName = (coin: string) => coin.replace(/-(?:SPOT|PERP)$/i, "");
+const marketOf = (coin: string): "spot" | "perp" =>
+  /-PERP$/i.test(coin) ? "perp" : "spot";
+
+/** SDK symbol of a coin's market: "HYPE" -> "HYPE-SPOT". */
+export const marketSymbol = (coin: string, market: "spot" | "perp" = "spot") =>
+  `${coin}-${market.toUpperCase()}`;
+
+const formatAmount = (value: number) => Number(value.toPrecision(8)).toString();
+
+/** Address of the account to query; throws when the agent has none. */
+export function requireAccountAddress(runtime: IAgentRuntime): string {
+  const address = accountAddress(runtime);
+  if (!address) {
+    throw new HyperliquidError(
+      "HYPERLIQUID_WALLET_ADDRESS is required to read the account"
+    );
+  }
+  return address;
+}
+
+/** True when the agent has an account and the message's entity may trade, and so read, it. */
+export async function canReadAccount(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<boolean> {
+  if (!accountAddress(runtime)) return false;
+  return !(await roleRefusal(runtime, message.entityId, message.roomId));
+}
+
+/** Like `requireAccountAddress`, and throws when the entity may not read the account. */
+export async function requireAccountAccess(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<string> {
+  const address = requireAccountAddress(runtime);
+  const refusal = await roleRefusal(runtime, message.entityId, message.roomId);
+  if (refusal) {
+    throw new RiskPolicyError(
+      `The account is not readable here: ${refusal}`,
+      "role"
+    );
+  }
+  return address;
+}
+
+/** Spot balances with their USDC value at the current mids; empty ones are left out. */
+export async function fetchBalances(
+  sdk: HyperliquidClient,
+  address: string
+): Promise<BalanceResponse[]> {
+  const [{ balances }, [, contexts]] = await Promise.all([
+    sdk.info.spot.getSpotClearinghouseState(address),
+    sdk.info.spot.getSpotMetaAndAssetCtxs(),
+  ]);
+  const mids = new Map(
+    contexts
+      .filter((ctx) => ctx.midPx)
+      .map((ctx) => [coinName(ctx.coin), Number(ctx.midPx)])
+  );
+
+  return balances
+    .map((balance) => {
+      const total = Number(balance.total);
+      const locked = Number(balance.hold);
+      const mid = balance.coin === "USDC" ? 1 : mids.get(balance.coin);
+      return {
+        coin: balance.coin,
+        free: total - locked,
+        locked,
+        usdcValue: mid === undefined ? undefined : total * mid,
+      };
+    })
+    .filter((balance) => balance.free + balance.locked > 0);
+}
+
+export async function fetchOpenOrders(
+  sdk: HyperliquidClient,
+  address: string
+): Promise<OrderResponse[]> {
+  const orders = await sdk.info.getUserOpenOrders(address);
+  return orders.map((order) => ({
+    coin: coinName(order.coin),
+    orderId: String(order.oid),
+    status: ORDER_STATUS.OPEN,
+    size: Number(order.sz),
+    price: Number(order.limitPx),
+    is_buy: order.side === "B",
+    market: marketOf(order.coin),
+  }));
+}
+
+/** The `limit` most recent fills, newest first. */
+export async function fetchFills(
+  sdk: HyperliquidClient,
+  address: string,
+  limit = DEFAULT_FILLS_LIMIT
+): Promise<FillResponse[]> {
+  const fills = await sdk.info.getUserFills(address);
+  return [...fills]
+    .sort((a, b) => b.time - a.time)
+    .slice(0, limit)
+    .map((fill) => ({
+      coin: coinName(fill.coin),
+      orderId: String(fill.oid),
+      is_buy: fill.side === "B",
+      size: Number(fill.sz),
+      price: Number(fill.px),
+      fee: Number(fill.fee),
+      feeToken: fill.feeToken,
+      closedPnl: Number(fill.closedPnl),
+      time: fill.time,
+      market: marketOf(fill.coin),
+    }));
+}
+
+/** Open perp positions, with the mark price and funding rate of their perp. */
+export async function fetchPositions(
+  sdk: HyperliquidClient,
+  address: string
+): Promise<PositionResponse[]> {
+  const [state, [meta, contexts]] = await Promise.all([
+    sdk.info.perpetuals.getClearinghouseState(address),
+    sdk.info.perpetuals.getMetaAndAssetCtxs(),
+  ]);
+  const markets = new Map(
+    meta.universe.map((perp, index) => [coinName(perp.name), contexts[index]])
+  );
+
+  return state.assetPositions
+    .map(({ position }) => {
+      const size = Number(position.szi);
+      const market = markets.get(coinName(position.coin));
+      return {
+        coin: coinName(position.coin),
+        side: size < 0 ? ("short" as const) : ("long" as const),
+        size: Math.abs(size),
+        entryPrice: Number(position.entryPx),
+        markPrice: market ? Number(market.markPx) : undefined,
+        liquidationPrice: position.liquidationPx
+          ? Number(position.liquidationPx)
+          : null,
+        leverage: position.leverage.value,
+        marginMode:
+          position.leverage.type === "isolated"
+            ? ("isolated" as const)
+            : ("cross" as const),
+        marginUsed: Number(position.marginUsed),
+        positionValue: Number(position.positionValue),
+        unrealizedPnl: Number(position.unrealizedPnl),
+        fundingSinceOpen: Number(position.cumFunding.sinceOpen),
+        fundingRate: market ? Number(market.funding) : undefined,
+      };
+    })
+    .filter((position) => position.size > 0);
+}
+
+export function formatBalances(balances: BalanceResponse[]): string {
+  if (!balances.length) return "No spot balances on the account";
+  const total = balances.reduce(
+    (sum, balance) => sum + (balance.usdcValue ?? 0),
+    0
+  );
+  const lines = balances.map((balance) => {
+    const amount = formatAmount(balance.free + balance.locked);
+    const locked = balance.locked
+      ? ` (${formatAmount(balance.locked)} in open orders)`
+      : "";
+    const value =
+      balance.usdcValue !== undefined && balance.coin !== "USDC"
+        ? ` ≈ ${balance.usdcValue.toFixed(2)} USDC`
+        : "";
+    return `- ${balance.coin}: ${amount}${locked}${value}`;
+  });
+  return [
+    `Spot balances (≈ ${total.toFixed(2)} USDC in total):`,
+    ...lines,
+  ].join("\n");
+}
+
+const marketName = (coin: string, market?: "spot" | "perp") =>
+  market === "perp" ? marketSymbol(coin, market) : coin;
+
+export function formatOpenOrders(orders: OrderResponse[]): string {
+  if (!orders.length) return "No open orders";
+  return [
+    `${orders.length} open order${orders.length > 1 ? "s" : ""}:`,
+    ...orders.map(
+      (order) =>
+        `- #${order.orderId}: ${order.is_buy ? "buy" : "sell"} ${formatAmount(order.size)} ${marketName(order.coin, order.market)} at ${formatAmount(order.price)} USDC`
+    ),
+  ].join("\n");
+}
+
+const signed = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+
+export function formatPositions(positions: PositionResponse[]): string {
+  if (!positions.length) return "No open perp positions";
+  const pnl = positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+  return [
+    `${positions.length} open position${positions.length > 1 ? "s" : ""} (unrealized PnL ${signed(pnl)} USDC):`,
+    ...positions.map((position) => {
+      const mark =
+        position.markPrice !== undefined
+          ? `, mark ${formatAmount(position.markPrice)}`
+          : "";
+      const liquidation =
+        position.liquidationPrice === null
+          ? "no liquidation price"
+          : `liquidation ${formatAmount(position.liquidationPrice)}`;
+      const rate =
+        position.fundingRate !== undefined
+          ? `, funding rate ${(position.fundingRate * 100).toFixed(4)}%/h`
+          : "";
+      return `- ${position.coin} ${position.side} ${formatAmount(position.size)} at ${formatAmount(position.entryPrice)}${mark} (${position.leverage}x ${position.marginMode}): PnL ${signed(position.unrealizedPnl)} USDC, ${liquidation}, funding paid ${position.fundingSinceOpen.toFixed(2)} USDC${rate}`;
+    }),
+  ].join("\n");
+}
+
+export function formatFills(fills: FillResponse[]): string {
+  if (!fills.length) return "No recent fills";
+  const pnl = fills.reduce((sum, fill) => sum + fill.closedPnl, 0);
+  return [
+    `Last ${fills.length} fill${fills.length > 1 ? "s" : ""} (realized PnL ${pnl.toFixed(2)} USDC):`,
+    ...fills.map(
+      (fill) =>
+        `- ${new Date(fill.time).toISOString().slice(0, 16).replace("T", " ")} UTC: ${fill.is_buy ? "bought" : "sold"} ${formatAmount(fill.size)} ${marketName(fill.coin, fill.market)} at ${formatAmount(fill.price)} USDC (fee ${formatAmount(fill.fee)} ${fill.feeToken}, order #${fill.orderId})`
+    ),
+  ].join("\n");
+}
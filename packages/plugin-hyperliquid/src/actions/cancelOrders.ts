@@ -1,55 +1,156 @@
 import {
   type Action,
   type ActionExample,
+  type ActionResult,
   type IAgentRuntime,
   type Memory,
   type State,
   type HandlerCallback,
   logger,
+  ModelType,
+  parseKeyValueXml,
 } from "@elizaos/core";
-import { Hyperliquid } from "hyperliquid";
+import type { CancelOrderResponse } from "hyperliquid";
+import { isPendingOrderReply } from "../pendingOrders.js";
+import { canPlaceOrders, createHyperliquidClient } from "../client.js";
+import {
+  fetchOpenOrders,
+  marketSymbol,
+  requireAccountAddress,
+} from "../account.js";
+import { cancelOrdersTemplate } from "../templates.js";
+
+interface CancelScope {
+  /** Only the orders of this coin; all coins when unset. */
+  coin?: string;
+  /** Only these orders; takes precedence over `coin`. */
+  orderIds: string[];
+}
+
+const isSet = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "" && value !== "null";
+
+/** Which orders to cancel; everything when nothing narrower was asked for. */
+async function cancelScope(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined
+): Promise<CancelScope> {
+  const currentState = state || (await runtime.composeState(message));
+  const result = await runtime.useModel(ModelType.TEXT_SMALL, {
+    prompt: cancelOrdersTemplate.replace(
+      "{{recentMessages}}",
+      currentState.recentMessagesString || ""
+    ),
+  });
+  const parsed = parseKeyValueXml(result) ?? {};
+
+  return {
+    coin: isSet(parsed.coin)
+      ? parsed.coin
+          .trim()
+          .toUpperCase()
+          .replace(/-(?:SPOT|PERP)$/, "")
+      : undefined,
+    orderIds: isSet(parsed.order_ids)
+      ? parsed.order_ids
+          .split(/[\s,]+/)
+          .map((id: string) => id.replace(/^#/, ""))
+          .filter((id: string) => /^\d+$/.test(id))
+      : [],
+  };
+}
+
+const cancelledCount = (result: CancelOrderResponse | undefined) =>
+  (result?.response?.data?.statuses ?? []).filter((status) =>
+    typeof status === "string" ? status === "success" : !status?.error
+  ).length;
+
+const cancelErrors = (result: CancelOrderResponse | undefined) =>
+  (result?.response?.data?.statuses ?? []).flatMap((status) =>
+    typeof status === "object" && status?.error ? [status.error] : []
+  );
 
 export const cancelOrders: Action = {
   name: "CANCEL_ORDERS",
-  similes: ["CANCEL_ALL_ORDERS", "CANCEL", "CANCEL_ALL"],
-  description: "Cancel all open orders on Hyperliquid",
-  validate: async (runtime: IAgentRuntime) => {
-    return !!runtime.getSetting("HYPERLIQUID_PRIVATE_KEY");
+  similes: ["CANCEL_ALL_ORDERS", "CANCEL", "CANCEL_ALL", "CANCEL_ORDER"],
+  description:
+    "Cancel open orders on Hyperliquid: all of them, those of one coin, or specific order ids",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (!canPlaceOrders(runtime)) return false;
+    // a bare "cancel" drops the pending order preview, not the open orders
+    return !(await isPendingOrderReply(runtime, message));
   },
   handler: async (
     runtime: IAgentRuntime,
-    _message: Memory,
-    _state: State | undefined,
+    message: Memory,
+    state: State | undefined,
     _options: Record<string, unknown> | undefined,
     callback?: HandlerCallback
-  ) => {
+  ): Promise<ActionResult> => {
     try {
-      // Initialize SDK
-      const sdk = new Hyperliquid({
-        privateKey: runtime.getSetting("HYPERLIQUID_PRIVATE_KEY"),
-        testnet: runtime.getSetting("HYPERLIQUID_TESTNET") === "true",
-        enableWs: false,
-      });
-      await sdk.connect();
+      const scope = await cancelScope(runtime, message, state);
 
-      logger.info("Cancelling all open orders...");
-      const result = await sdk.custom.cancelAllOrders();
-      logger.info("Cancel result:", result);
+      // Initialize SDK (or the paper exchange in paper mode)
+      const sdk = await createHyperliquidClient(runtime);
 
-      if (callback) {
-        const cancelledCount = result?.response?.data?.statuses?.length || 0;
-        callback({
-          text:
-            cancelledCount > 0
-              ? `Successfully cancelled ${cancelledCount} open order${cancelledCount > 1 ? "s" : ""}`
-              : "No open orders to cancel",
-          content: result,
+      const notes: string[] = [];
+      let result: CancelOrderResponse | undefined;
+      if (scope.orderIds.length) {
+        // cancelling by id needs the coin of each order
+        const open = await fetchOpenOrders(sdk, requireAccountAddress(runtime));
+        const requests = scope.orderIds.flatMap((id) => {
+          const order = open.find((candidate) => candidate.orderId === id);
+          if (!order) notes.push(`order #${id} is not open`);
+          return order
+            ? [{ coin: marketSymbol(order.coin, order.market), o: Number(id) }]
+            : [];
         });
+        if (requests.length) {
+          logger.info(`Cancelling orders ${scope.orderIds.join(", ")}...`);
+          result = await sdk.exchange.cancelOrder(requests);
+        }
+      } else if (scope.coin) {
+        logger.info(`Cancelling open ${scope.coin} orders...`);
+        // the coin's spot and perp orders alike
+        const [spot, perp] = [
+          await sdk.custom.cancelAllOrders(marketSymbol(scope.coin, "spot")),
+          await sdk.custom.cancelAllOrders(marketSymbol(scope.coin, "perp")),
+        ];
+        result = {
+          ...spot,
+          response: {
+            type: "cancel",
+            data: {
+              statuses: [
+                ...(spot?.response?.data?.statuses ?? []),
+                ...(perp?.response?.data?.statuses ?? []),
+              ],
+            },
+          },
+        };
+      } else {
+        logger.info("Cancelling all open orders...");
+        result = await sdk.custom.cancelAllOrders();
       }
+      logger.info(`Cancel result: ${JSON.stringify(result)}`);
 
-      return true;
+      const count = cancelledCount(result);
+      const orders =
+        scope.coin && !scope.orderIds.length ? `${scope.coin} order` : "order";
+      const summary =
+        count > 0
+          ? `Successfully cancelled ${count} open ${orders}${count > 1 ? "s" : ""}`
+          : `No open ${orders}s to cancel`;
+      notes.push(...cancelErrors(result));
+      const text = notes.length ? `${summary} (${notes.join("; ")})` : summary;
+
+      if (callback) {
+        callback({ text, content: result ?? { notes } });
+      }
+      return { success: true, text, data: { cancelled: count, notes, result } };
     } catch (error) {
-      logger.error("Error cancelling orders:", error);
+      logger.error(`Error cancelling orders: ${error}`);
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       if (callback) {
@@ -58,7 +159,11 @@ export const cancelOrders: Action = {
           content: { error: errorMessage },
         });
       }
-      return false;
+      return {
+        success: false,
+        text: `Error cancelling orders: ${errorMessage}`,
+        error: errorMessage,
+      };
     }
   },
   examples: [
@@ -83,6 +188,48 @@ export const cancelOrders: Action = {
         },
       },
     ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Cancel my HYPE orders",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll cancel your HYPE orders.",
+          action: "CANCEL_ORDERS",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Successfully cancelled 1 open HYPE order",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Cancel order 91490942",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll cancel order 91490942.",
+          action: "CANCEL_ORDERS",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Successfully cancelled 1 open order",
+        },
+      },
+    ],
   ],
 };
 
@@ -0,0 +1,121 @@
+import {
+  type Action,
+  type ActionExample,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type HandlerCallback,
+  logger,
+} from "@elizaos/core";
+import { HyperliquidError } from "../types.js";
+import {
+  isPendingOrderReply,
+  parseConfirmationReply,
+  resolvePendingOrder,
+} from "../pendingOrders.js";
+import { canPlaceOrders } from "../client.js";
+
+export const confirmOrder: Action = {
+  name: "CONFIRM_ORDER",
+  similes: ["CONFIRM_TRADE", "EXECUTE_ORDER", "REJECT_ORDER"],
+  description:
+    "Execute or drop the order preview waiting for the user's confirmation on Hyperliquid",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (!canPlaceOrders(runtime)) return false;
+    return isPendingOrderReply(runtime, message);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const reply = parseConfirmationReply(message.content?.text);
+      if (!reply) {
+        throw new HyperliquidError(
+          'Reply "confirm" or "cancel" to an order preview'
+        );
+      }
+
+      const outcome = await resolvePendingOrder(runtime, {
+        roomId: message.roomId,
+        entityId: message.entityId,
+        reply,
+      });
+      logger.info(`Order confirmation (${reply.decision}): ${outcome.text}`);
+
+      if (callback) {
+        callback({ text: outcome.text, content: outcome.content });
+      }
+      return {
+        success: outcome.success,
+        text: outcome.text,
+        data: outcome.content,
+      };
+    } catch (error) {
+      logger.error(`Error confirming order: ${error}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (callback) {
+        callback({
+          text: `Error placing order: ${errorMessage}`,
+          content: { error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `Error placing order: ${errorMessage}`,
+        error: errorMessage,
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Placing the order you confirmed.",
+          action: "CONFIRM_ORDER",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Successfully placed a market order to buy 1 HYPE at 20.71",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "cancel",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Dropping the order preview.",
+          action: "CONFIRM_ORDER",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Cancelled order preview #3f9a1c2e (buy 1 HYPE); nothing was sent to Hyperliquid.",
+        },
+      },
+    ],
+  ],
+};
+
+export default confirmOrder;
@@ -0,0 +1,89 @@
+import {
+  type Action,
+  type ActionExample,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type HandlerCallback,
+  logger,
+} from "@elizaos/core";
+import { createHyperliquidClient } from "../client.js";
+import {
+  fetchBalances,
+  formatBalances,
+  canReadAccount,
+  requireAccountAccess,
+} from "../account.js";
+
+export const getBalances: Action = {
+  name: "GET_BALANCES",
+  similes: ["CHECK_BALANCES", "SHOW_BALANCES", "WALLET_BALANCES"],
+  description: "Show the spot balances held on the Hyperliquid account",
+  validate: async (runtime: IAgentRuntime, message: Memory) =>
+    canReadAccount(runtime, message),
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const address = await requireAccountAccess(runtime, message);
+      // Reading the account does not need the private key
+      const sdk = await createHyperliquidClient(runtime, {
+        authenticated: false,
+      });
+
+      const balances = await fetchBalances(sdk, address);
+      const text = formatBalances(balances);
+      logger.info(`Fetched balances: ${balances.length}`);
+
+      if (callback) {
+        callback({ text, content: { balances } });
+      }
+      return { success: true, text, data: { balances } };
+    } catch (error) {
+      logger.error(`Error fetching balances: ${error}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (callback) {
+        callback({
+          text: `Error fetching balances: ${errorMessage}`,
+          content: { error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `Error fetching balances: ${errorMessage}`,
+        error: errorMessage,
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "What do I hold on Hyperliquid?",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me check your balances.",
+          action: "GET_BALANCES",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Spot balances (\u2248 1041.40 USDC in total):\n- USDC: 1000 (20.6 in open orders)\n- HYPE: 2 \u2248 41.40 USDC",
+        },
+      },
+    ],
+  ],
+};
+
+export default getBalances;
@@ -0,0 +1,99 @@
+import {
+  type Action,
+  type ActionExample,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type HandlerCallback,
+  logger,
+} from "@elizaos/core";
+import { createHyperliquidClient } from "../client.js";
+import {
+  DEFAULT_FILLS_LIMIT,
+  fetchFills,
+  formatFills,
+  canReadAccount,
+  requireAccountAccess,
+} from "../account.js";
+
+// "last 5 fills" asks for a specific number of fills
+const LAST_COUNT = /\b(?:last|latest|recent)\s+(\d{1,3})\b/i;
+
+export const getFills: Action = {
+  name: "GET_FILLS",
+  similes: ["RECENT_FILLS", "TRADE_HISTORY", "MY_TRADES", "FILL_HISTORY"],
+  description:
+    "Show the recent fills and realized PnL of the Hyperliquid account",
+  validate: async (runtime: IAgentRuntime, message: Memory) =>
+    canReadAccount(runtime, message),
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const address = await requireAccountAccess(runtime, message);
+      // Reading the account does not need the private key
+      const sdk = await createHyperliquidClient(runtime, {
+        authenticated: false,
+      });
+
+      const count = Number(LAST_COUNT.exec(message.content?.text ?? "")?.[1]);
+      const fills = await fetchFills(
+        sdk,
+        address,
+        count > 0 ? count : DEFAULT_FILLS_LIMIT
+      );
+      const text = formatFills(fills);
+      logger.info(`Fetched fills: ${fills.length}`);
+
+      if (callback) {
+        callback({ text, content: { fills } });
+      }
+      return { success: true, text, data: { fills } };
+    } catch (error) {
+      logger.error(`Error fetching fills: ${error}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (callback) {
+        callback({
+          text: `Error fetching fills: ${errorMessage}`,
+          content: { error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `Error fetching fills: ${errorMessage}`,
+        error: errorMessage,
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Show my last 2 trades",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me get your recent fills.",
+          action: "GET_FILLS",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Last 2 fills (realized PnL 1.20 USDC):\n- 2025-06-02 14:05 UTC: sold 1 HYPE at 21.9 USDC (fee 0.0153 USDC, order #91490943)\n- 2025-06-02 09:41 UTC: bought 1 HYPE at 20.7 USDC (fee 0.0007 HYPE, order #91490942)",
+        },
+      },
+    ],
+  ],
+};
+
+export default getFills;
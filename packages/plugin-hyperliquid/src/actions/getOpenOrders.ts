@@ -0,0 +1,89 @@
+import {
+  type Action,
+  type ActionExample,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type HandlerCallback,
+  logger,
+} from "@elizaos/core";
+import { createHyperliquidClient } from "../client.js";
+import {
+  fetchOpenOrders,
+  formatOpenOrders,
+  canReadAccount,
+  requireAccountAccess,
+} from "../account.js";
+
+export const getOpenOrders: Action = {
+  name: "GET_OPEN_ORDERS",
+  similes: ["OPEN_ORDERS", "LIST_ORDERS", "SHOW_ORDERS", "PENDING_ORDERS"],
+  description: "List the open orders of the Hyperliquid account",
+  validate: async (runtime: IAgentRuntime, message: Memory) =>
+    canReadAccount(runtime, message),
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const address = await requireAccountAccess(runtime, message);
+      // Reading the account does not need the private key
+      const sdk = await createHyperliquidClient(runtime, {
+        authenticated: false,
+      });
+
+      const orders = await fetchOpenOrders(sdk, address);
+      const text = formatOpenOrders(orders);
+      logger.info(`Fetched open orders: ${orders.length}`);
+
+      if (callback) {
+        callback({ text, content: { orders } });
+      }
+      return { success: true, text, data: { orders } };
+    } catch (error) {
+      logger.error(`Error fetching open orders: ${error}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (callback) {
+        callback({
+          text: `Error fetching open orders: ${errorMessage}`,
+          content: { error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `Error fetching open orders: ${errorMessage}`,
+        error: errorMessage,
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Which orders are open?",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me list your open orders.",
+          action: "GET_OPEN_ORDERS",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "2 open orders:\n- #91490942: buy 1 HYPE at 20 USDC\n- #91490943: sell 0.5 HYPE at 22 USDC",
+        },
+      },
+    ],
+  ],
+};
+
+export default getOpenOrders;
@@ -0,0 +1,95 @@
+import {
+  type Action,
+  type ActionExample,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type HandlerCallback,
+  logger,
+} from "@elizaos/core";
+import { createHyperliquidClient } from "../client.js";
+import {
+  fetchPositions,
+  formatPositions,
+  canReadAccount,
+  requireAccountAccess,
+} from "../account.js";
+
+export const getPositions: Action = {
+  name: "GET_POSITIONS",
+  similes: [
+    "PERP_POSITIONS",
+    "SHOW_POSITIONS",
+    "OPEN_POSITIONS",
+    "MY_POSITIONS",
+  ],
+  description:
+    "Show the open perp positions of the Hyperliquid account with entry and liquidation prices and funding",
+  validate: async (runtime: IAgentRuntime, message: Memory) =>
+    canReadAccount(runtime, message),
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const address = await requireAccountAccess(runtime, message);
+      // Reading the account does not need the private key
+      const sdk = await createHyperliquidClient(runtime, {
+        authenticated: false,
+      });
+
+      const positions = await fetchPositions(sdk, address);
+      const text = formatPositions(positions);
+      logger.info(`Fetched positions: ${positions.length}`);
+
+      if (callback) {
+        callback({ text, content: { positions } });
+      }
+      return { success: true, text, data: { positions } };
+    } catch (error) {
+      logger.error(`Error fetching positions: ${error}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (callback) {
+        callback({
+          text: `Error fetching positions: ${errorMessage}`,
+          content: { error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `Error fetching positions: ${errorMessage}`,
+        error: errorMessage,
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "What positions do I have open?",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me check your perp positions.",
+          action: "GET_POSITIONS",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "1 open position (unrealized PnL +12.30 USDC):\n- BTC long 0.01 at 65000, mark 66230 (5x isolated): PnL +12.30 USDC, liquidation 52480, funding paid 0.42 USDC, funding rate 0.0013%/h",
+        },
+      },
+    ],
+  ],
+};
+
+export default getPositions;
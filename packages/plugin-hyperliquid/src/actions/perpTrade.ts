@@ -0,0 +1,352 @@
+import {
+  type Action,
+  type ActionExample,
+  type ActionResult,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type HandlerCallback,
+  logger,
+  ModelType,
+  parseKeyValueXml,
+} from "@elizaos/core";
+import {
+  type ExchangeOrderRequest,
+  HyperliquidError,
+  type MarginMode,
+  PerpOrderSchema,
+  PRICE_VALIDATION,
+} from "../types.js";
+import { perpTradeTemplate } from "../templates.js";
+import {
+  confirmationButtons,
+  createPendingOrder,
+  formatOrderPreview,
+  isPendingOrderReply,
+  telegramConfirmationButtons,
+} from "../pendingOrders.js";
+import { enforceRiskPolicy } from "../riskPolicy.js";
+import { resolveOrderPrice, roundPerpPrice } from "../pricing.js";
+import { fetchPositions, requireAccountAddress } from "../account.js";
+import {
+  canPlaceOrders,
+  createHyperliquidClient,
+  isPaperMode,
+} from "../client.js";
+
+const isSet = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "" && value !== "null";
+
+const numberOrNull = (value: unknown) =>
+  isSet(value) ? parseFloat(value) : null;
+
+export const perpTrade: Action = {
+  name: "PERP_TRADE",
+  similes: ["PERP_ORDER", "LONG", "SHORT", "CLOSE_POSITION", "LEVERAGE_TRADE"],
+  description:
+    "Preview a perpetuals order on Hyperliquid (long/short with leverage, reduce-only closes, take-profit/stop-loss); it executes once the user confirms it",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (!canPlaceOrders(runtime) || isPaperMode(runtime)) return false;
+    // "confirm"/"cancel" answer the pending preview, they are not a new trade
+    return !(await isPendingOrderReply(runtime, message));
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    _options: Record<string, unknown> | undefined,
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      if (isPaperMode(runtime)) {
+        throw new HyperliquidError(
+          "Perpetuals are not simulated in paper mode; only spot orders can be paper traded"
+        );
+      }
+
+      // Initialize or update state
+      const currentState = state || (await runtime.composeState(message));
+
+      const contextPrompt = perpTradeTemplate.replace(
+        "{{recentMessages}}",
+        currentState.recentMessagesString || ""
+      );
+
+      const modelResult = await runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt: contextPrompt,
+      });
+
+      // Parse XML response
+      const parsedContent = parseKeyValueXml(modelResult);
+
+      if (!parsedContent || !isSet(parsedContent.coin)) {
+        throw new HyperliquidError(
+          "Could not parse perp order parameters from conversation"
+        );
+      }
+
+      const coin = parsedContent.coin
+        .trim()
+        .toUpperCase()
+        .replace(/-PERP$/, "");
+      const reduceOnly = parsedContent.reduce_only === "true";
+
+      // Initialize SDK
+      const sdk = await createHyperliquidClient(runtime);
+
+      // Get market data
+      const [meta, assetCtxs] = await sdk.info.perpetuals.getMetaAndAssetCtxs();
+      const marketIndex = meta.universe.findIndex(
+        (perp) => perp.name.replace(/-PERP$/, "") === coin
+      );
+      if (marketIndex === -1) {
+        throw new HyperliquidError(`Could not find perp market for ${coin}`);
+      }
+      const perpInfo = meta.universe[marketIndex];
+      const marketCtx = assetCtxs[marketIndex];
+      if (!marketCtx?.midPx) {
+        throw new HyperliquidError(
+          `Could not get market price for ${coin}-PERP`
+        );
+      }
+
+      // A close takes the opposite side of the position, all of it by default
+      let isBuy = parsedContent.is_buy === "true";
+      let size = numberOrNull(parsedContent.sz);
+      if (reduceOnly) {
+        const position = (
+          await fetchPositions(sdk, requireAccountAddress(runtime))
+        ).find((open) => open.coin === coin);
+        if (!position) {
+          throw new HyperliquidError(`No open ${coin} position to close`);
+        }
+        isBuy = position.side === "short";
+        size = size ?? position.size;
+        if (size > position.size) {
+          throw new HyperliquidError(
+            `Cannot close ${size} ${coin}: the ${position.side} position is ${position.size} ${coin}`
+          );
+        }
+      }
+
+      if (size === null) {
+        throw new HyperliquidError(`Could not determine the ${coin} size`);
+      }
+
+      const leverage = numberOrNull(parsedContent.leverage);
+      const orderParams = {
+        market: "perp" as const,
+        coin,
+        is_buy: isBuy,
+        sz: Number(size.toFixed(perpInfo.szDecimals)),
+        limit_px: numberOrNull(parsedContent.limit_px),
+        leverage: leverage === null ? undefined : leverage,
+        margin_mode: isSet(parsedContent.margin_mode)
+          ? parsedContent.margin_mode.trim().toLowerCase()
+          : undefined,
+        reduce_only: reduceOnly,
+        take_profit: numberOrNull(parsedContent.take_profit),
+        stop_loss: numberOrNull(parsedContent.stop_loss),
+      };
+
+      logger.info(
+        "Parsed perp order parameters:",
+        JSON.stringify(orderParams, null, 2)
+      );
+
+      // Validate order parameters
+      const validatedOrder = PerpOrderSchema.parse(orderParams);
+
+      let marginMode: MarginMode | undefined;
+      if (validatedOrder.leverage !== undefined) {
+        if (validatedOrder.leverage > perpInfo.maxLeverage) {
+          throw new HyperliquidError(
+            `${coin}-PERP allows at most ${perpInfo.maxLeverage}x leverage`
+          );
+        }
+        if (perpInfo.onlyIsolated && validatedOrder.margin_mode === "cross") {
+          throw new HyperliquidError(
+            `${coin}-PERP only supports isolated margin`
+          );
+        }
+        marginMode =
+          validatedOrder.margin_mode ??
+          (perpInfo.onlyIsolated ? "isolated" : "cross");
+      }
+
+      // Calculate prices
+      const midPrice = Number(marketCtx.midPx);
+      const { finalPrice, isMarketOrder } = resolveOrderPrice(
+        validatedOrder,
+        midPrice
+      );
+      const roundedPx = roundPerpPrice(finalPrice, perpInfo.szDecimals);
+
+      // TP/SL of market orders are checked against the price sent
+      PerpOrderSchema.parse({ ...validatedOrder, limit_px: roundedPx });
+
+      // Prepare the order; it is only sent once the user confirms the preview
+      const symbol = `${coin}-PERP`;
+      const orderRequest: ExchangeOrderRequest = {
+        coin: symbol,
+        asset: marketIndex,
+        is_buy: validatedOrder.is_buy,
+        sz: validatedOrder.sz,
+        limit_px: roundedPx,
+        reduce_only: validatedOrder.reduce_only,
+        order_type: isMarketOrder ? { market: {} } : { limit: { tif: "Gtc" } },
+      };
+
+      // Triggers close the position: opposite side, market once triggered
+      const trigger = (
+        triggerPx: number,
+        tpsl: "tp" | "sl"
+      ): ExchangeOrderRequest => {
+        const slippage = PRICE_VALIDATION.TRIGGER_SLIPPAGE;
+        const worstPx = validatedOrder.is_buy
+          ? triggerPx * (1 - slippage)
+          : triggerPx * (1 + slippage);
+        return {
+          ...orderRequest,
+          is_buy: !validatedOrder.is_buy,
+          limit_px: roundPerpPrice(worstPx, perpInfo.szDecimals),
+          reduce_only: true,
+          order_type: {
+            trigger: {
+              triggerPx: roundPerpPrice(triggerPx, perpInfo.szDecimals),
+              isMarket: true,
+              tpsl,
+            },
+          },
+        };
+      };
+      const triggers = [
+        ...(validatedOrder.take_profit
+          ? [trigger(validatedOrder.take_profit, "tp")]
+          : []),
+        ...(validatedOrder.stop_loss
+          ? [trigger(validatedOrder.stop_loss, "sl")]
+          : []),
+      ];
+
+      const notional = validatedOrder.sz * roundedPx;
+
+      // Refuse early what the risk policy would refuse at execution
+      await enforceRiskPolicy(
+        runtime,
+        {
+          entityId: message.entityId,
+          roomId: message.roomId,
+          coin,
+          notional,
+          phase: "preview",
+          reduceOnly: validatedOrder.reduce_only,
+        },
+        sdk
+      );
+
+      const pendingOrder = await createPendingOrder(
+        runtime,
+        message,
+        {
+          coin,
+          side: validatedOrder.is_buy ? "buy" : "sell",
+          size: validatedOrder.sz,
+          orderType: isMarketOrder ? "market" : "limit",
+          midPrice,
+          finalPrice: roundedPx,
+          notional,
+          slippage: isMarketOrder ? PRICE_VALIDATION.SLIPPAGE : null,
+          market: "perp",
+          leverage: validatedOrder.leverage,
+          marginMode,
+          reduceOnly: validatedOrder.reduce_only,
+          takeProfit: validatedOrder.take_profit,
+          stopLoss: validatedOrder.stop_loss,
+        },
+        orderRequest,
+        {
+          triggers,
+          leverage:
+            marginMode && validatedOrder.leverage
+              ? { mode: marginMode, value: validatedOrder.leverage }
+              : undefined,
+        }
+      );
+      logger.info(`Perp order ${pendingOrder.id} awaiting confirmation`);
+
+      const text = formatOrderPreview(pendingOrder);
+      if (callback) {
+        callback({
+          text,
+          content: { pendingOrder },
+          components: confirmationButtons(pendingOrder),
+          buttons: telegramConfirmationButtons(pendingOrder),
+        });
+      }
+
+      return { success: true, text, data: { pendingOrder } };
+    } catch (error) {
+      logger.error(`Error placing perp order: ${error}`);
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (callback) {
+        callback({
+          text: `Error placing perp order: ${errorMessage}`,
+          content: { error: errorMessage },
+        });
+      }
+      return {
+        success: false,
+        text: `Error placing perp order: ${errorMessage}`,
+        error: errorMessage,
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Long 0.01 BTC with 5x isolated, stop loss at 62000",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll open a 5x isolated long of 0.01 BTC with a stop-loss at 62000.",
+          action: "PERP_TRADE",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: 'Order preview #5c2e91ab: market buy 0.01 BTC-PERP\n- Price: up to 65650 USDC (mid 65000 USDC, 1% slippage bound)\n- Notional: ~656.5 USDC\n- Leverage: 5x isolated\n- Stop-loss: 62000 USDC\nReply "confirm" within 2 minutes to execute it, or "cancel" to drop it.',
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Close my ETH position",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll close your ETH position.",
+          action: "PERP_TRADE",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: 'Order preview #0d4f7a13: market buy 1 ETH-PERP\n- Price: up to 2474.9 USDC (mid 2450.4 USDC, 1% slippage bound)\n- Notional: ~2474.9 USDC\n- Reduce-only: closes the position, never opens or flips it\nReply "confirm" within 2 minutes to execute it, or "cancel" to drop it.',
+        },
+      },
+    ],
+  ],
+};
+
+export default perpTrade;
@@ -9,9 +9,9 @@ import {
   ModelType,
   parseKeyValueXml,
 } from "@elizaos/core";
-import { Hyperliquid } from "hyperliquid";
 import { HyperliquidError } from "../types.js";
 import { priceCheckTemplate } from "../templates.js";
+import { createHyperliquidClient } from "../client.js";
 
 export const priceCheck: Action = {
   name: "PRICE_CHECK",
@@ -49,11 +49,10 @@ export const priceCheck: Action = {
 
       logger.info("Checking price for token:", parsedContent.symbol);
 
-      // Initialize SDK
-      const sdk = new Hyperliquid({
-        enableWs: false,
+      // Initialize SDK (or the paper exchange in paper mode)
+      const sdk = await createHyperliquidClient(runtime, {
+        authenticated: false,
       });
-      await sdk.connect();
 
       // Get market data
       const [meta, assetCtxs] = await sdk.info.spot.getSpotMetaAndAssetCtxs();
@@ -9,20 +9,32 @@ import {
   ModelType,
   parseKeyValueXml,
 } from "@elizaos/core";
-import { Hyperliquid } from "hyperliquid";
 import {
   SpotOrderSchema,
   HyperliquidError,
   PRICE_VALIDATION,
 } from "../types.js";
 import { priceCheckTemplate, spotTradeTemplate } from "../templates.js";
+import {
+  confirmationButtons,
+  createPendingOrder,
+  formatOrderPreview,
+  isPendingOrderReply,
+  telegramConfirmationButtons,
+} from "../pendingOrders.js";
+import { enforceRiskPolicy } from "../riskPolicy.js";
+import { resolveOrderPrice } from "../pricing.js";
+import { canPlaceOrders, createHyperliquidClient } from "../client.js";
 
 export const spotTrade: Action = {
   name: "SPOT_TRADE",
   similes: ["SPOT_ORDER", "SPOT_BUY", "SPOT_SELL"],
-  description: "Place a spot trade order on Hyperliquid",
-  validate: async (runtime: IAgentRuntime) => {
-    return !!runtime.getSetting("HYPERLIQUID_PRIVATE_KEY");
+  description:
+    "Preview a spot trade order on Hyperliquid; it executes once the user confirms it",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (!canPlaceOrders(runtime)) return false;
+    // "confirm"/"cancel" answer the pending preview, they are not a new trade
+    return !(await isPendingOrderReply(runtime, message));
   },
   handler: async (
     runtime: IAgentRuntime,
@@ -73,13 +85,8 @@ export const spotTrade: Action = {
       const validatedOrder = SpotOrderSchema.parse(orderParams);
       logger.info("Validated order:", validatedOrder);
 
-      // Initialize SDK
-      const sdk = new Hyperliquid({
-        privateKey: runtime.getSetting("HYPERLIQUID_PRIVATE_KEY"),
-        testnet: runtime.getSetting("HYPERLIQUID_TESTNET") === "true",
-        enableWs: false,
-      });
-      await sdk.connect();
+      // Initialize SDK (or the paper exchange in paper mode)
+      const sdk = await createHyperliquidClient(runtime);
 
       // Get market data
       const [meta, assetCtxs] = await sdk.info.spot.getSpotMetaAndAssetCtxs();
@@ -114,58 +121,12 @@ export const spotTrade: Action = {
 
       // Calculate prices
       const midPrice = Number(marketCtx.midPx);
-      const isMarketOrder = !validatedOrder.limit_px;
-      let finalPrice: number;
-
-      if (isMarketOrder) {
-        // For market orders, use current price with slippage
-        const slippage = PRICE_VALIDATION.SLIPPAGE;
-        finalPrice = validatedOrder.is_buy
-          ? midPrice * (1 + slippage)
-          : midPrice * (1 - slippage);
-
-        // Validate market order price
-        if (
-          finalPrice < midPrice * PRICE_VALIDATION.MARKET_ORDER.MIN_RATIO ||
-          finalPrice > midPrice * PRICE_VALIDATION.MARKET_ORDER.MAX_RATIO
-        ) {
-          throw new HyperliquidError(
-            `Market order price (${finalPrice.toFixed(2)} USDC) is too far from market price (${midPrice.toFixed(2)} USDC). This might be due to low liquidity.`
-          );
-        }
-      } else {
-        // For limit orders
-        finalPrice = validatedOrder.limit_px!;
-
-        // Validate limit order price is optimal
-        if (validatedOrder.is_buy && finalPrice > midPrice) {
-          throw new HyperliquidError(
-            `Cannot place buy limit order at ${finalPrice.toFixed(2)} USDC because it's above market price (${midPrice.toFixed(2)} USDC). To execute immediately, use a market order. For a limit order, set a price below ${midPrice.toFixed(2)} USDC.`
-          );
-        } else if (!validatedOrder.is_buy && finalPrice < midPrice) {
-          throw new HyperliquidError(
-            `Cannot place sell limit order at ${finalPrice.toFixed(2)} USDC because it's below market price (${midPrice.toFixed(2)} USDC). To execute immediately, use a market order. For a limit order, set a price above ${midPrice.toFixed(2)} USDC.`
-          );
-        }
-
-        // Log warning if price is very different from market
-        if (
-          finalPrice <
-            midPrice * PRICE_VALIDATION.LIMIT_ORDER.WARNING_MIN_RATIO ||
-          finalPrice > midPrice * PRICE_VALIDATION.LIMIT_ORDER.WARNING_MAX_RATIO
-        ) {
-          logger.warn(
-            `Limit price (${finalPrice.toFixed(2)} USDC) is very different from market price (${midPrice.toFixed(2)} USDC). Make sure this is intentional.`,
-            {
-              finalPrice,
-              midPrice,
-              ratio: finalPrice / midPrice,
-            }
-          );
-        }
-      }
+      const { finalPrice, isMarketOrder } = resolveOrderPrice(
+        validatedOrder,
+        midPrice
+      );
 
-      // Prepare and place order
+      // Prepare the order; it is only sent once the user confirms the preview
       const rounded_px = Number(finalPrice.toFixed(tokenInfo.szDecimals));
       const orderRequest = {
         coin: `${validatedOrder.coin}-SPOT`,
@@ -179,26 +140,44 @@ export const spotTrade: Action = {
           : { limit: { tif: "Gtc" as const } },
       };
 
-      logger.info("Placing order:", orderRequest);
-      const result = await sdk.exchange.placeOrder(orderRequest);
+      const notional = validatedOrder.sz * rounded_px;
+
+      // Refuse early what the risk policy would refuse at execution
+      await enforceRiskPolicy(
+        runtime,
+        {
+          entityId: message.entityId,
+          roomId: message.roomId,
+          coin: validatedOrder.coin,
+          notional,
+          phase: "preview",
+        },
+        sdk
+      );
 
-      // Check if order was rejected
-      if (
-        result.status === "ok" &&
-        result.response?.type === "order" &&
-        result.response.data?.statuses?.[0]?.error
-      ) {
-        throw new HyperliquidError(result.response.data.statuses[0].error);
-      }
+      const pendingOrder = await createPendingOrder(
+        runtime,
+        message,
+        {
+          coin: validatedOrder.coin,
+          side: validatedOrder.is_buy ? "buy" : "sell",
+          size: validatedOrder.sz,
+          orderType: isMarketOrder ? "market" : "limit",
+          midPrice,
+          finalPrice: rounded_px,
+          notional,
+          slippage: isMarketOrder ? PRICE_VALIDATION.SLIPPAGE : null,
+        },
+        orderRequest
+      );
+      logger.info(`Order ${pendingOrder.id} awaiting confirmation`);
 
-      // Send success callback
       if (callback) {
-        const action = validatedOrder.is_buy ? "buy" : "sell";
-        const executionPrice =
-          result.response?.data?.statuses?.[0]?.px || rounded_px;
         callback({
-          text: `Successfully placed ${isMarketOrder ? "a market" : "a limit"} order to ${action} ${validatedOrder.sz} ${validatedOrder.coin} at ${executionPrice}`,
-          content: result,
+          text: formatOrderPreview(pendingOrder),
+          content: { pendingOrder },
+          components: confirmationButtons(pendingOrder),
+          buttons: telegramConfirmationButtons(pendingOrder),
         });
       }
 
@@ -234,7 +213,7 @@ export const spotTrade: Action = {
       {
         name: "{{agent}}",
         content: {
-          text: "Successfully placed a limit order to buy 0.1 HYPE at 20 USDC",
+          text: 'Order preview #3f9a1c2e: limit buy 0.1 HYPE\n- Price: limit 20 USDC (mid 20.5 USDC)\n- Notional: ~2 USDC\nReply "confirm" within 2 minutes to execute it, or "cancel" to drop it.',
         },
       },
     ],
@@ -255,7 +234,7 @@ export const spotTrade: Action = {
       {
         name: "{{agent}}",
         content: {
-          text: "Successfully placed a limit order to sell 2 HYPE at 21 USDC",
+          text: 'Order preview #8b07d4e1: limit sell 2 HYPE\n- Price: limit 21 USDC (mid 20.5 USDC)\n- Notional: ~42 USDC\nReply "confirm" within 2 minutes to execute it, or "cancel" to drop it.',
         },
       },
     ],
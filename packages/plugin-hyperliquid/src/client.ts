@@ -0,0 +1,57 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { Hyperliquid } from "hyperliquid";
+import { createPaperClient } from "./paperExchange.js";
+
+/** The part of the SDK the actions use; the paper exchange implements the same. */
+export type HyperliquidClient = Pick<
+  Hyperliquid,
+  "connect" | "info" | "exchange" | "custom"
+>;
+
+/** HYPERLIQUID_MODE=paper routes the agent to the simulated exchange. */
+export function isPaperMode(runtime: IAgentRuntime): boolean {
+  return (
+    String(runtime.getSetting("HYPERLIQUID_MODE") ?? "")
+      .trim()
+      .toLowerCase() === "paper"
+  );
+}
+
+/** Paper agents trade without a key; live agents need HYPERLIQUID_PRIVATE_KEY. */
+export function canPlaceOrders(runtime: IAgentRuntime): boolean {
+  return (
+    isPaperMode(runtime) || !!runtime.getSetting("HYPERLIQUID_PRIVATE_KEY")
+  );
+}
+
+/**
+ * Address whose balances, orders and fills are read: HYPERLIQUID_WALLET_ADDRESS
+ * on the live exchange; the paper account has no address of its own.
+ */
+export function accountAddress(runtime: IAgentRuntime): string | undefined {
+  if (isPaperMode(runtime)) return "paper";
+  return runtime.getSetting("HYPERLIQUID_WALLET_ADDRESS") || undefined;
+}
+
+/**
+ * Connected client for the agent's mode. Public market data does not need
+ * the private key, so `authenticated: false` skips it on the live exchange.
+ */
+export async function createHyperliquidClient(
+  runtime: IAgentRuntime,
+  { authenticated = true }: { authenticated?: boolean } = {}
+): Promise<HyperliquidClient> {
+  const client: HyperliquidClient = isPaperMode(runtime)
+    ? await createPaperClient(runtime)
+    : new Hyperliquid(
+        authenticated
+          ? {
+              privateKey: runtime.getSetting("HYPERLIQUID_PRIVATE_KEY"),
+              testnet: runtime.getSetting("HYPERLIQUID_TESTNET") === "true",
+              enableWs: false,
+            }
+          : { enableWs: false }
+      );
+  await client.connect();
+  return client;
+}
@@ -3,6 +3,7 @@ declare module "hyperliquid" {
     privateKey?: string;
     testnet?: boolean;
     enableWs?: boolean;
+    walletAddress?: string;
   }
 
   export interface OrderRequest {
@@ -12,7 +13,22 @@ declare module "hyperliquid" {
     sz: number;
     limit_px: number;
     reduce_only: boolean;
-    order_type: { market: {} } | { limit: { tif: "Ioc" | "Gtc" } };
+    order_type:
+      | { market: {} }
+      | { limit: { tif: "Ioc" | "Gtc" } }
+      | {
+          trigger: {
+            triggerPx: number | string;
+            isMarket: boolean;
+            tpsl: "tp" | "sl";
+          };
+        };
+  }
+
+  /** Orders placed in one request; "normalTpsl" ties TP/SL triggers to the first order. */
+  export interface BulkOrderRequest {
+    orders: OrderRequest[];
+    grouping?: "na" | "normalTpsl" | "positionTpsl";
   }
 
   export interface OrderResponse {
@@ -29,11 +45,109 @@ declare module "hyperliquid" {
     };
   }
 
+  export interface CancelOrderRequest {
+    coin: string;
+    o: number;
+  }
+
+  export interface CancelOrderResponse {
+    status: string;
+    response?: {
+      type: string;
+      data?: {
+        /** "success", or the reason the order could not be cancelled. */
+        statuses?: Array<string | { error?: string; orderId?: string }>;
+      };
+    };
+  }
+
+  export interface SpotBalance {
+    coin: string;
+    /** Amount held by open orders. */
+    hold: string;
+    total: string;
+  }
+
+  export interface UserFill {
+    coin: string;
+    px: string;
+    sz: string;
+    /** "B" for buys, "A" for sells. */
+    side: string;
+    time: number;
+    dir: string;
+    closedPnl: string;
+    fee: string;
+    feeToken: string;
+    oid: number;
+    tid: number;
+    hash: string;
+  }
+
+  export interface PerpInfo {
+    name: string;
+    szDecimals: number;
+    maxLeverage: number;
+    onlyIsolated?: boolean;
+  }
+
+  /** Aligned with `PerpInfo` by index: perp contexts carry no coin. */
+  export interface PerpAssetContext {
+    funding: string;
+    markPx: string;
+    midPx: string | null;
+    oraclePx: string;
+    openInterest: string;
+    prevDayPx: string;
+    dayNtlVlm: string;
+  }
+
+  export interface AssetPosition {
+    position: {
+      coin: string;
+      cumFunding: { allTime: string; sinceChange: string; sinceOpen: string };
+      entryPx: string;
+      leverage: { type: string; value: number; rawUsd?: string };
+      liquidationPx: string | null;
+      marginUsed: string;
+      maxLeverage: number;
+      positionValue: string;
+      returnOnEquity: string;
+      /** Signed size: negative for shorts. */
+      szi: string;
+      unrealizedPnl: string;
+    };
+    type: string;
+  }
+
+  export interface MarginSummary {
+    accountValue: string;
+    totalMarginUsed: string;
+    totalNtlPos: string;
+    totalRawUsd: string;
+  }
+
+  export interface ClearinghouseState {
+    assetPositions: AssetPosition[];
+    marginSummary: MarginSummary;
+    crossMarginSummary: MarginSummary;
+    withdrawable: string;
+  }
+
   export interface TokenInfo {
     name: string;
     szDecimals: number;
   }
 
+  export interface UserOpenOrder {
+    coin: string;
+    limitPx: string;
+    oid: number;
+    side: string;
+    sz: string;
+    timestamp: number;
+  }
+
   export interface AssetContext {
     coin: string;
     midPx: string | null;
@@ -46,7 +160,18 @@ declare module "hyperliquid" {
     connect(): Promise<void>;
 
     info: {
+      getUserOpenOrders(user: string): Promise<UserOpenOrder[]>;
+      getUserFills(user: string): Promise<UserFill[]>;
+      perpetuals: {
+        getMetaAndAssetCtxs(): Promise<
+          [{ universe: PerpInfo[] }, PerpAssetContext[]]
+        >;
+        getClearinghouseState(user: string): Promise<ClearinghouseState>;
+      };
       spot: {
+        getSpotClearinghouseState(
+          user: string
+        ): Promise<{ balances: SpotBalance[] }>;
         getSpotMetaAndAssetCtxs(): Promise<
           [{ tokens: TokenInfo[] }, AssetContext[]]
         >;
@@ -54,11 +179,22 @@ declare module "hyperliquid" {
     };
 
     exchange: {
-      placeOrder(order: OrderRequest): Promise<OrderResponse>;
+      placeOrder(
+        order: OrderRequest | BulkOrderRequest
+      ): Promise<OrderResponse>;
+      updateLeverage(
+        symbol: string,
+        leverageMode: "cross" | "isolated",
+        leverage: number
+      ): Promise<{ status: string; response?: unknown }>;
+      cancelOrder(
+        requests: CancelOrderRequest | CancelOrderRequest[]
+      ): Promise<CancelOrderResponse>;
     };
 
     custom: {
-      cancelAllOrders(): Promise<OrderResponse>;
+      /** Cancels every open order, or only those of `symbol` ("HYPE-SPOT"). */
+      cancelAllOrders(symbol?: string): Promise<CancelOrderResponse>;
     };
   }
 }
@@ -2,14 +2,36 @@ import type { Plugin } from "@elizaos/core";
 import { spotTrade } from "./actions/spotTrade";
 import { priceCheck } from "./actions/priceCheck";
 import { cancelOrders } from "./actions/cancelOrders";
+import { confirmOrder } from "./actions/confirmOrder";
+import { getBalances } from "./actions/getBalances";
+import { getOpenOrders } from "./actions/getOpenOrders";
+import { getFills } from "./actions/getFills";
+import { perpTrade } from "./actions/perpTrade";
+import { getPositions } from "./actions/getPositions";
+import { accountProvider } from "./providers/account";
+import { handleOrderButton, handleTelegramOrderButton } from "./pendingOrders";
 
 export const hyperliquidPlugin: Plugin = {
   name: "hyperliquid",
   description: "Hyperliquid plugin",
-  actions: [spotTrade, priceCheck, cancelOrders],
-  providers: [],
+  actions: [
+    spotTrade,
+    priceCheck,
+    cancelOrders,
+    confirmOrder,
+    getBalances,
+    getOpenOrders,
+    getFills,
+    perpTrade,
+    getPositions,
+  ],
+  providers: [accountProvider],
   evaluators: [],
   services: [],
+  events: {
+    DISCORD_INTERACTION: [handleOrderButton],
+    TELEGRAM_CALLBACK_QUERY_RECEIVED: [handleTelegramOrderButton],
+  },
 };
 
 export default hyperliquidPlugin;
@@ -0,0 +1,417 @@
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import type {
+  AssetContext,
+  CancelOrderRequest,
+  CancelOrderResponse,
+  OrderRequest,
+  OrderResponse,
+  SpotBalance,
+  UserFill,
+  UserOpenOrder,
+} from "hyperliquid";
+import { z } from "zod";
+import type { HyperliquidClient } from "./client.js";
+import { loadPaperFeed } from "./paperFeed.js";
+import {
+  type BalanceResponse,
+  HyperliquidError,
+  ORDER_STATUS,
+  PAPER_DEFAULTS,
+  type PaperFeed,
+  type PaperOrder,
+  type PaperState,
+} from "./types.js";
+
+const STATE_KEY = "hyperliquid:paper-state";
+const NO_PERPS = "Perpetuals are not simulated in paper mode";
+const QUOTE = "USDC";
+const BAD_BALANCES =
+  'HYPERLIQUID_PAPER_BALANCES must map coins to amounts, e.g. {"USDC": 10000}';
+
+const BalancesSchema = z.record(z.string(), z.number().nonnegative());
+
+// keeps float noise out of the stored balances
+const round = (value: number) => Number(value.toFixed(8));
+
+const baseCoin = (coin: string) => coin.replace(/-SPOT$/i, "").toUpperCase();
+
+function startingBalances(runtime: IAgentRuntime): Record<string, number> {
+  const raw = runtime.getSetting("HYPERLIQUID_PAPER_BALANCES");
+  if (!raw) return { ...PAPER_DEFAULTS.BALANCES };
+  let value: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new HyperliquidError(BAD_BALANCES);
+    }
+  }
+  const parsed = BalancesSchema.safeParse(value);
+  if (!parsed.success) throw new HyperliquidError(BAD_BALANCES);
+  return Object.fromEntries(
+    Object.entries(parsed.data).map(([coin, amount]) => [
+      coin.toUpperCase(),
+      amount,
+    ])
+  );
+}
+
+async function loadState(runtime: IAgentRuntime): Promise<PaperState> {
+  return (
+    (await runtime.getCache<PaperState>(STATE_KEY)) ?? {
+      tick: 0,
+      nextOrderId: 1,
+      balances: startingBalances(runtime),
+      orders: [],
+    }
+  );
+}
+
+function tickMs(runtime: IAgentRuntime): number {
+  const seconds = Number(runtime.getSetting("HYPERLIQUID_PAPER_TICK_SECONDS"));
+  return (
+    (Number.isFinite(seconds) && seconds > 0
+      ? seconds
+      : PAPER_DEFAULTS.TICK_SECONDS) * 1000
+  );
+}
+
+const midPrices = (feed: PaperFeed, state: PaperState) =>
+  feed.ticks[Math.min(Math.max(state.tick, 0), feed.ticks.length - 1)];
+
+const openOrders = (state: PaperState) =>
+  state.orders.filter((order) => order.status === ORDER_STATUS.OPEN);
+
+/** Amount of each coin reserved by open orders: quote for bids, base for asks. */
+function lockedBalances(state: PaperState): Record<string, number> {
+  const locked: Record<string, number> = {};
+  for (const order of openOrders(state)) {
+    const coin = order.is_buy ? QUOTE : order.coin;
+    const amount = order.is_buy ? order.size * order.price : order.size;
+    locked[coin] = round((locked[coin] ?? 0) + amount);
+  }
+  return locked;
+}
+
+const freeBalance = (state: PaperState, coin: string) =>
+  round((state.balances[coin] ?? 0) - (lockedBalances(state)[coin] ?? 0));
+
+function fill(state: PaperState, order: PaperOrder, price: number): void {
+  const quote = order.size * price;
+  const { balances } = state;
+  balances[order.coin] = round(
+    (balances[order.coin] ?? 0) + (order.is_buy ? order.size : -order.size)
+  );
+  balances[QUOTE] = round(
+    (balances[QUOTE] ?? 0) + (order.is_buy ? -quote : quote)
+  );
+  order.status = ORDER_STATUS.FILLED;
+  order.fillPrice = price;
+  order.fillTime = Date.now();
+}
+
+/** Moves the feed one tick and fills the resting orders the new mid crosses. */
+function advance(state: PaperState, feed: PaperFeed): void {
+  state.tick = Math.min(state.tick + 1, feed.ticks.length - 1);
+  const mids = midPrices(feed, state);
+  for (const order of openOrders(state)) {
+    const mid = mids[order.coin];
+    if (mid === undefined) continue;
+    if (order.is_buy ? mid <= order.price : mid >= order.price) {
+      // resting orders fill at their own price
+      fill(state, order, order.price);
+      logger.info(`Paper order ${order.orderId} filled at ${order.price}`);
+    }
+  }
+}
+
+const orderResult = (
+  status: NonNullable<
+    NonNullable<OrderResponse["response"]>["data"]
+  >["statuses"]
+): OrderResponse => ({
+  status: "ok",
+  response: { type: "order", data: { statuses: status } },
+});
+
+function placeOrder(
+  state: PaperState,
+  feed: PaperFeed,
+  request: OrderRequest
+): OrderResponse {
+  const coin = baseCoin(request.coin);
+  const mid = midPrices(feed, state)[coin];
+  if (mid === undefined) {
+    return orderResult([{ error: `No paper market for ${request.coin}` }]);
+  }
+  if ("trigger" in request.order_type) {
+    return orderResult([{ error: "Trigger orders are not simulated" }]);
+  }
+
+  const [needed, required] = request.is_buy
+    ? [QUOTE, request.sz * request.limit_px]
+    : [coin, request.sz];
+  const funded = freeBalance(state, needed) >= round(required);
+
+  const order: PaperOrder = {
+    coin,
+    orderId: String(state.nextOrderId++),
+    status: funded ? ORDER_STATUS.OPEN : ORDER_STATUS.REJECTED,
+    size: request.sz,
+    price: request.limit_px,
+    is_buy: request.is_buy,
+    timestamp: Date.now(),
+  };
+  state.orders.push(order);
+
+  if (!funded) {
+    return orderResult([
+      { error: `Insufficient ${needed} balance to place order` },
+    ]);
+  }
+
+  const marketable = request.is_buy
+    ? mid <= request.limit_px
+    : mid >= request.limit_px;
+  if (marketable) {
+    fill(state, order, mid);
+    return orderResult([{ px: String(mid), orderId: order.orderId }]);
+  }
+  if (
+    "market" in request.order_type ||
+    request.order_type.limit.tif === "Ioc"
+  ) {
+    order.status = ORDER_STATUS.CANCELLED;
+    return orderResult([
+      {
+        error: "Order could not immediately match against any resting orders.",
+      },
+    ]);
+  }
+  return orderResult([{ orderId: order.orderId }]);
+}
+
+const cancelResult = (
+  statuses: NonNullable<
+    NonNullable<CancelOrderResponse["response"]>["data"]
+  >["statuses"]
+): CancelOrderResponse => ({
+  status: "ok",
+  response: { type: "cancel", data: { statuses } },
+});
+
+function cancelOrders(
+  state: PaperState,
+  requests: CancelOrderRequest[]
+): CancelOrderResponse {
+  return cancelResult(
+    requests.map(({ coin, o }) => {
+      const order = openOrders(state).find(
+        (open) => open.orderId === String(o) && open.coin === baseCoin(coin)
+      );
+      if (!order) {
+        return {
+          error: "Order was never placed, already canceled, or filled.",
+        };
+      }
+      order.status = ORDER_STATUS.CANCELLED;
+      return "success";
+    })
+  );
+}
+
+function cancelAllOrders(
+  state: PaperState,
+  symbol?: string
+): CancelOrderResponse {
+  const cancelled = openOrders(state).filter(
+    (order) => !symbol || order.coin === baseCoin(symbol)
+  );
+  for (const order of cancelled) order.status = ORDER_STATUS.CANCELLED;
+  return cancelResult(cancelled.map(() => "success"));
+}
+
+function spotMetaAndAssetCtxs(
+  state: PaperState,
+  feed: PaperFeed
+): [{ tokens: PaperFeed["tokens"] }, AssetContext[]] {
+  const mids = midPrices(feed, state);
+  const contexts = feed.tokens
+    .filter((token) => mids[token.name] !== undefined)
+    .map((token) => ({
+      coin: `${token.name}-SPOT`,
+      midPx: String(mids[token.name]),
+      // the replay starts the paper "day"
+      prevDayPx: String(feed.ticks[0][token.name] ?? mids[token.name]),
+      dayNtlVlm: String(
+        round(
+          state.orders
+            .filter(
+              (order) =>
+                order.coin === token.name &&
+                order.status === ORDER_STATUS.FILLED
+            )
+            .reduce(
+              (total, order) => total + order.size * (order.fillPrice ?? 0),
+              0
+            )
+        )
+      ),
+    }));
+  return [{ tokens: feed.tokens }, contexts];
+}
+
+/** Moves the feed one tick per interval elapsed since it last moved. */
+function catchUp(state: PaperState, feed: PaperFeed, interval: number): void {
+  const now = Date.now();
+  state.tickedAt ??= now;
+  const due = Math.floor((now - state.tickedAt) / interval);
+  // past the end of the feed the last tick holds, so there is no more to fill
+  for (let step = 0; step < Math.min(due, feed.ticks.length); step++) {
+    advance(state, feed);
+  }
+  state.tickedAt += due * interval;
+}
+
+/**
+ * Simulated exchange behind the same interface as the SDK. Prices replay the
+ * paper feed one tick per accepted order and per tick interval elapsed (the
+ * last tick holds once the feed ends), so resting orders fill over time
+ * without new orders. Balances and orders persist in the agent's cache. Spot
+ * only: it lists no perp markets or positions.
+ */
+export async function createPaperClient(
+  runtime: IAgentRuntime
+): Promise<HyperliquidClient> {
+  const feed = await loadPaperFeed(runtime);
+
+  const interval = tickMs(runtime);
+  const update = async <T>(change: (state: PaperState) => T): Promise<T> => {
+    const state = await loadState(runtime);
+    catchUp(state, feed, interval);
+    const result = change(state);
+    await runtime.setCache(STATE_KEY, state);
+    return result;
+  };
+  // reads persist too: the ticks they catch up on may have filled orders
+  const read = () => update((state) => state);
+
+  return {
+    connect: async () => {},
+    info: {
+      perpetuals: {
+        getMetaAndAssetCtxs: async () => [{ universe: [] }, []],
+        getClearinghouseState: async () => {
+          const empty = {
+            accountValue: "0",
+            totalMarginUsed: "0",
+            totalNtlPos: "0",
+            totalRawUsd: "0",
+          };
+          return {
+            assetPositions: [],
+            marginSummary: empty,
+            crossMarginSummary: empty,
+            withdrawable: "0",
+          };
+        },
+      },
+      getUserFills: async (): Promise<UserFill[]> =>
+        (await read()).orders
+          .filter((order) => order.status === ORDER_STATUS.FILLED)
+          .sort((a, b) => (b.fillTime ?? 0) - (a.fillTime ?? 0))
+          .map((order) => ({
+            coin: `${order.coin}-SPOT`,
+            px: String(order.fillPrice),
+            sz: String(order.size),
+            side: order.is_buy ? "B" : "A",
+            time: order.fillTime ?? order.timestamp,
+            dir: order.is_buy ? "Buy" : "Sell",
+            closedPnl: "0",
+            fee: "0",
+            feeToken: QUOTE,
+            oid: Number(order.orderId),
+            tid: Number(order.orderId),
+            hash: `paper-${order.orderId}`,
+          })),
+      getUserOpenOrders: async (): Promise<UserOpenOrder[]> =>
+        openOrders(await read()).map((order) => ({
+          coin: `${order.coin}-SPOT`,
+          limitPx: String(order.price),
+          oid: Number(order.orderId),
+          side: order.is_buy ? "B" : "A",
+          sz: String(order.size),
+          timestamp: order.timestamp,
+        })),
+      spot: {
+        getSpotClearinghouseState: async () => {
+          const state = await read();
+          const locked = lockedBalances(state);
+          return {
+            balances: Object.entries(state.balances).map(
+              ([coin, total]): SpotBalance => ({
+                coin,
+                hold: String(locked[coin] ?? 0),
+                total: String(total),
+              })
+            ),
+          };
+        },
+        getSpotMetaAndAssetCtxs: async () =>
+          spotMetaAndAssetCtxs(await read(), feed),
+      },
+    },
+    exchange: {
+      placeOrder: (request) =>
+        update((state) => {
+          const result =
+            "orders" in request
+              ? // bulk orders: one status per order, as on the exchange
+                orderResult(
+                  request.orders.flatMap(
+                    (order) =>
+                      placeOrder(state, feed, order).response?.data?.statuses ??
+                      []
+                  )
+                )
+              : placeOrder(state, feed, request);
+          // the market moves once an order is in, filling what it crosses
+          if (
+            result.response?.data?.statuses?.some((status) => !status.error)
+          ) {
+            advance(state, feed);
+            state.tickedAt = Date.now();
+          }
+          return result;
+        }),
+      updateLeverage: async () => {
+        throw new HyperliquidError(NO_PERPS);
+      },
+      cancelOrder: (requests) =>
+        update((state) =>
+          cancelOrders(state, Array.isArray(requests) ? requests : [requests])
+        ),
+    },
+    custom: {
+      cancelAllOrders: (symbol) =>
+        update((state) => cancelAllOrders(state, symbol)),
+    },
+  };
+}
+
+/** Virtual balances (free and locked by open orders) and order history. */
+export async function getPaperAccount(runtime: IAgentRuntime): Promise<{
+  balances: BalanceResponse[];
+  orders: PaperOrder[];
+}> {
+  const state = await loadState(runtime);
+  const locked = lockedBalances(state);
+  return {
+    balances: Object.entries(state.balances).map(([coin, total]) => ({
+      coin,
+      free: round(total - (locked[coin] ?? 0)),
+      locked: locked[coin] ?? 0,
+    })),
+    orders: state.orders,
+  };
+}
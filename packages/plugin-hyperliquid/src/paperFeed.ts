@@ -0,0 +1,66 @@
+import { readFile } from "node:fs/promises";
+import type { IAgentRuntime } from "@elizaos/core";
+import { HyperliquidError, type PaperFeed, PaperFeedSchema } from "./types.js";
+
+/** Built-in replay used when HYPERLIQUID_PAPER_FEED is not set. */
+export const DEFAULT_PAPER_FEED: PaperFeed = {
+  tokens: [
+    { name: "USDC", szDecimals: 8 },
+    { name: "HYPE", szDecimals: 2 },
+    { name: "PURR", szDecimals: 0 },
+    { name: "ETH", szDecimals: 4 },
+    { name: "BTC", szDecimals: 5 },
+  ],
+  ticks: [
+    { HYPE: 20.71, PURR: 0.1842, ETH: 2450.5, BTC: 67120 },
+    { HYPE: 20.64, PURR: 0.1838, ETH: 2447.1, BTC: 67055 },
+    { HYPE: 20.52, PURR: 0.1829, ETH: 2441.8, BTC: 66980 },
+    { HYPE: 20.58, PURR: 0.1835, ETH: 2444.0, BTC: 67010 },
+    { HYPE: 20.77, PURR: 0.1851, ETH: 2452.9, BTC: 67190 },
+    { HYPE: 20.93, PURR: 0.1866, ETH: 2460.3, BTC: 67345 },
+    { HYPE: 21.05, PURR: 0.1872, ETH: 2466.7, BTC: 67410 },
+    { HYPE: 20.98, PURR: 0.1869, ETH: 2463.2, BTC: 67380 },
+    { HYPE: 20.81, PURR: 0.1857, ETH: 2455.6, BTC: 67240 },
+    { HYPE: 20.69, PURR: 0.1846, ETH: 2449.9, BTC: 67150 },
+    { HYPE: 20.74, PURR: 0.185, ETH: 2451.4, BTC: 67175 },
+    { HYPE: 20.88, PURR: 0.1861, ETH: 2458.8, BTC: 67290 },
+  ],
+};
+
+const loadedFeeds = new Map<string, Promise<PaperFeed>>();
+
+async function readFeedFile(path: string): Promise<PaperFeed> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new HyperliquidError(
+      `Could not read the paper price feed ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const parsed = PaperFeedSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new HyperliquidError(
+      `Invalid paper price feed ${path}: ${parsed.error.issues[0]?.message}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Mid-price feed of the paper exchange: the JSON file named by
+ * HYPERLIQUID_PAPER_FEED (same shape as DEFAULT_PAPER_FEED), read once.
+ */
+export function loadPaperFeed(runtime: IAgentRuntime): Promise<PaperFeed> {
+  const path = runtime.getSetting("HYPERLIQUID_PAPER_FEED");
+  if (!path) return Promise.resolve(DEFAULT_PAPER_FEED);
+
+  let feed = loadedFeeds.get(path);
+  if (!feed) {
+    feed = readFeedFile(path);
+    // a broken file is read again on the next request, once fixed
+    feed.catch(() => loadedFeeds.delete(path));
+    loadedFeeds.set(path, feed);
+  }
+  return feed;
+}
@@ -0,0 +1,429 @@
+import {
+  type Content,
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+  createUniqueUuid,
+  logger,
+} from "@elizaos/core";
+import { createHyperliquidClient } from "./client.js";
+import { placeOrderWithPolicy } from "./riskPolicy.js";
+import {
+  CONFIRMATION,
+  HyperliquidError,
+  type OrderPreview,
+  type PendingOrder,
+} from "./types.js";
+
+const CACHE_PREFIX = "hyperliquid:pending-order";
+const BUTTON_PREFIX = "hyperliquid:order";
+const BUTTON_ID = new RegExp(
+  `^${BUTTON_PREFIX}:(confirm|cancel):([\\w-]+):([0-9a-f]{8})$`
+);
+// Telegram callback data is limited to 64 bytes, so the room comes from the press
+const TELEGRAM_BUTTON_DATA = new RegExp(
+  `^${BUTTON_PREFIX}:(confirm|cancel):([0-9a-f]{8})$`
+);
+
+export type ConfirmationDecision = "confirm" | "cancel";
+
+export interface ConfirmationReply {
+  decision: ConfirmationDecision;
+  /** Order id typed after the reply ("confirm 3f9a1c2e"), to pin a specific preview. */
+  orderId?: string;
+}
+
+export interface PendingOrderOutcome {
+  success: boolean;
+  text: string;
+  content: Record<string, unknown>;
+}
+
+const CONFIRM_WORDS =
+  /^(?:y|yes|yep|confirm|confirmed|execute|go|go ahead|do it|ok|okay)$/i;
+const CANCEL_WORDS = /^(?:n|no|nope|cancel|abort|stop|don'?t)$/i;
+
+const pendingOrderKey = (roomId: string, entityId: string) =>
+  `${CACHE_PREFIX}:${roomId}:${entityId}`;
+
+/** Previews being resolved in this process; a concurrent reply executes nothing. */
+const resolving = new Set<string>();
+
+/**
+ * Reads a bare confirmation or cancellation ("yes", "confirm 3f9a1c2e",
+ * "cancel"). Anything longer is a new request, not an answer to a preview.
+ */
+export function parseConfirmationReply(
+  text: string | undefined
+): ConfirmationReply | null {
+  const match = /^\s*([a-z' ]+?)(?:\s+#?([0-9a-f]{8}))?\s*[.!]*\s*$/i.exec(
+    text ?? ""
+  );
+  if (!match) return null;
+  const words = match[1].trim().replace(/\s+/g, " ");
+  const orderId = match[2]?.toLowerCase();
+  if (CONFIRM_WORDS.test(words)) return { decision: "confirm", orderId };
+  if (CANCEL_WORDS.test(words)) return { decision: "cancel", orderId };
+  return null;
+}
+
+export function confirmationTtlMs(runtime: IAgentRuntime): number {
+  const seconds = Number(
+    runtime.getSetting("HYPERLIQUID_CONFIRMATION_TTL_SECONDS")
+  );
+  return (
+    (Number.isFinite(seconds) && seconds > 0
+      ? seconds
+      : CONFIRMATION.DEFAULT_TTL_SECONDS) * 1000
+  );
+}
+
+export async function getPendingOrder(
+  runtime: IAgentRuntime,
+  roomId: string,
+  entityId: string
+): Promise<PendingOrder | null> {
+  return (
+    (await runtime.getCache<PendingOrder>(pendingOrderKey(roomId, entityId))) ??
+    null
+  );
+}
+
+async function clearPendingOrder(
+  runtime: IAgentRuntime,
+  order: PendingOrder
+): Promise<void> {
+  await runtime.deleteCache(pendingOrderKey(order.roomId, order.entityId));
+}
+
+/**
+ * Stores the order until the same entity confirms it in the same room. A new
+ * preview replaces the previous one, so only the latest quote can execute.
+ */
+export async function createPendingOrder(
+  runtime: IAgentRuntime,
+  message: Memory,
+  preview: OrderPreview,
+  request: PendingOrder["request"],
+  perp: Pick<PendingOrder, "triggers" | "leverage"> = {}
+): Promise<PendingOrder> {
+  const now = Date.now();
+  const order: PendingOrder = {
+    id: crypto.randomUUID().replace(/-/g, "").slice(0, 8),
+    entityId: message.entityId,
+    roomId: message.roomId,
+    createdAt: now,
+    expiresAt: now + confirmationTtlMs(runtime),
+    preview,
+    request,
+    ...perp,
+  };
+  await runtime.setCache(pendingOrderKey(order.roomId, order.entityId), order);
+  return order;
+}
+
+/** True when the message answers a preview still waiting for this entity. */
+export async function isPendingOrderReply(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<boolean> {
+  const text = message?.content?.text;
+  if (!parseConfirmationReply(text)) return false;
+  if (message.entityId === runtime.agentId) return false;
+  return !!(await getPendingOrder(runtime, message.roomId, message.entityId));
+}
+
+const describeOrder = (preview: OrderPreview) =>
+  `${preview.side} ${preview.size} ${preview.coin}${preview.market === "perp" ? "-PERP" : ""}`;
+
+const formatUsdc = (value: number) =>
+  `${Number(value.toPrecision(6)).toString()} USDC`;
+
+export function formatOrderPreview(order: PendingOrder): string {
+  const { preview } = order;
+  const seconds = Math.round((order.expiresAt - order.createdAt) / 1000);
+  const window =
+    seconds % 60 === 0
+      ? `${seconds / 60} minute${seconds === 60 ? "" : "s"}`
+      : `${seconds} seconds`;
+  const price =
+    preview.slippage === null
+      ? `limit ${formatUsdc(preview.finalPrice)} (mid ${formatUsdc(preview.midPrice)})`
+      : `${preview.side === "buy" ? "up to" : "down to"} ${formatUsdc(preview.finalPrice)} (mid ${formatUsdc(preview.midPrice)}, ${preview.slippage * 100}% slippage bound)`;
+
+  const perpLines =
+    preview.market === "perp"
+      ? [
+          preview.reduceOnly
+            ? "- Reduce-only: closes the position, never opens or flips it"
+            : `- Leverage: ${preview.leverage ? `${preview.leverage}x ${preview.marginMode}` : "current setting"}`,
+          ...(preview.takeProfit
+            ? [`- Take-profit: ${formatUsdc(preview.takeProfit)}`]
+            : []),
+          ...(preview.stopLoss
+            ? [`- Stop-loss: ${formatUsdc(preview.stopLoss)}`]
+            : []),
+        ]
+      : [];
+
+  return [
+    `Order preview #${order.id}: ${preview.orderType} ${describeOrder(preview)}`,
+    `- Price: ${price}`,
+    `- Notional: ~${formatUsdc(preview.notional)}`,
+    ...perpLines,
+    `Reply "confirm" within ${window} to execute it, or "cancel" to drop it.`,
+  ].join("\n");
+}
+
+/** Discord action row with the confirm/cancel buttons of a preview. */
+export function confirmationButtons(order: PendingOrder) {
+  return [
+    {
+      type: 1,
+      components: [
+        {
+          type: 2,
+          style: 3,
+          label: "Confirm",
+          custom_id: `${BUTTON_PREFIX}:confirm:${order.roomId}:${order.id}`,
+        },
+        {
+          type: 2,
+          style: 4,
+          label: "Cancel",
+          custom_id: `${BUTTON_PREFIX}:cancel:${order.roomId}:${order.id}`,
+        },
+      ],
+    },
+  ];
+}
+
+/** Telegram inline keyboard with the confirm/cancel buttons of a preview. */
+export function telegramConfirmationButtons(order: PendingOrder) {
+  return [
+    {
+      kind: "callback",
+      text: "Confirm",
+      data: `${BUTTON_PREFIX}:confirm:${order.id}`,
+    },
+    {
+      kind: "callback",
+      text: "Cancel",
+      data: `${BUTTON_PREFIX}:cancel:${order.id}`,
+    },
+  ];
+}
+
+async function placePendingOrder(
+  runtime: IAgentRuntime,
+  order: PendingOrder
+): Promise<PendingOrderOutcome> {
+  const sdk = await createHyperliquidClient(runtime);
+
+  logger.info(
+    `Placing confirmed order ${order.id}: ${describeOrder(order.preview)}`
+  );
+  const result = await placeOrderWithPolicy(
+    runtime,
+    sdk,
+    {
+      entityId: order.entityId,
+      roomId: order.roomId,
+      coin: order.preview.coin,
+      notional: order.preview.notional,
+      reduceOnly: order.preview.reduceOnly,
+    },
+    // TP/SL triggers go with the order they protect
+    order.triggers?.length
+      ? { orders: [order.request, ...order.triggers], grouping: "normalTpsl" }
+      : order.request,
+    order.leverage
+  );
+
+  // Check if order was rejected
+  if (
+    result.status === "ok" &&
+    result.response?.type === "order" &&
+    result.response.data?.statuses?.[0]?.error
+  ) {
+    throw new HyperliquidError(result.response.data.statuses[0].error);
+  }
+
+  const executionPrice =
+    result.response?.data?.statuses?.[0]?.px || order.request.limit_px;
+  const triggerErrors = (result.response?.data?.statuses ?? [])
+    .slice(1)
+    .flatMap((status) => (status.error ? [status.error] : []));
+  const triggers = [
+    order.preview.takeProfit && `take-profit at ${order.preview.takeProfit}`,
+    order.preview.stopLoss && `stop-loss at ${order.preview.stopLoss}`,
+  ].filter(Boolean);
+  const protection = !triggers.length
+    ? ""
+    : triggerErrors.length
+      ? `; the ${triggers.join(" and ")} could not be placed: ${triggerErrors.join("; ")}`
+      : `, with ${triggers.join(" and ")}`;
+  return {
+    success: true,
+    text: `Successfully placed ${order.preview.orderType === "market" ? "a market" : "a limit"} order to ${describeOrder(order.preview)} at ${executionPrice}${protection}`,
+    content: { orderId: order.id, ...result },
+  };
+}
+
+/**
+ * Executes or drops the preview waiting for `entityId` in `roomId`. Expired
+ * previews, and ids that no longer match the latest preview, execute nothing.
+ * The preview is claimed before it is read, so a button press and a typed
+ * "confirm" arriving together place the order once.
+ */
+export async function resolvePendingOrder(
+  runtime: IAgentRuntime,
+  params: {
+    roomId: string;
+    entityId: string;
+    reply: ConfirmationReply;
+  }
+): Promise<PendingOrderOutcome> {
+  const key = pendingOrderKey(params.roomId, params.entityId);
+  if (resolving.has(key)) {
+    return {
+      success: false,
+      text: "The order preview is already being handled; nothing else was executed.",
+      content: { error: "already_resolving" },
+    };
+  }
+  resolving.add(key);
+  try {
+    return await settlePendingOrder(runtime, params);
+  } finally {
+    resolving.delete(key);
+  }
+}
+
+async function settlePendingOrder(
+  runtime: IAgentRuntime,
+  params: {
+    roomId: string;
+    entityId: string;
+    reply: ConfirmationReply;
+  }
+): Promise<PendingOrderOutcome> {
+  const { roomId, entityId, reply } = params;
+  const order = await getPendingOrder(runtime, roomId, entityId);
+  if (!order || (reply.orderId && reply.orderId !== order.id)) {
+    return {
+      success: false,
+      text: reply.orderId
+        ? `Order #${reply.orderId} is not waiting for confirmation; nothing was executed.`
+        : "There is no order waiting for confirmation.",
+      content: { error: "no_pending_order" },
+    };
+  }
+
+  await clearPendingOrder(runtime, order);
+  if (order.expiresAt <= Date.now()) {
+    return {
+      success: false,
+      text: `Order preview #${order.id} (${describeOrder(order.preview)}) expired at ${new Date(order.expiresAt).toISOString().slice(11, 19)} UTC; nothing was executed. Ask again for a fresh quote.`,
+      content: { orderId: order.id, error: "expired" },
+    };
+  }
+  if (reply.decision === "cancel") {
+    return {
+      success: true,
+      text: `Cancelled order preview #${order.id} (${describeOrder(order.preview)}); nothing was sent to Hyperliquid.`,
+      content: { orderId: order.id, cancelled: true },
+    };
+  }
+  return placePendingOrder(runtime, order);
+}
+
+/** Resolves a preview button press and posts the outcome in the room. */
+async function answerOrderButton(
+  runtime: IAgentRuntime,
+  press: {
+    roomId: string;
+    entityId: string;
+    decision: ConfirmationDecision;
+    orderId: string;
+    source: string;
+  }
+): Promise<void> {
+  const { roomId, entityId, decision, orderId } = press;
+
+  let outcome: PendingOrderOutcome;
+  try {
+    outcome = await resolvePendingOrder(runtime, {
+      roomId,
+      entityId,
+      reply: { decision, orderId },
+    });
+  } catch (error) {
+    logger.error(`Error confirming order ${orderId}: ${error}`);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    outcome = {
+      success: false,
+      text: `Error placing order: ${errorMessage}`,
+      content: { error: errorMessage },
+    };
+  }
+
+  const room = await runtime.getRoom(roomId as UUID);
+  const content: Content = { text: outcome.text, ...outcome.content };
+  await runtime.sendMessageToTarget(
+    {
+      source: room?.source ?? press.source,
+      roomId: roomId as UUID,
+      channelId: room?.channelId,
+    },
+    content
+  );
+}
+
+/**
+ * DISCORD_INTERACTION handler for the preview buttons. The button only acts
+ * for the user the preview was made for; the outcome is posted in the room.
+ */
+export async function handleOrderButton(params: {
+  runtime: IAgentRuntime;
+  interaction?: { customId?: string; user?: string };
+  source?: string;
+}): Promise<void> {
+  const { runtime, interaction } = params;
+  const match = BUTTON_ID.exec(interaction?.customId ?? "");
+  if (!match || !interaction?.user) return;
+  const [, decision, roomId, orderId] = match;
+
+  await answerOrderButton(runtime, {
+    roomId,
+    entityId: createUniqueUuid(runtime, interaction.user),
+    decision: decision as ConfirmationDecision,
+    orderId,
+    source: params.source ?? "discord",
+  });
+}
+
+/**
+ * TELEGRAM_CALLBACK_QUERY_RECEIVED handler for the preview buttons, with the
+ * same rules: only the user the preview was made for, in its room, can act.
+ */
+export async function handleTelegramOrderButton(params: {
+  runtime: IAgentRuntime;
+  entityId?: string;
+  roomId?: string;
+  data?: string;
+  source?: string;
+}): Promise<void> {
+  const { runtime, entityId, roomId } = params;
+  const match = TELEGRAM_BUTTON_DATA.exec(params.data ?? "");
+  if (!match || !entityId || !roomId) return;
+  const [, decision, orderId] = match;
+
+  await answerOrderButton(runtime, {
+    roomId,
+    entityId,
+    decision: decision as ConfirmationDecision,
+    orderId,
+    source: params.source ?? "telegram",
+  });
+}
@@ -0,0 +1,68 @@
+import { logger } from "@elizaos/core";
+import { HyperliquidError, PRICE_VALIDATION } from "./types.js";
+
+/**
+ * Price sent to the exchange: the slippage bound around mid for market
+ * orders, the limit price otherwise. Refuses limit orders on the wrong side
+ * of the mid, which would execute right away.
+ */
+export function resolveOrderPrice(
+  order: { is_buy: boolean; limit_px: number | null },
+  midPrice: number
+): { finalPrice: number; isMarketOrder: boolean } {
+  const isMarketOrder = !order.limit_px;
+  let finalPrice: number;
+
+  if (isMarketOrder) {
+    // For market orders, use current price with slippage
+    const slippage = PRICE_VALIDATION.SLIPPAGE;
+    finalPrice = order.is_buy
+      ? midPrice * (1 + slippage)
+      : midPrice * (1 - slippage);
+
+    // Validate market order price
+    if (
+      finalPrice < midPrice * PRICE_VALIDATION.MARKET_ORDER.MIN_RATIO ||
+      finalPrice > midPrice * PRICE_VALIDATION.MARKET_ORDER.MAX_RATIO
+    ) {
+      throw new HyperliquidError(
+        `Market order price (${finalPrice.toFixed(2)} USDC) is too far from market price (${midPrice.toFixed(2)} USDC). This might be due to low liquidity.`
+      );
+    }
+  } else {
+    // For limit orders
+    finalPrice = order.limit_px!;
+
+    // Validate limit order price is optimal
+    if (order.is_buy && finalPrice > midPrice) {
+      throw new HyperliquidError(
+        `Cannot place buy limit order at ${finalPrice.toFixed(2)} USDC because it's above market price (${midPrice.toFixed(2)} USDC). To execute immediately, use a market order. For a limit order, set a price below ${midPrice.toFixed(2)} USDC.`
+      );
+    } else if (!order.is_buy && finalPrice < midPrice) {
+      throw new HyperliquidError(
+        `Cannot place sell limit order at ${finalPrice.toFixed(2)} USDC because it's below market price (${midPrice.toFixed(2)} USDC). To execute immediately, use a market order. For a limit order, set a price above ${midPrice.toFixed(2)} USDC.`
+      );
+    }
+
+    // Log warning if price is very different from market
+    if (
+      finalPrice < midPrice * PRICE_VALIDATION.LIMIT_ORDER.WARNING_MIN_RATIO ||
+      finalPrice > midPrice * PRICE_VALIDATION.LIMIT_ORDER.WARNING_MAX_RATIO
+    ) {
+      logger.warn(
+        `Limit price (${finalPrice.toFixed(2)} USDC) is very different from market price (${midPrice.toFixed(2)} USDC, ratio ${(finalPrice / midPrice).toFixed(2)}). Make sure this is intentional.`
+      );
+    }
+  }
+
+  return { finalPrice, isMarketOrder };
+}
+
+/**
+ * Perp prices are limited to 5 significant figures and 6 - szDecimals
+ * decimals; anything finer is refused by the exchange.
+ */
+export function roundPerpPrice(price: number, szDecimals: number): number {
+  const decimals = Math.max(0, 6 - szDecimals);
+  return Number(Number(price.toPrecision(5)).toFixed(decimals));
+}
@@ -0,0 +1,63 @@
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  logger,
+} from "@elizaos/core";
+import { accountAddress, createHyperliquidClient } from "../client.js";
+import {
+  canReadAccount,
+  fetchBalances,
+  fetchOpenOrders,
+  fetchPositions,
+  formatBalances,
+  formatOpenOrders,
+  formatPositions,
+} from "../account.js";
+
+/**
+ * Puts the account's spot balances, perp positions and open orders in context. Dynamic, as
+ * it queries the exchange: only composed when the agent asks for it. Empty for entities
+ * that may not trade in the room.
+ */
+export const accountProvider: Provider = {
+  name: "HYPERLIQUID_ACCOUNT",
+  description:
+    "Spot balances, perp positions and open orders of the agent's Hyperliquid account",
+  dynamic: true,
+  get: async (runtime: IAgentRuntime, message: Memory) => {
+    const address = accountAddress(runtime);
+    if (!address) return { text: "" };
+
+    try {
+      if (!(await canReadAccount(runtime, message))) return { text: "" };
+      const sdk = await createHyperliquidClient(runtime, {
+        authenticated: false,
+      });
+      const [balances, positions, orders] = await Promise.all([
+        fetchBalances(sdk, address),
+        fetchPositions(sdk, address),
+        fetchOpenOrders(sdk, address),
+      ]);
+      return {
+        text: [
+          "# Hyperliquid account",
+          formatBalances(balances),
+          formatPositions(positions),
+          formatOpenOrders(orders),
+        ].join("\n\n"),
+        values: {
+          hyperliquidBalances: formatBalances(balances),
+          hyperliquidPositions: formatPositions(positions),
+          hyperliquidOpenOrders: formatOpenOrders(orders),
+        },
+        data: { balances, positions, openOrders: orders },
+      };
+    } catch (error) {
+      logger.warn(`Could not read the Hyperliquid account: ${error}`);
+      return { text: "" };
+    }
+  },
+};
+
+export default accountProvider;
@@ -0,0 +1,316 @@
+import {
+  type IAgentRuntime,
+  type UUID,
+  getUserServerRole,
+  logger,
+} from "@elizaos/core";
+import type {
+  BulkOrderRequest,
+  OrderRequest,
+  OrderResponse,
+} from "hyperliquid";
+import { type HyperliquidClient, accountAddress } from "./client.js";
+import {
+  EntityRiskLimitsSchema,
+  type RiskLimits,
+  RiskLimitsSchema,
+  HyperliquidError,
+  type MarginMode,
+  RiskPolicyError,
+  type RiskRule,
+  TRADING_ROLES,
+} from "./types.js";
+
+const VOLUME_PREFIX = "hyperliquid:daily-volume";
+
+export interface OrderContext {
+  entityId: string;
+  roomId: string;
+  coin: string;
+  /** USDC notional at the price sent to the exchange. */
+  notional: number;
+  /** "preview" when checked before asking for confirmation, "execution" right before placeOrder. */
+  phase: "preview" | "execution";
+  /** Perp closes only lower the exposure, so they skip the coin and size limits. */
+  reduceOnly?: boolean;
+}
+
+export interface RiskDecision {
+  allowed: boolean;
+  rule?: RiskRule;
+  reason?: string;
+}
+
+interface DailyVolume {
+  total: number;
+  byEntity: Record<string, number>;
+}
+
+const numberSetting = (runtime: IAgentRuntime, key: string) => {
+  const value = runtime.getSetting(key);
+  if (value === undefined || value === null || value === "") return undefined;
+  return Number(value);
+};
+
+/** Agent-wide limits from the HYPERLIQUID_MAX_* / HYPERLIQUID_ALLOWED_COINS settings. */
+export function agentRiskLimits(runtime: IAgentRuntime): RiskLimits {
+  const coins = runtime.getSetting("HYPERLIQUID_ALLOWED_COINS");
+  return RiskLimitsSchema.parse({
+    maxOrderNotional: numberSetting(runtime, "HYPERLIQUID_MAX_ORDER_NOTIONAL"),
+    maxDailyVolume: numberSetting(runtime, "HYPERLIQUID_MAX_DAILY_VOLUME"),
+    allowedCoins:
+      typeof coins === "string" && coins.trim()
+        ? coins
+            .split(",")
+            .map((coin) => coin.trim().toUpperCase())
+            .filter(Boolean)
+        : undefined,
+    maxOpenOrders: numberSetting(runtime, "HYPERLIQUID_MAX_OPEN_ORDERS"),
+  });
+}
+
+/** Limits of one entity from the HYPERLIQUID_ENTITY_LIMITS JSON map (entity id -> limits). */
+export function entityRiskLimits(
+  runtime: IAgentRuntime,
+  entityId: string
+): RiskLimits {
+  const raw = runtime.getSetting("HYPERLIQUID_ENTITY_LIMITS");
+  if (!raw) return {};
+  const limits = EntityRiskLimitsSchema.parse(
+    typeof raw === "string" ? JSON.parse(raw) : raw
+  )[entityId];
+  return limits
+    ? {
+        ...limits,
+        allowedCoins: limits.allowedCoins?.map((coin) => coin.toUpperCase()),
+      }
+    : {};
+}
+
+const volumeKey = (day: string) => `${VOLUME_PREFIX}:${day}`;
+const today = () => new Date().toISOString().slice(0, 10);
+
+async function dailyVolume(runtime: IAgentRuntime): Promise<DailyVolume> {
+  return (
+    (await runtime.getCache<DailyVolume>(volumeKey(today()))) ?? {
+      total: 0,
+      byEntity: {},
+    }
+  );
+}
+
+async function recordVolume(
+  runtime: IAgentRuntime,
+  entityId: string,
+  notional: number
+): Promise<void> {
+  const volume = await dailyVolume(runtime);
+  volume.total += notional;
+  volume.byEntity[entityId] = (volume.byEntity[entityId] ?? 0) + notional;
+  await runtime.setCache(volumeKey(today()), volume);
+}
+
+const isTradingRole = (role: string | undefined) =>
+  (TRADING_ROLES as readonly string[]).includes(role ?? "");
+
+/** Why the entity may not trade in this room, or null when it may. */
+export async function roleRefusal(
+  runtime: IAgentRuntime,
+  entityId: string,
+  roomId: string
+): Promise<string | null> {
+  // the runtime turns "false" into a boolean, settings objects may hold either
+  const requireRole = runtime.getSetting("HYPERLIQUID_REQUIRE_ROLE");
+  if (requireRole === false || requireRole === "false") return null;
+  const room = await runtime.getRoom(roomId as UUID);
+  if (room?.serverId) {
+    const role = await getUserServerRole(runtime, entityId, room.serverId);
+    return isTradingRole(role)
+      ? null
+      : `Trading is limited to ${TRADING_ROLES.join("/")} roles on this server`;
+  }
+
+  // DMs have no server roles: the entity must own or administer one of the agent's worlds
+  const worlds = (await runtime.getAllWorlds()) ?? [];
+  const trusted = worlds.some(
+    (world) =>
+      world.metadata?.ownership?.ownerId === entityId ||
+      isTradingRole(world.metadata?.roles?.[entityId as UUID])
+  );
+  return trusted
+    ? null
+    : `Trading in DMs is limited to entities with an ${TRADING_ROLES.join("/")} role on one of the agent's servers`;
+}
+
+function checkLimits(
+  scope: "agent" | "entity",
+  limits: RiskLimits,
+  order: OrderContext,
+  usedVolume: number
+): RiskDecision | null {
+  const owner = scope === "agent" ? "the agent's" : "your";
+  const coin = order.coin.toUpperCase();
+  if (limits.allowedCoins && !limits.allowedCoins.includes(coin)) {
+    return {
+      allowed: false,
+      rule: "allowed_coins",
+      reason: `${coin} is not in ${owner} allowed coins (${limits.allowedCoins.join(", ")})`,
+    };
+  }
+  if (
+    limits.maxOrderNotional !== undefined &&
+    order.notional > limits.maxOrderNotional
+  ) {
+    return {
+      allowed: false,
+      rule: "max_order_notional",
+      reason: `Order notional ${order.notional.toFixed(2)} USDC exceeds ${owner} limit of ${limits.maxOrderNotional} USDC per order`,
+    };
+  }
+  if (
+    limits.maxDailyVolume !== undefined &&
+    usedVolume + order.notional > limits.maxDailyVolume
+  ) {
+    return {
+      allowed: false,
+      rule: "max_daily_volume",
+      reason: `Order would bring ${owner} volume today to ${(usedVolume + order.notional).toFixed(2)} USDC, above the daily limit of ${limits.maxDailyVolume} USDC`,
+    };
+  }
+  return null;
+}
+
+async function openOrderCount(
+  runtime: IAgentRuntime,
+  sdk: HyperliquidClient
+): Promise<number> {
+  const address = accountAddress(runtime);
+  if (!address) {
+    throw new RiskPolicyError(
+      "HYPERLIQUID_WALLET_ADDRESS is required to enforce the open orders limit",
+      "max_open_orders"
+    );
+  }
+  return (await sdk.info.getUserOpenOrders(address)).length;
+}
+
+async function evaluateOrder(
+  runtime: IAgentRuntime,
+  order: OrderContext,
+  sdk: HyperliquidClient
+): Promise<RiskDecision> {
+  const refusal = await roleRefusal(runtime, order.entityId, order.roomId);
+  if (refusal) {
+    return { allowed: false, rule: "role", reason: refusal };
+  }
+
+  const agent = agentRiskLimits(runtime);
+  const entity = entityRiskLimits(runtime, order.entityId);
+  if (!order.reduceOnly) {
+    const volume = await dailyVolume(runtime);
+    const breach =
+      checkLimits(
+        "entity",
+        entity,
+        order,
+        volume.byEntity[order.entityId] ?? 0
+      ) ?? checkLimits("agent", agent, order, volume.total);
+    if (breach) return breach;
+  }
+
+  const maxOpenOrders = [agent.maxOpenOrders, entity.maxOpenOrders]
+    .filter((limit): limit is number => limit !== undefined)
+    .sort((a, b) => a - b)[0];
+  if (maxOpenOrders !== undefined) {
+    const open = await openOrderCount(runtime, sdk);
+    if (open >= maxOpenOrders) {
+      return {
+        allowed: false,
+        rule: "max_open_orders",
+        reason: `${open} open orders already, the limit is ${maxOpenOrders}`,
+      };
+    }
+  }
+  return { allowed: true };
+}
+
+/**
+ * Checks an order against the role requirement and the agent and entity
+ * limits, and logs the decision. Throws a RiskPolicyError when refused.
+ */
+export async function enforceRiskPolicy(
+  runtime: IAgentRuntime,
+  order: OrderContext,
+  sdk: HyperliquidClient
+): Promise<void> {
+  let decision: RiskDecision;
+  try {
+    decision = await evaluateOrder(runtime, order, sdk);
+  } catch (error) {
+    const rule = error instanceof RiskPolicyError ? error.rule : undefined;
+    decision = {
+      allowed: false,
+      rule,
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  await runtime.log({
+    entityId: order.entityId as UUID,
+    roomId: order.roomId as UUID,
+    type: "hyperliquid_risk_decision",
+    body: {
+      decision: decision.allowed ? "accepted" : "rejected",
+      rule: decision.rule,
+      reason: decision.reason,
+      coin: order.coin,
+      notional: order.notional,
+      phase: order.phase,
+      reduceOnly: order.reduceOnly,
+    },
+  });
+
+  if (!decision.allowed) {
+    logger.warn(`Order refused by risk policy: ${decision.reason}`);
+    throw new RiskPolicyError(
+      `Order refused by risk policy: ${decision.reason}`,
+      decision.rule ?? "configuration"
+    );
+  }
+}
+
+/**
+ * The only way orders reach the exchange: enforces the risk policy right
+ * before `placeOrder` and counts the notional in the daily volume once placed,
+ * closes included even though they are not limited by it.
+ * A perp `leverage` is only set once the policy accepted the order.
+ */
+export async function placeOrderWithPolicy(
+  runtime: IAgentRuntime,
+  sdk: HyperliquidClient,
+  order: Omit<OrderContext, "phase">,
+  request: OrderRequest | BulkOrderRequest,
+  leverage?: { mode: MarginMode; value: number }
+): Promise<OrderResponse> {
+  await enforceRiskPolicy(runtime, { ...order, phase: "execution" }, sdk);
+  if (leverage) {
+    const symbol = "orders" in request ? request.orders[0].coin : request.coin;
+    const update = await sdk.exchange.updateLeverage(
+      symbol,
+      leverage.mode,
+      leverage.value
+    );
+    if (update?.status !== "ok") {
+      throw new HyperliquidError(
+        `Could not set ${leverage.value}x ${leverage.mode} leverage on ${symbol}: ${JSON.stringify(update?.response)}`
+      );
+    }
+  }
+  const result = await sdk.exchange.placeOrder(request);
+  // Failed or rejected orders do not use up the daily volume
+  const placed =
+    result.status === "ok" &&
+    !(result.response?.data?.statuses ?? []).some((status) => status.error);
+  if (placed) await recordVolume(runtime, order.entityId, order.notional);
+  return result;
+}
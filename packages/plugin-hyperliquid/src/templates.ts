@@ -79,3 +79,99 @@ Example response:
 <response>
     <symbol>HYPE</symbol>
 </response>`;
+
+export const cancelOrdersTemplate = `<task>
+Look at your LAST RESPONSE in the conversation where you confirmed which orders to cancel.
+Based on ONLY that last message, extract which open orders should be cancelled.
+</task>
+
+<context>
+Recent conversation:
+{{recentMessages}}
+</context>
+
+<examples>
+- "I'll cancel all your open orders" -> coin: null, order_ids: null
+- "I'll cancel your HYPE orders" -> coin: HYPE, order_ids: null
+- "I'll cancel order 91490942" -> coin: null, order_ids: 91490942
+- "I'll cancel orders #91490942 and #91490943" -> coin: null, order_ids: 91490942,91490943
+</examples>
+
+<instructions>
+1. Extract the coin symbol only if the orders of a single coin should be cancelled, otherwise null
+2. Remove any suffixes like "-SPOT", "-PERP" or "USDC" from the coin
+3. Extract the order ids (numbers) only if specific orders were named, comma-separated, otherwise null
+4. Use null for both when all orders should be cancelled
+</instructions>
+
+Respond with an XML block containing only the extracted values.
+
+Example response:
+<response>
+    <coin>HYPE</coin>
+    <order_ids>null</order_ids>
+</response>`;
+
+export const perpTradeTemplate = `<task>
+Look at your LAST RESPONSE in the conversation where you confirmed a perpetuals trade request.
+Based on ONLY that last message, extract the order details.
+</task>
+
+<context>
+Recent conversation:
+{{recentMessages}}
+</context>
+
+<rules>
+For Hyperliquid perpetuals (perps):
+
+Opening or adding to a position:
+- "long 0.01 BTC" -> coin: BTC, is_buy: true, sz: 0.01
+- "short 1 ETH at 2600" -> coin: ETH, is_buy: false, sz: 1, limit_px: 2600
+- "long 0.01 BTC with 5x leverage" -> leverage: 5
+- "short 1 ETH 3x isolated" -> leverage: 3, margin_mode: isolated
+- "long 0.01 BTC, take profit 70000, stop loss 62000" -> take_profit: 70000, stop_loss: 62000
+
+Closing a position (reduce-only):
+- "close my BTC position" -> coin: BTC, reduce_only: true, is_buy: null, sz: null
+- "close 0.5 ETH of my short" -> coin: ETH, reduce_only: true, is_buy: null, sz: 0.5
+</rules>
+
+<instructions>
+1. Extract the coin symbol (BTC, ETH, etc.) - just the symbol, no suffixes like "-PERP"
+2. is_buy is true for a long, false for a short; null when closing a position
+3. Extract the size (sz); null when closing the whole position
+4. Extract limit_px only if a price was specified with "at X", otherwise null for market orders
+5. Extract leverage as a whole number only if specified ("5x", "5x leverage"), otherwise null
+6. Extract margin_mode (cross or isolated) only if specified, otherwise null
+7. reduce_only is true only when closing or reducing a position, otherwise false
+8. Extract take_profit and stop_loss prices only if specified, otherwise null
+</instructions>
+
+Respond with an XML block containing only the extracted values. Use key-value pairs.
+
+Example response for a leveraged long with take-profit and stop-loss:
+<response>
+    <coin>BTC</coin>
+    <is_buy>true</is_buy>
+    <sz>0.01</sz>
+    <limit_px>null</limit_px>
+    <leverage>5</leverage>
+    <margin_mode>isolated</margin_mode>
+    <reduce_only>false</reduce_only>
+    <take_profit>70000</take_profit>
+    <stop_loss>62000</stop_loss>
+</response>
+
+Example response for closing a position:
+<response>
+    <coin>ETH</coin>
+    <is_buy>null</is_buy>
+    <sz>null</sz>
+    <limit_px>null</limit_px>
+    <leverage>null</leverage>
+    <margin_mode>null</margin_mode>
+    <reduce_only>true</reduce_only>
+    <take_profit>null</take_profit>
+    <stop_loss>null</stop_loss>
+</response>`;
@@ -23,8 +23,86 @@ export const SpotOrderSchema = z.object({
     .default({ limit: { tif: "Gtc" } }),
 });
 
+export const MARGIN_MODES = ["cross", "isolated"] as const;
+
+export type MarginMode = (typeof MARGIN_MODES)[number];
+
+const PerpOrderFields = z.object({
+  market: z.literal("perp"),
+  coin: z.string().min(1),
+  is_buy: z.boolean(),
+  sz: z.number().positive(),
+  limit_px: z.number().positive().nullable(),
+  /** Leverage to set on the coin before the order; the current one when unset. */
+  leverage: z.number().int().min(1).optional(),
+  margin_mode: z.enum(MARGIN_MODES).optional(),
+  /** Only reduces an open position: closes are reduce-only. */
+  reduce_only: z.boolean().default(false),
+  take_profit: z.number().positive().nullable().default(null),
+  stop_loss: z.number().positive().nullable().default(null),
+});
+
+function checkPerpOrder(
+  order: z.infer<typeof PerpOrderFields>,
+  ctx: z.RefinementCtx
+): void {
+  if (order.reduce_only && (order.take_profit || order.stop_loss)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message:
+        "Take-profit and stop-loss only apply to orders opening a position",
+    });
+  }
+  if (order.margin_mode && order.leverage === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["leverage"],
+      message: `Give a leverage to trade with ${order.margin_mode} margin, e.g. 5x ${order.margin_mode}`,
+    });
+  }
+  const entry = order.limit_px;
+  // market orders are checked against the mid once it is known
+  if (entry === null) return;
+  const side = order.is_buy ? "long" : "short";
+  // TP above and SL below the entry of a long, the other way round for a short
+  if (
+    order.take_profit !== null &&
+    (order.is_buy ? order.take_profit <= entry : order.take_profit >= entry)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["take_profit"],
+      message: `Take-profit must be ${order.is_buy ? "above" : "below"} the entry price of a ${side}`,
+    });
+  }
+  if (
+    order.stop_loss !== null &&
+    (order.is_buy ? order.stop_loss >= entry : order.stop_loss <= entry)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["stop_loss"],
+      message: `Stop-loss must be ${order.is_buy ? "below" : "above"} the entry price of a ${side}`,
+    });
+  }
+}
+
+export const PerpOrderSchema = PerpOrderFields.superRefine(checkPerpOrder);
+
+/** Spot and perp orders, told apart by `market`. */
+export const OrderSchema = z
+  .discriminatedUnion("market", [
+    SpotOrderSchema.extend({ market: z.literal("spot") }),
+    PerpOrderFields,
+  ])
+  .superRefine((order, ctx) => {
+    if (order.market === "perp") checkPerpOrder(order, ctx);
+  });
+
 // Inferred types from schemas
 export type SpotOrder = z.infer<typeof SpotOrderSchema>;
+export type PerpOrder = z.infer<typeof PerpOrderSchema>;
+export type Order = z.infer<typeof OrderSchema>;
 
 // Response types
 export interface OrderResponse {
@@ -34,6 +112,8 @@ export interface OrderResponse {
   size: number;
   price: number;
   is_buy: boolean;
+  /** Spot when unset. */
+  market?: "spot" | "perp";
 }
 
 // Error handling types
@@ -66,13 +146,182 @@ export const PRICE_VALIDATION = {
     WARNING_MAX_RATIO: 5, // +500% from mid price
   },
   SLIPPAGE: 0.01, // 1% slippage for market orders
+  TRIGGER_SLIPPAGE: 0.05, // 5% worst price for take-profit/stop-loss market triggers
 } as const;
 
 export type OrderStatus = keyof typeof ORDER_STATUS;
 
+// Risk policy types
+export const RiskLimitsSchema = z.object({
+  /** Max USDC notional of a single order. */
+  maxOrderNotional: z.number().positive().optional(),
+  /** Max USDC notional placed per UTC day. */
+  maxDailyVolume: z.number().positive().optional(),
+  /** Coins that may be traded; any coin when unset. */
+  allowedCoins: z.array(z.string().min(1)).optional(),
+  /** Max open orders on the account before new ones are refused. */
+  maxOpenOrders: z.number().int().nonnegative().optional(),
+});
+
+export type RiskLimits = z.infer<typeof RiskLimitsSchema>;
+
+export const EntityRiskLimitsSchema = z.record(z.string(), RiskLimitsSchema);
+
+export type RiskRule =
+  | "role"
+  | "allowed_coins"
+  | "max_order_notional"
+  | "max_daily_volume"
+  | "max_open_orders"
+  | "configuration";
+
+export class RiskPolicyError extends HyperliquidError {
+  constructor(
+    message: string,
+    public rule: RiskRule
+  ) {
+    super(message);
+    this.name = "RiskPolicyError";
+  }
+}
+
+/** Roles (from the bootstrap role system) allowed to trade. */
+export const TRADING_ROLES = ["OWNER", "ADMIN"] as const;
+
+export const CONFIRMATION = {
+  DEFAULT_TTL_SECONDS: 120, // previews not confirmed within 2 minutes expire
+} as const;
+
+// Pending order types
+export interface OrderPreview {
+  coin: string;
+  side: "buy" | "sell";
+  size: number;
+  orderType: "market" | "limit";
+  midPrice: number;
+  /** Rounded price sent to the exchange: the slippage bound for market orders. */
+  finalPrice: number;
+  notional: number;
+  /** Max distance from mid for market orders (0.01 = 1%), null for limit orders. */
+  slippage: number | null;
+  /** Spot when unset. */
+  market?: "spot" | "perp";
+  leverage?: number;
+  marginMode?: MarginMode;
+  reduceOnly?: boolean;
+  takeProfit?: number | null;
+  stopLoss?: number | null;
+}
+
+export interface ExchangeOrderRequest {
+  coin: string;
+  asset: number;
+  is_buy: boolean;
+  sz: number;
+  limit_px: number;
+  reduce_only: boolean;
+  order_type:
+    | { market: {} }
+    | { limit: { tif: "Ioc" | "Gtc" } }
+    | {
+        trigger: { triggerPx: number; isMarket: boolean; tpsl: "tp" | "sl" };
+      };
+}
+
+export interface PendingOrder {
+  id: string;
+  entityId: string;
+  roomId: string;
+  createdAt: number;
+  expiresAt: number;
+  preview: OrderPreview;
+  request: ExchangeOrderRequest;
+  /** Take-profit/stop-loss orders placed together with a perp `request`. */
+  triggers?: ExchangeOrderRequest[];
+  /** Leverage set on the perp before `request` is placed. */
+  leverage?: { mode: MarginMode; value: number };
+}
+
+// Position types
+export interface PositionResponse {
+  coin: string;
+  side: "long" | "short";
+  size: number;
+  entryPrice: number;
+  /** Mark price of the perp, when known. */
+  markPrice?: number;
+  /** Null when the position cannot be liquidated (e.g. fully collateralized). */
+  liquidationPrice: number | null;
+  leverage: number;
+  marginMode: MarginMode;
+  marginUsed: number;
+  positionValue: number;
+  unrealizedPnl: number;
+  /** Funding paid since the position was opened (negative when received). */
+  fundingSinceOpen: number;
+  /** Current hourly funding rate of the perp, when known. */
+  fundingRate?: number;
+}
+
 // Balance types
 export interface BalanceResponse {
   coin: string;
   free: number;
   locked: number;
+  /** USDC value of the whole balance at the current mid, when known. */
+  usdcValue?: number;
 }
+
+// Fill types
+export interface FillResponse {
+  coin: string;
+  orderId: string;
+  is_buy: boolean;
+  size: number;
+  price: number;
+  fee: number;
+  feeToken: string;
+  /** Realized PnL reported by the exchange for this fill. */
+  closedPnl: number;
+  time: number;
+  /** Spot when unset. */
+  market?: "spot" | "perp";
+}
+
+// Paper trading types
+export const PaperFeedSchema = z.object({
+  tokens: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        szDecimals: z.number().int().nonnegative(),
+      })
+    )
+    .min(1),
+  /** One mid price per coin and step, replayed in order. */
+  ticks: z.array(z.record(z.string(), z.number().positive())).min(1),
+});
+
+export type PaperFeed = z.infer<typeof PaperFeedSchema>;
+
+export interface PaperOrder extends OrderResponse {
+  /** Average fill price and time, once filled. */
+  fillPrice?: number;
+  fillTime?: number;
+  timestamp: number;
+}
+
+export interface PaperState {
+  /** Current step of the price feed, and when it last moved. */
+  tick: number;
+  tickedAt?: number;
+  nextOrderId: number;
+  /** Total holdings per coin, USDC included; open orders lock part of them. */
+  balances: Record<string, number>;
+  orders: PaperOrder[];
+}
+
+export const PAPER_DEFAULTS = {
+  BALANCES: { USDC: 10000 },
+  TICK_SECONDS: 60,
+} as const;
@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { Action, IAgentRuntime } from "@elizaos/core";
+import {
+  portfolioAction,
+  portfolioImportAction,
+  portfolioRecordAction,
+  portfolioTargetAction
+} from "../../actions/portfolio";
+import { snapshotAction } from "../../actions/snapshot";
+import { loadPortfolio } from "../../data/portfolios";
+import {
+  createMockMemory,
+  createMockRuntime,
+  createMockState,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "../test-utils";
+
+const IBKR = [
+  "Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Quantity,T. Price,C. Price,Proceeds,Comm/Fee,Basis,Realized P/L,MTM P/L,Code",
+  'Trades,Data,Order,Stocks,USD,CSPX,"2024-01-03, 10:15:02",5,472.5,472.5,-2362.5,-1,2363.5,0,0,O'
+].join("\n");
+
+async function run(action: Action, runtime: IAgentRuntime, text: string) {
+  return (await action.handler(runtime, createMockMemory(text), createMockState(), {})) as {
+    text: string;
+    success: boolean;
+    data: any;
+    values: any;
+  };
+}
+
+describe("portfolio actions (replayed)", () => {
+  let offline: ReturnType<typeof mockFetch>;
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("routes messages to the right action", async () => {
+    const runtime = createMockRuntime();
+    const validate = (action: Action, text: string) =>
+      action.validate(runtime, createMockMemory(text));
+
+    expect(await validate(portfolioRecordAction, "ho comprato 10 VWCE a 110 EUR")).toBe(true);
+    expect(await validate(portfolioRecordAction, IBKR)).toBe(false);
+    expect(await validate(portfolioImportAction, IBKR)).toBe(true);
+    expect(await validate(portfolioTargetAction, "target 80% VWCE 20% CSPX")).toBe(true);
+    expect(await validate(portfolioAction, "come va il mio portafoglio?")).toBe(true);
+    expect(await validate(portfolioAction, "ho comprato 10 VWCE per il mio portafoglio")).toBe(
+      false
+    );
+  });
+
+  it("records, imports and values the ledger per user", async () => {
+    const runtime = createMockRuntime();
+
+    const recorded = await run(
+      portfolioRecordAction,
+      runtime,
+      "ho comprato 10 VWCE a 110 EUR il 2.1.2024, commissioni 5"
+    );
+    expect(recorded.success).toBe(true);
+    expect(recorded.text).toContain(
+      "Registrato: acquisto di 10 VWCE a 110.00 EUR il 2024-01-02 (commissioni 5.00)."
+    );
+    const retried = await run(
+      portfolioRecordAction,
+      runtime,
+      "ho comprato 10 VWCE a 110 EUR il 2.1.2024, commissioni 5"
+    );
+    expect(retried.data.added).toBe(0);
+
+    const imported = await run(portfolioImportAction, runtime, IBKR);
+    expect(imported.text).toContain("**Import Interactive Brokers**");
+    expect(imported.data).toMatchObject({ added: 1, duplicates: 0 });
+    const reimported = await run(portfolioImportAction, runtime, IBKR);
+    expect(reimported.data).toMatchObject({ added: 0, duplicates: 1 });
+
+    await run(portfolioTargetAction, runtime, "target 70% VWCE 30% CSPX");
+    const { portfolio } = await loadPortfolio(runtime, createMockMemory().entityId);
+    expect(portfolio.transactions.map((transaction) => transaction.symbol)).toEqual([
+      "VWCE",
+      "CSPX"
+    ]);
+    expect(portfolio.targets).toEqual([
+      { symbol: "VWCE", weight: 70 },
+      { symbol: "CSPX", weight: 30 }
+    ]);
+
+    const shown = await run(portfolioAction, runtime, "il mio portafoglio");
+    expect(offline.fetchMock).not.toHaveBeenCalled();
+    expect(shown.success).toBe(true);
+    const { report } = shown.data;
+    expect(report.baseCurrency).toBe("CHF");
+    expect(report.missingPrices).toEqual([]);
+    expect(report.unconverted).toEqual([]);
+    // 1105 EUR at the EUR/CHF close of 2024-01-02, valued at the last VWCE and EUR/CHF closes
+    const vwce = report.positions.find((position: any) => position.symbol === "VWCE");
+    expect(vwce.costBasis).toBeCloseTo(1105 * 0.93974, 6);
+    expect(vwce.marketValue).toBeCloseTo(10 * 127.313 * 0.92868, 6);
+    expect(shown.text).toContain("**Portafoglio (CHF)**");
+    expect(shown.text).toContain("Scostamento dal target: VWCE");
+  });
+
+  it("adds the user's portfolio to snapshots of held ETFs", async () => {
+    const runtime = createMockRuntime();
+    await run(portfolioRecordAction, runtime, "ho comprato 10 VWCE a 110 EUR il 2.1.2024");
+
+    const held = await snapshotAction.handler(
+      runtime,
+      createMockMemory("snapshot VWCE", { id: "00000000-0000-0000-0000-0000000000a1" as any }),
+      createMockState(),
+      {}
+    );
+    expect((held as any).values.portfolioSummary).toContain("- VWCE: 10 quote · PMC 110.00 EUR");
+
+    const other = await snapshotAction.handler(
+      runtime,
+      createMockMemory("snapshot CSPX", { id: "00000000-0000-0000-0000-0000000000a2" as any }),
+      createMockState(),
+      {}
+    );
+    expect((other as any).values.portfolioSummary).toBeUndefined();
+  });
+});
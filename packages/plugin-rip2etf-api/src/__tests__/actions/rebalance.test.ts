@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { Action, IAgentRuntime } from "@elizaos/core";
+import { portfolioRecordAction, portfolioTargetAction } from "../../actions/portfolio";
+import { rebalanceAction } from "../../actions/rebalance";
+import {
+  createMockMemory,
+  createMockRuntime,
+  createMockState,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "../test-utils";
+
+// last replayed closes converted at the last replayed EUR/CHF and USD/CHF closes
+const VWCE_CHF = 127.313 * 0.92868;
+const CSPX_CHF = 687.791 * 0.85832;
+
+async function run(action: Action, runtime: IAgentRuntime, text: string) {
+  return (await action.handler(runtime, createMockMemory(text), createMockState(), {})) as {
+    text: string;
+    success: boolean;
+    data: any;
+    values: any;
+  };
+}
+
+describe("rebalance action (replayed)", () => {
+  let offline: ReturnType<typeof mockFetch>;
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("only handles rebalancing requests, not backtests", async () => {
+    const runtime = createMockRuntime();
+    const validate = (text: string) => rebalanceAction.validate(runtime, createMockMemory(text));
+
+    expect(await validate("ho 30 VWCE e 10 CSPX, ribilancia 70% VWCE 30% CSPX")).toBe(true);
+    expect(await validate("ho 2000 CHF da investire, come li divido?")).toBe(true);
+    expect(await validate("backtest 70% VWCE 30% CSPX con ribilanciamento annuale dal 2015")).toBe(
+      false
+    );
+  });
+
+  it("plans a full rebalance from the positions in the message", async () => {
+    const runtime = createMockRuntime();
+    const result = await run(
+      rebalanceAction,
+      runtime,
+      "ho 30 VWCE e 2 CSPX, ribilancia 70% VWCE 30% CSPX"
+    );
+
+    expect(offline.fetchMock).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.data.positionsSource).toBe("message");
+    expect(result.data.plan.trades).toEqual([
+      { symbol: "VWCE", side: "sell", shares: 2, price: VWCE_CHF, value: 2 * VWCE_CHF, fee: 0 }
+    ]);
+    expect(result.text).toContain("**Ribilanciamento 70% VWCE + 30% CSPX** (CHF");
+    expect(result.text).toContain("VENDI   VWCE      2  118.23        236.47         0.00");
+    expect(result.text).toContain("Scostamento massimo dal target: 5.0 pt → 3.7 pt");
+    expect(result.values.rebalancePlan).toBe(result.data.plan);
+  });
+
+  it("splits a contribution using the stored ledger and targets", async () => {
+    const runtime = createMockRuntime();
+    await run(portfolioRecordAction, runtime, "ho comprato 10 VWCE a 110 EUR il 2.1.2024");
+    await run(portfolioTargetAction, runtime, "target 70% VWCE 30% CSPX");
+
+    const result = await run(
+      rebalanceAction,
+      runtime,
+      "ho 2000 CHF da investire, ribilancia su degiro"
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.positionsSource).toBe("portfolio");
+    expect(result.data.params).toMatchObject({ mode: "contribution", contribution: 2000 });
+    const { plan } = result.data;
+    expect(plan.trades.every((trade: any) => trade.side === "buy" && trade.fee === 3)).toBe(true);
+    expect(plan.before.find((row: any) => row.symbol === "VWCE").value).toBeCloseTo(
+      10 * VWCE_CHF,
+      6
+    );
+    const spent = plan.trades.reduce((sum: number, trade: any) => sum + trade.value + trade.fee, 0);
+    expect(spent + plan.cashLeft).toBeCloseTo(2000, 6);
+    expect(plan.trades.map((trade: any) => trade.symbol)).toContain("CSPX");
+    expect(result.text).toContain("Degiro, indicative");
+  });
+});
@@ -0,0 +1,202 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { snapshotAction } from "../../actions/snapshot";
+import { getProviderHealth } from "../../providers/marketData";
+import { type EtfSnapshot, etfSnapshotSchema } from "../../utils/snapshot";
+import {
+  createMockMemory,
+  createMockRuntime,
+  createMockState,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "../test-utils";
+
+describe("rip2etf.snapshot (replayed)", () => {
+  let offline: ReturnType<typeof mockFetch>;
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("validates messages that mention a ticker or ask for an ETF", async () => {
+    const runtime = createMockRuntime();
+    expect(await snapshotAction.validate(runtime, createMockMemory("snapshot VWCE"))).toBe(true);
+    expect(await snapshotAction.validate(runtime, createMockMemory("ciao come stai"))).toBe(false);
+    // no ticker the rules recognise: the model extraction and clarifying question take over
+    for (const text of ["compare the msci world etf", "scheda del vangard all world"]) {
+      expect(await snapshotAction.validate(runtime, createMockMemory(text))).toBe(true);
+    }
+  });
+
+  it("builds the comparison from recorded data only", async () => {
+    const runtime = createMockRuntime();
+    const result = await snapshotAction.handler(
+      runtime,
+      createMockMemory("snapshot VWCE vs CSPX"),
+      createMockState(),
+      {}
+    );
+
+    expect(offline.fetchMock).not.toHaveBeenCalled();
+    expect(result).toBeDefined();
+    const { text, success, values } = result as { text: string; success: boolean; values: any };
+    expect(success).toBe(true);
+
+    // overview and holdings come from the registry
+    expect(text).toContain("**VWCE · snapshot dati**");
+    expect(text).toContain("- ISIN: IE00BK5BQT80");
+    expect(text).toContain("- TER: 0.22%");
+    expect(text).toContain("Top holdings (al 2025-06-30):");
+
+    // histories and FX rates come from the Stooq fixtures
+    expect(text).toContain("Performance rebased 100 in CHF (180 giorni):");
+    expect(text).toContain("VWCE: 114.1 | CSPX: 144.3");
+    expect(text).toContain("Cambi applicati: VWCE EUR→CHF (eurchf), CSPX USD→CHF (usdchf)");
+    expect(text).toContain("Fonti prezzo: stooq");
+    expect(text).toContain(
+      "- 1Y: CAGR 31.69% · Vol 9.90% · MaxDD -5.33% (2024-11-25→2024-12-23, recuperato 2025-02-25)"
+    );
+    expect(text).toContain("- 3Y: storico insufficiente");
+    expect(text).toContain("Sharpe/Sortino con risk-free 0% (serie FRED non disponibile)");
+
+    const attachments = values.snapshotAttachments as Array<{ contentType: string }>;
+    expect(attachments.length).toBeGreaterThan(0);
+    expect(attachments[0].contentType).toBe("image");
+  });
+
+  it("returns the versioned snapshot the text is rendered from", async () => {
+    const result = await snapshotAction.handler(
+      createMockRuntime(),
+      createMockMemory("snapshot VWCE vs CSPX"),
+      createMockState(),
+      {}
+    );
+    const { data, values } = result as { data: any; values: any };
+    const snapshot = data.snapshot as EtfSnapshot;
+
+    expect(etfSnapshotSchema.parse(snapshot)).toEqual(snapshot);
+    expect(data.schemaVersion).toBe(1);
+    expect(values.snapshotData).toBe(snapshot);
+    expect(snapshot.primarySymbol).toBe("VWCE");
+    expect(snapshot.compareSymbols).toEqual(["CSPX"]);
+    expect(snapshot.listings.map((listing) => listing.sourceSymbol)).toEqual([
+      "vwce.de",
+      "cspx.uk"
+    ]);
+    expect(snapshot.performance?.dates).toHaveLength(180);
+    expect(snapshot.performance?.series.map((series) => series.values.at(-1)?.toFixed(1))).toEqual([
+      "114.1",
+      "144.3"
+    ]);
+    expect(snapshot.metrics?.perSymbol.VWCE["3Y"]).toBeNull();
+  });
+
+  it("renders the same snapshot in English and German", async () => {
+    const render = async (locale: string) => {
+      const result = await snapshotAction.handler(
+        createMockRuntime(),
+        createMockMemory("snapshot VWCE vs CSPX"),
+        createMockState(),
+        { locale }
+      );
+      return result as { text: string; data: { snapshot: EtfSnapshot } };
+    };
+
+    const { text: english, data } = await render("en");
+    expect(english).toContain("**VWCE · data snapshot**");
+    expect(english).toContain("Performance rebased to 100 in CHF (180 days):");
+    expect(english).toContain("VWCE: 114.1 | CSPX: 144.3");
+    expect(english).toContain("- 3Y: not enough history");
+    expect(data.snapshot.charts[0].title).toBe("Performance (180 days, CHF, rebased to 100)");
+
+    const { text: german, data: germanData } = await render("de");
+    expect(german).toContain("**VWCE · Datenüberblick**");
+    expect(german).toContain(
+      "Angewandte Wechselkurse: VWCE EUR→CHF (eurchf), CSPX USD→CHF (usdchf)"
+    );
+    expect(germanData.snapshot.charts[0].title).toBe("Wertentwicklung (180 Tage, CHF, Basis 100)");
+  });
+
+  it("attaches CSV and JSON exports when asked", async () => {
+    const result = await snapshotAction.handler(
+      createMockRuntime(),
+      createMockMemory("snapshot VWCE vs CSPX, esporta i dati"),
+      createMockState(),
+      {}
+    );
+    const { text, data, values } = result as { text: string; data: any; values: any };
+    const exports = (values.snapshotAttachments as Array<any>).filter(
+      (media) => media.contentType === "document"
+    );
+
+    expect(exports.map((media) => media.mimeType)).toEqual(["text/csv", "application/json"]);
+    expect(text).toContain(`Export allegati: ${exports.map((media) => media.filename).join(", ")}`);
+
+    const csv = exports[0].data.toString("utf8").trim().split("\n");
+    expect(csv[0]).toBe("date,VWCE,CSPX");
+    expect(csv).toHaveLength(181);
+    expect(csv[180]).toBe(`${data.snapshot.performance.dates[179]},114.0979,144.3493`);
+
+    expect(JSON.parse(exports[1].data.toString("utf8"))).toEqual(data.snapshot);
+  });
+
+  it("follows the time window and interval asked for", async () => {
+    const render = async (text: string) =>
+      (await snapshotAction.handler(
+        createMockRuntime(),
+        createMockMemory(text),
+        createMockState(),
+        {}
+      )) as { text: string; data: { snapshot: EtfSnapshot } };
+
+    const weekly = await render("snapshot VWCE vs CSPX dal 2024 settimanale");
+    const { snapshot } = weekly.data;
+    expect(snapshot.window).toEqual({ kind: "since", start: "2024-01-01" });
+    expect(snapshot.performance!.interval).toBe("1wk");
+    expect(snapshot.performance!.dates[0]).toBe("2024-01-01");
+    expect(snapshot.performance!.dates.length).toBeGreaterThan(52);
+    expect(snapshot.charts[0].title).toBe("Andamento (dal 2024-01-01, settimanale, CHF, base 100)");
+    expect(weekly.text).toContain("Performance rebased 100 in CHF (dal 2024-01-01, settimanale):");
+    expect(snapshot.metrics!.windows).toEqual(["1Y", "max"]);
+
+    const recent = await render("snapshot VWCE ultimi 6 mesi");
+    expect(recent.data.snapshot.window).toMatchObject({ kind: "last", start: "2025-03-30" });
+    expect(recent.data.snapshot.performance!.dates[0] >= "2025-03-30").toBe(true);
+    expect(recent.data.snapshot.metrics!.windows).toEqual(["max"]);
+    expect(recent.text).toContain("Prezzo vs total return (ultimi 6 mesi, CHF):");
+
+    // no source in the fixtures has intraday bars
+    const intraday = await render("snapshot VWCE intraday");
+    expect(intraday.data.snapshot.performance!.interval).toBe("1d");
+    expect(intraday.text).toContain(
+      "Dati intraday (barre da 15 minuti) non disponibili: uso le chiusure giornaliere."
+    );
+  });
+
+  it("measures beta against a benchmark outside the compared symbols", async () => {
+    const result = (await snapshotAction.handler(
+      createMockRuntime(),
+      createMockMemory("snapshot VWCE benchmark CSPX"),
+      createMockState(),
+      {}
+    )) as { text: string; data: { snapshot: EtfSnapshot } };
+
+    expect(offline.fetchMock).not.toHaveBeenCalled();
+    expect(result.data.snapshot.metrics!.benchmark).toBe("CSPX");
+    expect(result.text).toContain("Beta calcolato vs CSPX");
+  });
+
+  it("leaves the providers healthy", () => {
+    for (const health of getProviderHealth()) {
+      expect(health.failures).toBe(0);
+    }
+  });
+});
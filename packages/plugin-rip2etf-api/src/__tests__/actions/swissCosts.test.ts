@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { snapshotAction } from "../../actions/snapshot";
+import { swissCostsAction } from "../../actions/swissCosts";
+import {
+  createMockMemory,
+  createMockRuntime,
+  createMockState,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "../test-utils";
+
+describe("rip2etf.swiss_costs (replayed)", () => {
+  let offline: ReturnType<typeof mockFetch>;
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("validates tax questions about ETFs", async () => {
+    const runtime = createMockRuntime();
+    const validate = (text: string) => swissCostsAction.validate(runtime, createMockMemory(text));
+
+    expect(await validate("costi fiscali CH di VWCE vs CSPX")).toBe(true);
+    expect(await validate("quanta ritenuta perdo con VWCE?")).toBe(true);
+    expect(await validate("snapshot VWCE")).toBe(false);
+    expect(await validate("come funziona la patrimoniale?")).toBe(false);
+  });
+
+  it("compares the yearly costs from registry data", async () => {
+    const result = (await swissCostsAction.handler(
+      createMockRuntime(),
+      createMockMemory("costi fiscali CH di VWCE vs CSPX su 100'000 CHF, patrimoniale 3‰"),
+      createMockState(),
+      {}
+    )) as { text: string; success: boolean; data: any };
+
+    expect(offline.fetchMock).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    const [cspx, vwce] = result.data.swissCosts.rows;
+    expect(cspx.symbol).toBe("CSPX");
+    // 1.2% yield, all US, 15% lost in the Irish fund
+    expect(cspx.withholdingDragPct).toBeCloseTo(0.18, 9);
+    expect(vwce.withholdingDragPct).toBeCloseTo(1.8 * 0.62 * 0.15, 9);
+    expect(result.text).toContain(
+      "- CSPX (IE, accumulazione): TER 0.07% + ritenuta USA persa 0.18% + bollo 0.015% + patrimoniale 0.30% = 0.56%/anno"
+    );
+    expect(result.text).toContain("Su 100000 CHF: CSPX 565 CHF/anno, VWCE 702 CHF/anno");
+    expect(result.text).toContain("patrimoniale 0.3% inclusa");
+  });
+
+  it("adds the costs to CHF snapshots only", async () => {
+    const render = async (text: string) =>
+      (await snapshotAction.handler(
+        createMockRuntime(),
+        createMockMemory(text),
+        createMockState(),
+        {}
+      )) as { text: string; data: any };
+
+    const chf = await render("snapshot VWCE vs CSPX con IBKR");
+    expect(chf.data.snapshot.swissCosts.swissBroker).toBe(false);
+    expect(chf.data.snapshot.swissCosts.rows.map((row: any) => row.symbol)).toEqual([
+      "CSPX",
+      "VWCE"
+    ]);
+    expect(chf.text).toContain("Costi annui per un residente svizzero (% del capitale):");
+    expect(chf.text).toContain("Bollo escluso: acquisto tramite broker estero.");
+
+    const eur = await render("snapshot VWCE vs CSPX in EUR");
+    expect(eur.data.snapshot.swissCosts).toBeNull();
+    expect(eur.text).not.toContain("residente svizzero");
+  });
+});
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { ChannelType, type IAgentRuntime, type Task } from "@elizaos/core";
+import {
+  watchlistAddAction,
+  watchlistListAction,
+  watchlistRemoveAction
+} from "../../actions/watchlist";
+import { WATCHLIST_TAG, WATCHLIST_TASK_NAME, readWatchlist } from "../../data/watchlists";
+import { runWatchlist } from "../../workers/watchlist";
+import {
+  createMockMemory,
+  createMockRuntime,
+  createMockState,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "../test-utils";
+
+const DISCORD_ROOM = {
+  source: "discord",
+  type: ChannelType.GROUP,
+  channelId: "123456789",
+  serverId: "42"
+};
+
+async function run(action: typeof watchlistAddAction, runtime: IAgentRuntime, text: string) {
+  return (await action.handler(runtime, createMockMemory(text), createMockState(), {})) as {
+    text: string;
+    success: boolean;
+    data: any;
+  };
+}
+
+const storedTasks = (runtime: IAgentRuntime) =>
+  Array.from((runtime as unknown as { tasks: Map<string, Task> }).tasks.values());
+
+describe("watchlist actions", () => {
+  let offline: ReturnType<typeof mockFetch>;
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("routes messages to the right action", async () => {
+    const runtime = createMockRuntime();
+    const validate = (action: typeof watchlistAddAction, text: string) =>
+      action.validate(runtime, createMockMemory(text));
+
+    expect(await validate(watchlistAddAction, "segui VWCE drawdown > 10%")).toBe(true);
+    expect(await validate(watchlistAddAction, "togli VWCE dalla watchlist")).toBe(false);
+    expect(await validate(watchlistRemoveAction, "togli VWCE dalla watchlist")).toBe(true);
+    expect(await validate(watchlistListAction, "cosa seguo?")).toBe(true);
+    expect(await validate(watchlistListAction, "aggiungi CSPX alla watchlist")).toBe(false);
+  });
+
+  it("stores the room watchlist as a repeating task", async () => {
+    const runtime = createMockRuntime({}, DISCORD_ROOM);
+    const result = await run(watchlistAddAction, runtime, "segui VWCE e CSPX drawdown > 10%");
+
+    expect(result.success).toBe(true);
+    expect(result.text).toContain("- VWCE: drawdown > 10% dal massimo");
+    const [task] = storedTasks(runtime);
+    expect(task.name).toBe(WATCHLIST_TASK_NAME);
+    expect(task.tags).toEqual(["queue", "repeat", WATCHLIST_TAG]);
+    expect(task.metadata?.updateInterval).toBe(60 * 60_000);
+    expect(readWatchlist(task)).toMatchObject({
+      scope: "room",
+      target: { source: "discord", channelId: "123456789", serverId: "42" },
+      items: [{ symbol: "VWCE" }, { symbol: "CSPX" }]
+    });
+
+    await run(watchlistAddAction, runtime, "avvisami se VWCE cambia il TER");
+    const [updated] = storedTasks(runtime);
+    expect(readWatchlist(updated)!.items[0].rules).toEqual([
+      { kind: "drawdown", thresholdPct: 10 },
+      { kind: "ter" }
+    ]);
+
+    const listed = await run(watchlistListAction, runtime, "mostrami la watchlist");
+    expect(listed.text).toContain("**Watchlist della stanza**");
+    expect(listed.text).toContain("- CSPX: drawdown > 10% dal massimo");
+
+    const removed = await run(watchlistRemoveAction, runtime, "togli CSPX dalla watchlist");
+    expect(removed.data.removed).toEqual(["CSPX"]);
+    await run(watchlistRemoveAction, runtime, "togli tutto dalla watchlist");
+    expect(storedTasks(runtime)).toHaveLength(0);
+  });
+
+  it("keeps personal lists per entity", async () => {
+    const runtime = createMockRuntime(
+      {},
+      { source: "telegram", type: ChannelType.DM, channelId: "999" }
+    );
+    await run(watchlistAddAction, runtime, "segui VWCE");
+    const [task] = storedTasks(runtime);
+
+    expect(task.entityId).toBe(createMockMemory().entityId);
+    expect(readWatchlist(task)).toMatchObject({
+      scope: "entity",
+      items: [{ symbol: "VWCE", rules: [{ kind: "drawdown", thresholdPct: 10 }, { kind: "ter" }] }]
+    });
+  });
+});
+
+describe("watchlist worker", () => {
+  let offline: ReturnType<typeof mockFetch>;
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("posts new alerts with a chart to the originating channel, once", async () => {
+    const runtime = createMockRuntime({}, DISCORD_ROOM);
+    // the VWCE fixture ends 6.2% below its high, CSPX closes at its high (687.79)
+    await run(watchlistAddAction, runtime, "segui VWCE e CSPX drawdown > 6% o se sale sopra 600");
+    const [task] = storedTasks(runtime);
+
+    const alerts = await runWatchlist(runtime, task);
+
+    expect(alerts.map((alert) => alert.symbol)).toEqual(["VWCE", "CSPX"]);
+    expect(runtime.sendMessageToTarget).toHaveBeenCalledTimes(1);
+    const [target, content] = (runtime.sendMessageToTarget as any).mock.calls[0];
+    expect(target).toMatchObject({ source: "discord", channelId: "123456789" });
+    expect(content.text).toStartWith("**Alert watchlist ETF**");
+    expect(content.text).toContain("- VWCE: drawdown > 6% dal massimo · drawdown -6.17%");
+    expect(content.text).toContain("- CSPX: prezzo sopra 600 · ultimo close 687.79 (2025-09-30)");
+    expect(content.attachments.map((media: any) => media.title)).toEqual([
+      "VWCE · drawdown dal massimo",
+      "CSPX · ultimo anno"
+    ]);
+
+    const state = readWatchlist(storedTasks(runtime)[0])!.state;
+    expect(state.VWCE.active).toEqual(["drawdown:6"]);
+    expect(state.CSPX.active).toEqual(["above:600"]);
+    expect(state.CSPX.lastDate).toBe("2025-09-30");
+
+    expect(await runWatchlist(runtime, task)).toEqual([]);
+    expect(runtime.sendMessageToTarget).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries alerts that could not be delivered", async () => {
+    const runtime = createMockRuntime({}, DISCORD_ROOM);
+    await run(watchlistAddAction, runtime, "segui VWCE drawdown > 6%");
+    const [task] = storedTasks(runtime);
+    (runtime.sendMessageToTarget as any).mockImplementationOnce(async () => {
+      throw new Error("No send handler registered for source: discord");
+    });
+
+    expect(await runWatchlist(runtime, task)).toEqual([]);
+    expect(readWatchlist(storedTasks(runtime)[0])!.state).toEqual({});
+    expect(await runWatchlist(runtime, task)).toHaveLength(1);
+  });
+});
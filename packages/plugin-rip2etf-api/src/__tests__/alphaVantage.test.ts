@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import {
+  alphaVantageDaily,
+  alphaVantageDividends,
+  alphaVantageIntraday
+} from "../providers/alphaVantage";
+import { alphaVantageProvider } from "../providers/builtin";
+import {
+  ProviderQuotaError,
+  firstFromProviders,
+  getProviderHealth,
+  registerMarketDataProvider,
+  resetProviderHealth,
+  setProviderPriorities,
+  unregisterMarketDataProvider
+} from "../providers/marketData";
+import { rip2etfSettings } from "../settings";
+import { resolveInstrument } from "../utils/instruments";
+import { mockFetch, restoreSettings } from "./test-utils";
+
+const THROTTLE_NOTE = {
+  Note: "Thank you for using Alpha Vantage! Our standard API call frequency is 5 calls per minute and 25 calls per day."
+};
+const THROTTLE_INFORMATION = {
+  Information:
+    "We have detected your API key as demo and our standard API rate limit is 25 requests per day."
+};
+
+describe("Alpha Vantage", () => {
+  let restoreFetch: (() => void) | undefined;
+
+  const answer = (body: unknown) => {
+    const { fetchMock, restore } = mockFetch(JSON.stringify(body));
+    restoreFetch = restore;
+    return fetchMock;
+  };
+
+  beforeEach(() => {
+    rip2etfSettings.ENABLE_ALPHA_VANTAGE = true;
+    rip2etfSettings.ALPHAVANTAGE_API_KEY = "test-key";
+    resetProviderHealth();
+  });
+
+  afterEach(() => {
+    restoreFetch?.();
+    restoreFetch = undefined;
+    restoreSettings();
+    unregisterMarketDataProvider("alphaVantage");
+  });
+
+  it("raises a quota error on a throttle Note", async () => {
+    answer(THROTTLE_NOTE);
+    await expect(alphaVantageDaily("VT")).rejects.toBeInstanceOf(ProviderQuotaError);
+  });
+
+  it("raises a quota error on an Information message", async () => {
+    answer(THROTTLE_INFORMATION);
+    await expect(alphaVantageDividends("VT")).rejects.toThrow(/rate limit/);
+  });
+
+  it("treats an Error Message as a miss, not a throttle", async () => {
+    answer({ "Error Message": "Invalid API call. Please retry or visit the documentation." });
+    expect(await alphaVantageDaily("NOPE")).toBeNull();
+  });
+
+  it("parses the unadjusted daily closes in date order", async () => {
+    answer({
+      "Time Series (Daily)": {
+        "2025-01-03": {
+          "1. open": "101",
+          "2. high": "103",
+          "3. low": "100",
+          "4. close": "102.5",
+          "6. volume": "1000"
+        },
+        "2025-01-02": {
+          "1. open": "100",
+          "2. high": "101",
+          "3. low": "99",
+          "4. close": "101",
+          "5. adjusted close": "99.8",
+          "6. volume": "900"
+        }
+      }
+    });
+    const history = await alphaVantageDaily("VT");
+    expect(history!.adjusted).toBe(false);
+    expect(history!.bars.map((bar) => [bar.t, bar.c])).toEqual([
+      ["2025-01-02", 101],
+      ["2025-01-03", 102.5]
+    ]);
+  });
+
+  it("parses intraday bars with their exchange time", async () => {
+    const fetchMock = answer({
+      "Time Series (60min)": {
+        "2025-01-03 11:00:00": { "1. open": "101", "4. close": "101.5", "5. volume": "40" },
+        "2025-01-03 10:00:00": { "1. open": "100", "4. close": "101", "5. volume": "50" }
+      }
+    });
+    const history = await alphaVantageIntraday("VT", "1h");
+    expect(String(fetchMock.mock.calls[0][0])).toContain("interval=60min");
+    expect(history!.interval).toBe("1h");
+    expect(history!.bars.map((bar) => [bar.t, bar.c])).toEqual([
+      ["2025-01-03 10:00", 101],
+      ["2025-01-03 11:00", 101.5]
+    ]);
+  });
+
+  it("is skipped by the provider chain once throttled", async () => {
+    registerMarketDataProvider(alphaVantageProvider);
+    setProviderPriorities({ history: ["alphaVantage", "-stooq"] });
+    const fetchMock = answer(THROTTLE_NOTE);
+    const instrument = resolveInstrument("VT")!;
+    const lookup = () =>
+      firstFromProviders("history", (provider, ctx) => provider.history!(instrument, ctx));
+
+    expect(await lookup()).toBeNull();
+    expect(await lookup()).toBeNull();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const health = getProviderHealth().find((entry) => entry.id === "alphaVantage");
+    expect(health?.skipReason).toBe("quota");
+    expect(health?.skippedUntil).toBeGreaterThan(Date.now());
+  });
+});
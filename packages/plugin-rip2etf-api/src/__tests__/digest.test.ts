@@ -0,0 +1,219 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { IAgentRuntime, Task } from "@elizaos/core";
+import { lastDigestProvider } from "../providers/lastDigest";
+import type { PriceHistory } from "../types";
+import { etfDigestRow, formatMacroRow, macroDigestRow, unsupportedNumbers } from "../utils/digest";
+import {
+  DIGEST_TASK_NAME,
+  digestConfig,
+  ensureDigestTask,
+  parseDigestTargets,
+  runDigest
+} from "../workers/digest";
+import {
+  createMockMemory,
+  createMockRuntime,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "./test-utils";
+
+const daily = (closes: Array<[string, number]>): PriceHistory => ({
+  symbol: "VWCE",
+  interval: "1d",
+  currency: "EUR",
+  bars: closes.map(([t, c]) => ({ t, o: c, h: c, l: c, c })),
+  adjusted: false,
+  dataSources: ["stooq"]
+});
+
+describe("digest tables", () => {
+  it("measures week, month and year-to-date returns from the last close", () => {
+    const row = etfDigestRow(
+      daily([
+        ["2024-12-31", 100],
+        ["2025-08-29", 110],
+        ["2025-09-22", 118],
+        ["2025-09-23", 120],
+        ["2025-09-30", 121]
+      ])
+    )!;
+
+    expect(row.asOf).toBe("2025-09-30");
+    expect(row.weekPct).toBeCloseTo((121 / 120 - 1) * 100, 9);
+    expect(row.monthPct).toBeCloseTo(10, 9);
+    expect(row.ytdPct).toBeCloseTo(21, 9);
+  });
+
+  it("leaves periods the history does not reach empty", () => {
+    const row = etfDigestRow(
+      daily([
+        ["2025-09-29", 100],
+        ["2025-09-30", 101]
+      ])
+    )!;
+    expect(row.weekPct).toBeNull();
+    expect(row.ytdPct).toBeNull();
+  });
+
+  it("reports indices year on year and rates in basis points", () => {
+    const cpi = macroDigestRow("CPIAUCSL", [
+      { t: "2024-07-01", v: 313 },
+      { t: "2024-08-01", v: 314 },
+      { t: "2025-07-01", v: 321.5 },
+      { t: "2025-08-01", v: 323.4 }
+    ])!;
+    expect(cpi.value).toBeCloseTo((323.4 / 314 - 1) * 100, 9);
+    expect(formatMacroRow(cpi)).toBe("- Inflazione USA (CPI): 3.0% a/a a 2025-08 (prec. 2.7%)");
+
+    const tenYear = macroDigestRow("DGS10", [
+      { t: "2025-08-29", v: 4.23 },
+      { t: "2025-09-22", v: 4.14 },
+      { t: "2025-09-29", v: 4.15 }
+    ])!;
+    expect(formatMacroRow(tenYear)).toBe(
+      "- Treasury USA 10 anni: 4.15% (1S +1 pb · 1M -8 pb) al 2025-09-29"
+    );
+  });
+
+  it("flags numbers the tables do not contain", () => {
+    const facts = "- VWCE (EUR): 1S +1.2% · 1M -3.0% · close 127.31 al 2025-09-30";
+    expect(
+      unsupportedNumbers("VWCE guadagna l'1,2% in settimana ma perde il 3.0% nel mese", facts)
+    ).toEqual([]);
+    expect(unsupportedNumbers("VWCE +1.2%, il 4.5% sopra la media", facts)).toEqual(["4.5"]);
+  });
+});
+
+describe("digest configuration", () => {
+  it("parses targets and prefers character settings", () => {
+    expect(parseDigestTargets("discord:123456789, telegram:-1001234567, junk")).toEqual([
+      { source: "discord", channelId: "123456789" },
+      { source: "telegram", channelId: "-1001234567" }
+    ]);
+
+    const config = digestConfig(
+      createMockRuntime({
+        RIP2ETF_DIGEST_SYMBOLS: "vwce, cspx",
+        RIP2ETF_DIGEST_TARGETS: "discord:1",
+        RIP2ETF_DIGEST_INTERVAL_DAYS: "30"
+      })
+    );
+    expect(config).toMatchObject({
+      symbols: ["VWCE", "CSPX"],
+      fredSeries: ["CPIAUCSL", "DGS10", "DGS3MO"],
+      targets: [{ source: "discord", channelId: "1" }],
+      intervalDays: 30
+    });
+  });
+
+  it("keeps one digest task in line with the settings", async () => {
+    const tasks = (runtime: IAgentRuntime) =>
+      Array.from((runtime as unknown as { tasks: Map<string, Task> }).tasks.values());
+    const settings: Record<string, string> = {
+      RIP2ETF_DIGEST_SYMBOLS: "VWCE",
+      RIP2ETF_DIGEST_TARGETS: "telegram:-100"
+    };
+    const runtime = createMockRuntime(settings);
+
+    await ensureDigestTask(runtime);
+    await ensureDigestTask(runtime);
+    expect(tasks(runtime)).toHaveLength(1);
+    expect(tasks(runtime)[0]).toMatchObject({
+      name: DIGEST_TASK_NAME,
+      tags: ["queue", "repeat", "rip2etf-digest"],
+      metadata: { updateInterval: 7 * 86_400_000 }
+    });
+
+    settings.RIP2ETF_DIGEST_INTERVAL_DAYS = "1";
+    await ensureDigestTask(runtime);
+    expect(tasks(runtime)[0].metadata?.updateInterval).toBe(86_400_000);
+
+    delete settings.RIP2ETF_DIGEST_TARGETS;
+    await ensureDigestTask(runtime);
+    expect(tasks(runtime)).toHaveLength(0);
+  });
+});
+
+describe("runDigest (replayed)", () => {
+  let offline: ReturnType<typeof mockFetch>;
+  const settings = {
+    RIP2ETF_DIGEST_SYMBOLS: "VWCE,CSPX",
+    RIP2ETF_DIGEST_TARGETS: "discord:123456789,telegram:-1001"
+  };
+
+  beforeAll(() => {
+    useReplay();
+    offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+  });
+
+  afterAll(() => {
+    offline.restore();
+    restoreSettings();
+  });
+
+  it("publishes tables, charts and a number-checked commentary, then archives it", async () => {
+    const runtime = createMockRuntime(settings);
+    const useModel = runtime.useModel as any;
+    useModel
+      .mockResolvedValueOnce("Settimana brillante: CSPX fa +25.0% in un mese.")
+      .mockImplementationOnce(async (_model: string, { prompt }: { prompt: string }) => {
+        const week = prompt.match(/CSPX: 1S ([+-][\d.]+%)/)![1];
+        return `CSPX chiude la settimana a ${week}, VWCE segue. I dati macro mancano: niente chiave FRED.`;
+      });
+
+    const run = (await runDigest(runtime))!;
+
+    expect(useModel).toHaveBeenCalledTimes(2);
+    expect(useModel.mock.calls[0][1].prompt).toContain("You are Mr. RIP.");
+    expect(run.commentary).toStartWith("CSPX chiude la settimana a ");
+    expect(run.report.asOf).toBe("2025-09-30");
+    expect(run.report.etfs.map((row) => row.symbol)).toEqual(["VWCE", "CSPX"]);
+    expect(run.report.missing).toEqual(["CPIAUCSL", "DGS10", "DGS3MO"]);
+    expect(run.text).toStartWith("**Recap ETF e macro · settimana al 2025-09-30**");
+    expect(run.text).toContain("- VWCE (EUR): 1S ");
+    expect(run.text).toContain("Dati non disponibili: CPIAUCSL, DGS10, DGS3MO");
+
+    expect(runtime.sendMessageToTarget).toHaveBeenCalledTimes(2);
+    const [target, content] = (runtime.sendMessageToTarget as any).mock.calls[1];
+    expect(target).toEqual({ source: "telegram", channelId: "-1001" });
+    expect(content.attachments.map((media: any) => media.title)).toEqual([
+      "Performance al 2025-09-30",
+      "Ultimo mese, base 100"
+    ]);
+
+    expect(run.memoryId).toBeDefined();
+    const context = await lastDigestProvider.get(
+      runtime,
+      createMockMemory("cosa dicevi nel recap della settimana scorsa?"),
+      {} as any
+    );
+    expect(context.text).toContain(run.text);
+    expect(context.data?.digest).toEqual(run.report);
+  });
+
+  it("drops the commentary when every draft invents numbers", async () => {
+    const runtime = createMockRuntime(settings);
+    (runtime.useModel as any).mockResolvedValue("VWCE salirà del 12.5% entro dicembre.");
+
+    const run = (await runDigest(runtime))!;
+
+    expect(run.commentary).toBeNull();
+    expect(run.text).not.toContain("12.5");
+    expect(run.delivered).toHaveLength(2);
+  });
+
+  it("keeps publishing when one channel fails", async () => {
+    const runtime = createMockRuntime(settings);
+    (runtime.sendMessageToTarget as any).mockImplementationOnce(async () => {
+      throw new Error("No send handler registered for source: discord");
+    });
+
+    const run = (await runDigest(runtime))!;
+
+    expect(run.failed).toEqual([{ source: "discord", channelId: "123456789" }]);
+    expect(run.delivered).toEqual([{ source: "telegram", channelId: "-1001" }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { rip2etfSettings } from "../settings";
+import { fixturePath, getJSON, getText } from "../utils/fetcher";
+import { mockFetch, restoreSettings } from "./test-utils";
+
+describe("fetcher record/replay", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "rip2etf-fixtures-"));
+    rip2etfSettings.FIXTURES_DIR = dir;
+  });
+
+  afterEach(() => {
+    restoreSettings();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records sanitised responses and replays them without network", async () => {
+    const url = "https://www.alphavantage.co/query?function=OVERVIEW&symbol=VT&apikey=SECRET123";
+    const { fetchMock, restore } = mockFetch(
+      () =>
+        new Response(JSON.stringify({ Symbol: "VT", echo: "apikey=SECRET123" }), {
+          headers: { "content-type": "application/json" }
+        })
+    );
+    try {
+      rip2etfSettings.HTTP_MODE = "record";
+      expect(await getJSON(url)).toEqual({ Symbol: "VT", echo: "apikey=SECRET123" });
+    } finally {
+      restore();
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [file] = readdirSync(dir);
+    expect(file).toStartWith("alphavantage.co-");
+    const saved = readFileSync(path.join(dir, file), "utf8");
+    expect(saved).not.toContain("SECRET123");
+    expect(JSON.parse(saved).url).toContain("apikey=***");
+
+    rip2etfSettings.HTTP_MODE = "replay";
+    const offline = mockFetch(() => {
+      throw new Error("network used during replay");
+    });
+    try {
+      // a different key resolves to the same fixture
+      const replayed = await getJSON(url.replace("SECRET123", "OTHER"));
+      expect(replayed).toEqual({ Symbol: "VT", echo: "apikey=***" });
+    } finally {
+      offline.restore();
+    }
+    expect(offline.fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("replays recorded HTTP errors as failures", async () => {
+    const url = "https://stooq.com/q/d/l/?s=missing&i=d";
+    const { restore } = mockFetch(() => new Response("boom", { status: 503 }));
+    try {
+      rip2etfSettings.HTTP_MODE = "record";
+      await expect(getText(url)).rejects.toThrow("Request failed 503");
+    } finally {
+      restore();
+    }
+
+    rip2etfSettings.HTTP_MODE = "replay";
+    await expect(getText(url)).rejects.toThrow("Request failed 503");
+  });
+
+  it("fails loudly when a replayed request has no fixture", async () => {
+    rip2etfSettings.HTTP_MODE = "replay";
+    const url = "https://stooq.com/q/d/l/?s=nope&i=d";
+    await expect(getText(url)).rejects.toThrow(
+      `No fixture for GET ${url} (${path.basename(fixturePath("GET", url))})`
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "bun:test";
+import type { PriceHistory } from "../types";
+import { alignAndRebase, reconcileOverview, resampleHistory } from "../utils/normalize";
+
+const history = (
+  symbol: string,
+  closes: Array<[string, number]>,
+  source = "stooq"
+): PriceHistory => ({
+  symbol,
+  interval: "1d",
+  bars: closes.map(([t, c]) => ({ t, o: c, h: c, l: c, c })),
+  adjusted: false,
+  dataSources: [source]
+});
+
+describe("reconcileOverview", () => {
+  it("keeps the first value of every field, in fragment order", () => {
+    const overview = reconcileOverview("VWCE", [
+      { name: "Vanguard FTSE All-World", expenseRatio: 0.22, dataSources: ["fmp"] },
+      null,
+      {
+        name: "VANGUARD FTSE ALL-WORLD UCITS",
+        expenseRatio: 0.19,
+        domicile: "IE",
+        dataSources: ["finnhub"]
+      },
+      { domicile: "LU", issuer: "Vanguard", dataSources: ["registry", "fmp"] }
+    ]);
+
+    expect(overview).toEqual({
+      symbol: "VWCE",
+      name: "Vanguard FTSE All-World",
+      expenseRatio: 0.22,
+      domicile: "IE",
+      issuer: "Vanguard",
+      dataSources: ["fmp", "finnhub", "registry"]
+    });
+  });
+
+  it("skips null and undefined values so later sources can fill them", () => {
+    const overview = reconcileOverview("VT", [
+      { aum: undefined, currency: null as unknown as string, dataSources: ["fmp"] },
+      { aum: 1000, currency: "USD", dataSources: ["finnhub"] }
+    ]);
+
+    expect(overview.aum).toBe(1000);
+    expect(overview.currency).toBe("USD");
+  });
+
+  it("returns only the symbol when nothing is known", () => {
+    expect(reconcileOverview("XYZ", [undefined, null])).toEqual({ symbol: "XYZ", dataSources: [] });
+  });
+});
+
+describe("alignAndRebase", () => {
+  it("rebases every series to 100 on the shared dates", () => {
+    const result = alignAndRebase([
+      history("A", [
+        ["2025-01-01", 50],
+        ["2025-01-02", 55],
+        ["2025-01-03", 60],
+        ["2025-01-06", 45]
+      ]),
+      history(
+        "B",
+        [
+          ["2025-01-02", 200],
+          ["2025-01-03", 210],
+          ["2025-01-06", 220]
+        ],
+        "alphaVantage"
+      )
+    ]);
+
+    expect(result.dates).toEqual(["2025-01-02", "2025-01-03", "2025-01-06"]);
+    expect(result.table[0].points.map((point) => point.v)).toEqual([
+      100,
+      (60 / 55) * 100,
+      (45 / 55) * 100
+    ]);
+    expect(result.table[1].points.map((point) => Number(point.v.toFixed(6)))).toEqual([
+      100, 105, 110
+    ]);
+    expect(result.sources).toEqual(["stooq", "alphaVantage"]);
+  });
+
+  it("returns empty tables without series", () => {
+    expect(alignAndRebase([])).toEqual({ dates: [], table: [], sources: [] });
+  });
+
+  it("yields no dates when the series never overlap", () => {
+    const result = alignAndRebase([
+      history("A", [["2025-01-01", 1]]),
+      history("B", [["2025-02-01", 1]])
+    ]);
+
+    expect(result.dates).toEqual([]);
+    expect(result.table.map((row) => row.points)).toEqual([[], []]);
+  });
+});
+
+describe("resampleHistory", () => {
+  const daily = history("A", [
+    ["2025-01-30", 10],
+    ["2025-01-31", 11],
+    ["2025-02-03", 12],
+    ["2025-02-05", 9],
+    ["2025-02-07", 10]
+  ]);
+
+  it("keeps the last close of each week, labelled with its Monday", () => {
+    const weekly = resampleHistory(daily, "1wk");
+    expect(weekly.interval).toBe("1wk");
+    expect(weekly.bars).toEqual([
+      { t: "2025-01-27", o: 10, h: 11, l: 10, c: 11 },
+      { t: "2025-02-03", o: 12, h: 12, l: 9, c: 10 }
+    ]);
+  });
+
+  it("folds months on their first day", () => {
+    const monthly = resampleHistory(daily, "1mo");
+    expect(monthly.bars.map((bar) => [bar.t, bar.c])).toEqual([
+      ["2025-01-01", 11],
+      ["2025-02-01", 10]
+    ]);
+    expect(daily.bars).toHaveLength(5);
+  });
+});
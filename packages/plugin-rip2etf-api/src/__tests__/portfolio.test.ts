@@ -0,0 +1,255 @@
+import { describe, expect, it } from "bun:test";
+import { detectBrokerFormat, parseBrokerStatement, parseNumber } from "../utils/brokerCsv";
+import {
+  type PortfolioTransaction,
+  computePortfolio,
+  mergeTransactions,
+  parseTransactionText,
+  renderPortfolioText,
+  transactionId
+} from "../utils/portfolio";
+
+const IBKR = [
+  "Statement,Header,Field Name,Field Value",
+  'Statement,Data,Period,"January 1, 2024 - December 31, 2024"',
+  "Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Quantity,T. Price,C. Price,Proceeds,Comm/Fee,Basis,Realized P/L,MTM P/L,Code",
+  'Trades,Data,Order,Stocks,USD,CSPX,"2024-01-03, 10:15:02",5,472.5,472.5,-2362.5,-1,2363.5,0,0,O',
+  'Trades,Data,Order,Stocks,USD,CSPX,"2024-06-03, 15:30:00",-2,520,520,1040,-1.2,-945.4,93.4,0,C',
+  "Trades,SubTotal,,Stocks,USD,CSPX,,3,,,-1322.5,-2.2,1418.1,93.4,0,",
+  "Dividends,Header,Currency,Date,Description,Amount",
+  "Dividends,Data,USD,2024-03-15,CSPX(IE00B5BMR087) Cash Dividend USD 1.20 per Share (Ordinary Dividend),6",
+  "Dividends,Data,Total,,,6"
+].join("\n");
+
+const SWISSQUOTE = [
+  "Date;Order #;Transaction;Symbol;Name;ISIN;Quantity;Unit price;Costs;Accrued Interest;Net Amount;Balance;Currency",
+  "05-03-2024 10:21:33;81234567;Buy;VWCE;VANGUARD FTSE ALL-WORLD;IE00BK5BQT80;10;112.50;9.85;0.00;-1'134.85;8'865.15;EUR",
+  "20-06-2024 00:00:00;;Dividend;VWCE;VANGUARD FTSE ALL-WORLD;IE00BK5BQT80;10;;0.00;0.00;4.10;8'869.25;EUR",
+  "01-07-2024 00:00:00;;Custody Fees;;;;;;;0.00;-5.00;8'864.25;EUR"
+].join("\n");
+
+const DEGIRO = [
+  "Date,Time,Product,ISIN,Reference exchange,Venue,Quantity,Price,,Local value,,Value,,Exchange rate,Transaction and/or third party fees,,Total,,Order ID",
+  '01-03-2024,09:04,ISHARES CORE S&P 500,IE00B5BMR087,LSE,XLON,4,"480,10",USD,"-1920,40",USD,"-1771,45",EUR,"1,0841","-2,00",EUR,"-1773,45",EUR,7c1e-4b2a',
+  '02-04-2024,11:40,ISHARES CORE S&P 500,IE00B5BMR087,LSE,XLON,-1,"510,00",USD,"510,00",USD,"472,22",EUR,"1,0800","-2,00",EUR,"470,22",EUR,9d3f-1a7c'
+].join("\n");
+
+const trade = (
+  overrides: Partial<PortfolioTransaction> & Pick<PortfolioTransaction, "kind" | "date">
+): PortfolioTransaction => ({
+  id: `${overrides.kind}-${overrides.date}`,
+  symbol: "VWCE",
+  quantity: 0,
+  price: 0,
+  fees: 0,
+  currency: "EUR",
+  source: "chat",
+  ...overrides
+});
+
+// EUR→CHF: 0.95 until June, 0.96 until year end, 0.94 after
+const eurChf = (currency: string, date: string) =>
+  currency !== "EUR" ? undefined : date < "2024-06-01" ? 0.95 : date < "2024-12-31" ? 0.96 : 0.94;
+
+describe("computePortfolio", () => {
+  const ledger = [
+    trade({ kind: "buy", date: "2024-01-02", quantity: 10, price: 100, fees: 5 }),
+    trade({ kind: "sell", date: "2024-06-03", quantity: 4, price: 120, fees: 2 }),
+    trade({ kind: "dividend", date: "2024-07-01", amount: 12 })
+  ];
+
+  it("tracks average cost, realised and unrealised P&L in the base currency", () => {
+    const report = computePortfolio(ledger, {
+      baseCurrency: "CHF",
+      rateAt: eurChf,
+      quotes: new Map([["VWCE", { price: 130, currency: "EUR", date: "2024-12-31" }]]),
+      targets: [
+        { symbol: "VWCE", weight: 80 },
+        { symbol: "CSPX", weight: 20 }
+      ]
+    });
+
+    const [position] = report.positions;
+    expect(position.quantity).toBe(6);
+    expect(position.averageCost).toBeCloseTo(100.5, 6);
+    // 1005 EUR at 0.95, less the 4/10 sold
+    expect(position.costBasis).toBeCloseTo(572.85, 6);
+    // (480 - 2) EUR at 0.96 against 381.90 CHF of basis
+    expect(position.realisedPnl).toBeCloseTo(76.98, 6);
+    expect(position.dividends).toBeCloseTo(11.52, 6);
+    expect(position.marketValue).toBeCloseTo(733.2, 6);
+    expect(position.unrealisedPnl).toBeCloseTo(160.35, 6);
+    expect(report.totals.marketValue).toBeCloseTo(733.2, 6);
+    expect(report.drift).toEqual([
+      { symbol: "VWCE", targetPct: 80, currentPct: 100, driftPct: 20 },
+      { symbol: "CSPX", targetPct: 20, currentPct: 0, driftPct: -20 }
+    ]);
+
+    const text = renderPortfolioText(report);
+    expect(text).toContain(
+      "- VWCE: 6 quote · PMC 100.50 EUR · valore 733.20 CHF · P&L non realizzato +160.35 CHF (+28.0%)"
+    );
+    expect(text).toContain("Scostamento dal target: VWCE 100.0% (target 80.0%, +20.0 pt)");
+  });
+
+  it("flags missing prices, missing FX and sales beyond the position", () => {
+    const report = computePortfolio(
+      [
+        ...ledger,
+        trade({ kind: "sell", date: "2024-08-01", quantity: 10, price: 125 }),
+        trade({ kind: "buy", date: "2024-02-01", symbol: "CSPX", quantity: 2, price: 500 })
+      ].map((transaction) =>
+        transaction.symbol === "CSPX" ? { ...transaction, currency: "USD" } : transaction
+      ),
+      { baseCurrency: "CHF", rateAt: eurChf, quotes: new Map() }
+    );
+
+    expect(report.warnings).toEqual([
+      "VWCE: vendita di 10 quote il 2024-08-01 oltre la posizione (6)"
+    ]);
+    expect(report.positions.find((position) => position.symbol === "VWCE")?.quantity).toBe(0);
+    expect(report.missingPrices).toEqual(["CSPX"]);
+    expect(report.unconverted).toEqual(["CSPX"]);
+  });
+});
+
+describe("parseTransactionText", () => {
+  const options = { defaultCurrency: "EUR", today: "2025-10-01" };
+
+  it("reads buys with price, currency, date and fees", () => {
+    expect(
+      parseTransactionText(
+        "ho comprato 10 VWCE a 110,5 EUR il 3.1.2024, commissioni 5",
+        "VWCE",
+        options
+      )
+    ).toEqual({
+      kind: "buy",
+      date: "2024-01-03",
+      symbol: "VWCE",
+      quantity: 10,
+      price: 110.5,
+      fees: 5,
+      currency: "EUR"
+    });
+  });
+
+  it("reads sells and dividends, defaulting the date and currency", () => {
+    expect(parseTransactionText("venduto 5 CSPX @ 600 $", "CSPX", options)).toMatchObject({
+      kind: "sell",
+      date: "2025-10-01",
+      quantity: 5,
+      price: 600,
+      currency: "USD"
+    });
+    expect(parseTransactionText("dividendo VHYL 12,50 CHF", "VHYL", options)).toMatchObject({
+      kind: "dividend",
+      amount: 12.5,
+      currency: "CHF"
+    });
+    expect(parseTransactionText("ho comprato VWCE ieri", "VWCE", options)).toBeNull();
+  });
+});
+
+describe("broker statements", () => {
+  it("parses numbers in broker notations", () => {
+    expect(parseNumber("1'105.50", ".")).toBe(1105.5);
+    expect(parseNumber("1,105.50", ".")).toBe(1105.5);
+    expect(parseNumber("1.105,50")).toBe(1105.5);
+    expect(parseNumber("-1920,40")).toBe(-1920.4);
+  });
+
+  it("detects the three supported layouts", () => {
+    expect(detectBrokerFormat(IBKR)).toBe("ibkr");
+    expect(detectBrokerFormat(SWISSQUOTE)).toBe("swissquote");
+    expect(detectBrokerFormat(DEGIRO)).toBe("degiro");
+    expect(detectBrokerFormat("date,close\n2024-01-02,100")).toBeNull();
+  });
+
+  it("reads IBKR trades and gross dividends", () => {
+    const statement = parseBrokerStatement(IBKR)!;
+    expect(statement.skipped).toBe(1);
+    expect(statement.transactions.map(({ id: _id, ...rest }) => rest)).toEqual([
+      {
+        kind: "buy",
+        date: "2024-01-03",
+        symbol: "CSPX",
+        quantity: 5,
+        price: 472.5,
+        fees: 1,
+        currency: "USD",
+        source: "ibkr"
+      },
+      {
+        kind: "sell",
+        date: "2024-06-03",
+        symbol: "CSPX",
+        quantity: 2,
+        price: 520,
+        fees: 1.2,
+        currency: "USD",
+        source: "ibkr"
+      },
+      {
+        kind: "dividend",
+        date: "2024-03-15",
+        symbol: "CSPX",
+        isin: "IE00B5BMR087",
+        quantity: 0,
+        price: 0,
+        amount: 6,
+        fees: 0,
+        currency: "USD",
+        source: "ibkr"
+      }
+    ]);
+  });
+
+  it("reads Swissquote bookings and skips account fees", () => {
+    const statement = parseBrokerStatement(SWISSQUOTE)!;
+    expect(statement.skipped).toBe(1);
+    expect(statement.transactions).toMatchObject([
+      { kind: "buy", date: "2024-03-05", symbol: "VWCE", quantity: 10, price: 112.5, fees: 9.85 },
+      { kind: "dividend", date: "2024-06-20", symbol: "VWCE", amount: 4.1, currency: "EUR" }
+    ]);
+  });
+
+  it("reads Degiro trades and converts fees to the trade currency", () => {
+    const statement = parseBrokerStatement(DEGIRO)!;
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({
+      kind: "buy",
+      date: "2024-03-01",
+      symbol: "IE00B5BMR087",
+      quantity: 4,
+      price: 480.1,
+      currency: "USD"
+    });
+    expect(statement.transactions[0].fees).toBeCloseTo(2.1682, 6);
+    expect(statement.transactions[1]).toMatchObject({ kind: "sell", quantity: 1, price: 510 });
+  });
+
+  it("ignores transactions that are already in the ledger", () => {
+    const first = parseBrokerStatement(IBKR)!.transactions;
+    const merged = mergeTransactions([], first);
+    const again = mergeTransactions(merged.transactions, parseBrokerStatement(IBKR)!.transactions);
+
+    expect(merged.added).toBe(3);
+    expect(again).toMatchObject({ added: 0, duplicates: 3 });
+    expect(again.transactions.map((transaction) => transaction.date)).toEqual([
+      "2024-01-03",
+      "2024-03-15",
+      "2024-06-03"
+    ]);
+  });
+
+  it("keeps identical fills in one file apart", () => {
+    const row =
+      'Trades,Data,Order,Stocks,USD,CSPX,"2024-01-03, 10:15:02",5,472.5,472.5,-2362.5,-1,2363.5,0,0,O';
+    const statement = parseBrokerStatement(`${IBKR}\n${row}`)!;
+    const buys = statement.transactions.filter((transaction) => transaction.kind === "buy");
+    expect(buys).toHaveLength(2);
+    expect(buys[0].id).toBe(transactionId({ ...buys[0] }));
+    expect(buys[1].id).not.toBe(buys[0].id);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "bun:test";
+import {
+  BROKER_FEES,
+  type RebalanceParams,
+  parseRebalanceRequest,
+  planRebalance,
+  rebalanceParamsSchema,
+  waterFill
+} from "../utils/rebalance";
+
+const params = (overrides: Partial<RebalanceParams>): RebalanceParams =>
+  rebalanceParamsSchema.parse({
+    weights: [
+      { symbol: "VWCE", weight: 80 },
+      { symbol: "AGGH", weight: 20 }
+    ],
+    ...overrides
+  });
+
+const holdings = (vwce: number, aggh: number) => [
+  { symbol: "VWCE", quantity: vwce, price: 100 },
+  { symbol: "AGGH", quantity: aggh, price: 50 }
+];
+
+describe("waterFill", () => {
+  it("tops up the most underweight symbol first", () => {
+    const values = new Map([
+      ["VWCE", 3000],
+      ["AGGH", 500]
+    ]);
+    const weights = [
+      { symbol: "VWCE", weight: 0.8 },
+      { symbol: "AGGH", weight: 0.2 }
+    ];
+    expect(Object.fromEntries(waterFill(values, weights, 100))).toEqual({ AGGH: 100 });
+    const split = waterFill(values, weights, 1000);
+    expect(split.get("VWCE")).toBeCloseTo(600, 9);
+    expect(split.get("AGGH")).toBeCloseTo(400, 9);
+  });
+});
+
+describe("planRebalance", () => {
+  it("splits a contribution without selling", () => {
+    const plan = planRebalance(
+      holdings(30, 10),
+      params({ mode: "contribution", contribution: 1000 })
+    );
+    expect(plan.trades).toEqual([
+      { symbol: "VWCE", side: "buy", shares: 6, price: 100, value: 600, fee: 0 },
+      { symbol: "AGGH", side: "buy", shares: 8, price: 50, value: 400, fee: 0 }
+    ]);
+    expect(plan.cashLeft).toBe(0);
+    expect(plan.maxDriftBefore).toBeCloseTo(5.714, 3);
+    expect(plan.maxDriftAfter).toBeCloseTo(0, 9);
+  });
+
+  it("keeps change from whole shares and pays broker fees", () => {
+    const small = planRebalance(
+      holdings(30, 10),
+      params({ mode: "contribution", contribution: 300 })
+    );
+    expect(small.trades).toEqual([
+      { symbol: "AGGH", side: "buy", shares: 5, price: 50, value: 250, fee: 0 }
+    ]);
+    expect(small.cashLeft).toBe(50);
+
+    const withFees = planRebalance(
+      holdings(30, 10),
+      params({
+        mode: "contribution",
+        contribution: 1000,
+        broker: "degiro",
+        fees: BROKER_FEES.degiro
+      })
+    );
+    // fees shrink the first pass; the change then buys one more AGGH share
+    expect(withFees.trades.map(({ symbol, shares, fee }) => ({ symbol, shares, fee }))).toEqual([
+      { symbol: "VWCE", shares: 5, fee: 3 },
+      { symbol: "AGGH", shares: 8, fee: 3 }
+    ]);
+    expect(withFees.feesTotal).toBe(6);
+    expect(withFees.cashLeft).toBeCloseTo(94, 9);
+  });
+
+  it("drops orders under the minimum trade size", () => {
+    const plan = planRebalance(
+      holdings(30, 10),
+      params({ mode: "contribution", contribution: 300, minTrade: 300 })
+    );
+    expect(plan.trades).toEqual([]);
+    expect(plan.cashLeft).toBe(300);
+  });
+
+  it("sells overweight positions in a full rebalance", () => {
+    const plan = planRebalance(holdings(40, 0), params({}));
+    expect(plan.trades).toEqual([
+      { symbol: "VWCE", side: "sell", shares: 8, price: 100, value: 800, fee: 0 },
+      { symbol: "AGGH", side: "buy", shares: 16, price: 50, value: 800, fee: 0 }
+    ]);
+    expect(plan.after.map((row) => row.pct)).toEqual([80, 20]);
+  });
+
+  it("sells positions outside the targets and buys fractional shares when allowed", () => {
+    const plan = planRebalance(
+      [...holdings(30, 10), { symbol: "CSPX", quantity: 1, price: 500 }],
+      params({ wholeShares: false })
+    );
+    expect(plan.trades[0]).toMatchObject({ symbol: "CSPX", side: "sell", shares: 1 });
+    expect(plan.after.find((row) => row.symbol === "CSPX")?.pct).toBe(0);
+    expect(plan.maxDriftAfter).toBeCloseTo(0, 9);
+  });
+});
+
+describe("parseRebalanceRequest", () => {
+  it("reads positions, contribution, minimum order and broker", () => {
+    expect(
+      parseRebalanceRequest(
+        "ho 30 VWCE e 10 AGGH, verso 2'000 CHF senza vendere, ordine minimo 500 CHF, su IBKR",
+        ["VWCE", "AGGH"]
+      )
+    ).toEqual({
+      contribution: 2000,
+      contributionCurrency: "CHF",
+      minTrade: 500,
+      broker: "ibkr",
+      mode: "contribution",
+      holdings: [
+        { symbol: "VWCE", quantity: 30 },
+        { symbol: "AGGH", quantity: 10 }
+      ]
+    });
+  });
+
+  it("reads positions as values and custom fees, leaving weights alone", () => {
+    expect(
+      parseRebalanceRequest(
+        "ribilancia VWCE 12'000 CHF, AGGH 3'000 CHF verso 80% VWCE 20% AGGH, commissioni 0,1%",
+        ["VWCE", "AGGH"]
+      )
+    ).toEqual({
+      fees: { perTrade: 0, pct: 0.1, min: 0 },
+      holdings: [
+        { symbol: "VWCE", value: 12000 },
+        { symbol: "AGGH", value: 3000 }
+      ]
+    });
+  });
+});
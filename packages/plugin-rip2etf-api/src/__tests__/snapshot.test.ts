@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import { parseEtfSnapshot, selectSnapshotExports, snapshotSeriesCsv } from "../utils/snapshot";
+import { parseSnapshotLocale } from "../utils/snapshotText";
+
+describe("snapshot contract", () => {
+  it("rejects snapshots that do not match the schema, listing every issue", () => {
+    expect(() =>
+      parseEtfSnapshot({ version: 2, primarySymbol: "VWCE", baseCurrency: "CHF" })
+    ).toThrow(/snapshot failed validation:\nversion: .*\n.*generatedAt/s);
+  });
+
+  it("writes the rebased series as CSV with blanks for missing quotes", () => {
+    const csv = snapshotSeriesCsv({
+      dates: ["2025-09-29", "2025-09-30"],
+      series: [
+        { symbol: "VWCE", values: [100, 101.23456] },
+        { symbol: "A,B", values: [100, null] }
+      ],
+      priceSources: ["stooq"],
+      fxConversions: [],
+      unconverted: []
+    });
+    expect(csv).toBe('date,VWCE,"A,B"\n2025-09-29,100.0000,100.0000\n2025-09-30,101.2346,\n');
+  });
+
+  it("picks exports from options, settings and the message", () => {
+    expect(selectSnapshotExports("snapshot VWCE", [])).toEqual([]);
+    expect(selectSnapshotExports("snapshot VWCE in csv", [])).toEqual(["csv"]);
+    expect(selectSnapshotExports("esporta VWCE", [])).toEqual(["csv", "json"]);
+    expect(selectSnapshotExports("snapshot VWCE", ["json"], ["csv"])).toEqual(["csv", "json"]);
+  });
+
+  it("reads locales loosely and falls back to the default", () => {
+    expect(parseSnapshotLocale("en-GB")).toBe("en");
+    expect(parseSnapshotLocale("Deutsch")).toBe("de");
+    expect(parseSnapshotLocale("fr", "en")).toBe("en");
+    expect(parseSnapshotLocale(undefined)).toBe("it");
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { stooqDaily } from "../providers/stooq";
+import { mockFetch, restoreSettings, useReplay } from "./test-utils";
+
+describe("stooqDaily", () => {
+  let restoreFetch: (() => void) | undefined;
+
+  afterEach(() => {
+    restoreFetch?.();
+    restoreFetch = undefined;
+    restoreSettings();
+  });
+
+  it("parses the recorded CSV into daily bars", async () => {
+    useReplay();
+    const history = await stooqDaily("VWCE", { candidates: ["vwce.de"] });
+
+    expect(history).not.toBeNull();
+    expect(history!.sourceSymbol).toBe("vwce.de");
+    expect(history!.currency).toBe("EUR");
+    expect(history!.adjusted).toBe(false);
+    expect(history!.dataSources).toEqual(["stooq"]);
+    expect(history!.bars[0].t).toBe("2024-01-02");
+    expect(history!.bars.at(-1)!.t).toBe("2025-09-30");
+    for (const bar of history!.bars) {
+      expect(Number.isFinite(bar.c)).toBe(true);
+      expect(bar.h).toBeGreaterThanOrEqual(bar.l);
+      expect(bar.v).toBeGreaterThan(0);
+    }
+  });
+
+  it("parses CSVs without a volume column", async () => {
+    useReplay();
+    const history = await stooqDaily("EURCHF", { candidates: ["eurchf"] });
+
+    expect(history!.bars.length).toBeGreaterThan(400);
+    expect(history!.bars[0].v).toBeUndefined();
+    expect(history!.currency).toBeUndefined();
+  });
+
+  it("falls through 'No data' answers to the next suffix", async () => {
+    const { fetchMock, restore } = mockFetch((url) =>
+      url.includes("s=voo.us")
+        ? "No data"
+        : "Date,Open,High,Low,Close,Volume\n2025-01-02,500,505,498,503.5,1200\n2025-01-03,503.5,506,501,n/d,900\n"
+    );
+    restoreFetch = restore;
+
+    const history = await stooqDaily("VOO");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(history!.sourceSymbol).toBe("voo");
+    // rows with a non-numeric close are dropped
+    expect(history!.bars).toEqual([{ t: "2025-01-02", o: 500, h: 505, l: 498, c: 503.5, v: 1200 }]);
+  });
+
+  it("returns null when no variant has data", async () => {
+    const { restore } = mockFetch("No data");
+    restoreFetch = restore;
+
+    expect(await stooqDaily("ZZZZ", { candidates: ["zzzz.de"] })).toBeNull();
+  });
+
+  it("only asks the known listing on incremental refreshes", async () => {
+    const { fetchMock, restore } = mockFetch("No data");
+    restoreFetch = restore;
+
+    expect(await stooqDaily("VWCE", { since: "2025-01-02", sourceSymbol: "vwce.de" })).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain("s=vwce.de&i=d&d1=20250102&d2=");
+  });
+});
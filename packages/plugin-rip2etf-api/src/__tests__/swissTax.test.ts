@@ -0,0 +1,114 @@
+import { describe, expect, it } from "bun:test";
+import {
+  estimateSwissCosts,
+  parseSwissCostRequest,
+  rankSwissCosts,
+  swissCostParamsSchema,
+  trailingYieldPct,
+  usEquityShare
+} from "../utils/swissTax";
+
+const params = swissCostParamsSchema.parse({});
+const fund = { terPct: 0.2, dividendYieldPct: 2, usEquityPct: 60 };
+
+describe("estimateSwissCosts", () => {
+  it("charges the US withholding each domicile cannot recover", () => {
+    const irish = estimateSwissCosts({ symbol: "VWRL", domicile: "IE", ...fund }, params);
+    // 2% yield × 60% US × 15%
+    expect(irish.withholdingDragPct).toBeCloseTo(0.18, 9);
+    expect(irish.stampDutyPct).toBe(0.15);
+    expect(irish.totalPct).toBeCloseTo(0.2 + 0.18 + 0.015, 9);
+    expect(irish.notes).toEqual([]);
+
+    const lux = estimateSwissCosts({ symbol: "LU", domicile: "LU", ...fund }, params);
+    expect(lux.withholdingDragPct).toBeCloseTo(0.36, 9);
+
+    const us = estimateSwissCosts({ symbol: "VT", domicile: "us", ...fund }, params);
+    expect(us.withholdingDragPct).toBe(0);
+    expect(us.notes).toEqual(["da1", "estateTax"]);
+
+    const swiss = estimateSwissCosts({ symbol: "CHSPI", domicile: "CH", ...fund }, params);
+    expect(swiss.stampDutyPct).toBe(0.075);
+    expect(swiss.notes).toEqual(["swissWithholding"]);
+  });
+
+  it("applies the broker, horizon and wealth tax parameters", () => {
+    const estimate = estimateSwissCosts(
+      { symbol: "VWRL", domicile: "IE", ...fund },
+      swissCostParamsSchema.parse({ swissBroker: false, wealthTaxPct: 0.3 })
+    );
+    expect(estimate.stampDutyAnnualPct).toBe(0);
+    expect(estimate.totalPct).toBeCloseTo(0.2 + 0.18 + 0.3, 9);
+
+    const longer = estimateSwissCosts(
+      { symbol: "VWRL", domicile: "IE", ...fund },
+      swissCostParamsSchema.parse({ horizonYears: 30 })
+    );
+    expect(longer.stampDutyAnnualPct).toBeCloseTo(0.005, 9);
+  });
+
+  it("lists what is missing and ranks incomplete estimates last", () => {
+    const partial = estimateSwissCosts({ symbol: "XYZ", domicile: "IE", terPct: 0.05 }, params);
+    expect(partial.missing).toEqual(["yield", "usShare"]);
+    expect(partial.withholdingDragPct).toBeNull();
+    const unknown = estimateSwissCosts({ symbol: "ABC" }, params);
+    expect(unknown.missing).toEqual(["ter", "domicile"]);
+
+    const complete = estimateSwissCosts({ symbol: "VWRL", domicile: "IE", ...fund }, params);
+    expect(rankSwissCosts([partial, complete, unknown]).map((row) => row.symbol)).toEqual([
+      "VWRL",
+      "ABC",
+      "XYZ"
+    ]);
+  });
+});
+
+describe("fund inputs", () => {
+  it("derives the US share from holdings or a US benchmark", () => {
+    expect(usEquityShare(62, null)).toBe(62);
+    const holdings = {
+      symbol: "X",
+      topHoldings: [
+        { name: "Apple", isin: "US0378331005", weightPct: 45 },
+        { name: "Nestlé", isin: "CH0038863350", weightPct: 45 }
+      ],
+      dataSources: []
+    };
+    expect(usEquityShare(undefined, holdings)).toBe(50);
+    expect(usEquityShare(undefined, null, "S&P 500")).toBe(100);
+    expect(usEquityShare(undefined, null, "FTSE All-World")).toBeUndefined();
+  });
+
+  it("computes the trailing yield over the last twelve months", () => {
+    const history = {
+      symbol: "VHYL",
+      bars: [
+        { t: "2024-06-28", c: 60 },
+        { t: "2025-06-30", c: 64 }
+      ],
+      dataSources: []
+    };
+    const events = [
+      { exDate: "2024-06-13", amount: 0.5, currency: "USD" },
+      { exDate: "2024-09-12", amount: 0.4, currency: "USD" },
+      { exDate: "2025-03-13", amount: 0.4, currency: "USD" },
+      { exDate: "2025-06-12", amount: 0.48, currency: "USD" }
+    ];
+    expect(trailingYieldPct(events, history)).toBeCloseTo((1.28 / 64) * 100, 9);
+    expect(trailingYieldPct([], history)).toBeUndefined();
+  });
+});
+
+describe("parseSwissCostRequest", () => {
+  it("reads amount, horizon, broker and wealth tax", () => {
+    expect(
+      parseSwissCostRequest(
+        "costi fiscali di VWCE vs VT su 100'000 CHF, orizzonte 20 anni, patrimoniale 3‰, con IBKR"
+      )
+    ).toEqual({ horizonYears: 20, swissBroker: false, wealthTaxPct: 0.3, amount: 100000 });
+    expect(parseSwissCostRequest("bollo su Swissquote, wealth tax 0.25%")).toEqual({
+      swissBroker: true,
+      wealthTaxPct: 0.25
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { snapshotAction } from "../actions/snapshot";
+import { rip2etfSettings } from "../settings";
+import { extractSymbols } from "../utils/symbolExtraction";
+import {
+  createMockMemory,
+  createMockRuntime,
+  createMockState,
+  mockFetch,
+  restoreSettings,
+  useReplay
+} from "./test-utils";
+
+const FMP_SEARCH: Record<string, unknown[]> = {
+  ISPY: [{ symbol: "ISPY.L", name: "L&G Cyber Security UCITS ETF", currency: "USD" }],
+  XYZQ: [
+    { symbol: "XYZ", name: "Block Inc" },
+    { symbol: "XYZG.L", name: "Xtrackers Growth" }
+  ]
+};
+
+describe("extractSymbols", () => {
+  let restoreFetch: (() => void) | undefined;
+
+  beforeAll(() => {
+    useReplay();
+  });
+
+  afterEach(() => {
+    restoreFetch?.();
+    restoreFetch = undefined;
+    useReplay();
+  });
+
+  afterAll(() => {
+    restoreSettings();
+  });
+
+  /** FMP search answered from `FMP_SEARCH`, everything else offline. */
+  const withFmpSearch = () => {
+    Object.assign(rip2etfSettings, { HTTP_MODE: "live", ENABLE_FMP: true, FMP_API_KEY: "k" });
+    const { fetchMock, restore } = mockFetch((url) => {
+      const query = new URL(url).searchParams.get("query") ?? "";
+      if (!url.includes("/v3/search")) throw new Error(`unexpected ${url}`);
+      return JSON.stringify(FMP_SEARCH[query.toUpperCase()] ?? []);
+    });
+    restoreFetch = restore;
+    return fetchMock;
+  };
+
+  const extract = (runtime: ReturnType<typeof createMockRuntime>, text: string) =>
+    extractSymbols(runtime, { message: createMockMemory(text), limit: 6 });
+
+  it("reads lowercase registry tickers and index names without the model", async () => {
+    const runtime = createMockRuntime();
+    const result = await extract(runtime, "compare vwce and the s&p");
+
+    expect(result.symbols).toEqual(["VWCE", "SPY"]);
+    expect(result.checks).toEqual({ VWCE: "registry", SPY: "alias" });
+    expect(result.unresolved).toEqual([]);
+    expect(runtime.useModel).not.toHaveBeenCalled();
+
+    const noise = await extract(runtime, "snapshot di un ETF in CHF: VWCE");
+    expect(noise.symbols).toEqual(["VWCE"]);
+  });
+
+  it("confirms other tickers through the search chain", async () => {
+    const fetchMock = withFmpSearch();
+    const runtime = createMockRuntime();
+    const result = await extract(runtime, "ISPY vs VWCE");
+
+    expect(result.symbols).toEqual(["ISPY", "VWCE"]);
+    expect(result.checks.ISPY).toBe("search");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(runtime.useModel).not.toHaveBeenCalled();
+  });
+
+  it("asks the model when the rules leave doubts and checks its answer", async () => {
+    withFmpSearch();
+    const runtime = createMockRuntime();
+    (runtime.useModel as any).mockResolvedValue({
+      symbols: ["VWCE", "CSPX", "QQQM"],
+      comparison: true,
+      window: "ultimi 3 anni",
+      currency: "eur"
+    });
+
+    const result = await extract(runtime, "il vanguard all world contro l'msci world di ishares");
+
+    // QQQM is neither confirmed nor written by the user
+    expect(result.symbols).toEqual(["VWCE", "CSPX"]);
+    expect(result.model).toEqual({ comparison: true, window: "ultimi 3 anni", currency: "EUR" });
+    expect(runtime.useModel).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports rejected candidates with the closest matches", async () => {
+    withFmpSearch();
+    const result = await extract(createMockRuntime(), "snapshot XYZQ");
+
+    expect(result.symbols).toEqual([]);
+    expect(result.unresolved).toEqual(["XYZQ"]);
+    expect(result.suggestions).toEqual({ XYZQ: ["XYZ", "XYZG.L"] });
+  });
+
+  it("keeps unverified candidates when no search source is configured", async () => {
+    const result = await extract(createMockRuntime(), "snapshot XYZQ");
+
+    expect(result.symbols).toEqual(["XYZQ"]);
+    expect(result.checks.XYZQ).toBe("unverified");
+  });
+
+  it("makes the snapshot ask which fund was meant", async () => {
+    withFmpSearch();
+    const result = (await snapshotAction.handler(
+      createMockRuntime(),
+      createMockMemory("snapshot XYZQ"),
+      createMockState(),
+      {}
+    )) as { text: string; success: boolean; data: any };
+
+    expect(result.success).toBe(false);
+    expect(result.data.reason).toBe("clarify_symbols");
+    expect(result.text).toBe(
+      "Non trovo XYZQ tra gli ETF che conosco (forse XYZ, XYZG.L?). Quale intendevi? Indica il ticker e la borsa (es. VWCE su Xetra) o l'ISIN."
+    );
+  });
+
+  it("asks in the snapshot locale", async () => {
+    withFmpSearch();
+    const result = (await snapshotAction.handler(
+      createMockRuntime(),
+      createMockMemory("snapshot XYZQ"),
+      createMockState(),
+      { locale: "en" }
+    )) as { text: string; success: boolean; data: any };
+
+    expect(result.data.reason).toBe("clarify_symbols");
+    expect(result.text).toBe(
+      "I can't find XYZQ among the ETFs I know (maybe XYZ, XYZG.L?). Which one did you mean? Give the ticker and the exchange (e.g. VWCE on Xetra) or the ISIN."
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { jest } from "bun:test";
+import path from "node:path";
+import type { Component, IAgentRuntime, Memory, Room, State, Task, UUID } from "@elizaos/core";
+import { loadEtfRegistry } from "../data/registry";
+import { registerBuiltinProviders } from "../providers/builtin";
+import { resetProviderHealth } from "../providers/marketData";
+import { rip2etfSettings } from "../settings";
+
+export const FIXTURES_DIR = path.join(import.meta.dir, "fixtures");
+const REGISTRY_PATH = path.resolve(import.meta.dir, "../../../../knowledge/rip/etf-registry.json");
+
+const defaults = { ...rip2etfSettings };
+
+/**
+ * Serves every HTTP call from the recorded fixtures, with the repo registry
+ * and the built-in providers, and no API keys.
+ */
+export function useReplay() {
+  Object.assign(rip2etfSettings, defaults, {
+    HTTP_MODE: "replay",
+    FIXTURES_DIR,
+    REGISTRY_PATH,
+    ALPHAVANTAGE_API_KEY: "",
+    FMP_API_KEY: "",
+    FINNHUB_API_KEY: "",
+    FRED_API_KEY: "",
+    DEBUG: false
+  });
+  loadEtfRegistry();
+  registerBuiltinProviders();
+  resetProviderHealth();
+}
+
+export function restoreSettings() {
+  Object.assign(rip2etfSettings, defaults);
+}
+
+/** Replaces `fetch` with a stub answering `body` (or the result of `respond`) for every URL. */
+export function mockFetch(respond: string | ((url: string) => string | Response)) {
+  const original = globalThis.fetch;
+  const fetchMock = jest.fn(async (input: string | URL | Request) => {
+    const url = String(input instanceof Request ? input.url : input);
+    const answer = typeof respond === "string" ? respond : respond(url);
+    return answer instanceof Response ? answer : new Response(answer, { status: 200 });
+  });
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+  return {
+    fetchMock,
+    restore: () => {
+      globalThis.fetch = original;
+    }
+  };
+}
+
+/** In-memory stand-in for the task table, filtered the way the SQL adapter filters. */
+function createTaskStore() {
+  const tasks = new Map<string, Task>();
+  let sequence = 0;
+  return {
+    tasks,
+    createTask: jest.fn(async (task: Task) => {
+      sequence += 1;
+      const id = `00000000-0000-0000-0000-${String(sequence).padStart(12, "0")}` as UUID;
+      tasks.set(id, { ...task, id });
+      return id;
+    }),
+    getTasks: jest.fn(async (params: { roomId?: UUID; entityId?: UUID; tags?: string[] }) =>
+      Array.from(tasks.values()).filter(
+        (task) =>
+          (!params.roomId || task.roomId === params.roomId) &&
+          (!params.entityId || task.entityId === params.entityId) &&
+          (params.tags ?? []).every((tag) => task.tags.includes(tag))
+      )
+    ),
+    getTask: jest.fn(async (id: UUID) => tasks.get(id) ?? null),
+    getTasksByName: jest.fn(async (name: string) =>
+      Array.from(tasks.values()).filter((task) => task.name === name)
+    ),
+    updateTask: jest.fn(async (id: UUID, update: Partial<Task>) => {
+      const task = tasks.get(id);
+      if (task) tasks.set(id, { ...task, ...update });
+    }),
+    deleteTask: jest.fn(async (id: UUID) => {
+      tasks.delete(id);
+    })
+  };
+}
+
+/** Memories per table, newest first like the SQL adapter returns them. */
+function createMemoryStore() {
+  const memories: Memory[] = [];
+  return {
+    memories,
+    ensureWorldExists: jest.fn(async () => undefined),
+    ensureRoomExists: jest.fn(async () => undefined),
+    createMemory: jest.fn(async (memory: Memory, tableName: string) => {
+      const id = `10000000-0000-0000-0000-${String(memories.length + 1).padStart(12, "0")}` as UUID;
+      memories.unshift({
+        ...memory,
+        id,
+        metadata: { ...memory.metadata, table: tableName } as any
+      });
+      return id;
+    }),
+    getMemories: jest.fn(async (params: { tableName: string; roomId?: UUID; count?: number }) =>
+      memories
+        .filter(
+          (memory) =>
+            (memory.metadata as any)?.table === params.tableName &&
+            (!params.roomId || memory.roomId === params.roomId)
+        )
+        .slice(0, params.count)
+    )
+  };
+}
+
+/** Entity components keyed by id, looked up the way the SQL adapter matches them. */
+function createComponentStore() {
+  const components = new Map<UUID, Component>();
+  return {
+    components,
+    getComponent: jest.fn(
+      async (entityId: UUID, type: string, worldId?: UUID, sourceEntityId?: UUID) =>
+        Array.from(components.values()).find(
+          (component) =>
+            component.entityId === entityId &&
+            component.type === type &&
+            (!worldId || component.worldId === worldId) &&
+            (!sourceEntityId || component.sourceEntityId === sourceEntityId)
+        ) ?? null
+    ),
+    createComponent: jest.fn(async (component: Component) => {
+      components.set(component.id, component);
+      return true;
+    }),
+    updateComponent: jest.fn(async (component: Component) => {
+      components.set(component.id, component);
+    }),
+    deleteComponent: jest.fn(async (id: UUID) => {
+      components.delete(id);
+    })
+  };
+}
+
+export const createMockRuntime = (
+  settings: Record<string, any> = {},
+  room?: Partial<Room>
+): IAgentRuntime => {
+  const cache = new Map<string, unknown>();
+  return {
+    agentId: "00000000-0000-0000-0000-000000000003",
+    getSetting: jest.fn((key: string) => settings[key]),
+    getRoom: jest.fn(async (id: UUID) => (room ? ({ id, ...room } as Room) : null)),
+    ...createTaskStore(),
+    ...createMemoryStore(),
+    ...createComponentStore(),
+    useModel: jest.fn().mockResolvedValue(""),
+    character: { name: "Mr. RIP", bio: "Creatore di Retire In Progress." },
+    registerTaskWorker: jest.fn(),
+    sendMessageToTarget: jest.fn(async () => undefined),
+    getCache: jest.fn(async (key: string) => cache.get(key)),
+    setCache: jest.fn(async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    }),
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+  } as unknown as IAgentRuntime;
+};
+
+export const createMockMemory = (
+  content: string = "Test message",
+  overrides: Partial<Memory> = {}
+): Memory => ({
+  id: "00000000-0000-0000-0000-000000000001" as any,
+  entityId: "00000000-0000-0000-0000-000000000002" as any,
+  agentId: "00000000-0000-0000-0000-000000000003" as any,
+  roomId: "00000000-0000-0000-0000-000000000004" as any,
+  content: {
+    text: content
+  },
+  createdAt: Date.now(),
+  ...overrides
+});
+
+export const createMockState = (): State =>
+  ({
+    values: {},
+    data: {},
+    text: ""
+  }) as State;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import {
+  clipHistory,
+  defaultInterval,
+  parseInterval,
+  parseTimeWindow,
+  shiftDate
+} from "../utils/timeWindow";
+
+const asOf = "2025-09-30";
+
+describe("parseTimeWindow", () => {
+  it("counts relative windows back from the last close", () => {
+    expect(parseTimeWindow("VWCE vs CSPX ultimi 5 anni", asOf)).toEqual({
+      kind: "last",
+      start: "2020-09-30",
+      amount: 5,
+      unit: "years"
+    });
+    expect(parseTimeWindow("last 6 months", asOf)?.start).toBe("2025-03-30");
+    expect(parseTimeWindow("letzte 2 Wochen", asOf)?.start).toBe("2025-09-16");
+    expect(parseTimeWindow("ultimo anno", asOf)).toMatchObject({ amount: 1, unit: "years" });
+  });
+
+  it("reads year-to-date and explicit starts", () => {
+    expect(parseTimeWindow("VWCE YTD", asOf)).toEqual({ kind: "ytd", start: "2025-01-01" });
+    expect(parseTimeWindow("seit Jahresbeginn", asOf)?.kind).toBe("ytd");
+    expect(parseTimeWindow("snapshot VWCE dal 2020", asOf)).toEqual({
+      kind: "since",
+      start: "2020-01-01"
+    });
+    expect(parseTimeWindow("dal 03/2021 al 2022", asOf)).toEqual({
+      kind: "since",
+      start: "2021-03-01",
+      end: "2022-12-31"
+    });
+    expect(parseTimeWindow("since 2019-06-17", asOf)?.start).toBe("2019-06-17");
+    expect(parseTimeWindow("snapshot VWCE vs CSPX", asOf)).toBeUndefined();
+  });
+
+  it("keeps month ends when shifting", () => {
+    expect(shiftDate("2025-03-31", "months", -1)).toBe("2025-02-28");
+    expect(shiftDate("2024-02-29", "years", -1)).toBe("2023-02-28");
+  });
+});
+
+describe("intervals", () => {
+  it("parses the requested spacing", () => {
+    expect(parseInterval("VWCE settimanale")).toBe("1wk");
+    expect(parseInterval("monthly closes")).toBe("1mo");
+    expect(parseInterval("VWCE intraday")).toBe("15m");
+    expect(parseInterval("barre orarie")).toBe("1h");
+    expect(parseInterval("snapshot VWCE")).toBeUndefined();
+  });
+
+  it("picks a coarser default for longer windows", () => {
+    expect(defaultInterval({ kind: "ytd", start: "2025-01-01" }, asOf)).toBe("1d");
+    expect(defaultInterval({ kind: "since", start: "2020-01-01" }, asOf)).toBe("1wk");
+    expect(defaultInterval({ kind: "since", start: "2005-01-01" }, asOf)).toBe("1mo");
+  });
+
+  it("clips bars to the window, intraday ones by date", () => {
+    const history = {
+      symbol: "VT",
+      interval: "1h" as const,
+      bars: [
+        { t: "2025-01-02 15:00", c: 1 },
+        { t: "2025-01-03 10:00", c: 2 },
+        { t: "2025-01-06 10:00", c: 3 }
+      ],
+      adjusted: false,
+      dataSources: []
+    };
+    const clipped = clipHistory(history, {
+      kind: "since",
+      start: "2025-01-03",
+      end: "2025-01-03"
+    });
+    expect(clipped.bars.map((bar) => bar.c)).toEqual([2]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "bun:test";
+import type { PriceHistory } from "../types";
+import {
+  DEFAULT_WATCH_RULES,
+  evaluateWatchRule,
+  mergeWatchRules,
+  newAlerts,
+  parseWatchRules
+} from "../utils/watchlist";
+
+const history = (closes: number[]): PriceHistory => ({
+  symbol: "VWCE",
+  interval: "1d",
+  bars: closes.map((c, index) => ({
+    t: `2025-01-${String(index + 1).padStart(2, "0")}`,
+    o: c,
+    h: c,
+    l: c,
+    c
+  })),
+  adjusted: false,
+  dataSources: ["stooq"]
+});
+
+describe("parseWatchRules", () => {
+  it("reads drawdown, move, level and TER rules", () => {
+    expect(
+      parseWatchRules("segui VWCE drawdown > 10% e avvisami se scende del 5% in una settimana")
+    ).toEqual([
+      { kind: "drawdown", thresholdPct: 10 },
+      { kind: "move", thresholdPct: 5, days: 5 }
+    ]);
+    expect(parseWatchRules("watch CSPX if it drops 3,5% in 2 days or goes below 480")).toEqual([
+      { kind: "move", thresholdPct: 3.5, days: 2 },
+      { kind: "below", level: 480 }
+    ]);
+    expect(parseWatchRules("avvisami se VWCE va sopra 130 o cambia il TER")).toEqual([
+      { kind: "above", level: 130 },
+      { kind: "ter" }
+    ]);
+  });
+
+  it("defaults a move to one session and drops duplicates", () => {
+    expect(parseWatchRules("se perde il 4% o cala del 4%")).toEqual([
+      { kind: "move", thresholdPct: 4, days: 1 }
+    ]);
+  });
+
+  it("returns nothing when the message has no rule", () => {
+    expect(parseWatchRules("segui VWCE")).toEqual([]);
+  });
+
+  it("merges new rules into the existing ones", () => {
+    expect(
+      mergeWatchRules(DEFAULT_WATCH_RULES, [
+        { kind: "drawdown", thresholdPct: 10 },
+        { kind: "above", level: 5 }
+      ])
+    ).toEqual([...DEFAULT_WATCH_RULES, { kind: "above", level: 5 }]);
+  });
+});
+
+describe("evaluateWatchRule", () => {
+  it("measures the drawdown from the highest close", () => {
+    const signal = evaluateWatchRule(
+      { kind: "drawdown", thresholdPct: 10 },
+      { history: history([100, 120, 110, 105]) }
+    );
+    expect(signal.triggered).toBe(true);
+    expect(signal.value).toBeCloseTo(-12.5, 6);
+    expect(signal.detail).toContain("dal massimo del 2025-01-02 (120.00)");
+  });
+
+  it("compares the close with N sessions earlier", () => {
+    const rule = { kind: "move", thresholdPct: 5, days: 2 } as const;
+    expect(evaluateWatchRule(rule, { history: history([100, 104, 94]) }).triggered).toBe(true);
+    expect(evaluateWatchRule(rule, { history: history([100, 104, 96]) }).triggered).toBe(false);
+    expect(evaluateWatchRule(rule, { history: history([100, 104]) }).detail).toBe(
+      "storico troppo corto"
+    );
+  });
+
+  it("checks price levels on the last close", () => {
+    expect(
+      evaluateWatchRule({ kind: "below", level: 95 }, { history: history([100, 94]) }).triggered
+    ).toBe(true);
+    expect(
+      evaluateWatchRule({ kind: "above", level: 95 }, { history: history([100, 94]) }).triggered
+    ).toBe(false);
+  });
+
+  it("flags a TER change only against a known previous value", () => {
+    expect(evaluateWatchRule({ kind: "ter" }, { history: null, ter: 0.22 }).triggered).toBe(false);
+    const changed = evaluateWatchRule(
+      { kind: "ter" },
+      { history: null, ter: 0.19, previousTer: 0.22 }
+    );
+    expect(changed.triggered).toBe(true);
+    expect(changed.detail).toBe("TER cambiato da 0.22% a 0.19%");
+  });
+
+  it("does not trigger price rules without history", () => {
+    expect(
+      evaluateWatchRule({ kind: "drawdown", thresholdPct: 1 }, { history: null }).triggered
+    ).toBe(false);
+  });
+});
+
+describe("newAlerts", () => {
+  it("fires once per episode and re-arms when the condition clears", () => {
+    const rule = { kind: "drawdown", thresholdPct: 10 } as const;
+    const deep = evaluateWatchRule(rule, { history: history([100, 85]) });
+    const recovered = evaluateWatchRule(rule, { history: history([100, 95]) });
+
+    const first = newAlerts([deep], []);
+    expect(first.alerts).toHaveLength(1);
+    expect(first.active).toEqual(["drawdown:10"]);
+
+    expect(newAlerts([deep], first.active).alerts).toHaveLength(0);
+    expect(newAlerts([recovered], first.active).active).toEqual([]);
+  });
+
+  it("never keeps TER changes active", () => {
+    const change = evaluateWatchRule(
+      { kind: "ter" },
+      { history: null, ter: 0.1, previousTer: 0.2 }
+    );
+    expect(newAlerts([change], ["ter"])).toEqual({ alerts: [change], active: [] });
+  });
+});
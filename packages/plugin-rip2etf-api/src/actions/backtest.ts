@@ -0,0 +1,298 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  ensureCorrelationId
+} from "@elizaos/core";
+import { convertHistoriesToBase } from "../providers/fx";
+import { fetchTotalReturnHistory } from "../providers/prices";
+import {
+  type BacktestParams,
+  type BacktestResult,
+  backtestParamsSchema,
+  parseBacktestRequest,
+  runBacktest
+} from "../utils/backtest";
+import { chartAttachments, renderChart } from "../utils/charts";
+import { formatMoney, parseBaseCurrency } from "../utils/currency";
+import {
+  type ResolvedInstrument,
+  extractListingPreferences,
+  resolveInstrument
+} from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import { alignAndRebase } from "../utils/normalize";
+import { collectSymbols } from "../utils/tickers";
+import { parseWithholdingPct } from "../utils/totalReturn";
+import { rip2etfSettings } from "../settings";
+import type { PriceHistory } from "../types";
+
+const ACTION_NAME = "rip2etf.backtest";
+const MAX_ASSETS = 6;
+const BACKTEST_HINT =
+  /\b(?:backtest|back-test|simula(?:zione|re)?|what if|se avessi|avrei|cosa sarebbe|quanto avrei)\b/i;
+
+function formatPercent(value?: number) {
+  if (value === undefined || Number.isNaN(value)) return "n/d";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+function describeRebalance(policy: BacktestParams["rebalance"]) {
+  if (policy.kind === "none") return "nessuno";
+  if (policy.kind === "annual") return "annuale";
+  return `a soglia (±${policy.driftPct}%)`;
+}
+
+function describeFees(fees: BacktestParams["fees"], currency: string) {
+  const parts = [
+    fees.perTrade > 0 ? `${fees.perTrade} ${currency}` : "",
+    fees.pct > 0 ? `${fees.pct}%` : ""
+  ].filter(Boolean);
+  return parts.length ? `${parts.join(" + ")} per ordine` : "nessuna";
+}
+
+/** Last session of each month, so long equity curves stay readable. */
+function monthlyPoints(equity: BacktestResult["equity"]) {
+  return equity.filter(
+    (point, index) =>
+      index === equity.length - 1 || equity[index + 1].t.slice(0, 7) !== point.t.slice(0, 7)
+  );
+}
+
+async function buildBacktest(
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: HandlerOptions | undefined,
+  corrId: string
+): Promise<ActionResult> {
+  const messageText = typeof message.content?.text === "string" ? message.content.text : "";
+  const candidates = collectSymbols({ message, limit: MAX_ASSETS });
+  const preferences = extractListingPreferences(messageText, candidates);
+
+  const instruments = new Map<string, ResolvedInstrument>();
+  for (const candidate of candidates) {
+    const preference =
+      preferences.bySymbol.get(candidate) ??
+      (preferences.bySymbol.size === 0 ? preferences.global : {});
+    const instrument = resolveInstrument(candidate, preference);
+    if (instrument) instruments.set(candidate, instrument);
+  }
+
+  if (!instruments.size) {
+    return {
+      text: "Per il backtest mi servono gli ETF e i pesi (es. 80% VWCE + 20% AGGH dal 2015, 500 CHF al mese).",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_symbol" }
+    };
+  }
+
+  // weights are written against what the user typed; map them onto resolved tickers
+  const parsed = parseBacktestRequest(messageText, Array.from(instruments.keys()));
+  const overrides = (options?.backtest ?? {}) as Partial<BacktestParams>;
+  const validation = backtestParamsSchema.safeParse({
+    ...parsed,
+    weights: parsed.weights.map((entry) => ({
+      symbol: instruments.get(entry.symbol)?.symbol ?? entry.symbol,
+      weight: entry.weight
+    })),
+    ...overrides
+  });
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map((issue) => `${issue.path.join(".") || "parametri"}: ${issue.message}`)
+      .join("; ");
+    return {
+      text: `Parametri del backtest non validi (${issues}).`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "invalid_params", issues: validation.error.issues }
+    };
+  }
+  const params = validation.data;
+  if (params.lumpSum <= 0 && params.monthlyContribution <= 0) {
+    return {
+      text: "Indica un capitale iniziale o un versamento mensile (es. 10'000 CHF iniziali, 500 CHF al mese).",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_amounts", params }
+    };
+  }
+
+  const baseCurrency = parseBaseCurrency(messageText) ?? rip2etfSettings.BASE_CURRENCY;
+  const withholdingPct = parseWithholdingPct(messageText) ?? rip2etfSettings.WITHHOLDING_TAX_PCT;
+  const bySymbol = new Map(
+    Array.from(instruments.values()).map((instrument) => [instrument.symbol, instrument])
+  );
+
+  const rawHistories: PriceHistory[] = [];
+  const missing: string[] = [];
+  for (const { symbol } of params.weights) {
+    const instrument = bySymbol.get(symbol) ?? resolveInstrument(symbol);
+    const history = instrument
+      ? await fetchTotalReturnHistory(
+          runtime,
+          instrument,
+          withholdingPct,
+          corrId,
+          params.start
+        ).catch((error) => {
+          debugLog("backtest_fetch_error", { symbol, error: (error as Error).message });
+          return null;
+        })
+      : null;
+    if (history?.bars.length) rawHistories.push(history);
+    else missing.push(symbol);
+  }
+
+  if (missing.length) {
+    return {
+      text: `Non ho uno storico prezzi per ${missing.join(", ")}: impossibile simulare il portafoglio.`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "no_data_for_symbols", missing, params }
+    };
+  }
+
+  const { series, conversions, unconverted } = await convertHistoriesToBase(
+    runtime,
+    rawHistories,
+    baseCurrency,
+    corrId
+  );
+  const { dates, table, sources } = alignAndRebase(series);
+  const result = runBacktest(dates, table, params);
+  debugLog("backtest_result", {
+    corrId,
+    weights: params.weights,
+    start: result?.start,
+    end: result?.end,
+    finalValue: result?.finalValue
+  });
+
+  if (!result) {
+    return {
+      text: "Lo storico comune degli ETF indicati è troppo corto per il periodo richiesto.",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "insufficient_history", params }
+    };
+  }
+
+  const allocation = params.weights
+    .map((entry) => {
+      const total = params.weights.reduce((acc, item) => acc + item.weight, 0);
+      return `${((entry.weight / total) * 100).toFixed(0)}% ${entry.symbol}`;
+    })
+    .join(" + ");
+
+  const curve = monthlyPoints(result.equity);
+  const chartTitle = `Backtest ${allocation} (${baseCurrency})`;
+  const chartResult = await renderChart({
+    kind: "line",
+    labels: curve.map((point) => point.t),
+    datasets: [
+      { label: "Valore portafoglio", data: curve.map((point) => Number(point.value.toFixed(2))) },
+      { label: "Versato", data: curve.map((point) => Number(point.contributed.toFixed(2))) }
+    ],
+    title: chartTitle,
+    description: `Valore del portafoglio e capitale versato in ${baseCurrency}`
+  }).catch((error) => {
+    debugLog("backtest_chart_error", { error: (error as Error).message });
+    return null;
+  });
+  const attachments = chartResult ? chartAttachments(chartResult, ACTION_NAME) : [];
+
+  const requestedStart =
+    params.start && params.start < result.start
+      ? `Dati comuni disponibili solo dal ${result.start} (richiesto ${params.start}).`
+      : "";
+
+  const responseText = [
+    `**Backtest ${allocation}** (${baseCurrency}, ${result.start} → ${result.end})`,
+    `- Capitale iniziale: ${formatMoney(params.lumpSum, baseCurrency)} · Versamento mensile: ${formatMoney(params.monthlyContribution, baseCurrency)}`,
+    `- Ribilanciamento: ${describeRebalance(params.rebalance)} (${result.rebalances} eseguiti) · Commissioni: ${describeFees(params.fees, baseCurrency)}`,
+    `- Valore finale: ${formatMoney(result.finalValue, baseCurrency)}`,
+    `- Versato: ${formatMoney(result.totalContributed, baseCurrency)} · Guadagno: ${formatMoney(result.gains, baseCurrency)} (${formatPercent((result.gains / result.totalContributed) * 100)})`,
+    `- TWR: ${formatPercent(result.twrPct)} totale, ${formatPercent(result.twrAnnualPct)} annuo · IRR: ${formatPercent(result.irrPct)} annuo`,
+    `- Max drawdown: ${formatPercent(result.maxDrawdown.pct)} (${result.maxDrawdown.peakDate}→${result.maxDrawdown.troughDate})`,
+    `- Commissioni pagate: ${formatMoney(result.feesPaid, baseCurrency)} su ${result.trades} ordini`,
+    requestedStart,
+    conversions.length
+      ? `Cambi applicati: ${conversions.map((fx) => `${fx.symbol} ${fx.from}→${fx.to}`).join(", ")}`
+      : "",
+    unconverted.length
+      ? `Attenzione: ${unconverted.join(", ")} non convertiti in ${baseCurrency}`
+      : "",
+    "Prezzi total return (distribuzioni reinvestite), TER già incluso nei prezzi. Risultati passati, non una previsione.",
+    sources.length ? `Fonti prezzo: ${sources.join(", ")}` : "",
+    chartResult ? "Grafico della curva del capitale allegato." : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const { equity: _equity, ...summary } = result;
+
+  return {
+    text: responseText,
+    success: true,
+    data: {
+      actionName: ACTION_NAME,
+      params,
+      baseCurrency,
+      withholdingPct,
+      result: summary,
+      equityCurve: curve,
+      fxConversions: conversions,
+      unconvertedSeries: unconverted,
+      priceSources: sources,
+      chartUrl: chartResult?.chartUrl,
+      chartAttached: Boolean(chartResult)
+    },
+    values: {
+      backtestSummary: responseText,
+      backtestResult: summary,
+      pendingAttachments: attachments
+    }
+  };
+}
+
+export const backtestAction: Action = {
+  name: ACTION_NAME,
+  description:
+    "Simula un portafoglio di ETF nel passato con capitale iniziale, versamenti mensili, ribilanciamento e commissioni; restituisce valore finale, TWR/IRR, drawdown e grafico della curva del capitale.",
+  similes: ["RIP2ETF_BACKTEST", "ETF_BACKTEST", "PORTFOLIO_BACKTEST", "BACKTEST"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    return BACKTEST_HINT.test(text) && collectSymbols({ message, limit: 1 }).length > 0;
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    state = state ?? ({ values: {}, data: {} } as State);
+    const corrId = ensureCorrelationId(state, message);
+
+    try {
+      return await buildBacktest(runtime, message, options, corrId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Errore inatteso durante il backtest";
+      runtime.logger?.error?.({ error: reason }, `[${ACTION_NAME}] fallito`);
+      debugLog("backtest_failure", { error: reason });
+
+      const failureText = `Impossibile completare il backtest per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [ACTION_NAME] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName: ACTION_NAME, error: reason }
+      };
+    }
+  }
+};
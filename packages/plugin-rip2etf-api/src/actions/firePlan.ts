@@ -0,0 +1,267 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  ensureCorrelationId
+} from "@elizaos/core";
+import { convertHistoriesToBase } from "../providers/fx";
+import { fetchTotalReturnHistory } from "../providers/prices";
+import { chartAttachments, renderChart } from "../utils/charts";
+import { formatMoney, parseBaseCurrency } from "../utils/currency";
+import {
+  type FirePlanParams,
+  FIRE_PERCENTILES,
+  firePlanSchema,
+  monthlyPortfolioReturns,
+  parseFireRequest,
+  simulateFirePlan
+} from "../utils/fire";
+import {
+  type ResolvedInstrument,
+  extractListingPreferences,
+  resolveInstrument
+} from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import { alignAndRebase } from "../utils/normalize";
+import { collectSymbols } from "../utils/tickers";
+import { parseWithholdingPct } from "../utils/totalReturn";
+import { rip2etfSettings } from "../settings";
+import type { PriceHistory } from "../types";
+
+const ACTION_NAME = "rip2etf.fire_plan";
+const MAX_ASSETS = 6;
+const FIRE_HINT =
+  /\b(?:fire|pensione|retire(?:ment)?|prelievo|withdrawal|swr|regola del|4%\s*rule|guardrails?|vpw|monte\s*carlo|indipendenza finanziaria)\b/i;
+
+function describeRule(rule: FirePlanParams["withdrawal"]) {
+  if (rule.kind === "fixed") return `prelievo fisso ${rule.ratePct}% indicizzato all'inflazione`;
+  if (rule.kind === "guardrails") {
+    return `guardrails (${rule.ratePct}% iniziale, ±${rule.adjustPct}% oltre una banda del ${rule.bandPct}%)`;
+  }
+  return `VPW (rendimento reale atteso ${rule.expectedRealReturnPct}%)`;
+}
+
+async function buildFirePlan(
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: HandlerOptions | undefined,
+  corrId: string
+): Promise<ActionResult> {
+  const messageText = typeof message.content?.text === "string" ? message.content.text : "";
+  const candidates = collectSymbols({ message, limit: MAX_ASSETS });
+  const preferences = extractListingPreferences(messageText, candidates);
+
+  const instruments = new Map<string, ResolvedInstrument>();
+  for (const candidate of candidates) {
+    const preference =
+      preferences.bySymbol.get(candidate) ??
+      (preferences.bySymbol.size === 0 ? preferences.global : {});
+    const instrument = resolveInstrument(candidate, preference);
+    if (instrument) instruments.set(candidate, instrument);
+  }
+
+  const parsed = parseFireRequest(messageText, Array.from(instruments.keys()));
+  const overrides = (options?.firePlan ?? {}) as Partial<FirePlanParams>;
+  const validation = firePlanSchema.safeParse({
+    ...parsed,
+    weights: parsed.weights?.map((entry) => ({
+      symbol: instruments.get(entry.symbol)?.symbol ?? entry.symbol,
+      weight: entry.weight
+    })),
+    ...overrides
+  });
+  if (!validation.success) {
+    const missing = validation.error.issues.map((issue) => issue.path[0]);
+    const hints = [
+      missing.includes("currentSavings") ? "patrimonio attuale (es. ho 300k investiti)" : "",
+      missing.includes("annualExpenses") ? "spese annue (es. spese 45k all'anno)" : "",
+      missing.includes("weights") ? "allocazione in ETF (es. 80% VWCE 20% AGGH)" : ""
+    ].filter(Boolean);
+    return {
+      text: hints.length
+        ? `Per il piano FIRE mi servono: ${hints.join(", ")}.`
+        : `Parametri del piano FIRE non validi (${validation.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")}).`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "invalid_params", issues: validation.error.issues }
+    };
+  }
+  const params = validation.data;
+
+  const baseCurrency = parseBaseCurrency(messageText) ?? rip2etfSettings.BASE_CURRENCY;
+  const withholdingPct = parseWithholdingPct(messageText) ?? rip2etfSettings.WITHHOLDING_TAX_PCT;
+  const bySymbol = new Map(
+    Array.from(instruments.values()).map((instrument) => [instrument.symbol, instrument])
+  );
+
+  const rawHistories: PriceHistory[] = [];
+  const missing: string[] = [];
+  for (const { symbol } of params.weights) {
+    const instrument = bySymbol.get(symbol) ?? resolveInstrument(symbol);
+    const history = instrument
+      ? await fetchTotalReturnHistory(runtime, instrument, withholdingPct, corrId).catch(
+          (error) => {
+            debugLog("fire_fetch_error", { symbol, error: (error as Error).message });
+            return null;
+          }
+        )
+      : null;
+    if (history?.bars.length) rawHistories.push(history);
+    else missing.push(symbol);
+  }
+
+  if (missing.length) {
+    return {
+      text: `Non ho uno storico prezzi per ${missing.join(", ")}: impossibile simulare il piano.`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "no_data_for_symbols", missing, params }
+    };
+  }
+
+  const { series, conversions, unconverted } = await convertHistoriesToBase(
+    runtime,
+    rawHistories,
+    baseCurrency,
+    corrId
+  );
+  const { dates, table, sources } = alignAndRebase(series);
+  const monthlyReturns = monthlyPortfolioReturns(dates, table, params.weights) ?? [];
+  const result = simulateFirePlan(monthlyReturns, params);
+  debugLog("fire_plan_result", {
+    corrId,
+    months: monthlyReturns.length,
+    method: params.method,
+    seed: params.seed,
+    successRatePct: result?.successRatePct
+  });
+
+  if (!result) {
+    return {
+      text: `Lo storico comune degli ETF indicati è troppo corto (${monthlyReturns.length} mesi) per una simulazione affidabile.`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "insufficient_history", params }
+    };
+  }
+
+  const allocation = params.weights
+    .map((entry) => {
+      const total = params.weights.reduce((acc, item) => acc + item.weight, 0);
+      return `${((entry.weight / total) * 100).toFixed(0)}% ${entry.symbol}`;
+    })
+    .join(" + ");
+
+  const firstYear = new Date().getUTCFullYear();
+  const chartTitle = `Piano FIRE ${allocation}: percentili del patrimonio (${baseCurrency} di oggi)`;
+  const chartResult = await renderChart({
+    kind: "line",
+    labels: result.bands.map((band) => String(firstYear + band.year)),
+    datasets: FIRE_PERCENTILES.map((pct) => ({
+      label: `P${pct}`,
+      data: result.bands.map((band) => Math.round(band.percentiles[pct]))
+    })),
+    title: chartTitle,
+    description: `Bande percentili del patrimonio in ${baseCurrency} reali`
+  }).catch((error) => {
+    debugLog("fire_chart_error", { error: (error as Error).message });
+    return null;
+  });
+  const attachments = chartResult ? chartAttachments(chartResult, ACTION_NAME) : [];
+
+  const retirementBand = result.bands[params.yearsToRetirement];
+  const finalBand = result.bands[result.bands.length - 1];
+  const bandLine = (label: string, band: (typeof result.bands)[number]) =>
+    `${label}: P10 ${formatMoney(band.percentiles[10], baseCurrency)} · P50 ${formatMoney(band.percentiles[50], baseCurrency)} · P90 ${formatMoney(band.percentiles[90], baseCurrency)}`;
+
+  const responseText = [
+    `**Piano FIRE ${allocation}** (${baseCurrency}, valori in moneta di oggi)`,
+    `- Patrimonio: ${formatMoney(params.currentSavings, baseCurrency)} · Risparmio annuo: ${formatMoney(params.annualSavings, baseCurrency)} · Spese annue: ${formatMoney(params.annualExpenses, baseCurrency)}`,
+    `- Pensione ${params.yearsToRetirement ? `tra ${params.yearsToRetirement} anni` : "da subito"}, orizzonte ${params.horizonYears} anni · Regola: ${describeRule(params.withdrawal)}`,
+    result.fireNumber
+      ? `- FIRE number (spese / tasso iniziale): ${formatMoney(result.fireNumber, baseCurrency)}`
+      : "",
+    `- Probabilità di successo: ${result.successRatePct.toFixed(1)}% su ${result.simulations} simulazioni`,
+    `- Anni con prelievo sotto le spese: ${result.shortfallYearsPct.toFixed(1)}% · Primo prelievo mediano: ${formatMoney(result.medianInitialWithdrawal, baseCurrency)}`,
+    params.yearsToRetirement ? bandLine("- Al pensionamento", retirementBand) : "",
+    bandLine("- A fine orizzonte", finalBand),
+    `Metodo: ${params.method === "bootstrap" ? `bootstrap storico a blocchi di ${params.blockMonths} mesi` : "Monte Carlo log-normale"} su ${result.history.months} mesi (${result.history.start} → ${result.history.end}, rendimento ${result.history.annualReturnPct.toFixed(1)}%/anno, volatilità ${result.history.volatilityPct.toFixed(1)}%), inflazione ${params.inflationPct}%, seed ${params.seed}.`,
+    conversions.length
+      ? `Cambi applicati: ${conversions.map((fx) => `${fx.symbol} ${fx.from}→${fx.to}`).join(", ")}`
+      : "",
+    unconverted.length
+      ? `Attenzione: ${unconverted.join(", ")} non convertiti in ${baseCurrency}`
+      : "",
+    "Simulazione su rendimenti passati: non è una previsione né una consulenza.",
+    sources.length ? `Fonti prezzo: ${sources.join(", ")}` : "",
+    chartResult ? "Grafico a ventaglio allegato." : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    text: responseText,
+    success: true,
+    data: {
+      actionName: ACTION_NAME,
+      params,
+      baseCurrency,
+      result,
+      fxConversions: conversions,
+      unconvertedSeries: unconverted,
+      priceSources: sources,
+      chartUrl: chartResult?.chartUrl,
+      chartAttached: Boolean(chartResult)
+    },
+    values: {
+      firePlanSummary: responseText,
+      firePlanResult: result,
+      pendingAttachments: attachments
+    }
+  };
+}
+
+export const firePlanAction: Action = {
+  name: ACTION_NAME,
+  description:
+    "Piano FIRE: simula con bootstrap storico o Monte Carlo (seed riproducibile) accumulo e prelievi (4% fisso, guardrails, VPW) su un portafoglio di ETF; restituisce probabilità di successo, bande percentili e grafico a ventaglio.",
+  similes: ["RIP2ETF_FIRE_PLAN", "FIRE_PLAN", "SAFE_WITHDRAWAL", "RETIREMENT_PLAN"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    return FIRE_HINT.test(text) && collectSymbols({ message, limit: 1 }).length > 0;
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    state = state ?? ({ values: {}, data: {} } as State);
+    const corrId = ensureCorrelationId(state, message);
+
+    try {
+      return await buildFirePlan(runtime, message, options, corrId);
+    } catch (error) {
+      const reason =
+        error instanceof Error ? error.message : "Errore inatteso durante la simulazione FIRE";
+      runtime.logger?.error?.({ error: reason }, `[${ACTION_NAME}] fallito`);
+      debugLog("fire_plan_failure", { error: reason });
+
+      const failureText = `Impossibile completare il piano FIRE per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [ACTION_NAME] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName: ACTION_NAME, error: reason }
+      };
+    }
+  }
+};
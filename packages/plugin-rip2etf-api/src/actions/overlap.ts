@@ -0,0 +1,248 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  ensureCorrelationId
+} from "@elizaos/core";
+import { fetchHoldings } from "../providers/holdings";
+import { parseWeights } from "../utils/backtest";
+import {
+  type ResolvedInstrument,
+  extractListingPreferences,
+  resolveInstrument
+} from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import {
+  type Allocation,
+  type FundHoldings,
+  type OverlapReport,
+  computeOverlap,
+  splitComparisonGroups
+} from "../utils/overlap";
+import { collectSymbols } from "../utils/tickers";
+
+const ACTION_NAME = "rip2etf.overlap";
+const MAX_FUNDS = 6;
+const TOP_POSITIONS = 10;
+const OVERLAP_HINT =
+  /\b(?:overlap|sovrapposizion[ei]|sovrappo(?:ngono|ngo|sti)|in comune|look-?through|doppion[ei]|duplicazion[ei])\b/i;
+
+const formatPct = (value: number) => `${value.toFixed(value < 1 ? 2 : 1)}%`;
+
+const describeAllocation = (allocation: Allocation) =>
+  allocation.length === 1
+    ? allocation[0].symbol
+    : allocation.map((entry) => `${entry.weight.toFixed(0)}% ${entry.symbol}`).join(" + ");
+
+function describeCoverage(report: OverlapReport) {
+  return report.funds.map((fund) =>
+    [
+      `- ${fund.symbol}: `,
+      fund.partial
+        ? `solo top ${fund.positions} posizioni (${formatPct(fund.coveredPct)} del fondo)`
+        : `${fund.positions} posizioni (${formatPct(fund.coveredPct)} del fondo)`,
+      fund.asOf ? `, al ${fund.asOf}` : "",
+      fund.dataSources.length ? ` · fonte ${fund.dataSources.join(", ")}` : ""
+    ].join("")
+  );
+}
+
+async function buildOverlap(
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: HandlerOptions | undefined,
+  corrId: string
+): Promise<ActionResult> {
+  const messageText = typeof message.content?.text === "string" ? message.content.text : "";
+  const candidates = collectSymbols({ message, options, limit: MAX_FUNDS });
+  const preferences = extractListingPreferences(messageText, candidates);
+
+  const instruments = new Map<string, ResolvedInstrument>();
+  for (const candidate of candidates) {
+    const preference =
+      preferences.bySymbol.get(candidate) ??
+      (preferences.bySymbol.size === 0 ? preferences.global : {});
+    const instrument = resolveInstrument(candidate, preference);
+    if (instrument) instruments.set(candidate, instrument);
+  }
+
+  if (instruments.size < 2) {
+    return {
+      text: "Per calcolare la sovrapposizione mi servono almeno due ETF (es. VWCE vs IWDA + EIMI).",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_symbols", candidates }
+    };
+  }
+
+  const fetched = await Promise.all(
+    Array.from(instruments.values()).map(async (instrument) => ({
+      symbol: instrument.symbol,
+      holdings: await fetchHoldings(runtime, instrument, corrId).catch((error) => {
+        debugLog("overlap_holdings_error", {
+          symbol: instrument.symbol,
+          error: (error as Error).message
+        });
+        return null;
+      })
+    }))
+  );
+  const funds = fetched.filter((fund): fund is FundHoldings =>
+    Boolean(fund.holdings?.topHoldings.length || fund.holdings?.allHoldings?.length)
+  );
+  const missing = fetched.filter((fund) => !funds.includes(fund as FundHoldings));
+  debugLog("overlap_holdings", {
+    corrId,
+    funds: funds.map((fund) => ({
+      symbol: fund.symbol,
+      all: fund.holdings.allHoldings?.length ?? 0,
+      top: fund.holdings.topHoldings.length
+    })),
+    missing: missing.map((fund) => fund.symbol)
+  });
+
+  if (funds.length < 2) {
+    return {
+      text: `Non ho le posizioni di ${missing.map((fund) => fund.symbol).join(", ")}: impossibile calcolare la sovrapposizione.`,
+      success: false,
+      data: {
+        actionName: ACTION_NAME,
+        reason: "no_holdings",
+        missing: missing.map((fund) => fund.symbol)
+      }
+    };
+  }
+
+  // weights and groups are written against what the user typed; map them onto resolved tickers
+  const resolved = (candidate: string) => instruments.get(candidate)?.symbol ?? candidate;
+  const available = new Set(funds.map((fund) => fund.symbol));
+  const typed = candidates.filter((candidate) => available.has(resolved(candidate)));
+  const weightsFor = (symbols: string[]) =>
+    parseWeights(messageText, symbols).map((entry) => ({
+      symbol: resolved(entry.symbol),
+      weight: entry.weight
+    }));
+  const split = splitComparisonGroups(messageText, typed);
+  const groups = split
+    ? { left: weightsFor(split.left), right: weightsFor(split.right) }
+    : undefined;
+  // "VWCE vs IWDA + EIMI": the look-through is for the multi-fund side
+  const report = computeOverlap(funds, {
+    allocation: groups
+      ? groups.left.length > groups.right.length
+        ? groups.left
+        : groups.right
+      : weightsFor(typed),
+    groups,
+    topPositions: TOP_POSITIONS
+  });
+
+  const title = split
+    ? `${split.left.map(resolved).join(" + ")} vs ${split.right.map(resolved).join(" + ")}`
+    : funds.map((fund) => fund.symbol).join(", ");
+
+  const responseText = [
+    `**Sovrapposizione ${title}**`,
+    ...report.pairs.map(
+      (pair) =>
+        `- ${pair.a} ↔ ${pair.b}: ${formatPct(pair.overlapPct)} (${pair.commonPositions} posizioni in comune)`
+    ),
+    report.groups
+      ? `- ${describeAllocation(report.groups.left)} ↔ ${describeAllocation(report.groups.right)}: ${formatPct(report.groups.overlapPct)}`
+      : "",
+    report.common.length ? "" : "Nessuna posizione in comune tra i dati disponibili.",
+    report.common.length ? "Principali posizioni in comune:" : "",
+    ...report.common.map(
+      (position, index) =>
+        `${index + 1}. ${position.name}${position.symbol ? ` (${position.symbol})` : ""}: ${Object.entries(
+          position.weights
+        )
+          .map(([symbol, weight]) => `${symbol} ${formatPct(weight)}`)
+          .join(" · ")}`
+    ),
+    `Esposizione look-through (${describeAllocation(report.lookThrough.allocation)}):`,
+    ...report.lookThrough.top.map(
+      (position, index) =>
+        `${index + 1}. ${position.name}: ${formatPct(position.weightPct)} (via ${position.via.join(", ")})`
+    ),
+    report.lookThrough.unknownPct > 0.5
+      ? `Non coperto dai dati sulle posizioni: ${formatPct(report.lookThrough.unknownPct)} del portafoglio`
+      : "",
+    "Copertura dati:",
+    ...describeCoverage(report),
+    report.partial
+      ? "Copertura parziale: per alcuni fondi conosco solo le prime posizioni, quindi la sovrapposizione reale è almeno quella indicata."
+      : "",
+    missing.length
+      ? `Esclusi (posizioni non disponibili): ${missing.map((fund) => fund.symbol).join(", ")}`
+      : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    text: responseText,
+    success: true,
+    data: {
+      actionName: ACTION_NAME,
+      funds: report.funds,
+      pairs: report.pairs,
+      groups: report.groups,
+      common: report.common,
+      lookThrough: report.lookThrough,
+      partial: report.partial,
+      missing: missing.map((fund) => fund.symbol)
+    },
+    values: {
+      overlapSummary: responseText,
+      overlapReport: report
+    }
+  };
+}
+
+export const overlapAction: Action = {
+  name: ACTION_NAME,
+  description:
+    "Sovrapposizione tra ETF: abbina le posizioni per ISIN, ticker e nome, calcola la sovrapposizione pesata, le principali posizioni in comune e l'esposizione look-through di un portafoglio combinato.",
+  similes: ["RIP2ETF_OVERLAP", "ETF_OVERLAP", "HOLDINGS_OVERLAP", "LOOK_THROUGH"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    return OVERLAP_HINT.test(text) && collectSymbols({ message, limit: 2 }).length > 1;
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    state = state ?? ({ values: {}, data: {} } as State);
+    const corrId = ensureCorrelationId(state, message);
+
+    try {
+      return await buildOverlap(runtime, message, options, corrId);
+    } catch (error) {
+      const reason =
+        error instanceof Error
+          ? error.message
+          : "Errore inatteso nel calcolo della sovrapposizione";
+      runtime.logger?.error?.({ error: reason }, `[${ACTION_NAME}] fallito`);
+      debugLog("overlap_failure", { error: reason });
+
+      const failureText = `Impossibile calcolare la sovrapposizione per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [ACTION_NAME] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName: ACTION_NAME, error: reason }
+      };
+    }
+  }
+};
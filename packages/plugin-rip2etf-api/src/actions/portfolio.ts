@@ -0,0 +1,398 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Media,
+  type Memory,
+  type State,
+  ensureCorrelationId
+} from "@elizaos/core";
+import {
+  MAX_PORTFOLIO_TRANSACTIONS,
+  loadPortfolio,
+  savePortfolio,
+  valuePortfolio
+} from "../data/portfolios";
+import { rip2etfSettings } from "../settings";
+import { parseWeights } from "../utils/backtest";
+import { type BrokerStatement, detectBrokerFormat, parseBrokerStatement } from "../utils/brokerCsv";
+import { parseBaseCurrency } from "../utils/currency";
+import { getText } from "../utils/fetcher";
+import { resolveInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import {
+  type PortfolioTransaction,
+  mergeTransactions,
+  parseTransactionText,
+  renderPortfolioText,
+  transactionId,
+  transactionKind
+} from "../utils/portfolio";
+import { collectSymbols } from "../utils/tickers";
+
+const RECORD_ACTION = "rip2etf.portfolio_record";
+const IMPORT_ACTION = "rip2etf.portfolio_import";
+const TARGET_ACTION = "rip2etf.portfolio_target";
+const SHOW_ACTION = "rip2etf.portfolio";
+
+const SHOW_HINT =
+  /\b(?:(?:il )?mio portafoglio|miei (?:etf|investimenti)|le mie posizioni|portafoglio|my portfolio|my holdings|mein depot)\b/i;
+const IMPORT_HINT = /\b(?:importa(?:re)?|carica(?:re)?|import|upload|estratto conto|statement)\b/i;
+const TARGET_HINT =
+  /\b(?:target|obiettivo|allocazione (?:obiettivo|desiderata)|pesi (?:obiettivo|target)|zielallokation)\b/i;
+const MAX_TARGET_SYMBOLS = 10;
+
+const KIND_LABELS: Record<PortfolioTransaction["kind"], string> = {
+  buy: "acquisto",
+  sell: "vendita",
+  dividend: "dividendo"
+};
+const BROKER_LABELS: Record<BrokerStatement["format"], string> = {
+  ibkr: "Interactive Brokers",
+  swissquote: "Swissquote",
+  degiro: "Degiro"
+};
+
+const messageText = (message: Memory) =>
+  typeof message.content?.text === "string" ? message.content.text : "";
+
+const messageAttachments = (message: Memory): Media[] =>
+  Array.isArray(message.content?.attachments) ? message.content.attachments : [];
+
+const isCsvAttachment = (attachment: Media) =>
+  /\.csv$/i.test(attachment.url ?? "") ||
+  /\.csv$/i.test((attachment as { filename?: string }).filename ?? "") ||
+  Boolean(attachment.text && detectBrokerFormat(attachment.text));
+
+/** Broker tickers and ISINs mapped to the registry symbol, so chat and imports share positions. */
+function normaliseSymbol(transaction: PortfolioTransaction): PortfolioTransaction {
+  const instrument =
+    (transaction.isin ? resolveInstrument(transaction.isin) : null) ??
+    (transaction.symbol !== transaction.isin ? resolveInstrument(transaction.symbol) : null);
+  return instrument
+    ? { ...transaction, symbol: instrument.symbol, isin: transaction.isin ?? instrument.isin }
+    : transaction;
+}
+
+const describeTransaction = (transaction: PortfolioTransaction) =>
+  transaction.kind === "dividend"
+    ? `${KIND_LABELS.dividend} ${transaction.symbol} di ${transaction.amount?.toFixed(2)} ${transaction.currency} il ${transaction.date}`
+    : `${KIND_LABELS[transaction.kind]} di ${transaction.quantity} ${transaction.symbol} a ${transaction.price.toFixed(2)} ${transaction.currency} il ${transaction.date}${transaction.fees ? ` (commissioni ${transaction.fees.toFixed(2)})` : ""}`;
+
+async function recordTransaction(
+  runtime: IAgentRuntime,
+  message: Memory,
+  _state: State | undefined,
+  options?: HandlerOptions
+): Promise<ActionResult> {
+  const text = messageText(message);
+  const [candidate] = collectSymbols({ message, options, limit: 1 });
+  const instrument = candidate ? resolveInstrument(candidate) : null;
+  if (!candidate || !instrument) {
+    return {
+      text: candidate
+        ? `Non riesco a identificare ${candidate}: transazione non registrata.`
+        : "Dimmi quale ETF hai comprato o venduto (es. «ho comprato 10 VWCE a 110,5 EUR»).",
+      success: false,
+      data: { actionName: RECORD_ACTION, reason: "unknown_symbol", candidate }
+    };
+  }
+
+  const parsed = parseTransactionText(text, candidate, {
+    defaultCurrency: instrument.listing.currency ?? rip2etfSettings.BASE_CURRENCY,
+    today: new Date().toISOString().slice(0, 10)
+  });
+  if (!parsed) {
+    return {
+      text: "Non ho capito quantità e prezzo. Esempio: «ho comprato 10 VWCE a 110,5 EUR il 3.1.2024, commissioni 5» oppure «dividendo VHYL 12,50 CHF».",
+      success: false,
+      data: { actionName: RECORD_ACTION, reason: "unparsed" }
+    };
+  }
+
+  const draft = {
+    ...parsed,
+    symbol: instrument.symbol,
+    isin: instrument.isin,
+    source: "chat" as const
+  };
+  // the message id keeps a retried message from being booked twice
+  const transaction = { ...draft, id: transactionId(draft, message.id ?? Date.now()) };
+  const { component, portfolio } = await loadPortfolio(runtime, message.entityId);
+  const merged = mergeTransactions(portfolio.transactions, [transaction]);
+  if (merged.transactions.length > MAX_PORTFOLIO_TRANSACTIONS) {
+    return {
+      text: `Il registro ha già ${MAX_PORTFOLIO_TRANSACTIONS} transazioni: non posso aggiungerne altre.`,
+      success: false,
+      data: { actionName: RECORD_ACTION, reason: "limit" }
+    };
+  }
+  await savePortfolio(
+    runtime,
+    message,
+    { ...portfolio, transactions: merged.transactions },
+    component
+  );
+  debugLog("portfolio_record", { entityId: message.entityId, transaction });
+
+  return {
+    text: [
+      merged.added
+        ? `Registrato: ${describeTransaction(transaction)}.`
+        : `Già registrato: ${describeTransaction(transaction)}.`,
+      `Transazioni nel tuo registro: ${merged.transactions.length}. Chiedi «il mio portafoglio» per valore e P&L.`
+    ].join("\n"),
+    success: true,
+    data: { actionName: RECORD_ACTION, transaction, added: merged.added },
+    values: { portfolioTransactions: merged.transactions.length }
+  };
+}
+
+async function readStatements(message: Memory): Promise<BrokerStatement[]> {
+  const text = messageText(message);
+  const sources: string[] = detectBrokerFormat(text) ? [text] : [];
+  for (const attachment of messageAttachments(message).filter(isCsvAttachment)) {
+    if (attachment.text) {
+      sources.push(attachment.text);
+    } else if (/^https?:\/\//i.test(attachment.url ?? "")) {
+      sources.push(await getText(attachment.url));
+    }
+  }
+  return sources
+    .map((source) => parseBrokerStatement(source))
+    .filter((statement): statement is BrokerStatement => statement !== null);
+}
+
+async function importStatement(runtime: IAgentRuntime, message: Memory): Promise<ActionResult> {
+  const statements = await readStatements(message);
+  if (!statements.length) {
+    return {
+      text: "Non riconosco il formato del file. Supporto l'activity statement CSV di Interactive Brokers, l'export transazioni di Swissquote e il Transactions.csv di Degiro.",
+      success: false,
+      data: { actionName: IMPORT_ACTION, reason: "unknown_format" }
+    };
+  }
+
+  const incoming = statements.flatMap((statement) => statement.transactions.map(normaliseSymbol));
+  const skipped = statements.reduce((acc, statement) => acc + statement.skipped, 0);
+  const { component, portfolio } = await loadPortfolio(runtime, message.entityId);
+  const merged = mergeTransactions(portfolio.transactions, incoming);
+  if (merged.transactions.length > MAX_PORTFOLIO_TRANSACTIONS) {
+    return {
+      text: `L'import porterebbe il registro oltre ${MAX_PORTFOLIO_TRANSACTIONS} transazioni: nessuna modifica.`,
+      success: false,
+      data: { actionName: IMPORT_ACTION, reason: "limit" }
+    };
+  }
+  if (merged.added) {
+    await savePortfolio(
+      runtime,
+      message,
+      { ...portfolio, transactions: merged.transactions },
+      component
+    );
+  }
+  const formats = Array.from(new Set(statements.map((statement) => statement.format)));
+  debugLog("portfolio_import", {
+    entityId: message.entityId,
+    formats,
+    added: merged.added,
+    duplicates: merged.duplicates,
+    skipped
+  });
+
+  const symbols = Array.from(new Set(incoming.map((transaction) => transaction.symbol)));
+  return {
+    text: [
+      `**Import ${formats.map((format) => BROKER_LABELS[format]).join(", ")}**`,
+      `Transazioni nuove: ${merged.added} · già presenti: ${merged.duplicates} · righe ignorate: ${skipped}`,
+      symbols.length ? `Strumenti: ${symbols.join(", ")}` : "",
+      formats.includes("degiro")
+        ? "I dividendi Degiro sono nell'Account.csv e non vengono letti: registrali in chat («dividendo VHYL 12,50 EUR»)."
+        : "",
+      `Transazioni nel tuo registro: ${merged.transactions.length}.`
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    success: merged.added > 0 || merged.duplicates > 0,
+    data: {
+      actionName: IMPORT_ACTION,
+      formats,
+      added: merged.added,
+      duplicates: merged.duplicates,
+      skipped
+    },
+    values: { portfolioTransactions: merged.transactions.length }
+  };
+}
+
+async function setTargets(
+  runtime: IAgentRuntime,
+  message: Memory,
+  _state: State | undefined,
+  options?: HandlerOptions
+): Promise<ActionResult> {
+  const text = messageText(message);
+  const symbols = Array.from(
+    new Set(
+      collectSymbols({ message, options, limit: MAX_TARGET_SYMBOLS }).map(
+        (candidate) => resolveInstrument(candidate)?.symbol ?? candidate
+      )
+    )
+  );
+  if (!symbols.length) {
+    return {
+      text: "Indica i pesi obiettivo, ad esempio «target 80% VWCE 20% AGGH».",
+      success: false,
+      data: { actionName: TARGET_ACTION, reason: "no_symbols" }
+    };
+  }
+
+  const targets = parseWeights(text, symbols);
+  const { component, portfolio } = await loadPortfolio(runtime, message.entityId);
+  await savePortfolio(runtime, message, { ...portfolio, targets }, component);
+  debugLog("portfolio_targets", { entityId: message.entityId, targets });
+
+  return {
+    text: [
+      `Allocazione obiettivo salvata: ${targets.map((target) => `${target.weight.toFixed(1)}% ${target.symbol}`).join(", ")}`,
+      "Chiedi «il mio portafoglio» per lo scostamento attuale."
+    ].join("\n"),
+    success: true,
+    data: { actionName: TARGET_ACTION, targets },
+    values: { portfolioTargets: targets }
+  };
+}
+
+async function showPortfolio(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined
+): Promise<ActionResult> {
+  const { portfolio } = await loadPortfolio(runtime, message.entityId);
+  if (!portfolio.transactions.length) {
+    return {
+      text: "Il tuo portafoglio è vuoto. Registra un acquisto («ho comprato 10 VWCE a 110 EUR») o incolla l'export CSV di Interactive Brokers, Swissquote o Degiro.",
+      success: true,
+      data: { actionName: SHOW_ACTION, transactions: 0 }
+    };
+  }
+
+  const baseCurrency = parseBaseCurrency(messageText(message)) ?? rip2etfSettings.BASE_CURRENCY;
+  const corrId = ensureCorrelationId(state ?? ({ values: {}, data: {} } as State), message);
+  const report = await valuePortfolio(runtime, portfolio, baseCurrency, corrId);
+  const text = renderPortfolioText(report);
+  return {
+    text,
+    success: true,
+    data: { actionName: SHOW_ACTION, transactions: portfolio.transactions.length, report },
+    values: { portfolioSummary: text }
+  };
+}
+
+function portfolioHandler(
+  actionName: string,
+  run: (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options?: HandlerOptions
+  ) => Promise<ActionResult>
+): Action["handler"] {
+  return async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    try {
+      return await run(runtime, message, state, options);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Errore inatteso sul portafoglio";
+      runtime.logger?.error?.({ error: reason }, `[${actionName}] fallito`);
+      debugLog("portfolio_failure", { action: actionName, error: reason });
+
+      const failureText = `Impossibile aggiornare il portafoglio per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [actionName] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName, error: reason }
+      };
+    }
+  };
+}
+
+export const portfolioRecordAction: Action = {
+  name: RECORD_ACTION,
+  description:
+    "Registra nel portafoglio personale un acquisto, una vendita o un dividendo scritto in chat (quantità, prezzo, valuta, data, commissioni).",
+  similes: ["RIP2ETF_RECORD_TRADE", "RECORD_TRADE", "ADD_TRANSACTION"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = messageText(message);
+    return (
+      transactionKind(text) !== null &&
+      !detectBrokerFormat(text) &&
+      collectSymbols({ message, limit: 1 }).length > 0
+    );
+  },
+  handler: portfolioHandler(RECORD_ACTION, recordTransaction)
+};
+
+export const portfolioImportAction: Action = {
+  name: IMPORT_ACTION,
+  description:
+    "Importa nel portafoglio personale le transazioni di un export CSV di Interactive Brokers, Swissquote o Degiro (incollato o allegato); le righe già importate vengono saltate.",
+  similes: ["RIP2ETF_IMPORT_PORTFOLIO", "IMPORT_BROKER_CSV", "IMPORT_TRANSACTIONS"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    if (detectBrokerFormat(messageText(message))) return true;
+    return (
+      messageAttachments(message).some(isCsvAttachment) &&
+      (IMPORT_HINT.test(messageText(message)) || SHOW_HINT.test(messageText(message)))
+    );
+  },
+  handler: portfolioHandler(IMPORT_ACTION, (runtime, message) => importStatement(runtime, message))
+};
+
+export const portfolioTargetAction: Action = {
+  name: TARGET_ACTION,
+  description: "Salva l'allocazione obiettivo del portafoglio personale (es. 80% VWCE, 20% AGGH).",
+  similes: ["RIP2ETF_PORTFOLIO_TARGET", "SET_TARGET_ALLOCATION"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = messageText(message);
+    return (
+      TARGET_HINT.test(text) && /%/.test(text) && collectSymbols({ message, limit: 1 }).length > 0
+    );
+  },
+  handler: portfolioHandler(TARGET_ACTION, setTargets)
+};
+
+export const portfolioAction: Action = {
+  name: SHOW_ACTION,
+  description:
+    "Mostra il portafoglio personale: posizioni, prezzo medio di carico, valore attuale, P&L realizzato e non realizzato, dividendi e scostamento dall'allocazione obiettivo.",
+  similes: ["RIP2ETF_PORTFOLIO", "SHOW_PORTFOLIO", "PORTFOLIO_PNL"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = messageText(message);
+    return (
+      SHOW_HINT.test(text) &&
+      transactionKind(text) === null &&
+      !TARGET_HINT.test(text) &&
+      !IMPORT_HINT.test(text) &&
+      !detectBrokerFormat(text)
+    );
+  },
+  handler: portfolioHandler(SHOW_ACTION, (runtime, message, state) =>
+    showPortfolio(runtime, message, state)
+  )
+};
@@ -0,0 +1,335 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  ensureCorrelationId
+} from "@elizaos/core";
+import { latestQuotes, loadPortfolio } from "../data/portfolios";
+import { fxDaily } from "../providers/fx";
+import { parseWeights } from "../utils/backtest";
+import { chartAttachments, renderChart } from "../utils/charts";
+import { isBaseCurrency, parseBaseCurrency } from "../utils/currency";
+import { resolveInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import { openQuantities } from "../utils/portfolio";
+import {
+  BROKER_FEES,
+  type RebalanceHolding,
+  type RebalanceParams,
+  type RebalancePlan,
+  parseRebalanceRequest,
+  planRebalance,
+  rebalanceParamsSchema
+} from "../utils/rebalance";
+import { collectSymbols } from "../utils/tickers";
+import { rip2etfSettings } from "../settings";
+
+const ACTION_NAME = "rip2etf.rebalance";
+const MAX_ASSETS = 8;
+const REBALANCE_HINT =
+  /\b(?:ribilanci\w*|rebalanc\w*|come (?:divido|ripartisco|investo|alloco)|dove (?:metto|investo)|da investire|da versare|to invest|split (?:my|the) contribution)\b/i;
+// backtest requests also talk about "ribilanciamento annuale"
+const SIMULATION_HINT =
+  /\b(?:backtest|simula\w*|avrei|se avessi|dal (?:19|20)\d{2}|since (?:19|20)\d{2}|al mese|monthly)\b/i;
+
+const BROKER_LABELS: Record<NonNullable<RebalanceParams["broker"]>, string> = {
+  ibkr: "Interactive Brokers",
+  swissquote: "Swissquote",
+  degiro: "Degiro"
+};
+
+const amount = (value: number, currency: string) => `${value.toFixed(2)} ${currency}`;
+
+function describeFees(params: RebalanceParams, currency: string) {
+  const { perTrade, pct, min } = params.fees;
+  const parts = [
+    perTrade > 0 ? amount(perTrade, currency) : "",
+    pct > 0 ? `${pct}%` : "",
+    min > 0 ? `min ${amount(min, currency)}` : ""
+  ].filter(Boolean);
+  const broker = params.broker ? ` (${BROKER_LABELS[params.broker]}, indicative)` : "";
+  return parts.length ? `${parts.join(" + ")} per ordine${broker}` : "nessuna";
+}
+
+/** Fixed-width order table, fenced so Discord and Telegram keep the columns aligned. */
+function tradeTable(plan: RebalancePlan) {
+  const header = ["Ordine", "ETF", "Quote", "Prezzo", "Controvalore", "Commissioni"];
+  const rows = plan.trades.map((trade) => [
+    trade.side === "buy" ? "COMPRA" : "VENDI",
+    trade.symbol,
+    `${Number(trade.shares.toFixed(4))}`,
+    trade.price.toFixed(2),
+    trade.value.toFixed(2),
+    trade.fee.toFixed(2)
+  ]);
+  const widths = header.map((cell, index) =>
+    Math.max(cell.length, ...rows.map((row) => row[index].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, index) => (index < 2 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])))
+      .join("  ");
+  return ["```", line(header), ...rows.map(line), "```"].join("\n");
+}
+
+async function pricesInBase(
+  runtime: IAgentRuntime,
+  symbols: string[],
+  baseCurrency: string,
+  corrId: string
+) {
+  const quotes = await latestQuotes(runtime, symbols, corrId);
+  const rates = new Map<string, number | undefined>([[baseCurrency, 1]]);
+  const prices = new Map<string, number>();
+  let asOf = "";
+  for (const [symbol, quote] of quotes) {
+    if (!rates.has(quote.currency)) {
+      const series = await fxDaily(runtime, quote.currency, baseCurrency, { corrId });
+      rates.set(quote.currency, series?.rates[series.rates.length - 1]?.v);
+    }
+    const rate = rates.get(quote.currency);
+    if (rate === undefined) continue;
+    prices.set(symbol, quote.price * rate);
+    if (quote.date > asOf) asOf = quote.date;
+  }
+  return { prices, asOf };
+}
+
+async function buildRebalance(
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: HandlerOptions | undefined,
+  corrId: string
+): Promise<ActionResult> {
+  const text = typeof message.content?.text === "string" ? message.content.text : "";
+  const typed = collectSymbols({ message, options, limit: MAX_ASSETS });
+  const resolved = new Map(
+    typed.map((candidate) => [candidate, resolveInstrument(candidate)?.symbol ?? candidate])
+  );
+  const request = parseRebalanceRequest(text, typed);
+  const { portfolio } = await loadPortfolio(runtime, message.entityId);
+
+  // weights are written against what the user typed; map them onto resolved tickers.
+  // Without percentages the stored targets win, else the named ETFs share equally.
+  const weights =
+    typed.length && (/%/.test(text) || !portfolio.targets.length)
+      ? parseWeights(text, typed).map((entry) => ({
+          symbol: resolved.get(entry.symbol) ?? entry.symbol,
+          weight: entry.weight
+        }))
+      : portfolio.targets;
+  if (!weights.length) {
+    return {
+      text: "Indica l'allocazione obiettivo (es. «ribilancia 80% VWCE 20% AGGH») o salvala con «target 80% VWCE 20% AGGH».",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_targets" }
+    };
+  }
+
+  const positionsSource = request.holdings.length
+    ? "message"
+    : portfolio.transactions.length
+      ? "portfolio"
+      : "none";
+  const quantities =
+    positionsSource === "portfolio"
+      ? openQuantities(portfolio.transactions)
+      : new Map<string, number>();
+  const baseCurrency =
+    parseBaseCurrency(text) ??
+    (request.contributionCurrency && isBaseCurrency(request.contributionCurrency)
+      ? request.contributionCurrency
+      : rip2etfSettings.BASE_CURRENCY);
+
+  const symbols = Array.from(
+    new Set([
+      ...weights.map((entry) => entry.symbol),
+      ...request.holdings.map((holding) => resolved.get(holding.symbol) ?? holding.symbol),
+      ...quantities.keys()
+    ])
+  );
+  const { prices, asOf } = await pricesInBase(runtime, symbols, baseCurrency, corrId);
+  const missing = symbols.filter((symbol) => !prices.has(symbol));
+  if (weights.some((entry) => missing.includes(entry.symbol))) {
+    return {
+      text: `Non ho un prezzo recente in ${baseCurrency} per ${missing.join(", ")}: impossibile calcolare gli ordini.`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_prices", missing }
+    };
+  }
+
+  for (const holding of request.holdings) {
+    const symbol = resolved.get(holding.symbol) ?? holding.symbol;
+    const price = prices.get(symbol);
+    const quantity = holding.quantity ?? (price && holding.value ? holding.value / price : 0);
+    quantities.set(symbol, (quantities.get(symbol) ?? 0) + quantity);
+  }
+  const holdings: RebalanceHolding[] = symbols
+    .filter((symbol) => prices.has(symbol))
+    .map((symbol) => ({
+      symbol,
+      quantity: quantities.get(symbol) ?? 0,
+      price: prices.get(symbol)!
+    }));
+
+  const validation = rebalanceParamsSchema.safeParse({
+    weights,
+    mode: request.mode ?? (positionsSource === "none" ? "contribution" : "full"),
+    contribution: request.contribution,
+    minTrade: request.minTrade,
+    wholeShares: request.wholeShares,
+    broker: request.broker,
+    fees: request.fees ?? (request.broker ? BROKER_FEES[request.broker] : undefined),
+    ...((options?.rebalance ?? {}) as Partial<RebalanceParams>)
+  });
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .map((issue) => `${issue.path.join(".") || "parametri"}: ${issue.message}`)
+      .join("; ");
+    return {
+      text: `Parametri del ribilanciamento non validi (${issues}).`,
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "invalid_params", issues: validation.error.issues }
+    };
+  }
+  const params = validation.data;
+  const invested = holdings.reduce((acc, holding) => acc + holding.quantity * holding.price, 0);
+  if (invested <= 0 && params.contribution <= 0) {
+    return {
+      text: "Indica le posizioni attuali (es. «ho 30 VWCE e 10 AGGH») o quanto vuoi versare (es. «ho 2'000 CHF da investire»).",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_positions", params }
+    };
+  }
+
+  const plan = planRebalance(holdings, params);
+  debugLog("rebalance_plan", {
+    corrId,
+    mode: params.mode,
+    positionsSource,
+    trades: plan.trades.length,
+    maxDriftBefore: plan.maxDriftBefore,
+    maxDriftAfter: plan.maxDriftAfter
+  });
+
+  const allocationLabel = plan.after
+    .filter((row) => row.targetPct > 0)
+    .map((row) => `${row.targetPct.toFixed(0)}% ${row.symbol}`)
+    .join(" + ");
+  const chartResult = await renderChart({
+    kind: "bar",
+    labels: plan.after.map((row) => row.symbol),
+    datasets: [
+      { label: "Prima", data: plan.before.map((row) => Number(row.pct.toFixed(2))) },
+      { label: "Dopo", data: plan.after.map((row) => Number(row.pct.toFixed(2))) },
+      { label: "Target", data: plan.after.map((row) => Number(row.targetPct.toFixed(2))) }
+    ],
+    unit: "%",
+    title: `Allocazione prima e dopo il ribilanciamento (${baseCurrency})`,
+    description: `Pesi attuali, dopo gli ordini e obiettivo per ${allocationLabel}`
+  }).catch((error) => {
+    debugLog("rebalance_chart_error", { error: (error as Error).message });
+    return null;
+  });
+  const attachments = chartResult ? chartAttachments(chartResult, ACTION_NAME) : [];
+
+  const before = new Map(plan.before.map((row) => [row.symbol, row]));
+  const responseText = [
+    `**Ribilanciamento ${allocationLabel}** (${baseCurrency}, ${
+      params.mode === "contribution"
+        ? `solo acquisti con ${amount(params.contribution, baseCurrency)}`
+        : params.contribution > 0
+          ? `vendite e acquisti, più ${amount(params.contribution, baseCurrency)} di versamento`
+          : "vendite e acquisti"
+    })`,
+    positionsSource === "portfolio"
+      ? "Posizioni dal tuo portafoglio registrato."
+      : positionsSource === "message"
+        ? "Posizioni dal messaggio."
+        : "",
+    plan.trades.length
+      ? tradeTable(plan)
+      : "Nessun ordine necessario con questi vincoli (ordine minimo, quote intere, commissioni).",
+    `- Commissioni: ${describeFees(params, baseCurrency)} · Totale: ${amount(plan.feesTotal, baseCurrency)}`,
+    `- Liquidità residua: ${amount(plan.cashLeft, baseCurrency)}${params.wholeShares ? " (quote intere)" : ""}${params.minTrade > 0 ? ` · Ordine minimo: ${amount(params.minTrade, baseCurrency)}` : ""}`,
+    `- Scostamento massimo dal target: ${plan.maxDriftBefore.toFixed(1)} pt → ${plan.maxDriftAfter.toFixed(1)} pt`,
+    `Allocazione: ${plan.after
+      .map(
+        (row) =>
+          `${row.symbol} ${(before.get(row.symbol)?.pct ?? 0).toFixed(1)}% → ${row.pct.toFixed(1)}% (target ${row.targetPct.toFixed(1)}%)`
+      )
+      .join(", ")}`,
+    missing.length ? `Senza prezzo, esclusi dal calcolo: ${missing.join(", ")}` : "",
+    `Prezzi: ultima chiusura${asOf ? ` al ${asOf}` : ""}, convertiti in ${baseCurrency}. Verifica il prezzo al momento dell'ordine.`,
+    chartResult ? "Grafico dell'allocazione prima e dopo allegato." : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    text: responseText,
+    success: true,
+    data: {
+      actionName: ACTION_NAME,
+      params,
+      baseCurrency,
+      positionsSource,
+      plan,
+      pricesAsOf: asOf,
+      missingPrices: missing,
+      chartUrl: chartResult?.chartUrl,
+      chartAttached: Boolean(chartResult)
+    },
+    values: {
+      rebalanceSummary: responseText,
+      rebalancePlan: plan,
+      pendingAttachments: attachments
+    }
+  };
+}
+
+export const rebalanceAction: Action = {
+  name: ACTION_NAME,
+  description:
+    "Calcola gli ordini per riportare un portafoglio di ETF ai pesi obiettivo (o per ripartire un nuovo versamento senza vendere), con quote intere, ordine minimo e commissioni del broker; restituisce la tabella ordini e il grafico dell'allocazione prima/dopo.",
+  similes: ["RIP2ETF_REBALANCE", "REBALANCE_PORTFOLIO", "SPLIT_CONTRIBUTION", "REBALANCE"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    return REBALANCE_HINT.test(text) && !SIMULATION_HINT.test(text);
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    state = state ?? ({ values: {}, data: {} } as State);
+    const corrId = ensureCorrelationId(state, message);
+
+    try {
+      return await buildRebalance(runtime, message, options, corrId);
+    } catch (error) {
+      const reason =
+        error instanceof Error ? error.message : "Errore inatteso durante il ribilanciamento";
+      runtime.logger?.error?.({ error: reason }, `[${ACTION_NAME}] fallito`);
+      debugLog("rebalance_failure", { error: reason });
+
+      const failureText = `Impossibile calcolare il ribilanciamento per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [ACTION_NAME] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName: ACTION_NAME, error: reason }
+      };
+    }
+  }
+};
@@ -7,52 +7,134 @@ import {
   type Media,
   type Memory,
   type State,
-  ContentType,
   ensureCorrelationId,
   isDebugFlagEnabled
 } from "@elizaos/core";
 import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
-import { alphaVantageDaily } from "../providers/alphaVantage";
-import { stooqDaily } from "../providers/stooq";
-import { fmpEtfProfile, fmpEtfHoldings } from "../providers/fmp";
-import { finnhubEtfProfile } from "../providers/finnhub";
-import { manualHoldings, manualOverview } from "../data/manual";
-import { alignAndRebase, reconcileOverview } from "../utils/normalize";
-import { createLineChartImage } from "../utils/charts";
+import { manualTaxProfile } from "../data/manual";
+import { portfolioContext } from "../data/portfolios";
+import { distributionEvents, distributionsInCurrency } from "../providers/distributions";
+import { fredSeriesCached } from "../providers/fred";
+import { convertHistoriesToBase } from "../providers/fx";
+import { fetchHoldings } from "../providers/holdings";
+import { fetchPriceHistory, fetchTotalReturnHistory } from "../providers/prices";
+import { fetchOverview } from "../providers/overview";
+import { alignAndRebase, resampleHistory } from "../utils/normalize";
+import { type ChartSpec, chartAttachments, renderCharts } from "../utils/charts";
 import { collectSymbols } from "../utils/tickers";
+import {
+  type InstrumentListing,
+  type ResolvedInstrument,
+  extractListingPreferences,
+  listingForSourceSymbol,
+  looksLikeIsin,
+  resolveInstrument
+} from "../utils/instruments";
+import { parseBaseCurrency } from "../utils/currency";
+import {
+  type RiskMetricsReport,
+  calendarYearReturns,
+  computeRiskMetrics,
+  drawdownSeries,
+  metricWindowsWithin,
+  parseMetricWindows
+} from "../utils/metrics";
+import {
+  type SnapshotListing,
+  SNAPSHOT_SCHEMA_VERSION,
+  parseEtfSnapshot,
+  selectSnapshotExports,
+  snapshotExportAttachments
+} from "../utils/snapshot";
+import {
+  type SnapshotLocale,
+  describeSpan,
+  parseSnapshotLocale,
+  renderRequestFailure,
+  renderSnapshotText,
+  snapshotChartStrings
+} from "../utils/snapshotText";
+import {
+  estimateSwissCosts,
+  rankSwissCosts,
+  resolveSwissCostParams,
+  swissCostInput,
+  trailingYieldPct
+} from "../utils/swissTax";
+import {
+  clipHistory,
+  defaultInterval,
+  isIntraday,
+  parseInterval,
+  parseTimeWindow,
+  windowYears
+} from "../utils/timeWindow";
+import { buildTotalReturnHistory, parseWithholdingPct } from "../utils/totalReturn";
 import { debugLog } from "../utils/logger";
-import type { EtfHoldings, EtfOverview, PriceHistory } from "../types";
-
+import { isAgentMessage } from "../utils/messages";
+import { type SymbolExtraction, extractSymbols } from "../utils/symbolExtraction";
+import { rip2etfSettings } from "../settings";
+import type {
+  DistributionHistory,
+  EtfHoldings,
+  EtfOverview,
+  PriceHistory,
+  PriceInterval
+} from "../types";
+
+// charted trading days when the message asks for no time window
 const MAX_HISTORY_POINTS = 180;
 const MAX_COMPARISONS = 4;
+// messages naming no recognisable ticker still reach the model extraction when they ask for an ETF
+const SNAPSHOT_HINT =
+  /\b(?:etfs?|ucits|snapshot|scheda|sintesi|panoramica|overview|confront\w*|compar\w*|vergleich\w*|fondo indicizzato|index fund)\b/i;
 const ATTACHMENTS_DEBUG_ENABLED = isDebugFlagEnabled("ATTACHMENTS_DEBUG");
 const CHART_DUMP_DEBUG_ENABLED = isDebugFlagEnabled("CHART_DUMP_DEBUG");
+const SNAPSHOT_CHART_KINDS = [
+  "performance",
+  "drawdown",
+  "annual",
+  "correlation",
+  "holdings"
+] as const;
+type SnapshotChartKind = (typeof SNAPSHOT_CHART_KINDS)[number];
+const CHART_KEYWORDS: Array<[SnapshotChartKind, RegExp]> = [
+  ["drawdown", /\b(?:drawdown|underwater|sott'acqua)\b/i],
+  ["annual", /\b(?:rendiment[io] annu[ai]|anno per anno|annual returns?|calendar years?)\b/i],
+  ["correlation", /\b(?:correlazion[ei]|correlations?|heatmap)\b/i],
+  ["holdings", /\b(?:torta|pie|treemap|composizione)\b/i]
+];
 
 interface SymbolDataset {
+  instrument: ResolvedInstrument;
+  /** Listing whose prices were actually used (may be a same-currency alternate). */
+  listing: InstrumentListing;
   overview: EtfOverview;
   holdings: EtfHoldings | null;
   history: PriceHistory | null;
+  /** Null for accumulating funds and when no source has distribution data. */
+  distributions: DistributionHistory | null;
 }
 
-function formatCurrency(value?: number) {
-  if (value === undefined || Number.isNaN(value)) return "n/d";
-  if (value >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(1)}B$`;
-  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M$`;
-  return `${value.toFixed(0)}$`;
+interface TotalReturnInfo {
+  symbol: string;
+  reinvested: number;
+  /** Events skipped because they could not be converted to the listing currency. */
+  dropped: number;
+  accumulating: boolean;
+  missingData: boolean;
+  dataSources: string[];
 }
 
-function formatPercent(value?: number) {
-  if (value === undefined || Number.isNaN(value)) return "n/d";
-  return `${value.toFixed(2)}%`;
-}
-
-function pickTop(holdings: { name: string; weightPct?: number }[], top = 5) {
-  return holdings
-    .filter((h) => h.name)
-    .slice(0, top)
-    .map((h, idx) => `${idx + 1}. ${h.name}${h.weightPct ? ` (${h.weightPct.toFixed(2)}%)` : ""}`)
-    .join("\n");
+/** Configured default charts, plus `options.charts` and any chart the message asks for. */
+function selectSnapshotCharts(text: string, requested?: unknown): SnapshotChartKind[] {
+  const selected = new Set<string>(rip2etfSettings.SNAPSHOT_CHARTS);
+  if (Array.isArray(requested)) requested.forEach((kind) => selected.add(String(kind)));
+  for (const [kind, pattern] of CHART_KEYWORDS) {
+    if (pattern.test(text)) selected.add(kind);
+  }
+  return SNAPSHOT_CHART_KINDS.filter((kind) => selected.has(kind));
 }
 
 function hasOverviewData(overview?: EtfOverview): boolean {
@@ -62,70 +144,142 @@ function hasOverviewData(overview?: EtfOverview): boolean {
       overview.category ||
       overview.benchmark ||
       overview.expenseRatio !== undefined ||
-      overview.aumUSD !== undefined ||
-      overview.navUSD !== undefined ||
+      overview.aum !== undefined ||
+      overview.nav !== undefined ||
       overview.name
   );
 }
 
+/** Return from the first bar on or after `start` to the last bar. */
+function returnSince(history: PriceHistory | undefined, start?: string) {
+  const bars = history?.bars.filter((bar) => !start || bar.t >= start) ?? [];
+  if (bars.length < 2 || bars[0].c <= 0) return undefined;
+  return (bars[bars.length - 1].c / bars[0].c - 1) * 100;
+}
+
 const hasHoldingsData = (holdings?: EtfHoldings | null) =>
   Boolean(holdings?.topHoldings && holdings.topHoldings.length > 0);
 
 const hasHistoryData = (history?: PriceHistory | null) =>
   Boolean(history?.bars && history.bars.length > 0);
 
-function isAgentMessage(runtime: IAgentRuntime, message: Memory): boolean {
-  if (!message) return false;
-
-  const agentId = runtime.agentId;
-  if (agentId && message.entityId === agentId) {
-    return true;
-  }
-
-  const role = (message.content as any)?.role;
-  if (typeof role === "string" && role.toLowerCase() === "assistant") {
-    return true;
-  }
-
-  const author = (message.content as any)?.author;
-  if (author && typeof author === "object" && "id" in author && author.id === agentId) {
-    return true;
-  }
-
-  const sourceTag = message.metadata?.source;
-  if (sourceTag && sourceTag.startsWith("rip2etf.snapshot")) {
-    return true;
-  }
-
-  const tags = message.metadata?.tags;
-  if (Array.isArray(tags) && tags.some((tag) => typeof tag === "string" && tag.includes("agent"))) {
-    return true;
+/**
+ * Beta is measured against the symbol named in the message, the configured one, or the primary.
+ * A benchmark outside the compared symbols is loaded as total return too, with the same withholding.
+ */
+async function loadBenchmark(
+  runtime: IAgentRuntime,
+  messageText: string,
+  histories: PriceHistory[],
+  baseCurrency: string,
+  withholdingPct: number,
+  corrId: string
+): Promise<PriceHistory | undefined> {
+  const requested =
+    /\bbenchmark\s+([A-Za-z0-9.]{2,12})\b/i.exec(messageText)?.[1]?.toUpperCase() ||
+    rip2etfSettings.BENCHMARK_SYMBOL;
+  if (!requested) return histories[0];
+
+  const instrument = resolveInstrument(requested);
+  const existing = histories.find(
+    (history) => history.symbol === requested || history.symbol === instrument?.symbol
+  );
+  if (existing || !instrument) return existing ?? histories[0];
+
+  try {
+    const history = await fetchTotalReturnHistory(runtime, instrument, withholdingPct, corrId);
+    if (!history?.bars.length) return histories[0];
+    const { series } = await convertHistoriesToBase(runtime, [history], baseCurrency, corrId);
+    return series[0];
+  } catch (error) {
+    debugLog("benchmark_fetch_error", { symbol: requested, error: (error as Error).message });
+    return histories[0];
   }
-
-  return false;
 }
 
-async function fetchSymbolDataset(symbol: string, corrId: string): Promise<SymbolDataset> {
-  const [overviewPrimary, overviewExtra] = await Promise.all([
-    fmpEtfProfile(symbol),
-    finnhubEtfProfile(symbol)
+async function fetchSymbolDataset(
+  runtime: IAgentRuntime,
+  instrument: ResolvedInstrument,
+  corrId: string,
+  since?: string
+): Promise<SymbolDataset> {
+  const { symbol } = instrument;
+  const [overview, holdings] = await Promise.all([
+    fetchOverview(runtime, instrument, corrId),
+    fetchHoldings(runtime, instrument, corrId)
   ]);
 
-  const overview = reconcileOverview(symbol, [overviewPrimary, overviewExtra, manualOverview(symbol)]);
-  const holdings = (await fmpEtfHoldings(symbol)) ?? manualHoldings(symbol);
-
-  let history = await alphaVantageDaily(symbol);
-  if (!history?.bars?.length) {
-    history = await stooqDaily(symbol, { corrId });
-  }
+  const history = await fetchPriceHistory(runtime, instrument, corrId, { since });
+  const distributions =
+    overview.distributionPolicy === "accumulating"
+      ? null
+      : await distributionEvents(runtime, instrument).catch((error) => {
+          debugLog("distributions_error", { symbol, error: (error as Error).message });
+          return null;
+        });
+  const listing =
+    history?.dataSources.includes("stooq") && history.sourceSymbol
+      ? listingForSourceSymbol(instrument, history.sourceSymbol)
+      : instrument.listing;
 
   return {
+    instrument,
+    listing,
     overview,
-    holdings: holdings ?? null,
-    history: history ?? null
+    holdings,
+    distributions,
+    history: history
+      ? { ...history, symbol, currency: listing.currency ?? history.currency }
+      : null
   };
 }
 
+/**
+ * Intraday bars for every peer, converted to the base currency; empty unless
+ * all of them have some, since daily and intraday series cannot be aligned.
+ */
+async function loadIntradayHistories(
+  runtime: IAgentRuntime,
+  datasets: SymbolDataset[],
+  interval: "15m" | "1h",
+  baseCurrency: string,
+  corrId: string
+): Promise<PriceHistory[]> {
+  const intraday: PriceHistory[] = [];
+  for (const dataset of datasets) {
+    const history = await fetchPriceHistory(runtime, dataset.instrument, corrId, {
+      interval
+    }).catch((error) => {
+      debugLog("intraday_fetch_error", {
+        symbol: dataset.instrument.symbol,
+        error: (error as Error).message
+      });
+      return null;
+    });
+    if (!history?.bars.length) return [];
+    intraday.push({
+      ...history,
+      symbol: dataset.instrument.symbol,
+      currency: dataset.instrument.listing.currency ?? history.currency
+    });
+  }
+  const { series } = await convertHistoriesToBase(runtime, intraday, baseCurrency, corrId);
+  return series;
+}
+
+/** Asked instead of a snapshot when none of the symbols in the message could be identified. */
+function clarifyingQuestion(
+  unresolved: string[],
+  suggestions: SymbolExtraction["suggestions"],
+  locale: SnapshotLocale
+) {
+  if (unresolved.every(looksLikeIsin)) {
+    return renderRequestFailure("unresolved_isin", locale, unresolved);
+  }
+  const close = Array.from(new Set(unresolved.flatMap((symbol) => suggestions[symbol] ?? [])));
+  return renderRequestFailure("clarify_symbols", locale, unresolved, close);
+}
+
 async function buildSnapshot(
   runtime: IAgentRuntime,
   message: Memory,
@@ -135,19 +289,65 @@ async function buildSnapshot(
   responses: Memory[] | undefined,
   corrId: string
 ): Promise<ActionResult> {
-  const collected = collectSymbols({ message, state, options, responses, limit: 6 });
+  const extraction = await extractSymbols(runtime, {
+    message,
+    state,
+    options,
+    responses,
+    limit: 6,
+    corrId
+  });
   const candidates = Array.from(
-    new Set(collected.map((symbol) => symbol.trim().toUpperCase()).filter(Boolean))
+    new Set(extraction.symbols.map((symbol) => symbol.trim().toUpperCase()).filter(Boolean))
   );
 
-  debugLog("snapshot_candidates", candidates);
+  debugLog("snapshot_candidates", { candidates, checks: extraction.checks });
+
+  const messageText = typeof message.content?.text === "string" ? message.content.text : "";
+  const locale = parseSnapshotLocale(options?.locale, rip2etfSettings.LOCALE);
+  const preferences = extractListingPreferences(messageText, candidates);
+  const baseCurrency =
+    parseBaseCurrency(messageText) ??
+    extraction.model?.currency ??
+    rip2etfSettings.BASE_CURRENCY;
+  const instruments = new Map<string, ResolvedInstrument>();
+  const unresolved: string[] = [...extraction.unresolved];
+  for (const candidate of candidates) {
+    const preference =
+      preferences.bySymbol.get(candidate) ??
+      (preferences.bySymbol.size === 0 ? preferences.global : {});
+    const instrument = resolveInstrument(candidate, preference);
+    if (!instrument) {
+      unresolved.push(candidate);
+      continue;
+    }
+    if (!instruments.has(instrument.symbol)) {
+      instruments.set(instrument.symbol, instrument);
+    }
+  }
+  const symbols = Array.from(instruments.keys());
 
-  if (!candidates.length) {
-    const explanation =
-      "Non ho trovato ticker validi nel messaggio. Indica almeno un simbolo ETF (es. VOO) e riprovo.";
+  debugLog("snapshot_instruments", {
+    resolved: Array.from(instruments.values()).map((instrument) => instrument.id),
+    unresolved
+  });
 
+  if (!symbols.length && unresolved.length) {
     return {
-      text: explanation,
+      text: clarifyingQuestion(unresolved, extraction.suggestions, locale),
+      success: false,
+      data: {
+        actionName: "rip2etf.snapshot",
+        reason: unresolved.every(looksLikeIsin) ? "unresolved_isin" : "clarify_symbols",
+        unresolved,
+        suggestions: extraction.suggestions
+      }
+    };
+  }
+
+  if (!candidates.length) {
+    return {
+      text: renderRequestFailure("missing_symbol", locale),
       success: false,
       data: {
         actionName: "rip2etf.snapshot",
@@ -156,11 +356,24 @@ async function buildSnapshot(
     };
   }
 
+  // the model's reading of the window only fills in for a message the rules miss
+  const windowText =
+    parseTimeWindow(messageText) || !extraction.model?.window
+      ? messageText
+      : extraction.model.window;
+  // fetched from the calendar start of the window; relative windows are
+  // re-anchored on the last close once the histories are in
+  const requestedWindow = parseTimeWindow(windowText);
   const symbolDataMap = new Map<string, SymbolDataset>();
-  for (const candidate of candidates) {
+  for (const [candidate, instrument] of instruments) {
     try {
-      debugLog("dataset_fetch_start", candidate);
-      const dataset = await fetchSymbolDataset(candidate, corrId);
+      debugLog("dataset_fetch_start", instrument.id);
+      const dataset = await fetchSymbolDataset(
+        runtime,
+        instrument,
+        corrId,
+        requestedWindow?.start
+      );
       symbolDataMap.set(candidate, dataset);
       debugLog("dataset_fetch_success", {
         symbol: candidate,
@@ -179,7 +392,7 @@ async function buildSnapshot(
   }
 
   let primarySymbol: string | undefined;
-  for (const candidate of candidates) {
+  for (const candidate of symbols) {
     const dataset = symbolDataMap.get(candidate);
     if (!dataset) continue;
     if (
@@ -193,12 +406,9 @@ async function buildSnapshot(
   }
 
   if (!primarySymbol) {
-    debugLog("snapshot_no_primary", { candidates });
-    const failureText =
-      "Non sono riuscito a trovare dati affidabili per i simboli indicati. Controlla i ticker (es. VOO, VWCE) e riprova.";
-
+    debugLog("snapshot_no_primary", { candidates: symbols });
     return {
-      text: failureText,
+      text: renderRequestFailure("no_data_for_symbols", locale),
       success: false,
       data: {
         actionName: "rip2etf.snapshot",
@@ -210,26 +420,142 @@ async function buildSnapshot(
   const primaryData = symbolDataMap.get(primarySymbol)!;
   debugLog("snapshot_primary", {
     primarySymbol,
-    compareCandidates: candidates.filter((c) => c !== primarySymbol)
+    compareCandidates: symbols.filter((c) => c !== primarySymbol)
   });
 
-  const compareSymbols = candidates
+  const compareSymbols = symbols
     .filter((symbol) => symbol !== primarySymbol && hasHistoryData(symbolDataMap.get(symbol)?.history))
     .slice(0, MAX_COMPARISONS);
 
   const peers = [primarySymbol, ...compareSymbols];
-  const histories = peers
+  const rawHistories = peers
     .map((symbol) => symbolDataMap.get(symbol)?.history)
     .filter((history): history is PriceHistory => Boolean(history && history.bars.length));
 
-  const { dates, table, sources } = histories.length
-    ? alignAndRebase(histories)
+  // rebasing mixed currencies would fold FX moves into "performance"
+  const {
+    series: histories,
+    conversions: fxConversions,
+    unconverted
+  } = await convertHistoriesToBase(runtime, rawHistories, baseCurrency, corrId);
+
+  const asOf = rawHistories
+    .map((history) => history.bars[history.bars.length - 1].t)
+    .sort()
+    .at(-1);
+  const timeWindow = asOf ? parseTimeWindow(windowText, asOf) : undefined;
+  const interval: PriceInterval =
+    parseInterval(messageText) ?? (timeWindow && asOf ? defaultInterval(timeWindow, asOf) : "1d");
+  const windowed = (series: PriceHistory[]) =>
+    timeWindow ? series.map((history) => clipHistory(history, timeWindow)) : series;
+
+  // the chart follows the requested spacing, returns and metrics stay on daily closes
+  let chartInterval = interval;
+  let chartHistories: PriceHistory[] = [];
+  if (isIntraday(interval)) {
+    chartHistories = windowed(
+      await loadIntradayHistories(
+        runtime,
+        peers
+          .map((symbol) => symbolDataMap.get(symbol))
+          .filter((dataset): dataset is SymbolDataset => Boolean(dataset?.history?.bars.length)),
+        interval,
+        baseCurrency,
+        corrId
+      )
+    );
+    if (!chartHistories.some((history) => history.bars.length)) chartInterval = "1d";
+  }
+  if (!isIntraday(chartInterval)) {
+    chartHistories = windowed(histories).map((history) =>
+      chartInterval === "1wk" || chartInterval === "1mo"
+        ? resampleHistory(history, chartInterval)
+        : history
+    );
+  }
+  debugLog("snapshot_window", { window: timeWindow, asOf, interval, chartInterval });
+
+  const { dates, table, sources } = chartHistories.length
+    ? alignAndRebase(chartHistories)
     : { dates: [] as string[], table: [] as { symbol: string; points: Array<{ t: string; v: number }> }[], sources: [] as string[] };
 
-  const limitedDates = dates.slice(-MAX_HISTORY_POINTS);
+  // distributions are reinvested in the listing currency, before FX conversion
+  const withholdingPct = parseWithholdingPct(messageText) ?? rip2etfSettings.WITHHOLDING_TAX_PCT;
+  const rawTotalReturns: PriceHistory[] = [];
+  const totalReturnInfo: TotalReturnInfo[] = [];
+  const trailingYields = new Map<string, number | undefined>();
+  for (const history of rawHistories) {
+    const dataset = symbolDataMap.get(history.symbol);
+    const accumulating = dataset?.overview.distributionPolicy === "accumulating";
+    const { events, dropped } = await distributionsInCurrency(
+      runtime,
+      dataset?.distributions?.events ?? [],
+      history.currency,
+      corrId
+    );
+    trailingYields.set(history.symbol, trailingYieldPct(events, history));
+    const result = buildTotalReturnHistory(history, events, withholdingPct);
+    rawTotalReturns.push(result.history);
+    totalReturnInfo.push({
+      symbol: history.symbol,
+      reinvested: result.reinvested,
+      dropped,
+      accumulating,
+      missingData: !accumulating && !dataset?.distributions,
+      dataSources: dataset?.distributions?.dataSources ?? []
+    });
+  }
+  const { series: totalReturnHistories } = await convertHistoriesToBase(
+    runtime,
+    rawTotalReturns,
+    baseCurrency,
+    corrId
+  );
+
+  // metrics use the full converted total-return histories (or the requested
+  // window of them), not the charted tail
+  const metricHistories = windowed(totalReturnHistories);
+  let metrics: RiskMetricsReport | null = null;
+  if (metricHistories.length) {
+    const benchmark = await loadBenchmark(
+      runtime,
+      messageText,
+      metricHistories,
+      baseCurrency,
+      withholdingPct,
+      corrId
+    );
+    const earliest = metricHistories
+      .map((history) => history.bars[0]?.t)
+      .filter(Boolean)
+      .sort()[0];
+    const riskFreeSeries = rip2etfSettings.RISK_FREE_SERIES;
+    const riskFreePoints = riskFreeSeries
+      ? await fredSeriesCached(runtime, riskFreeSeries, earliest)
+      : null;
+    const requestedWindows = parseMetricWindows(messageText);
+    metrics = computeRiskMetrics(metricHistories, {
+      windows:
+        requestedWindows.length || !timeWindow || !asOf
+          ? requestedWindows
+          : metricWindowsWithin(windowYears(timeWindow, asOf)),
+      benchmark: benchmark && timeWindow ? clipHistory(benchmark, timeWindow) : benchmark,
+      riskFree: riskFreePoints?.length
+        ? { seriesId: riskFreeSeries, points: riskFreePoints, dataSources: ["fred"] }
+        : undefined
+    });
+    debugLog("snapshot_metrics", {
+      windows: metrics.windows,
+      benchmark: metrics.benchmark,
+      riskFree: metrics.riskFree?.seriesId
+    });
+  }
+
+  const maxPoints = timeWindow ? dates.length : MAX_HISTORY_POINTS;
+  const limitedDates = dates.slice(-maxPoints);
   const limitedTable = table.map((series) => ({
     symbol: series.symbol,
-    points: series.points.slice(-MAX_HISTORY_POINTS)
+    points: series.points.slice(-maxPoints)
   }));
 
   const datasets = limitedTable.map((series) => ({
@@ -242,29 +568,115 @@ async function buildSnapshot(
   const hasChartDataset =
     limitedDates.length > 1 && datasets.some((series) => series.data.some((value) => value !== null));
 
-  const chartTitle = `Andamento ultimi ${limitedDates.length || "0"} giorni`;
-  const chartResult = hasChartDataset
-    ? await createLineChartImage(limitedDates, datasets, chartTitle)
-    : null;
-
-  const chartAttachment: Media | undefined = chartResult
-    ? {
-        id: `rip2etf-chart-${primarySymbol}-${Date.now()}`,
-        url: chartResult.chartUrl?.startsWith("data:")
-          ? chartResult.fileName
-          : chartResult.chartUrl,
-        data: chartResult.buffer,
-        filename: chartResult.fileName,
-        mimeType: chartResult.mimeType,
-        title: chartTitle,
-        description: `Performance rebased 100 (${limitedDates.length} giorni)`,
-        source: "rip2etf.snapshot",
-        contentType: ContentType.IMAGE
-      }
-    : undefined;
+  const chartStrings = snapshotChartStrings(locale);
+  const span = describeSpan(timeWindow, chartInterval, limitedDates.length, locale);
+  const chartTitle = chartStrings.performance(span, baseCurrency);
+  const chartKinds = selectSnapshotCharts(messageText, options?.charts);
+  const chartSpecs: ChartSpec[] = [];
+  if (chartKinds.includes("performance") && hasChartDataset) {
+    chartSpecs.push({
+      kind: "line",
+      labels: limitedDates,
+      datasets,
+      title: chartTitle,
+      description: chartStrings.performanceDescription(span, baseCurrency)
+    });
+  }
+
+  if (chartKinds.includes("drawdown") && metricHistories.length) {
+    const aligned = alignAndRebase(metricHistories);
+    chartSpecs.push({
+      kind: "drawdown",
+      labels: aligned.dates,
+      datasets: aligned.table.map((series) => ({
+        label: series.symbol,
+        data: drawdownSeries(series.points.filter((point) => Number.isFinite(point.v))).map(
+          (point) => Number(point.v.toFixed(2))
+        )
+      })),
+      title: chartStrings.drawdown(baseCurrency),
+      description: chartStrings.drawdownDescription(
+        aligned.dates[0],
+        aligned.dates[aligned.dates.length - 1]
+      )
+    });
+  }
+
+  if (chartKinds.includes("annual") && metricHistories.length) {
+    const perSymbol = metricHistories.map((history) => ({
+      symbol: history.symbol,
+      years: calendarYearReturns(history)
+    }));
+    const years = Array.from(
+      new Set(perSymbol.flatMap((entry) => entry.years.map((item) => item.year)))
+    ).sort((a, b) => a - b);
+    const partialYears = new Set(
+      perSymbol.flatMap((entry) =>
+        entry.years.filter((item) => item.partial).map((item) => item.year)
+      )
+    );
+    if (years.length) {
+      chartSpecs.push({
+        kind: "bar",
+        labels: years.map((year) => (partialYears.has(year) ? `${year}*` : String(year))),
+        datasets: perSymbol.map((entry) => ({
+          label: entry.symbol,
+          data: years.map((year) => {
+            const item = entry.years.find((candidate) => candidate.year === year);
+            return item ? Number(item.returnPct.toFixed(2)) : null;
+          })
+        })),
+        unit: "%",
+        title: chartStrings.annual(baseCurrency),
+        description: chartStrings.annualDescription(
+          perSymbol.map((entry) => entry.symbol).join(", ")
+        )
+      });
+    }
+  }
+
+  if (chartKinds.includes("correlation") && metrics?.correlation) {
+    chartSpecs.push({
+      kind: "heatmap",
+      labels: metrics.correlation.symbols,
+      matrix: metrics.correlation.matrix,
+      title: chartStrings.correlation(metrics.correlation.window),
+      description: chartStrings.correlationDescription(metrics.correlation.symbols.join(", "))
+    });
+  }
+
+  const pieHoldings = (primaryData.holdings?.topHoldings ?? [])
+    .filter((holding) => holding.name && (holding.weightPct ?? 0) > 0)
+    .slice(0, 8);
+  if (chartKinds.includes("holdings") && pieHoldings.length) {
+    const covered = pieHoldings.reduce((acc, holding) => acc + (holding.weightPct ?? 0), 0);
+    chartSpecs.push({
+      kind: "pie",
+      doughnut: true,
+      labels: [...pieHoldings.map((holding) => holding.name), ...(covered < 100 ? [chartStrings.other] : [])],
+      values: [
+        ...pieHoldings.map((holding) => Number((holding.weightPct ?? 0).toFixed(2))),
+        ...(covered < 100 ? [Number((100 - covered).toFixed(2))] : [])
+      ],
+      title: chartStrings.holdings(primarySymbol),
+      description: chartStrings.holdingsDescription(pieHoldings.length, primarySymbol)
+    });
+  }
+
+  const charts = await renderCharts(chartSpecs, {
+    theme:
+      options?.chartTheme === "dark" || options?.chartTheme === "light"
+        ? options.chartTheme
+        : undefined
+  });
+  const chartResult = charts[0] ?? null;
+  const chartMedia = charts.flatMap((chart) => chartAttachments(chart, "rip2etf.snapshot"));
+  const chartAttachment: Media | undefined = chartMedia[0];
 
   debugLog("snapshot_chart", {
     enabled: Boolean(chartAttachment),
+    requested: chartKinds,
+    rendered: charts.map((chart) => chart.kind),
     dates: limitedDates.length,
     series: datasets.map((ds) => ds.label)
   });
@@ -275,7 +687,7 @@ async function buildSnapshot(
 
     if (ATTACHMENTS_DEBUG_ENABLED) {
       runtime.logger?.info?.(
-        `snapshot:chart:queued corrId=${corrId} kind=image mime=${chartAttachment.mimeType ?? "image/png"} filename=${chartAttachment.filename ?? "rip2etf-chart.png"} bytes=${chartResult.buffer.byteLength} sha1=${sha1Short}`
+        `snapshot:chart:queued corrId=${corrId} kind=image mime=${chartAttachment.mimeType ?? "image/png"} filename=${chartAttachment.filename ?? "rip2etf-chart.png"} bytes=${chartResult.buffer.byteLength} sha1=${sha1Short} charts=${charts.length}`
       );
     }
 
@@ -298,81 +710,138 @@ async function buildSnapshot(
     }
   }
 
-  const latestRow = limitedTable.map((series) => {
-    const lastValid = [...series.points].reverse().find((point) => Number.isFinite(point.v));
-    return `${series.symbol}: ${lastValid ? Number(lastValid.v).toFixed(1) : "n/d"}`;
-  });
-
-  const responseSections = [
-    `**${primarySymbol} · snapshot dati**`,
-    `- Issuer: ${primaryData.overview.issuer ?? "n/d"}`,
-    `- Categoria: ${primaryData.overview.category ?? "n/d"}`,
-    `- Benchmark: ${primaryData.overview.benchmark ?? "n/d"}`,
-    `- TER: ${formatPercent(primaryData.overview.expenseRatio)}`,
-    `- AUM: ${formatCurrency(primaryData.overview.aumUSD)}`,
-    `- NAV: ${formatCurrency(primaryData.overview.navUSD)} (ultimo close ${primaryData.overview.lastCloseDate ?? "n/d"})`
-  ];
-
-  if (hasHoldingsData(primaryData.holdings)) {
-    responseSections.push("", `Top holdings:\n${pickTop(primaryData.holdings!.topHoldings)}`);
-  }
-
-  if (limitedTable.length > 0) {
-    responseSections.push(
-      "",
-      `Performance rebased 100 (${limitedDates.length} giorni):`,
-      latestRow.join(" | "),
-      sources.length ? `Fonti prezzo: ${sources.join(", ")}` : ""
-    );
-  }
-
-  if (compareSymbols.length > 0) {
-    responseSections.push("", `Confronto con: ${compareSymbols.join(", ")}`);
-  }
-
-  if (chartAttachment) {
-    responseSections.push("", "Grafico Chart.js allegato in coda.");
-  }
-
-  const responseText = responseSections.filter(Boolean).join("\n");
-  debugLog("snapshot_summary", responseText);
+  const listings: SnapshotListing[] = peers
+    .map((symbol) => symbolDataMap.get(symbol))
+    .filter((dataset): dataset is SymbolDataset => Boolean(dataset))
+    .map((dataset) => ({
+      symbol: dataset.instrument.symbol,
+      query: dataset.instrument.query,
+      isin: dataset.instrument.isin,
+      exchange: dataset.listing.exchange,
+      ticker: dataset.listing.ticker,
+      currency: dataset.listing.currency ?? dataset.history?.currency,
+      sourceSymbol: dataset.history?.sourceSymbol,
+      hasHistory: hasHistoryData(dataset.history)
+    }));
+
+  // price vs total return over the charted window, from daily closes
+  const windowStart = limitedDates[0]?.slice(0, 10);
+  const windowReturn = (series: PriceHistory[], symbol: string) =>
+    returnSince(
+      series.find((history) => history.symbol === symbol),
+      windowStart
+    ) ?? null;
+
+  // costs for a Swiss resident only make sense in a report in francs
+  const swissParams = resolveSwissCostParams(messageText);
+  const swissCosts =
+    baseCurrency === "CHF"
+      ? {
+          horizonYears: swissParams.horizonYears,
+          swissBroker: swissParams.swissBroker,
+          wealthTaxPct: swissParams.wealthTaxPct,
+          rows: rankSwissCosts(
+            peers
+              .map((symbol) => symbolDataMap.get(symbol))
+              .filter((dataset): dataset is SymbolDataset => Boolean(dataset))
+              .map((dataset) =>
+                estimateSwissCosts(
+                  swissCostInput(
+                    {
+                      ...dataset.overview,
+                      symbol: dataset.instrument.symbol,
+                      isin: dataset.overview.isin ?? dataset.instrument.isin
+                    },
+                    dataset.holdings,
+                    manualTaxProfile(dataset.instrument.isin ?? dataset.instrument.symbol),
+                    trailingYields.get(dataset.instrument.symbol)
+                  ),
+                  swissParams
+                )
+              )
+          )
+        }
+      : null;
 
-  const snapshotSummary = responseText;
-  const snapshotPayload = {
+  const snapshot = parseEtfSnapshot({
+    version: SNAPSHOT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
     primarySymbol,
     compareSymbols,
+    unresolved,
+    baseCurrency,
+    listings,
+    window: timeWindow ?? null,
     overview: primaryData.overview,
-    holdings: primaryData.holdings,
-    chartUrl: chartResult?.chartUrl,
-    chartAttached: Boolean(chartAttachment),
-    priceSources: sources,
-    summary: snapshotSummary
-  };
+    holdings: hasHoldingsData(primaryData.holdings) ? primaryData.holdings : null,
+    performance: limitedTable.length
+      ? {
+          dates: limitedDates,
+          interval: chartInterval,
+          requestedInterval: chartInterval !== interval ? interval : undefined,
+          series: limitedTable.map((series) => ({
+            symbol: series.symbol,
+            values: series.points.map((point) =>
+              Number.isFinite(point.v) ? Number(point.v.toFixed(4)) : null
+            )
+          })),
+          priceSources: sources,
+          fxConversions,
+          unconverted
+        }
+      : null,
+    totalReturn:
+      totalReturnInfo.length && limitedDates.length > 1
+        ? {
+            withholdingPct,
+            rows: totalReturnInfo.map((info) => ({
+              ...info,
+              priceReturnPct: windowReturn(windowed(histories), info.symbol),
+              totalReturnPct: windowReturn(metricHistories, info.symbol)
+            }))
+          }
+        : null,
+    metrics,
+    swissCosts,
+    charts: charts.map(({ kind, title, fileName }) => ({ kind, title, fileName }))
+  });
 
-  const snapshotAttachments = chartAttachment ? [chartAttachment] : [];
+  const exportMedia = snapshotExportAttachments(
+    snapshot,
+    selectSnapshotExports(messageText, rip2etfSettings.SNAPSHOT_EXPORTS, options?.exports),
+    "rip2etf.snapshot"
+  );
+  const responseText = renderSnapshotText(snapshot, locale, {
+    exports: exportMedia.map((media) => media.filename ?? media.url)
+  });
+  debugLog("snapshot_summary", responseText);
+
+  const snapshotAttachments = [...chartMedia, ...exportMedia];
+
+  let portfolioSummary: string | undefined;
+  try {
+    portfolioSummary = await portfolioContext(runtime, message, symbols, baseCurrency, corrId);
+  } catch (error) {
+    debugLog("snapshot_portfolio_error", { corrId, error: (error as Error).message });
+  }
 
   return {
     text: responseText,
     success: true,
     data: {
       actionName: "rip2etf.snapshot",
-      symbol: primarySymbol,
-      compareWith: compareSymbols,
-      overview: primaryData.overview,
-      holdings: primaryData.holdings,
-      chartUrl: chartResult?.chartUrl,
-      chartAttached: Boolean(chartAttachment),
-      priceSources: sources,
-      summary: snapshotSummary
+      schemaVersion: snapshot.version,
+      locale,
+      snapshot
     },
     values: {
       primarySymbol,
       compareSymbols,
-      priceSources: sources,
-      snapshotSummary,
-      snapshotData: snapshotPayload,
+      snapshotSummary: responseText,
+      snapshotData: snapshot,
       snapshotAttachments,
-      pendingAttachments: snapshotAttachments
+      pendingAttachments: snapshotAttachments,
+      portfolioSummary
     }
   };
 }
@@ -388,8 +857,8 @@ export const snapshotAction: Action = {
       return false;
     }
 
-    const tickers = collectSymbols({ message, limit: 1 });
-    return tickers.length > 0;
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    return SNAPSHOT_HINT.test(text) || collectSymbols({ message, limit: 1 }).length > 0;
   },
   handler: async (
     runtime: IAgentRuntime,
@@ -0,0 +1,214 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  ensureCorrelationId
+} from "@elizaos/core";
+import { manualTaxProfile } from "../data/manual";
+import { distributionEvents, distributionsInCurrency } from "../providers/distributions";
+import { fetchHoldings } from "../providers/holdings";
+import { fetchOverview } from "../providers/overview";
+import { fetchPriceHistory } from "../providers/prices";
+import { formatMoney } from "../utils/currency";
+import {
+  type ResolvedInstrument,
+  extractListingPreferences,
+  resolveInstrument
+} from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import { renderSwissCosts } from "../utils/snapshotText";
+import {
+  type SwissCostEstimate,
+  type SwissCostParams,
+  estimateSwissCosts,
+  rankSwissCosts,
+  resolveSwissCostParams,
+  swissCostInput,
+  trailingYieldPct
+} from "../utils/swissTax";
+import { collectSymbols } from "../utils/tickers";
+
+const ACTION_NAME = "rip2etf.swiss_costs";
+const MAX_FUNDS = 6;
+const SWISS_TAX_HINT =
+  /\b(?:fiscal\w*|tass\w*|impost[ae]|ritenut[ae]|withholding|bollo|stamp\s+duty|umsatzabgabe|patrimoniale|sostanza|wealth\s+tax|steuer\w*|domicilio|domicile|DA-?1|kursliste|valore\s+fiscale|tax(?:es)?)\b/i;
+
+/** Trailing yield of a distributing fund the registry has no figure for. */
+async function fallbackYield(
+  runtime: IAgentRuntime,
+  instrument: ResolvedInstrument,
+  corrId: string
+): Promise<number | undefined> {
+  const [history, distributions] = await Promise.all([
+    fetchPriceHistory(runtime, instrument, corrId),
+    distributionEvents(runtime, instrument)
+  ]);
+  if (!history?.bars.length || !distributions?.events.length) return undefined;
+  const currency = instrument.listing.currency ?? history.currency;
+  const { events } = await distributionsInCurrency(runtime, distributions.events, currency, corrId);
+  return trailingYieldPct(events, history);
+}
+
+async function estimateFor(
+  runtime: IAgentRuntime,
+  instrument: ResolvedInstrument,
+  params: SwissCostParams,
+  corrId: string
+): Promise<SwissCostEstimate> {
+  const profile = manualTaxProfile(instrument.isin ?? instrument.symbol);
+  const overview = await fetchOverview(runtime, instrument, corrId);
+  const holdings =
+    profile?.usEquityPct === undefined
+      ? await fetchHoldings(runtime, instrument, corrId).catch(() => null)
+      : null;
+  const trailing =
+    profile?.dividendYieldPct === undefined && overview.distributionPolicy !== "accumulating"
+      ? await fallbackYield(runtime, instrument, corrId).catch((error) => {
+          debugLog("swiss_costs_yield_error", {
+            symbol: instrument.symbol,
+            error: (error as Error).message
+          });
+          return undefined;
+        })
+      : undefined;
+
+  return estimateSwissCosts(
+    swissCostInput(
+      { ...overview, symbol: instrument.symbol, isin: overview.isin ?? instrument.isin },
+      holdings,
+      profile,
+      trailing
+    ),
+    params
+  );
+}
+
+async function buildSwissCosts(
+  runtime: IAgentRuntime,
+  message: Memory,
+  options: HandlerOptions | undefined,
+  corrId: string
+): Promise<ActionResult> {
+  const messageText = typeof message.content?.text === "string" ? message.content.text : "";
+  const candidates = collectSymbols({ message, options, limit: MAX_FUNDS });
+  const preferences = extractListingPreferences(messageText, candidates);
+
+  const instruments = new Map<string, ResolvedInstrument>();
+  const unresolved: string[] = [];
+  for (const candidate of candidates) {
+    const preference =
+      preferences.bySymbol.get(candidate) ??
+      (preferences.bySymbol.size === 0 ? preferences.global : {});
+    const instrument = resolveInstrument(candidate, preference);
+    if (!instrument) unresolved.push(candidate);
+    else if (!instruments.has(instrument.symbol)) instruments.set(instrument.symbol, instrument);
+  }
+
+  if (!instruments.size) {
+    return {
+      text: "Indica almeno un ETF da valutare (es. costi fiscali CH di VWCE vs VT).",
+      success: false,
+      data: { actionName: ACTION_NAME, reason: "missing_symbols", candidates, unresolved }
+    };
+  }
+
+  const params = resolveSwissCostParams(messageText);
+  const estimates = rankSwissCosts(
+    await Promise.all(
+      Array.from(instruments.values()).map((instrument) =>
+        estimateFor(runtime, instrument, params, corrId)
+      )
+    )
+  );
+  debugLog("swiss_costs", {
+    corrId,
+    params,
+    estimates: estimates.map((estimate) => ({
+      symbol: estimate.symbol,
+      totalPct: estimate.totalPct,
+      missing: estimate.missing
+    }))
+  });
+
+  const costs = {
+    horizonYears: params.horizonYears,
+    swissBroker: params.swissBroker,
+    wealthTaxPct: params.wealthTaxPct,
+    rows: estimates
+  };
+  const lines = renderSwissCosts(costs, "it");
+  const complete = estimates.filter((estimate) => !estimate.missing.length);
+  const extra = [
+    params.amount
+      ? `Su ${formatMoney(params.amount, "CHF")}: ${estimates
+          .map(
+            (estimate) =>
+              `${estimate.symbol} ${estimate.missing.length ? "≥ " : ""}${formatMoney((params.amount! * estimate.totalPct) / 100, "CHF")}/anno`
+          )
+          .join(", ")}`
+      : "",
+    complete.length > 1
+      ? `Differenza tra ${complete[0].symbol} e ${complete[complete.length - 1].symbol}: ${(complete[complete.length - 1].totalPct - complete[0].totalPct).toFixed(2)} pt all'anno.`
+      : "",
+    unresolved.length ? `Non risolti (ISIN non nel registry): ${unresolved.join(", ")}` : ""
+  ].filter(Boolean);
+  lines.splice(1 + estimates.length, 0, ...extra);
+
+  const responseText = [
+    `**Costi per un residente svizzero: ${estimates.map((estimate) => estimate.symbol).join(" vs ")}**`,
+    ...lines
+  ].join("\n");
+
+  return {
+    text: responseText,
+    success: true,
+    data: { actionName: ACTION_NAME, params, swissCosts: costs, unresolved },
+    values: { swissCostSummary: responseText, swissCosts: costs }
+  };
+}
+
+export const swissCostsAction: Action = {
+  name: ACTION_NAME,
+  description:
+    "Stima i costi annui di uno o più ETF per un residente svizzero: TER, ritenuta USA non recuperabile secondo il domicilio (US/IE/LU/CH), bollo sull'acquisto, patrimoniale sul valore fiscale, con le ipotesi esplicite.",
+  similes: ["RIP2ETF_SWISS_COSTS", "SWISS_TAX_COMPARISON", "ETF_TAX_DRAG", "WITHHOLDING_TAX"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    return SWISS_TAX_HINT.test(text) && collectSymbols({ message, limit: 1 }).length > 0;
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    state = state ?? ({ values: {}, data: {} } as State);
+    const corrId = ensureCorrelationId(state, message);
+
+    try {
+      return await buildSwissCosts(runtime, message, options, corrId);
+    } catch (error) {
+      const reason =
+        error instanceof Error ? error.message : "Errore inatteso nella stima dei costi fiscali";
+      runtime.logger?.error?.({ error: reason }, `[${ACTION_NAME}] fallito`);
+      debugLog("swiss_costs_failure", { error: reason });
+
+      const failureText = `Impossibile stimare i costi fiscali per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [ACTION_NAME] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName: ACTION_NAME, error: reason }
+      };
+    }
+  }
+};
@@ -0,0 +1,294 @@
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type HandlerOptions,
+  type IAgentRuntime,
+  type Memory,
+  type State
+} from "@elizaos/core";
+import {
+  MAX_WATCHED_SYMBOLS,
+  type WatchItem,
+  type Watchlist,
+  findWatchlist,
+  saveWatchlist,
+  watchlistScope
+} from "../data/watchlists";
+import { rip2etfSettings } from "../settings";
+import { extractListingPreferences, resolveInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { isAgentMessage } from "../utils/messages";
+import { collectSymbols } from "../utils/tickers";
+import {
+  DEFAULT_WATCH_RULES,
+  describeRule,
+  mergeWatchRules,
+  parseWatchRules
+} from "../utils/watchlist";
+
+const ADD_ACTION = "rip2etf.watch_add";
+const REMOVE_ACTION = "rip2etf.watch_remove";
+const LIST_ACTION = "rip2etf.watch_list";
+
+const ADD_HINT =
+  /\b(?:segui|seguire|monitora|monitorare|tieni d'occhio|avvisami|avvertimi|aggiungi|watch|follow|alert me|notify me)\b/i;
+const REMOVE_HINT =
+  /\b(?:smetti di seguire|non seguire più|non seguire piu|rimuovi|togli|elimina|unwatch|unfollow|stop watching|remove)\b/i;
+const LIST_HINT =
+  /\b(?:watchlist|cosa (?:seguo|segui|stai seguendo|monitori)|(?:titoli|etf) (?:seguiti|monitorati)|what am i watching)\b/i;
+const CLEAR_HINT = /\b(?:tutt[oiae]|svuota|all|everything)\b/i;
+
+const messageText = (message: Memory) =>
+  typeof message.content?.text === "string" ? message.content.text : "";
+
+const scopeLabel = (watchlist: Pick<Watchlist, "scope">) =>
+  watchlist.scope === "entity" ? "personale" : "della stanza";
+
+const describeItem = (item: WatchItem) =>
+  `- ${item.symbol}: ${item.rules.map(describeRule).join(", ")}`;
+
+async function addToWatchlist(runtime: IAgentRuntime, message: Memory, options?: HandlerOptions) {
+  const text = messageText(message);
+  const candidates = collectSymbols({ message, options, limit: MAX_WATCHED_SYMBOLS });
+  const preferences = extractListingPreferences(text, candidates);
+  const rules = parseWatchRules(text);
+
+  const scope = await watchlistScope(runtime, message);
+  const stored = await findWatchlist(runtime, scope);
+  const watchlist: Watchlist = stored
+    ? { ...stored.watchlist, target: scope.target }
+    : { ...scope, items: [], state: {} };
+
+  const added: string[] = [];
+  const updated: string[] = [];
+  const unknown: string[] = [];
+  for (const candidate of candidates) {
+    const preference =
+      preferences.bySymbol.get(candidate) ??
+      (preferences.bySymbol.size === 0 ? preferences.global : {});
+    const instrument = resolveInstrument(candidate, preference);
+    if (!instrument) {
+      unknown.push(candidate);
+      continue;
+    }
+    const existing = watchlist.items.find((item) => item.symbol === instrument.symbol);
+    if (existing) {
+      if (rules.length) {
+        existing.rules = mergeWatchRules(existing.rules, rules);
+        updated.push(instrument.symbol);
+      }
+      continue;
+    }
+    if (watchlist.items.length >= MAX_WATCHED_SYMBOLS) break;
+    watchlist.items.push({
+      symbol: instrument.symbol,
+      preference: instrument.listing.exchange
+        ? { exchange: instrument.listing.exchange }
+        : undefined,
+      rules: rules.length ? rules : DEFAULT_WATCH_RULES,
+      addedAt: Date.now()
+    });
+    added.push(instrument.symbol);
+  }
+
+  if (!added.length && !updated.length) {
+    return {
+      text: unknown.length
+        ? `Non riesco a identificare ${unknown.join(", ")}: nessuna modifica alla watchlist.`
+        : "Tutti questi ETF sono già nella watchlist con le stesse regole.",
+      success: false,
+      data: { actionName: ADD_ACTION, reason: "nothing_added", unknown }
+    };
+  }
+
+  await saveWatchlist(runtime, watchlist, stored?.task);
+  debugLog("watchlist_add", { scope: watchlist.scope, added, updated, rules });
+
+  const responseText = [
+    `**Watchlist ${scopeLabel(watchlist)} aggiornata**`,
+    ...watchlist.items.map(describeItem),
+    unknown.length ? `Non riconosciuti: ${unknown.join(", ")}` : "",
+    watchlist.items.length >= MAX_WATCHED_SYMBOLS
+      ? `Limite di ${MAX_WATCHED_SYMBOLS} ETF raggiunto.`
+      : "",
+    `Controllo ogni ${rip2etfSettings.WATCHLIST_INTERVAL_MINUTES} minuti; gli alert arrivano in questo canale.`
+  ]
+    .filter(Boolean)
+    .join("\n");
+  return {
+    text: responseText,
+    success: true,
+    data: { actionName: ADD_ACTION, scope: watchlist.scope, added, updated, unknown },
+    values: { watchlist: watchlist.items }
+  };
+}
+
+async function removeFromWatchlist(
+  runtime: IAgentRuntime,
+  message: Memory,
+  options?: HandlerOptions
+) {
+  const text = messageText(message);
+  const scope = await watchlistScope(runtime, message);
+  const stored = await findWatchlist(runtime, scope);
+  if (!stored) {
+    return {
+      text: `La watchlist ${scopeLabel(scope)} è vuota.`,
+      success: false,
+      data: { actionName: REMOVE_ACTION, reason: "empty" }
+    };
+  }
+
+  const { watchlist } = stored;
+  const candidates = collectSymbols({ message, options, limit: MAX_WATCHED_SYMBOLS });
+  const targets = new Set(
+    candidates.map((candidate) => resolveInstrument(candidate)?.symbol ?? candidate)
+  );
+  const clearAll = !candidates.length && CLEAR_HINT.test(text);
+  const removed = watchlist.items
+    .filter((item) => clearAll || targets.has(item.symbol))
+    .map((item) => item.symbol);
+  if (!removed.length) {
+    return {
+      text: candidates.length
+        ? `${candidates.join(", ")} non ${candidates.length > 1 ? "sono" : "è"} nella watchlist ${scopeLabel(watchlist)}.`
+        : "Dimmi quali ETF togliere (o «togli tutto»).",
+      success: false,
+      data: { actionName: REMOVE_ACTION, reason: "not_found", candidates }
+    };
+  }
+
+  watchlist.items = watchlist.items.filter((item) => !removed.includes(item.symbol));
+  removed.forEach((symbol) => delete watchlist.state[symbol]);
+  await saveWatchlist(runtime, watchlist, stored.task);
+  debugLog("watchlist_remove", { scope: watchlist.scope, removed });
+
+  return {
+    text: [
+      `Rimossi dalla watchlist ${scopeLabel(watchlist)}: ${removed.join(", ")}`,
+      watchlist.items.length
+        ? `Restano: ${watchlist.items.map((item) => item.symbol).join(", ")}`
+        : "La watchlist ora è vuota: nessun controllo pianificato."
+    ].join("\n"),
+    success: true,
+    data: { actionName: REMOVE_ACTION, scope: watchlist.scope, removed },
+    values: { watchlist: watchlist.items }
+  };
+}
+
+async function listWatchlist(runtime: IAgentRuntime, message: Memory) {
+  const scope = await watchlistScope(runtime, message);
+  const stored = await findWatchlist(runtime, scope);
+  if (!stored?.watchlist.items.length) {
+    return {
+      text: `La watchlist ${scopeLabel(scope)} è vuota. Prova con «segui VWCE drawdown > 10%».`,
+      success: true,
+      data: { actionName: LIST_ACTION, scope: scope.scope, items: [] },
+      values: { watchlist: [] }
+    };
+  }
+
+  const { watchlist } = stored;
+  const text = [
+    `**Watchlist ${scopeLabel(watchlist)}**`,
+    ...watchlist.items.map((item) => {
+      const state = watchlist.state[item.symbol];
+      const last =
+        state?.lastClose !== undefined
+          ? ` · ultimo close ${state.lastClose.toFixed(2)} (${state.lastDate})`
+          : "";
+      const active = state?.active.length ? ` · alert attivi: ${state.active.length}` : "";
+      return `${describeItem(item)}${last}${active}`;
+    }),
+    `Controllo ogni ${rip2etfSettings.WATCHLIST_INTERVAL_MINUTES} minuti.`
+  ].join("\n");
+  return {
+    text,
+    success: true,
+    data: {
+      actionName: LIST_ACTION,
+      scope: watchlist.scope,
+      items: watchlist.items,
+      state: watchlist.state
+    },
+    values: { watchlist: watchlist.items }
+  };
+}
+
+function watchlistHandler(
+  actionName: string,
+  run: (runtime: IAgentRuntime, message: Memory, options?: HandlerOptions) => Promise<ActionResult>
+): Action["handler"] {
+  return async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State | undefined,
+    options: HandlerOptions | undefined,
+    callback?: HandlerCallback
+  ) => {
+    try {
+      return await run(runtime, message, options);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Errore inatteso sulla watchlist";
+      runtime.logger?.error?.({ error: reason }, `[${actionName}] fallito`);
+      debugLog("watchlist_failure", { action: actionName, error: reason });
+
+      const failureText = `Impossibile aggiornare la watchlist per ora (${reason}). Riprova tra poco.`;
+      if (callback) {
+        await callback({ text: failureText, actions: [actionName] });
+      }
+      return {
+        text: failureText,
+        success: false,
+        data: { actionName, error: reason }
+      };
+    }
+  };
+}
+
+export const watchlistAddAction: Action = {
+  name: ADD_ACTION,
+  description:
+    "Aggiunge ETF alla watchlist della stanza (o personale) con regole di alert: drawdown dal massimo, variazione in N sedute, soglie di prezzo, cambio del TER. Gli alert arrivano nel canale con un grafico.",
+  similes: ["RIP2ETF_WATCH", "WATCH_ETF", "ETF_ALERT", "FOLLOW_ETF"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = messageText(message);
+    return (
+      ADD_HINT.test(text) &&
+      !REMOVE_HINT.test(text) &&
+      collectSymbols({ message, limit: 1 }).length > 0
+    );
+  },
+  handler: watchlistHandler(ADD_ACTION, addToWatchlist)
+};
+
+export const watchlistRemoveAction: Action = {
+  name: REMOVE_ACTION,
+  description: "Toglie ETF dalla watchlist (o la svuota) e ferma i relativi alert.",
+  similes: ["RIP2ETF_UNWATCH", "UNWATCH_ETF", "REMOVE_ETF_ALERT"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = messageText(message);
+    return (
+      REMOVE_HINT.test(text) &&
+      (LIST_HINT.test(text) ||
+        /\b(?:seguire|alert)\b/i.test(text) ||
+        collectSymbols({ message, limit: 1 }).length > 0)
+    );
+  },
+  handler: watchlistHandler(REMOVE_ACTION, removeFromWatchlist)
+};
+
+export const watchlistListAction: Action = {
+  name: LIST_ACTION,
+  description: "Mostra gli ETF nella watchlist, le regole di alert e l'ultimo controllo.",
+  similes: ["RIP2ETF_WATCHLIST", "LIST_WATCHLIST", "SHOW_WATCHLIST"],
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    if (isAgentMessage(runtime, message)) return false;
+    const text = messageText(message);
+    return LIST_HINT.test(text) && !ADD_HINT.test(text) && !REMOVE_HINT.test(text);
+  },
+  handler: watchlistHandler(LIST_ACTION, (runtime, message) => listWatchlist(runtime, message))
+};
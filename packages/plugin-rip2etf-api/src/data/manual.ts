@@ -0,0 +1,94 @@
+import type { DistributionHistory, EtfHoldings, EtfOverview, SymbolMatch } from "../types";
+import { findRegistryEtf, getEtfRegistry } from "./registry";
+
+export function manualOverview(symbol: string): Partial<EtfOverview> | null {
+  const etf = findRegistryEtf(symbol);
+  if (!etf) return null;
+
+  return {
+    name: etf.name,
+    isin: etf.isin,
+    issuer: etf.issuer,
+    category: etf.category,
+    expenseRatio: etf.terPct,
+    inceptionDate: etf.inceptionDate,
+    domicile: etf.domicile,
+    benchmark: etf.benchmark,
+    replication: etf.replication,
+    distributionPolicy: etf.distribution,
+    dataSources: ["registry"]
+  };
+}
+
+export function manualHoldings(symbol: string): EtfHoldings | null {
+  const etf = findRegistryEtf(symbol);
+  if (!etf?.holdings?.top.length) return null;
+
+  return {
+    symbol,
+    asOf: etf.holdings.asOf,
+    topHoldings: etf.holdings.top.map((holding) => ({
+      symbol: holding.symbol,
+      isin: holding.isin,
+      name: holding.name,
+      weightPct: holding.weightPct
+    })),
+    dataSources: ["registry"]
+  };
+}
+
+export function manualDistributions(symbol: string): DistributionHistory | null {
+  const etf = findRegistryEtf(symbol);
+  if (!etf?.distributions?.length) return null;
+
+  return {
+    symbol,
+    events: etf.distributions.map((event) => ({
+      exDate: event.exDate,
+      amount: event.amount,
+      currency: event.currency ?? etf.baseCurrency
+    })),
+    dataSources: ["registry"]
+  };
+}
+
+export function manualTaxProfile(
+  symbol: string
+): { usEquityPct?: number; dividendYieldPct?: number } | null {
+  const etf = findRegistryEtf(symbol);
+  if (!etf) return null;
+
+  return { usEquityPct: etf.usEquityPct, dividendYieldPct: etf.dividendYieldPct };
+}
+
+/**
+ * Registry listings for a ticker or ISIN, or funds whose name contains every
+ * word of the query. Null when nothing matches: the registry only covers its
+ * own funds, so it cannot rule a symbol out.
+ */
+export function manualSymbolMatches(query: string): SymbolMatch[] | null {
+  const exact = findRegistryEtf(query);
+  const words = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => word.length > 1);
+  const etfs = exact
+    ? [exact]
+    : words.length && query.trim().length >= 4
+      ? getEtfRegistry().etfs.filter((etf) =>
+          words.every((word) => etf.name.toLowerCase().includes(word))
+        )
+      : [];
+  if (!etfs.length) return null;
+
+  return etfs.flatMap((etf) =>
+    etf.listings.map((listing) => ({
+      symbol: listing.ticker.toUpperCase(),
+      name: etf.name,
+      isin: etf.isin,
+      exchange: listing.exchange,
+      currency: listing.currency,
+      dataSources: ["registry"]
+    }))
+  );
+}
@@ -0,0 +1,179 @@
+import {
+  type Component,
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+  createUniqueUuid
+} from "@elizaos/core";
+import { fxDaily } from "../providers/fx";
+import { fetchPriceHistory } from "../providers/prices";
+import { listingForSourceSymbol, resolveInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import {
+  type PortfolioReport,
+  type PortfolioTransaction,
+  type PositionQuote,
+  type TargetWeight,
+  computePortfolio,
+  openQuantities,
+  rateOn,
+  renderPortfolioText
+} from "../utils/portfolio";
+
+export const PORTFOLIO_COMPONENT_TYPE = "rip2etf_portfolio";
+export const MAX_PORTFOLIO_TRANSACTIONS = 5_000;
+
+const PORTFOLIO_HINT =
+  /\b(?:(?:il )?mio portafoglio|miei (?:etf|investimenti)|le mie posizioni|ho in portafoglio|my portfolio|my holdings|mein depot)\b/i;
+
+/**
+ * A user's ledger and target allocation. Stored as an entity component owned
+ * by the agent, so it follows the user across rooms and worlds.
+ */
+export interface Portfolio {
+  transactions: PortfolioTransaction[];
+  targets: TargetWeight[];
+  updatedAt: number;
+}
+
+export interface StoredPortfolio {
+  component: Component | null;
+  portfolio: Portfolio;
+}
+
+export async function loadPortfolio(
+  runtime: IAgentRuntime,
+  entityId: UUID
+): Promise<StoredPortfolio> {
+  const component = await runtime.getComponent(
+    entityId,
+    PORTFOLIO_COMPONENT_TYPE,
+    undefined,
+    runtime.agentId
+  );
+  const data = component?.data as Partial<Portfolio> | undefined;
+  return {
+    component,
+    portfolio: {
+      transactions: Array.isArray(data?.transactions) ? data.transactions : [],
+      targets: Array.isArray(data?.targets) ? data.targets : [],
+      updatedAt: typeof data?.updatedAt === "number" ? data.updatedAt : 0
+    }
+  };
+}
+
+export async function savePortfolio(
+  runtime: IAgentRuntime,
+  message: Memory,
+  portfolio: Portfolio,
+  existing: Component | null
+): Promise<void> {
+  const data = { ...portfolio, updatedAt: Date.now() };
+  if (existing) {
+    await runtime.updateComponent({ ...existing, data });
+    return;
+  }
+  const room = await runtime.getRoom(message.roomId);
+  await runtime.createComponent({
+    id: createUniqueUuid(runtime, `${PORTFOLIO_COMPONENT_TYPE}:${message.entityId}`),
+    entityId: message.entityId,
+    agentId: runtime.agentId,
+    roomId: message.roomId,
+    worldId: room?.worldId as UUID,
+    sourceEntityId: runtime.agentId,
+    type: PORTFOLIO_COMPONENT_TYPE,
+    createdAt: Date.now(),
+    data
+  });
+}
+
+/** Last close and listing currency per symbol; symbols with no history are left out. */
+export async function latestQuotes(
+  runtime: IAgentRuntime,
+  symbols: string[],
+  corrId: string
+): Promise<Map<string, PositionQuote>> {
+  const quotes = new Map<string, PositionQuote>();
+  for (const symbol of symbols) {
+    const instrument = resolveInstrument(symbol);
+    if (!instrument) continue;
+    try {
+      const history = await fetchPriceHistory(runtime, instrument, corrId);
+      const last = history?.bars[history.bars.length - 1];
+      if (!history || !last) continue;
+      const listing =
+        history.dataSources.includes("stooq") && history.sourceSymbol
+          ? listingForSourceSymbol(instrument, history.sourceSymbol)
+          : instrument.listing;
+      const currency = listing.currency ?? history.currency;
+      if (currency) quotes.set(symbol, { price: last.c, currency, date: last.t });
+    } catch (error) {
+      debugLog("portfolio_quote_error", { symbol, error: (error as Error).message });
+    }
+  }
+  return quotes;
+}
+
+/**
+ * Values the portfolio with the latest close of every open position and the
+ * FX series needed to bring trades and prices into `baseCurrency`.
+ */
+export async function valuePortfolio(
+  runtime: IAgentRuntime,
+  portfolio: Portfolio,
+  baseCurrency: string,
+  corrId: string
+): Promise<PortfolioReport> {
+  const { transactions } = portfolio;
+  const held = Array.from(openQuantities(transactions).keys());
+  const quotes = await latestQuotes(runtime, held, corrId);
+
+  const currencies = new Set(
+    [
+      ...transactions.map((transaction) => transaction.currency),
+      ...[...quotes.values()].map((quote) => quote.currency)
+    ].filter((currency) => currency && currency !== baseCurrency)
+  );
+  const start = transactions.map((transaction) => transaction.date).sort()[0];
+  const rates = new Map<string, Array<{ t: string; v: number }>>();
+  for (const currency of currencies) {
+    const series = await fxDaily(runtime, currency, baseCurrency, { corrId, start });
+    if (series?.rates.length) rates.set(currency, series.rates);
+  }
+
+  const report = computePortfolio(transactions, {
+    baseCurrency,
+    quotes,
+    targets: portfolio.targets,
+    rateAt: (currency, date) => {
+      const series = rates.get(currency);
+      return series ? rateOn(series, date) : undefined;
+    }
+  });
+  debugLog("portfolio_valued", {
+    corrId,
+    positions: report.positions.length,
+    missingPrices: report.missingPrices,
+    unconverted: report.unconverted
+  });
+  return report;
+}
+
+/**
+ * "Your portfolio" context for a snapshot: the valued portfolio when the
+ * message mentions it or one of `symbols` is held, otherwise undefined.
+ */
+export async function portfolioContext(
+  runtime: IAgentRuntime,
+  message: Memory,
+  symbols: string[],
+  baseCurrency: string,
+  corrId: string
+): Promise<string | undefined> {
+  const text = typeof message.content?.text === "string" ? message.content.text : "";
+  const { portfolio } = await loadPortfolio(runtime, message.entityId);
+  if (!portfolio.transactions.length) return undefined;
+  const held = new Set(portfolio.transactions.map((transaction) => transaction.symbol));
+  if (!PORTFOLIO_HINT.test(text) && !symbols.some((symbol) => held.has(symbol))) return undefined;
+  return renderPortfolioText(await valuePortfolio(runtime, portfolio, baseCurrency, corrId));
+}
@@ -0,0 +1,131 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { rip2etfSettings } from "../settings";
+import { debugLog } from "../utils/logger";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD");
+
+export const registryListingSchema = z.object({
+  exchange: z.string().min(1),
+  ticker: z.string().min(1),
+  currency: z.string().length(3)
+});
+
+export const registryHoldingSchema = z.object({
+  name: z.string().min(1),
+  symbol: z.string().optional(),
+  isin: z.string().length(12).optional(),
+  weightPct: z.number().min(0).max(100).optional()
+});
+
+export const registryDistributionSchema = z.object({
+  exDate: isoDate,
+  amount: z.number().positive(),
+  currency: z.string().length(3).optional()
+});
+
+export const registryEtfSchema = z.object({
+  isin: z.string().length(12),
+  name: z.string().min(1),
+  issuer: z.string().min(1),
+  category: z.string().optional(),
+  terPct: z.number().min(0).max(5),
+  domicile: z.string().length(2),
+  replication: z.enum(["physical", "physical-sampling", "synthetic"]),
+  distribution: z.enum(["accumulating", "distributing"]),
+  benchmark: z.string().min(1),
+  baseCurrency: z.string().length(3),
+  inceptionDate: isoDate.optional(),
+  /** Share of US equities in the fund (%), used for the Swiss withholding estimate. */
+  usEquityPct: z.number().min(0).max(100).optional(),
+  /** Gross dividend yield of the holdings (%), approximate. */
+  dividendYieldPct: z.number().min(0).max(20).optional(),
+  listings: z.array(registryListingSchema).min(1),
+  holdings: z
+    .object({
+      asOf: isoDate,
+      top: z.array(registryHoldingSchema)
+    })
+    .optional(),
+  /** Per-share distributions, in `baseCurrency` unless stated otherwise. */
+  distributions: z.array(registryDistributionSchema).optional()
+});
+
+export const etfRegistrySchema = z.object({
+  version: z.literal(1),
+  etfs: z.array(registryEtfSchema)
+});
+
+export type RegistryListing = z.infer<typeof registryListingSchema>;
+export type RegistryEtf = z.infer<typeof registryEtfSchema>;
+export type EtfRegistry = z.infer<typeof etfRegistrySchema>;
+
+const DEFAULT_REGISTRY_PATH = path.join("knowledge", "rip", "etf-registry.json");
+
+let registry: EtfRegistry = { version: 1, etfs: [] };
+let index = new Map<string, RegistryEtf>();
+
+function buildIndex(entries: RegistryEtf[]) {
+  const map = new Map<string, RegistryEtf>();
+  for (const etf of entries) {
+    map.set(etf.isin.toUpperCase(), etf);
+    for (const listing of etf.listings) {
+      const ticker = listing.ticker.toUpperCase();
+      // first listing wins when two funds share a ticker on different venues
+      if (!map.has(ticker)) map.set(ticker, etf);
+    }
+  }
+  return map;
+}
+
+export function setEtfRegistry(next: EtfRegistry) {
+  registry = next;
+  index = buildIndex(next.etfs);
+}
+
+export function getEtfRegistry(): EtfRegistry {
+  return registry;
+}
+
+/**
+ * Loads and validates the ETF registry. An explicitly configured path must
+ * exist and be valid; the default location is optional.
+ */
+export function loadEtfRegistry(configuredPath = rip2etfSettings.REGISTRY_PATH): EtfRegistry {
+  const filePath = path.resolve(configuredPath || DEFAULT_REGISTRY_PATH);
+
+  if (!existsSync(filePath)) {
+    if (configuredPath) {
+      throw new Error(`[rip2etf] ETF registry not found at ${filePath}`);
+    }
+    debugLog("registry_missing", { path: filePath });
+    setEtfRegistry({ version: 1, etfs: [] });
+    return registry;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `[rip2etf] ETF registry ${filePath} is not valid JSON: ${(error as Error).message}`
+    );
+  }
+
+  const parsed = etfRegistrySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`[rip2etf] ETF registry ${filePath} failed validation:\n${issues}`);
+  }
+
+  setEtfRegistry(parsed.data);
+  debugLog("registry_loaded", { path: filePath, etfs: parsed.data.etfs.length });
+  return registry;
+}
+
+export function findRegistryEtf(symbolOrIsin: string): RegistryEtf | undefined {
+  return index.get(symbolOrIsin.trim().toUpperCase());
+}
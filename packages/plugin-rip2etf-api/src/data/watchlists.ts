@@ -0,0 +1,135 @@
+import {
+  ChannelType,
+  type IAgentRuntime,
+  type Memory,
+  type TargetInfo,
+  type Task,
+  type UUID
+} from "@elizaos/core";
+import { rip2etfSettings } from "../settings";
+import type { ListingPreference } from "../utils/instruments";
+import type { WatchRule } from "../utils/watchlist";
+
+export const WATCHLIST_TASK_NAME = "RIP2ETF_WATCHLIST";
+export const WATCHLIST_TAG = "rip2etf-watchlist";
+export const MAX_WATCHED_SYMBOLS = 20;
+
+export interface WatchItem {
+  symbol: string;
+  preference?: ListingPreference;
+  rules: WatchRule[];
+  addedAt: number;
+}
+
+/** What the previous run saw for a symbol. */
+export interface WatchItemState {
+  /** Keys of the rules that currently hold, so they are not reported again. */
+  active: string[];
+  ter?: number;
+  lastClose?: number;
+  lastDate?: string;
+  checkedAt?: number;
+}
+
+/**
+ * One watchlist per room (everyone in the channel shares it) or per entity
+ * (a user's own list, whichever room they ask from). Alerts go back to the
+ * channel the list was last edited from.
+ */
+export interface Watchlist {
+  scope: "room" | "entity";
+  roomId: UUID;
+  entityId?: UUID;
+  target: TargetInfo;
+  items: WatchItem[];
+  state: Record<string, WatchItemState>;
+}
+
+export interface StoredWatchlist {
+  task: Task;
+  watchlist: Watchlist;
+}
+
+const ENTITY_SCOPE_HINT =
+  /\b(?:solo per me|per me|personale|privat[ao]|in privato|my own|personal|private)\b/i;
+
+export async function watchlistScope(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<Pick<Watchlist, "scope" | "roomId" | "entityId" | "target">> {
+  const room = await runtime.getRoom(message.roomId);
+  const text = typeof message.content?.text === "string" ? message.content.text : "";
+  const direct = room?.type === ChannelType.DM || room?.type === ChannelType.VOICE_DM;
+  const target: TargetInfo = {
+    source: room?.source ?? message.content?.source ?? "unknown",
+    roomId: message.roomId,
+    channelId: room?.channelId,
+    serverId: room?.serverId
+  };
+  return direct || ENTITY_SCOPE_HINT.test(text)
+    ? { scope: "entity", roomId: message.roomId, entityId: message.entityId, target }
+    : { scope: "room", roomId: message.roomId, target };
+}
+
+export function readWatchlist(task: Task): Watchlist | null {
+  const metadata = task.metadata as Partial<Watchlist> | undefined;
+  if (!metadata?.scope || !metadata.roomId || !metadata.target) return null;
+  return {
+    scope: metadata.scope,
+    roomId: metadata.roomId,
+    entityId: metadata.entityId,
+    target: metadata.target,
+    items: Array.isArray(metadata.items) ? metadata.items : [],
+    state: metadata.state ?? {}
+  };
+}
+
+export async function findWatchlist(
+  runtime: IAgentRuntime,
+  scope: Pick<Watchlist, "scope" | "roomId" | "entityId">
+): Promise<StoredWatchlist | null> {
+  const tasks =
+    scope.scope === "entity"
+      ? await runtime.getTasks({ entityId: scope.entityId, tags: [WATCHLIST_TAG] })
+      : await runtime.getTasks({ roomId: scope.roomId, tags: [WATCHLIST_TAG] });
+  for (const task of tasks ?? []) {
+    const watchlist = readWatchlist(task);
+    if (watchlist?.scope === scope.scope) return { task, watchlist };
+  }
+  return null;
+}
+
+/**
+ * Persists the list as a repeating task run by the watchlist worker; an empty
+ * list deletes the task.
+ */
+export async function saveWatchlist(
+  runtime: IAgentRuntime,
+  watchlist: Watchlist,
+  existing?: Task
+): Promise<void> {
+  if (!watchlist.items.length) {
+    if (existing?.id) await runtime.deleteTask(existing.id);
+    return;
+  }
+
+  const metadata = {
+    ...existing?.metadata,
+    ...watchlist,
+    updateInterval: rip2etfSettings.WATCHLIST_INTERVAL_MINUTES * 60_000
+  };
+  if (existing?.id) {
+    await runtime.updateTask(existing.id, { metadata });
+    return;
+  }
+
+  const now = Date.now();
+  await runtime.createTask({
+    name: WATCHLIST_TASK_NAME,
+    description: `Watchlist ETF (${watchlist.scope === "entity" ? "utente" : "stanza"})`,
+    roomId: watchlist.roomId,
+    entityId: watchlist.entityId,
+    tags: ["queue", "repeat", WATCHLIST_TAG],
+    metadata: { ...metadata, createdAt: now, updatedAt: now }
+  });
+}
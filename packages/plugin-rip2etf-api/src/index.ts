@@ -1,11 +1,68 @@
 import type { Plugin } from "@elizaos/core";
+import { backtestAction } from "./actions/backtest";
+import { firePlanAction } from "./actions/firePlan";
+import { overlapAction } from "./actions/overlap";
+import {
+  portfolioAction,
+  portfolioImportAction,
+  portfolioRecordAction,
+  portfolioTargetAction
+} from "./actions/portfolio";
+import { rebalanceAction } from "./actions/rebalance";
 import { snapshotAction } from "./actions/snapshot";
+import { swissCostsAction } from "./actions/swissCosts";
+import {
+  watchlistAddAction,
+  watchlistListAction,
+  watchlistRemoveAction
+} from "./actions/watchlist";
+import { loadEtfRegistry } from "./data/registry";
+import { registerBuiltinProviders } from "./providers/builtin";
+import { lastDigestProvider } from "./providers/lastDigest";
+import { configureMarketDataProviders } from "./providers/marketData";
+import { DigestSchedulerService } from "./services/digest";
+import { digestWorker } from "./workers/digest";
+import { watchlistWorker } from "./workers/watchlist";
+
+export {
+  type MarketDataProvider,
+  type ProviderCapability,
+  type ProviderContext,
+  ProviderQuotaError,
+  getProviderHealth,
+  registerMarketDataProvider,
+  unregisterMarketDataProvider
+} from "./providers/marketData";
 
 export const rip2etfPlugin: Plugin = {
   name: "@elizaos/plugin-rip2etf-api",
   description:
     "Genera snapshot ETF complete (overview, holdings, confronto performance) usando Stooq come fonte free e, se configurati, Alpha Vantage/FMP/Finnhub, con grafici Chart.js allegati automaticamente.",
-  actions: [snapshotAction]
+  init: async (_config, runtime) => {
+    const registry = loadEtfRegistry();
+    runtime.logger?.info?.(`[rip2etf] ETF registry loaded (${registry.etfs.length} ETF)`);
+    registerBuiltinProviders();
+    configureMarketDataProviders(runtime);
+    runtime.registerTaskWorker(watchlistWorker);
+    runtime.registerTaskWorker(digestWorker);
+  },
+  actions: [
+    snapshotAction,
+    backtestAction,
+    firePlanAction,
+    overlapAction,
+    watchlistAddAction,
+    watchlistRemoveAction,
+    watchlistListAction,
+    portfolioRecordAction,
+    portfolioImportAction,
+    portfolioTargetAction,
+    portfolioAction,
+    rebalanceAction,
+    swissCostsAction
+  ],
+  providers: [lastDigestProvider],
+  services: [DigestSchedulerService]
 };
 
 export default rip2etfPlugin;
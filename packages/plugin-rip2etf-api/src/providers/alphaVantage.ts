@@ -1,9 +1,30 @@
+import type { IAgentRuntime } from "@elizaos/core";
 import { rip2etfSettings } from "../settings";
-import { PriceHistory } from "../types";
+import { DistributionHistory, PriceHistory } from "../types";
 import { getJSON } from "../utils/fetcher";
+import { withHistoryCache, withLookupCache } from "../utils/historyCache";
 import { debugLog } from "../utils/logger";
+import { ProviderQuotaError } from "./marketData";
 
 const BASE_URL = "https://www.alphavantage.co/query";
+const INTRADAY_INTERVALS = { "15m": "15min", "1h": "60min" } as const;
+// intraday bars go stale within the hour, whatever the history TTL
+const INTRADAY_TTL_MINUTES = 15;
+
+/**
+ * Alpha Vantage reports rate limits (`Note`, `Information`) and bad symbols
+ * (`Error Message`) in a 200 body. Only the former should bench the provider.
+ */
+function throwIfThrottled(json: Record<string, any>, symbol: string) {
+  const message = (json.Information || json.Note) as string | undefined;
+  if (message) {
+    debugLog("alphavantage_throttle", { symbol, message });
+    throw new ProviderQuotaError("alphaVantage", message);
+  }
+  if (json["Error Message"]) {
+    debugLog("alphavantage_error", { symbol, message: json["Error Message"] });
+  }
+}
 
 export async function alphaVantageDaily(symbol: string): Promise<PriceHistory | null> {
   if (!rip2etfSettings.ENABLE_ALPHA_VANTAGE) {
@@ -21,19 +42,8 @@ export async function alphaVantageDaily(symbol: string): Promise<PriceHistory |
     symbol
   )}&outputsize=compact&apikey=${key}`;
 
-  const json = (await getJSON<Record<string, any>>(url).catch(() => null)) ?? {};
-
-  const message = (json && (json.Information || json.Note || json["Error Message"])) as
-    | string
-    | undefined;
-
-  if (message) {
-    debugLog("alphavantage_throttle", {
-      symbol,
-      message
-    });
-    return null;
-  }
+  const json = (await getJSON<Record<string, any>>(url)) ?? {};
+  throwIfThrottled(json, symbol);
 
   const series = json["Time Series (Daily)"]; // eslint-disable-line @typescript-eslint/no-unsafe-assignment
 
@@ -53,11 +63,105 @@ export async function alphaVantageDaily(symbol: string): Promise<PriceHistory |
     .filter((bar) => Number.isFinite(bar.c))
     .sort((a, b) => a.t.localeCompare(b.t));
 
+  // raw closes, like stooq's: the total return reinvests the distributions on
+  // top, which "5. adjusted close" already includes
   return {
     symbol,
     interval: "1d",
     bars,
-    adjusted: true,
+    adjusted: false,
     dataSources: ["alphaVantage"]
   };
 }
+
+export async function alphaVantageDailyCached(
+  runtime: IAgentRuntime | undefined,
+  symbol: string | undefined,
+  onRequest?: () => void
+): Promise<PriceHistory | null> {
+  if (!symbol || !rip2etfSettings.ENABLE_ALPHA_VANTAGE || !rip2etfSettings.ALPHAVANTAGE_API_KEY) {
+    return null;
+  }
+  // the compact output already covers the last 100 sessions, so the cache only
+  // needs to gate how often the quota-limited endpoint is hit
+  return withHistoryCache(runtime, "alphaVantage", symbol, () => {
+    onRequest?.();
+    return alphaVantageDaily(symbol);
+  });
+}
+
+/** The last 100 intraday bars, in exchange time. */
+export async function alphaVantageIntraday(
+  symbol: string,
+  interval: "15m" | "1h"
+): Promise<PriceHistory | null> {
+  const key = rip2etfSettings.ALPHAVANTAGE_API_KEY;
+  if (!rip2etfSettings.ENABLE_ALPHA_VANTAGE || !key) return null;
+
+  const step = INTRADAY_INTERVALS[interval];
+  const url = `${BASE_URL}?function=TIME_SERIES_INTRADAY&symbol=${encodeURIComponent(
+    symbol
+  )}&interval=${step}&outputsize=compact&apikey=${key}`;
+
+  const json = (await getJSON<Record<string, any>>(url)) ?? {};
+  throwIfThrottled(json, symbol);
+
+  const series = json[`Time Series (${step})`];
+  if (!series || typeof series !== "object") return null;
+
+  const bars = Object.entries(series as Record<string, Record<string, string>>)
+    .map(([timestamp, values]) => ({
+      t: timestamp.slice(0, 16),
+      o: parseFloat(values["1. open"]),
+      h: parseFloat(values["2. high"]),
+      l: parseFloat(values["3. low"]),
+      c: parseFloat(values["4. close"]),
+      v: parseFloat(values["5. volume"])
+    }))
+    .filter((bar) => Number.isFinite(bar.c))
+    .sort((a, b) => a.t.localeCompare(b.t));
+
+  return bars.length
+    ? { symbol, interval, bars, adjusted: true, dataSources: ["alphaVantage"] }
+    : null;
+}
+
+export async function alphaVantageIntradayCached(
+  runtime: IAgentRuntime | undefined,
+  symbol: string | undefined,
+  interval: "15m" | "1h",
+  onRequest?: () => void
+): Promise<PriceHistory | null> {
+  if (!symbol || !rip2etfSettings.ENABLE_ALPHA_VANTAGE || !rip2etfSettings.ALPHAVANTAGE_API_KEY) {
+    return null;
+  }
+  return withLookupCache(
+    runtime,
+    `intraday:alphaVantage:${symbol.toUpperCase()}:${interval}`,
+    () => {
+      onRequest?.();
+      return alphaVantageIntraday(symbol, interval);
+    },
+    INTRADAY_TTL_MINUTES
+  );
+}
+
+export async function alphaVantageDividends(
+  symbol: string | undefined
+): Promise<DistributionHistory | null> {
+  if (!symbol || !rip2etfSettings.ENABLE_ALPHA_VANTAGE) return null;
+  const key = rip2etfSettings.ALPHAVANTAGE_API_KEY;
+  if (!key) return null;
+
+  const url = `${BASE_URL}?function=DIVIDENDS&symbol=${encodeURIComponent(symbol)}&apikey=${key}`;
+  const json = (await getJSON<Record<string, any>>(url)) ?? {};
+  throwIfThrottled(json, symbol);
+  if (!Array.isArray(json.data)) return null;
+
+  const events = (json.data as Array<Record<string, string>>)
+    .map((row) => ({ exDate: row.ex_dividend_date, amount: parseFloat(row.amount) }))
+    .filter((event) => /^\d{4}-\d{2}-\d{2}$/.test(event.exDate ?? "") && event.amount > 0)
+    .sort((a, b) => a.exDate.localeCompare(b.exDate));
+
+  return events.length ? { symbol, events, dataSources: ["alphaVantage"] } : null;
+}
@@ -0,0 +1,157 @@
+import {
+  manualDistributions,
+  manualHoldings,
+  manualOverview,
+  manualSymbolMatches
+} from "../data/manual";
+import { rip2etfSettings } from "../settings";
+import { withLookupCache } from "../utils/historyCache";
+import type { ResolvedInstrument } from "../utils/instruments";
+import {
+  alphaVantageDailyCached,
+  alphaVantageDividends,
+  alphaVantageIntradayCached
+} from "./alphaVantage";
+import { finnhubEtfProfile } from "./finnhub";
+import { fmpDividends, fmpEtfHoldings, fmpEtfProfile, fmpSymbolSearch } from "./fmp";
+import { fredCross, stooqPair } from "./fx";
+import {
+  type MarketDataProvider,
+  type ProviderCapability,
+  listMarketDataProviders,
+  registerMarketDataProvider,
+  setProviderPriorities
+} from "./marketData";
+import { stooqDailyCached } from "./stooq";
+
+const DAY_MS = 86_400_000;
+
+const registryKey = (instrument: ResolvedInstrument) => instrument.isin ?? instrument.symbol;
+
+export const registryProvider: MarketDataProvider = {
+  id: "registry",
+  capabilities: ["overview", "holdings", "dividends", "search"],
+  overview: async (instrument) => manualOverview(registryKey(instrument)),
+  holdings: async (instrument) => manualHoldings(registryKey(instrument)),
+  dividends: async (instrument) => manualDistributions(registryKey(instrument)),
+  search: async (query) => manualSymbolMatches(query)
+};
+
+export const fmpProvider: MarketDataProvider = {
+  id: "fmp",
+  capabilities: ["overview", "holdings", "dividends", "search"],
+  // free plan
+  quota: { limit: 250, windowMs: DAY_MS },
+  isEnabled: () => rip2etfSettings.ENABLE_FMP && Boolean(rip2etfSettings.FMP_API_KEY),
+  overview: async (instrument, ctx) => {
+    ctx.recordRequest();
+    return fmpEtfProfile(instrument.providerSymbols.fmp);
+  },
+  holdings: async (instrument, ctx) => {
+    ctx.recordRequest();
+    return fmpEtfHoldings(instrument.providerSymbols.fmp);
+  },
+  dividends: (instrument, ctx) =>
+    withLookupCache(ctx.runtime, `distributions:fmp:${instrument.id.toUpperCase()}`, () => {
+      ctx.recordRequest();
+      return fmpDividends(instrument.providerSymbols.fmp);
+    }),
+  search: (query, ctx) =>
+    withLookupCache(ctx.runtime, `search:fmp:${query.toUpperCase()}`, () => {
+      ctx.recordRequest();
+      return fmpSymbolSearch(query);
+    })
+};
+
+export const finnhubProvider: MarketDataProvider = {
+  id: "finnhub",
+  capabilities: ["overview"],
+  quota: { limit: 60, windowMs: 60_000 },
+  isEnabled: () => rip2etfSettings.ENABLE_FINNHUB && Boolean(rip2etfSettings.FINNHUB_API_KEY),
+  overview: async (instrument, ctx) => {
+    ctx.recordRequest();
+    return finnhubEtfProfile(instrument.providerSymbols.finnhub);
+  }
+};
+
+export const alphaVantageProvider: MarketDataProvider = {
+  id: "alphaVantage",
+  capabilities: ["history", "intraday", "dividends"],
+  // free plan
+  quota: { limit: 25, windowMs: DAY_MS },
+  isEnabled: () =>
+    rip2etfSettings.ENABLE_ALPHA_VANTAGE && Boolean(rip2etfSettings.ALPHAVANTAGE_API_KEY),
+  history: (instrument, ctx) =>
+    alphaVantageDailyCached(ctx.runtime, instrument.providerSymbols.alphaVantage, () =>
+      ctx.recordRequest()
+    ),
+  intraday: (instrument, ctx) =>
+    alphaVantageIntradayCached(
+      ctx.runtime,
+      instrument.providerSymbols.alphaVantage,
+      ctx.interval,
+      () => ctx.recordRequest()
+    ),
+  dividends: async (instrument, ctx) => {
+    const symbol = instrument.providerSymbols.alphaVantage;
+    if (!symbol) return null;
+    return withLookupCache(
+      ctx.runtime,
+      `distributions:alphaVantage:${symbol.toUpperCase()}`,
+      () => {
+        ctx.recordRequest();
+        return alphaVantageDividends(symbol);
+      }
+    );
+  }
+};
+
+export const stooqProvider: MarketDataProvider = {
+  id: "stooq",
+  capabilities: ["history", "fx"],
+  history: (instrument, ctx) =>
+    stooqDailyCached(ctx.runtime, instrument.id, {
+      corrId: ctx.corrId,
+      candidates: instrument.providerSymbols.stooq
+    }),
+  fx: (from, to, ctx) => stooqPair(ctx.runtime, from, to, ctx.corrId)
+};
+
+export const fredProvider: MarketDataProvider = {
+  id: "fred",
+  capabilities: ["fx"],
+  isEnabled: () => Boolean(rip2etfSettings.FRED_API_KEY),
+  fx: (from, to, ctx) => fredCross(ctx.runtime, from, to, ctx.start)
+};
+
+export const BUILTIN_PROVIDERS = [
+  registryProvider,
+  fmpProvider,
+  finnhubProvider,
+  alphaVantageProvider,
+  stooqProvider,
+  fredProvider
+];
+
+/** The order the plugin used before providers were pluggable; `REGISTRY_PRIORITY` moves the registry. */
+export function defaultProviderPriorities(): Record<ProviderCapability, string[]> {
+  const registryFirst = rip2etfSettings.REGISTRY_PRIORITY === "primary";
+  return {
+    overview: registryFirst ? ["registry", "fmp", "finnhub"] : ["fmp", "finnhub", "registry"],
+    holdings: registryFirst ? ["registry", "fmp"] : ["fmp", "registry"],
+    history: ["alphaVantage", "stooq"],
+    intraday: ["alphaVantage"],
+    dividends: ["registry", "fmp", "alphaVantage"],
+    fx: ["stooq", "fred"],
+    search: ["registry", "fmp"]
+  };
+}
+
+/** Registers the built-in sources, leaving alone any id another plugin already claimed. */
+export function registerBuiltinProviders() {
+  const taken = new Set(listMarketDataProviders().map((provider) => provider.id));
+  BUILTIN_PROVIDERS.filter((provider) => !taken.has(provider.id)).forEach(
+    registerMarketDataProvider
+  );
+  setProviderPriorities(defaultProviderPriorities());
+}
@@ -0,0 +1,71 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { DistributionEvent, DistributionHistory } from "../types";
+import type { ResolvedInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { fxDaily } from "./fx";
+import { firstFromProviders } from "./marketData";
+
+/**
+ * Distribution events for an instrument from the `dividends` provider chain:
+ * the registry first (curated), then FMP and Alpha Vantage, by default.
+ */
+export async function distributionEvents(
+  runtime: IAgentRuntime | undefined,
+  instrument: ResolvedInstrument
+): Promise<DistributionHistory | null> {
+  const result = await firstFromProviders<DistributionHistory>(
+    "dividends",
+    (provider, ctx) => provider.dividends!(instrument, ctx),
+    { runtime, accept: (history) => history.events.length > 0 }
+  );
+  if (!result) return null;
+  debugLog("distributions_source", { symbol: instrument.id, provider: result.providerId });
+  return { ...result.value, symbol: instrument.symbol };
+}
+
+/**
+ * Restates events in the listing currency (e.g. USD distributions of a GBP
+ * listing) with the FX rate of the ex-date. Events that cannot be converted
+ * are dropped and counted.
+ */
+export async function distributionsInCurrency(
+  runtime: IAgentRuntime | undefined,
+  events: DistributionEvent[],
+  currency: string | undefined,
+  corrId?: string
+): Promise<{ events: DistributionEvent[]; dropped: number }> {
+  if (!currency) {
+    const kept = events.filter((event) => !event.currency);
+    return { events: kept, dropped: events.length - kept.length };
+  }
+
+  const converted: DistributionEvent[] = [];
+  let dropped = 0;
+  const byCurrency = new Map<string, DistributionEvent[]>();
+  for (const event of events) {
+    const from: string = (event.currency ?? currency).toUpperCase();
+    if (from === currency) {
+      converted.push({ ...event, currency });
+      continue;
+    }
+    byCurrency.set(from, [...(byCurrency.get(from) ?? []), event]);
+  }
+
+  for (const [from, pending] of byCurrency) {
+    const fx = await fxDaily(runtime, from, currency, { corrId, start: pending[0].exDate });
+    const rates = fx?.rates ?? [];
+    for (const event of pending) {
+      const rate = [...rates].reverse().find((point) => point.t <= event.exDate)?.v;
+      if (rate === undefined) {
+        dropped += 1;
+        continue;
+      }
+      converted.push({ exDate: event.exDate, amount: event.amount * rate, currency });
+    }
+  }
+
+  return {
+    events: converted.sort((a, b) => a.exDate.localeCompare(b.exDate)),
+    dropped
+  };
+}
@@ -10,7 +10,7 @@ export async function finnhubEtfProfile(symbol: string): Promise<Partial<EtfOver
   if (!key) return null;
 
   const url = `${BASE_URL}/etf/profile?symbol=${encodeURIComponent(symbol)}&token=${key}`;
-  const profile = await getJSON<Record<string, any>>(url).catch(() => null);
+  const profile = await getJSON<Record<string, any>>(url);
   if (!profile || Object.keys(profile).length === 0) return null;
 
   return {
@@ -1,17 +1,32 @@
 import { rip2etfSettings } from "../settings";
-import { EtfHoldings, EtfOverview } from "../types";
+import { DistributionHistory, EtfHoldings, EtfOverview, SymbolMatch } from "../types";
 import { getJSON } from "../utils/fetcher";
+import { ProviderQuotaError } from "./marketData";
 
 const BASE_URL = "https://financialmodelingprep.com/api";
 
+/** FMP answers errors and exhausted plans with 200 and an `Error Message` body. */
+async function fmpJSON<T>(url: string): Promise<T | null> {
+  const json = await getJSON<T | { "Error Message"?: string }>(url);
+  const message =
+    json && typeof json === "object" && !Array.isArray(json)
+      ? (json as { "Error Message"?: string })["Error Message"]
+      : undefined;
+  if (message) {
+    if (/limit/i.test(message)) throw new ProviderQuotaError("fmp", message);
+    throw new Error(`FMP error: ${message}`);
+  }
+  return json as T | null;
+}
+
 export async function fmpEtfProfile(symbol: string): Promise<Partial<EtfOverview> | null> {
   if (!rip2etfSettings.ENABLE_FMP) return null;
   const key = rip2etfSettings.FMP_API_KEY;
   if (!key) return null;
 
   const url = `${BASE_URL}/v3/profile/${encodeURIComponent(symbol)}?apikey=${key}`;
-  const response = await getJSON<any[]>(url).catch(() => null);
-  if (!response || response.length === 0) return null;
+  const response = await fmpJSON<any[]>(url);
+  if (!Array.isArray(response) || response.length === 0) return null;
 
   const profile = response[0];
   return {
@@ -22,7 +37,8 @@ export async function fmpEtfProfile(symbol: string): Promise<Partial<EtfOverview
     inceptionDate: profile.ipoDate,
     domicile: profile.country,
     benchmark: profile.exchangeShortName,
-    aumUSD: profile.mktCap ? Number(profile.mktCap) : undefined,
+    currency: profile.currency ?? undefined,
+    aum: profile.mktCap ? Number(profile.mktCap) : undefined,
     dataSources: ["fmp"]
   };
 }
@@ -33,15 +49,15 @@ export async function fmpEtfHoldings(symbol: string): Promise<EtfHoldings | null
   if (!key) return null;
 
   const url = `${BASE_URL}/v4/etf-holder?symbol=${encodeURIComponent(symbol)}&apikey=${key}`;
-  const data = await getJSON<any[]>(url).catch(() => null);
-  if (!data || data.length === 0) return null;
+  const data = await fmpJSON<any[]>(url);
+  if (!Array.isArray(data) || data.length === 0) return null;
 
   const holdings = data.map((row) => ({
     symbol: row.assetSymbol ?? row.symbol ?? undefined,
     name: row.assetName ?? row.name ?? "",
     weightPct: row.weightPercentage ? Number(row.weightPercentage) : undefined,
     shares: row.sharesNumber ? Number(row.sharesNumber) : undefined,
-    marketValueUSD: row.marketValue ? Number(row.marketValue) : undefined
+    marketValue: row.marketValue ? Number(row.marketValue) : undefined
   }));
 
   return {
@@ -52,3 +68,43 @@ export async function fmpEtfHoldings(symbol: string): Promise<EtfHoldings | null
     dataSources: ["fmp"]
   };
 }
+
+export async function fmpDividends(symbol: string): Promise<DistributionHistory | null> {
+  if (!rip2etfSettings.ENABLE_FMP) return null;
+  const key = rip2etfSettings.FMP_API_KEY;
+  if (!key) return null;
+
+  const url = `${BASE_URL}/v3/historical-price-full/stock_dividend/${encodeURIComponent(
+    symbol
+  )}?apikey=${key}`;
+  const data = await fmpJSON<{ historical?: any[] }>(url);
+  if (!data?.historical?.length) return null;
+
+  const events = data.historical
+    .map((row) => ({ exDate: String(row.date ?? ""), amount: Number(row.dividend) }))
+    .filter((event) => event.exDate && Number.isFinite(event.amount) && event.amount > 0)
+    .sort((a, b) => a.exDate.localeCompare(b.exDate));
+
+  return events.length ? { symbol, events, dataSources: ["fmp"] } : null;
+}
+
+/** Ticker and name search across the exchanges FMP covers. */
+export async function fmpSymbolSearch(query: string): Promise<SymbolMatch[] | null> {
+  if (!rip2etfSettings.ENABLE_FMP) return null;
+  const key = rip2etfSettings.FMP_API_KEY;
+  if (!key) return null;
+
+  const url = `${BASE_URL}/v3/search?query=${encodeURIComponent(query)}&limit=10&apikey=${key}`;
+  const response = await fmpJSON<any[]>(url);
+  if (!Array.isArray(response)) return null;
+
+  return response
+    .filter((row) => typeof row?.symbol === "string")
+    .map((row) => ({
+      symbol: String(row.symbol).toUpperCase(),
+      name: row.name ?? undefined,
+      exchange: row.exchangeShortName ?? row.stockExchange ?? undefined,
+      currency: row.currency ?? undefined,
+      dataSources: ["fmp"]
+    }));
+}
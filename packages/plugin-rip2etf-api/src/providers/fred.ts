@@ -1,18 +1,23 @@
+import type { IAgentRuntime } from "@elizaos/core";
 import { rip2etfSettings } from "../settings";
 import { getJSON } from "../utils/fetcher";
+import { withHistoryCache } from "../utils/historyCache";
 
 interface FredObservation {
   date: string;
   value: string;
 }
 
-export async function fredSeries(seriesId: string, limit = 365) {
+export async function fredSeries(seriesId: string, limit = 365, observationStart?: string) {
   const key = rip2etfSettings.FRED_API_KEY;
   if (!key) return null;
 
+  const start = observationStart
+    ? `&observation_start=${encodeURIComponent(observationStart)}`
+    : "";
   const url = `https://api.stlouisfed.org/fred/series/observations?series_id=${encodeURIComponent(
     seriesId
-  )}&api_key=${key}&file_type=json&sort_order=asc&limit=${limit}`;
+  )}&api_key=${key}&file_type=json&sort_order=asc&limit=${limit}${start}`;
 
   const json = await getJSON<{ observations: FredObservation[] }>(url).catch(() => null);
   if (!json?.observations) return null;
@@ -24,3 +29,24 @@ export async function fredSeries(seriesId: string, limit = 365) {
       v: Number(obs.value)
     }));
 }
+
+/** Full observation history from `start`, kept in the history cache and refreshed incrementally. */
+export async function fredSeriesCached(
+  runtime: IAgentRuntime | undefined,
+  seriesId: string,
+  start?: string
+): Promise<Array<{ t: string; v: number }> | null> {
+  const history = await withHistoryCache(runtime, "fred", seriesId, async ({ since }) => {
+    const observations = await fredSeries(seriesId, 100_000, since ?? start);
+    if (!observations) return null;
+    return {
+      symbol: seriesId,
+      interval: "1d" as const,
+      bars: observations
+        .filter((obs) => Number.isFinite(obs.v))
+        .map((obs) => ({ t: obs.t, c: obs.v })),
+      dataSources: ["fred"]
+    };
+  });
+  return history ? history.bars.map((bar) => ({ t: bar.t, v: bar.c })) : null;
+}
@@ -0,0 +1,191 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { FxConversion, PriceHistory } from "../types";
+import { convertHistory } from "../utils/currency";
+import { debugLog } from "../utils/logger";
+import { fredSeriesCached } from "./fred";
+import { firstFromProviders } from "./marketData";
+import { stooqDailyCached } from "./stooq";
+
+export interface FxSeries {
+  from: string;
+  to: string;
+  pair: string;
+  rates: Array<{ t: string; v: number }>;
+  dataSources: string[];
+}
+
+/**
+ * FRED quotes FX against USD only. `invert` marks series quoted as USD per unit
+ * of the foreign currency, so they become "units per USD" like the others.
+ */
+const FRED_USD_SERIES: Record<string, { id: string; invert: boolean }> = {
+  CHF: { id: "DEXSZUS", invert: false },
+  EUR: { id: "DEXUSEU", invert: true },
+  GBP: { id: "DEXUSUK", invert: true },
+  JPY: { id: "DEXJPUS", invert: false },
+  HKD: { id: "DEXHKUS", invert: false }
+};
+
+/** Stooq FX pair, or its inverse when only that one is quoted. */
+export async function stooqPair(
+  runtime: IAgentRuntime | undefined,
+  from: string,
+  to: string,
+  corrId?: string
+): Promise<FxSeries | null> {
+  const direct = `${from}${to}`.toLowerCase();
+  const history = await stooqDailyCached(runtime, direct.toUpperCase(), {
+    corrId,
+    candidates: [direct]
+  });
+  if (history?.bars.length) {
+    return {
+      from,
+      to,
+      pair: direct,
+      rates: history.bars.map((bar) => ({ t: bar.t, v: bar.c })),
+      dataSources: ["stooq"]
+    };
+  }
+
+  const inverse = `${to}${from}`.toLowerCase();
+  const inverted = await stooqDailyCached(runtime, inverse.toUpperCase(), {
+    corrId,
+    candidates: [inverse]
+  });
+  if (!inverted?.bars.length) return null;
+  return {
+    from,
+    to,
+    pair: `1/${inverse}`,
+    rates: inverted.bars.filter((bar) => bar.c > 0).map((bar) => ({ t: bar.t, v: 1 / bar.c })),
+    dataSources: ["stooq"]
+  };
+}
+
+async function fredUsdLeg(runtime: IAgentRuntime | undefined, currency: string, start?: string) {
+  if (currency === "USD") return null;
+  const series = FRED_USD_SERIES[currency];
+  if (!series) return undefined;
+  const observations = await fredSeriesCached(runtime, series.id, start);
+  if (!observations?.length) return undefined;
+  return new Map(
+    observations
+      .filter((obs) => Number.isFinite(obs.v) && obs.v > 0)
+      .map((obs) => [obs.t, series.invert ? 1 / obs.v : obs.v] as const)
+  );
+}
+
+/** Cross rate from FRED's USD series (either side may be USD). */
+export async function fredCross(
+  runtime: IAgentRuntime | undefined,
+  from: string,
+  to: string,
+  start?: string
+): Promise<FxSeries | null> {
+  const [fromLeg, toLeg] = await Promise.all([
+    fredUsdLeg(runtime, from, start),
+    fredUsdLeg(runtime, to, start)
+  ]);
+  if (fromLeg === undefined || toLeg === undefined) return null;
+
+  // units of `to` per unit of `from` = (to per USD) / (from per USD)
+  const dates = Array.from((fromLeg ?? toLeg)!.keys()).sort();
+  const rates = dates
+    .map((t) => {
+      const fromPerUsd = fromLeg ? fromLeg.get(t) : 1;
+      const toPerUsd = toLeg ? toLeg.get(t) : 1;
+      if (!fromPerUsd || !toPerUsd) return null;
+      return { t, v: toPerUsd / fromPerUsd };
+    })
+    .filter((rate): rate is { t: string; v: number } => rate !== null);
+
+  if (!rates.length) return null;
+  return {
+    from,
+    to,
+    pair: [fromLeg && FRED_USD_SERIES[from].id, toLeg && FRED_USD_SERIES[to].id]
+      .filter(Boolean)
+      .join("/"),
+    rates,
+    dataSources: ["fred"]
+  };
+}
+
+/**
+ * Daily rates to turn one unit of `from` into `to`, from the first `fx`
+ * provider in the chain that has the pair (Stooq, then FRED crosses, by default).
+ */
+export async function fxDaily(
+  runtime: IAgentRuntime | undefined,
+  from: string,
+  to: string,
+  options: { corrId?: string; start?: string } = {}
+): Promise<FxSeries | null> {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+  if (source === target) return null;
+
+  const result = await firstFromProviders<FxSeries>(
+    "fx",
+    (provider, ctx) => provider.fx!(source, target, { ...ctx, start: options.start }),
+    { runtime, corrId: options.corrId, accept: (series) => series.rates.length > 0 }
+  );
+  if (!result) debugLog("fx_miss", { from: source, to: target });
+  return result?.value ?? null;
+}
+
+/**
+ * Converts each history into `baseCurrency`. Series with an unknown currency,
+ * or with no FX data available, are returned untouched and listed in
+ * `unconverted` so the caller can say so instead of mixing currencies silently.
+ */
+export async function convertHistoriesToBase(
+  runtime: IAgentRuntime | undefined,
+  histories: PriceHistory[],
+  baseCurrency: string,
+  corrId?: string
+): Promise<{ series: PriceHistory[]; conversions: FxConversion[]; unconverted: string[] }> {
+  const conversions: FxConversion[] = [];
+  const unconverted: string[] = [];
+  const fxCache = new Map<string, FxSeries | null>();
+
+  const series: PriceHistory[] = [];
+  for (const history of histories) {
+    const currency = history.currency?.toUpperCase();
+    if (!currency) {
+      unconverted.push(history.symbol);
+      series.push(history);
+      continue;
+    }
+    if (currency === baseCurrency) {
+      series.push(history);
+      continue;
+    }
+
+    if (!fxCache.has(currency)) {
+      fxCache.set(
+        currency,
+        await fxDaily(runtime, currency, baseCurrency, { corrId, start: history.bars[0]?.t })
+      );
+    }
+    const fx = fxCache.get(currency);
+    if (!fx?.rates.length) {
+      unconverted.push(history.symbol);
+      series.push(history);
+      continue;
+    }
+
+    series.push(convertHistory(history, fx.rates, baseCurrency, fx.dataSources));
+    conversions.push({
+      symbol: history.symbol,
+      from: currency,
+      to: baseCurrency,
+      pair: fx.pair,
+      dataSources: fx.dataSources
+    });
+  }
+
+  debugLog("fx_conversions", { baseCurrency, conversions, unconverted });
+  return { series, conversions, unconverted };
+}
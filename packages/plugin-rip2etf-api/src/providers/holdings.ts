@@ -0,0 +1,22 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { EtfHoldings } from "../types";
+import type { ResolvedInstrument } from "../utils/instruments";
+import { firstFromProviders } from "./marketData";
+
+/** Holdings from the first `holdings` provider that has them (FMP, then the registry, by default). */
+export async function fetchHoldings(
+  runtime: IAgentRuntime | undefined,
+  instrument: ResolvedInstrument,
+  corrId?: string
+): Promise<EtfHoldings | null> {
+  const result = await firstFromProviders<EtfHoldings>(
+    "holdings",
+    (provider, ctx) => provider.holdings!(instrument, ctx),
+    {
+      runtime,
+      corrId,
+      accept: (holdings) => holdings.topHoldings.length > 0 || !!holdings.allHoldings?.length
+    }
+  );
+  return result?.value ?? null;
+}
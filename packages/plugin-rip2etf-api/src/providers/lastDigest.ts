@@ -0,0 +1,27 @@
+import type { IAgentRuntime, Memory, Provider } from "@elizaos/core";
+import { latestDigest } from "../workers/digest";
+
+const DIGEST_HINT =
+  /\b(?:recap|digest|riepilogo|riassunto settimanale|settimana scorsa|mese scorso|last week|last month)\b/i;
+
+/** Puts the last published digest in context when the user refers to it. */
+export const lastDigestProvider: Provider = {
+  name: "RIP2ETF_LAST_DIGEST",
+  description:
+    "Ultimo recap ETF/macro pubblicato da rip2etf, per rispondere a domande sul recap precedente",
+  get: async (runtime: IAgentRuntime, message: Memory) => {
+    const text = typeof message.content?.text === "string" ? message.content.text : "";
+    if (!DIGEST_HINT.test(text)) return { text: "" };
+
+    const memory = await latestDigest(runtime);
+    if (!memory?.content?.text) return { text: "" };
+    const publishedAt = memory.createdAt
+      ? new Date(memory.createdAt).toISOString().slice(0, 10)
+      : "n/d";
+    return {
+      text: `# Ultimo recap rip2etf (pubblicato il ${publishedAt})\n${memory.content.text}`,
+      values: { lastDigest: memory.content.text, lastDigestPublishedAt: publishedAt },
+      data: { digest: memory.content.digest, memoryId: memory.id }
+    };
+  }
+};
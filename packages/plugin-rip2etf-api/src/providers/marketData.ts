@@ -0,0 +1,359 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type {
+  DistributionHistory,
+  EtfHoldings,
+  EtfOverview,
+  PriceHistory,
+  SymbolMatch
+} from "../types";
+import type { ResolvedInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import type { FxSeries } from "./fx";
+
+export const PROVIDER_CAPABILITIES = [
+  "overview",
+  "holdings",
+  "history",
+  "intraday",
+  "dividends",
+  "fx",
+  "search"
+] as const;
+export type ProviderCapability = (typeof PROVIDER_CAPABILITIES)[number];
+
+// consecutive failures before a provider is benched, and how long the first bench lasts
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 5 * 60_000;
+const MAX_COOLDOWN_MS = 60 * 60_000;
+
+const QUOTA_WINDOWS_MS: Record<string, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000
+};
+
+export interface ProviderQuota {
+  limit: number;
+  windowMs: number;
+}
+
+export interface ProviderContext {
+  runtime?: IAgentRuntime;
+  corrId?: string;
+  /**
+   * Providers call this once per upstream request, so cache hits do not
+   * count against the quota.
+   */
+  recordRequest: () => void;
+}
+
+/**
+ * A market-data source. Each capability it lists must have the matching
+ * method; returning null means "not covered here" and the next provider in
+ * the chain is asked. Throwing counts as a failure towards the provider's
+ * health, `ProviderQuotaError` marks its quota as exhausted.
+ */
+export interface MarketDataProvider {
+  /** Stable id used in priorities, health reports and `dataSources` ("fmp", "stooq", ...). */
+  id: string;
+  capabilities: ProviderCapability[];
+  quota?: ProviderQuota;
+  /** False when the provider is switched off or lacks credentials; it is then skipped silently. */
+  isEnabled?: () => boolean;
+  overview?: (
+    instrument: ResolvedInstrument,
+    ctx: ProviderContext
+  ) => Promise<Partial<EtfOverview> | null>;
+  holdings?: (instrument: ResolvedInstrument, ctx: ProviderContext) => Promise<EtfHoldings | null>;
+  history?: (
+    instrument: ResolvedInstrument,
+    ctx: ProviderContext & { since?: string }
+  ) => Promise<PriceHistory | null>;
+  /** Recent intraday bars, timestamps as "YYYY-MM-DD HH:MM". */
+  intraday?: (
+    instrument: ResolvedInstrument,
+    ctx: ProviderContext & { interval: "15m" | "1h" }
+  ) => Promise<PriceHistory | null>;
+  dividends?: (
+    instrument: ResolvedInstrument,
+    ctx: ProviderContext
+  ) => Promise<DistributionHistory | null>;
+  fx?: (
+    from: string,
+    to: string,
+    ctx: ProviderContext & { start?: string }
+  ) => Promise<FxSeries | null>;
+  /** Listings matching a ticker, ISIN or name; an empty list means "searched, none found". */
+  search?: (query: string, ctx: ProviderContext) => Promise<SymbolMatch[] | null>;
+}
+
+export interface ProviderHealth {
+  id: string;
+  lookups: number;
+  hits: number;
+  misses: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  /** Set while the provider is benched for failures or an exhausted quota. */
+  skippedUntil?: number;
+  skipReason?: "failures" | "quota";
+  /** Upstream requests in the current quota window. */
+  requests: number;
+  windowStart: number;
+}
+
+/** Thrown by providers when the upstream reports a rate limit or exhausted quota. */
+export class ProviderQuotaError extends Error {
+  constructor(
+    readonly providerId: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "ProviderQuotaError";
+  }
+}
+
+const providers = new Map<string, MarketDataProvider>();
+const health = new Map<string, ProviderHealth>();
+let priorities: Partial<Record<ProviderCapability, string[]>> = {};
+let quotaOverrides: Record<string, ProviderQuota> = {};
+
+function healthOf(id: string, now = Date.now()): ProviderHealth {
+  let entry = health.get(id);
+  if (!entry) {
+    entry = {
+      id,
+      lookups: 0,
+      hits: 0,
+      misses: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      requests: 0,
+      windowStart: now
+    };
+    health.set(id, entry);
+  }
+  return entry;
+}
+
+const quotaOf = (provider: MarketDataProvider) => quotaOverrides[provider.id] ?? provider.quota;
+
+/** Replaces any provider with the same id, so plugins can also override the built-in ones. */
+export function registerMarketDataProvider(provider: MarketDataProvider) {
+  const missing = provider.capabilities.filter((capability) => !provider[capability]);
+  if (missing.length) {
+    throw new Error(
+      `[rip2etf] provider ${provider.id} declares ${missing.join(", ")} without implementing it`
+    );
+  }
+  providers.set(provider.id, provider);
+}
+
+export function unregisterMarketDataProvider(id: string) {
+  providers.delete(id);
+  health.delete(id);
+}
+
+export function listMarketDataProviders(): MarketDataProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Per-capability order. Listed providers come first, in the given order; the
+ * others follow in registration order, so newly registered sources are still
+ * used. Ids prefixed with "-" are excluded.
+ */
+export function setProviderPriorities(next: Partial<Record<ProviderCapability, string[]>>) {
+  priorities = { ...next };
+}
+
+export function setProviderQuotas(next: Record<string, ProviderQuota>) {
+  quotaOverrides = { ...next };
+}
+
+export function getProviderHealth(): ProviderHealth[] {
+  return Array.from(providers.keys()).map((id) => ({ ...healthOf(id) }));
+}
+
+export function resetProviderHealth() {
+  health.clear();
+}
+
+/** Parses "alphaVantage:25/day, fmp:250/day" into per-provider quotas. */
+export function parseProviderQuotas(value: string | undefined): Record<string, ProviderQuota> {
+  const quotas: Record<string, ProviderQuota> = {};
+  for (const entry of (value ?? "").split(",")) {
+    const match = entry.trim().match(/^([\w.-]+)\s*:\s*(\d+)\s*\/\s*(minute|hour|day)$/i);
+    if (!match) continue;
+    quotas[match[1]] = {
+      limit: Number.parseInt(match[2], 10),
+      windowMs: QUOTA_WINDOWS_MS[match[3].toLowerCase()]
+    };
+  }
+  return quotas;
+}
+
+/** Reads `RIP2ETF_PROVIDERS_<CAPABILITY>` and `RIP2ETF_PROVIDER_QUOTAS` from character settings. */
+export function configureMarketDataProviders(runtime: IAgentRuntime) {
+  const setting = (key: string) => {
+    const value = runtime.getSetting(key);
+    return typeof value === "string" ? value.trim() : "";
+  };
+  const next: Partial<Record<ProviderCapability, string[]>> = {};
+  for (const capability of PROVIDER_CAPABILITIES) {
+    const raw = setting(`RIP2ETF_PROVIDERS_${capability.toUpperCase()}`);
+    if (raw) {
+      next[capability] = raw
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+    }
+  }
+  setProviderPriorities({ ...priorities, ...next });
+  setProviderQuotas(parseProviderQuotas(setting("RIP2ETF_PROVIDER_QUOTAS")));
+  debugLog("providers_configured", { priorities, quotas: quotaOverrides });
+}
+
+/** Providers able to serve `capability`, in priority order. */
+export function providerChain(capability: ProviderCapability): MarketDataProvider[] {
+  const configured = priorities[capability] ?? [];
+  const excluded = new Set(configured.filter((id) => id.startsWith("-")).map((id) => id.slice(1)));
+  const listed = configured.filter((id) => !id.startsWith("-"));
+  const capable = Array.from(providers.values()).filter(
+    (provider) => provider.capabilities.includes(capability) && !excluded.has(provider.id)
+  );
+  const rank = (provider: MarketDataProvider) => {
+    const index = listed.indexOf(provider.id);
+    return index >= 0 ? index : listed.length;
+  };
+  // Array.prototype.sort is stable, so unlisted providers keep registration order
+  return capable.sort((a, b) => rank(a) - rank(b));
+}
+
+function skipReason(provider: MarketDataProvider, now: number): string | undefined {
+  if (provider.isEnabled && !provider.isEnabled()) return "disabled";
+  const entry = healthOf(provider.id, now);
+  if (entry.skippedUntil && entry.skippedUntil > now) return entry.skipReason;
+  entry.skippedUntil = undefined;
+  entry.skipReason = undefined;
+
+  const quota = quotaOf(provider);
+  if (quota) {
+    if (now - entry.windowStart >= quota.windowMs) {
+      entry.windowStart = now;
+      entry.requests = 0;
+    }
+    if (entry.requests >= quota.limit) return "quota";
+  }
+  return undefined;
+}
+
+function recordFailure(provider: MarketDataProvider, error: unknown, now = Date.now()) {
+  const entry = healthOf(provider.id, now);
+  const message = error instanceof Error ? error.message : String(error);
+  entry.failures += 1;
+  entry.lastError = message;
+  entry.lastErrorAt = now;
+
+  if (error instanceof ProviderQuotaError || /\b429\b|rate.?limit/i.test(message)) {
+    const quota = quotaOf(provider);
+    entry.skippedUntil =
+      now + (quota ? quota.windowMs - (now - entry.windowStart) : BASE_COOLDOWN_MS);
+    entry.skipReason = "quota";
+    return;
+  }
+
+  entry.consecutiveFailures += 1;
+  if (entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+    const backoff = BASE_COOLDOWN_MS * 2 ** (entry.consecutiveFailures - FAILURE_THRESHOLD);
+    entry.skippedUntil = now + Math.min(backoff, MAX_COOLDOWN_MS);
+    entry.skipReason = "failures";
+  }
+}
+
+type ChainCall<T> = (provider: MarketDataProvider, ctx: ProviderContext) => Promise<T | null>;
+
+async function callProvider<T>(
+  provider: MarketDataProvider,
+  capability: ProviderCapability,
+  call: ChainCall<T>,
+  options: { runtime?: IAgentRuntime; corrId?: string }
+): Promise<T | null> {
+  const now = Date.now();
+  const reason = skipReason(provider, now);
+  if (reason) {
+    if (reason !== "disabled") {
+      debugLog("provider_skip", { provider: provider.id, capability, reason });
+    }
+    return null;
+  }
+
+  const entry = healthOf(provider.id, now);
+  entry.lookups += 1;
+  const ctx: ProviderContext = {
+    runtime: options.runtime,
+    corrId: options.corrId,
+    recordRequest: () => {
+      entry.requests += 1;
+    }
+  };
+  try {
+    const value = await call(provider, ctx);
+    entry.consecutiveFailures = 0;
+    if (value === null || value === undefined) entry.misses += 1;
+    else entry.hits += 1;
+    return value ?? null;
+  } catch (error) {
+    recordFailure(provider, error);
+    debugLog("provider_error", {
+      provider: provider.id,
+      capability,
+      corrId: options.corrId,
+      error: (error as Error).message
+    });
+    return null;
+  }
+}
+
+/**
+ * Asks the chain in order and returns the first value `accept` takes (any
+ * non-null value by default). When no value is accepted, the first non-null
+ * one is returned as a best effort.
+ */
+export async function firstFromProviders<T>(
+  capability: ProviderCapability,
+  call: ChainCall<T>,
+  options: {
+    runtime?: IAgentRuntime;
+    corrId?: string;
+    accept?: (value: T) => boolean;
+  } = {}
+): Promise<{ value: T; providerId: string } | null> {
+  let fallback: { value: T; providerId: string } | null = null;
+  for (const provider of providerChain(capability)) {
+    const value = await callProvider(provider, capability, call, options);
+    if (value === null) continue;
+    if (!options.accept || options.accept(value)) return { value, providerId: provider.id };
+    fallback ??= { value, providerId: provider.id };
+  }
+  return fallback;
+}
+
+/** Every non-null answer of the chain, in priority order (e.g. overview fields to reconcile). */
+export async function allFromProviders<T>(
+  capability: ProviderCapability,
+  call: ChainCall<T>,
+  options: { runtime?: IAgentRuntime; corrId?: string } = {}
+): Promise<Array<{ value: T; providerId: string }>> {
+  const chain = providerChain(capability);
+  const values = await Promise.all(
+    chain.map((provider) => callProvider(provider, capability, call, options))
+  );
+  const results: Array<{ value: T; providerId: string }> = [];
+  values.forEach((value, index) => {
+    if (value !== null) results.push({ value, providerId: chain[index].id });
+  });
+  return results;
+}
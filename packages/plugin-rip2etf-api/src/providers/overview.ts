@@ -0,0 +1,25 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { EtfOverview } from "../types";
+import type { ResolvedInstrument } from "../utils/instruments";
+import { reconcileOverview } from "../utils/normalize";
+import { allFromProviders } from "./marketData";
+
+/**
+ * Overview fields from every `overview` provider. `reconcileOverview` keeps
+ * the first value per field, so the chain order sets the priority.
+ */
+export async function fetchOverview(
+  runtime: IAgentRuntime | undefined,
+  instrument: ResolvedInstrument,
+  corrId?: string
+): Promise<EtfOverview> {
+  const results = await allFromProviders<Partial<EtfOverview>>(
+    "overview",
+    (provider, ctx) => provider.overview!(instrument, ctx),
+    { runtime, corrId }
+  );
+  return reconcileOverview(
+    instrument.symbol,
+    results.map((result) => result.value)
+  );
+}
@@ -0,0 +1,79 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { manualOverview } from "../data/manual";
+import type { PriceHistory, PriceInterval } from "../types";
+import type { ResolvedInstrument } from "../utils/instruments";
+import { resampleHistory } from "../utils/normalize";
+import { isIntraday } from "../utils/timeWindow";
+import { buildTotalReturnHistory } from "../utils/totalReturn";
+import { distributionEvents, distributionsInCurrency } from "./distributions";
+import { firstFromProviders } from "./marketData";
+
+/**
+ * Daily closes from the `history` provider chain (Alpha Vantage, then Stooq,
+ * by default). Alpha Vantage only returns the last 100 sessions, so callers
+ * needing data from `since` move on to the next provider when it falls short.
+ * Weekly and monthly bars are resampled from the daily ones; intraday bars
+ * come from the `intraday` chain and are null when no source has them.
+ */
+export async function fetchPriceHistory(
+  runtime: IAgentRuntime,
+  instrument: ResolvedInstrument,
+  corrId: string,
+  options: { since?: string; interval?: PriceInterval } = {}
+): Promise<PriceHistory | null> {
+  const interval = options.interval ?? "1d";
+  if (isIntraday(interval)) {
+    const intraday = await firstFromProviders<PriceHistory>(
+      "intraday",
+      (provider, ctx) => provider.intraday!(instrument, { ...ctx, interval }),
+      { runtime, corrId, accept: (history) => history.bars.length > 0 }
+    );
+    return intraday?.value ?? null;
+  }
+
+  const result = await firstFromProviders<PriceHistory>(
+    "history",
+    (provider, ctx) => provider.history!(instrument, { ...ctx, since: options.since }),
+    {
+      runtime,
+      corrId,
+      accept: (history) =>
+        history.bars.length > 0 && (!options.since || history.bars[0].t <= options.since)
+    }
+  );
+  const daily = result?.value ?? null;
+  return daily && interval !== "1d" ? resampleHistory(daily, interval) : daily;
+}
+
+/**
+ * Price history with distributions reinvested (skipped for funds the registry
+ * marks as accumulating), in the listing currency.
+ */
+export async function fetchTotalReturnHistory(
+  runtime: IAgentRuntime,
+  instrument: ResolvedInstrument,
+  withholdingPct: number,
+  corrId: string,
+  since?: string
+): Promise<PriceHistory | null> {
+  const history = await fetchPriceHistory(runtime, instrument, corrId, { since });
+  if (!history?.bars.length) return null;
+
+  const priced: PriceHistory = {
+    ...history,
+    symbol: instrument.symbol,
+    currency: instrument.listing.currency ?? history.currency
+  };
+  const accumulating =
+    manualOverview(instrument.isin ?? instrument.symbol)?.distributionPolicy === "accumulating";
+  if (accumulating) return priced;
+
+  const distributions = await distributionEvents(runtime, instrument).catch(() => null);
+  const { events } = await distributionsInCurrency(
+    runtime,
+    distributions?.events ?? [],
+    priced.currency,
+    corrId
+  );
+  return buildTotalReturnHistory(priced, events, withholdingPct).history;
+}
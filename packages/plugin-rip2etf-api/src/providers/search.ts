@@ -0,0 +1,21 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { SymbolMatch } from "../types";
+import { firstFromProviders } from "./marketData";
+
+/**
+ * Listings matching `query` from the `search` chain (registry, then FMP).
+ * Null when no source covered the query, an empty list when one searched
+ * and found nothing.
+ */
+export async function searchSymbols(
+  runtime: IAgentRuntime | undefined,
+  query: string,
+  corrId?: string
+): Promise<SymbolMatch[] | null> {
+  const result = await firstFromProviders<SymbolMatch[]>(
+    "search",
+    (provider, ctx) => provider.search!(query, ctx),
+    { runtime, corrId, accept: (matches) => matches.length > 0 }
+  );
+  return result?.value ?? null;
+}
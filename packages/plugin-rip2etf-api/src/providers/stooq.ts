@@ -1,10 +1,26 @@
+import type { IAgentRuntime } from "@elizaos/core";
 import { PriceHistory } from "../types";
 import { getText } from "../utils/fetcher";
+import { withHistoryCache } from "../utils/historyCache";
 import { debugLog } from "../utils/logger";
 
 const SUFFIXES = ["", ".us", ".de", ".uk", ".ln", ".pa", ".hk", ".jp"];
 
-function buildTickerVariants(symbol: string): string[] {
+// London lines trade in GBP, GBX or USD depending on the share class, so no guess there
+const SUFFIX_CURRENCY: Record<string, string> = {
+  ".us": "USD",
+  ".de": "EUR",
+  ".pa": "EUR",
+  ".hk": "HKD",
+  ".jp": "JPY"
+};
+
+function currencyForVariant(variant: string): string | undefined {
+  const dot = variant.lastIndexOf(".");
+  return dot >= 0 ? SUFFIX_CURRENCY[variant.slice(dot)] : undefined;
+}
+
+function buildTickerVariants(symbol: string, resolved?: string): string[] {
   const base = symbol.toLowerCase();
   const explicit: Record<string, string[]> = {
     voo: ["voo.us", "voo"],
@@ -15,17 +31,37 @@ function buildTickerVariants(symbol: string): string[] {
   };
 
   const variants = explicit[base] ?? SUFFIXES.map((suffix) => `${base}${suffix}`);
-  return Array.from(new Set(variants));
+  return Array.from(new Set(resolved ? [resolved, ...variants] : variants));
 }
 
+const compactDate = (isoDate: string) => isoDate.replace(/-/g, "");
+
 interface StooqOptions {
   corrId?: string;
+  /** Only download bars from this date (YYYY-MM-DD) onwards. */
+  since?: string;
+  /** Variant that resolved on a previous lookup; tried before the suffix probes. */
+  sourceSymbol?: string;
+  /** Exact Stooq symbols for a resolved listing; replaces the blind suffix probes. */
+  candidates?: string[];
 }
 
 export async function stooqDaily(symbol: string, options: StooqOptions = {}): Promise<PriceHistory | null> {
-  const { corrId } = options;
-  for (const candidate of buildTickerVariants(symbol)) {
-    const url = `https://stooq.com/q/d/l/?s=${encodeURIComponent(candidate)}&i=d`;
+  const { corrId, since, sourceSymbol, candidates } = options;
+  // an incremental refresh of a known listing must not fall back to other suffixes:
+  // "No data" there just means no new sessions since the last download
+  const variants =
+    since && sourceSymbol
+      ? [sourceSymbol]
+      : candidates
+        ? Array.from(new Set(sourceSymbol ? [sourceSymbol, ...candidates] : candidates))
+        : buildTickerVariants(symbol, sourceSymbol);
+  const range = since
+    ? `&d1=${compactDate(since)}&d2=${compactDate(new Date().toISOString().slice(0, 10))}`
+    : "";
+
+  for (const candidate of variants) {
+    const url = `https://stooq.com/q/d/l/?s=${encodeURIComponent(candidate)}&i=d${range}`;
     let csv = "";
     try {
       csv = await getText(url);
@@ -95,6 +131,7 @@ export async function stooqDaily(symbol: string, options: StooqOptions = {}): Pr
       interval: "1d",
       bars,
       adjusted: false,
+      currency: currencyForVariant(candidate),
       dataSources: ["stooq"],
       sourceSymbol: candidate
     };
@@ -104,3 +141,13 @@ export async function stooqDaily(symbol: string, options: StooqOptions = {}): Pr
 
   return null;
 }
+
+export async function stooqDailyCached(
+  runtime: IAgentRuntime | undefined,
+  symbol: string,
+  options: Pick<StooqOptions, "corrId" | "candidates"> = {}
+): Promise<PriceHistory | null> {
+  return withHistoryCache(runtime, "stooq", symbol, (params) =>
+    stooqDaily(symbol, { ...options, ...params })
+  );
+}
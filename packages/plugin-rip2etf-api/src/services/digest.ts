@@ -0,0 +1,26 @@
+import { type IAgentRuntime, Service } from "@elizaos/core";
+import { ensureDigestTask } from "../workers/digest";
+
+/**
+ * Schedules the periodic digest. Tasks live in the database, which is only
+ * ready once services start, so this cannot happen in the plugin's `init`.
+ */
+export class DigestSchedulerService extends Service {
+  static serviceType = "rip2etf_digest";
+  capabilityDescription = "Pubblica periodicamente un recap ETF e macro nei canali configurati";
+
+  static async start(runtime: IAgentRuntime): Promise<Service> {
+    const service = new DigestSchedulerService(runtime);
+    try {
+      await ensureDigestTask(runtime);
+    } catch (error) {
+      runtime.logger?.error?.(
+        { error: (error as Error).message },
+        "[rip2etf.digest] pianificazione fallita"
+      );
+    }
+    return service;
+  }
+
+  async stop(): Promise<void> {}
+}
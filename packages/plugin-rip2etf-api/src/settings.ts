@@ -7,6 +7,28 @@ export interface Rip2EtfSettings {
   ENABLE_ALPHA_VANTAGE: boolean;
   ENABLE_FMP: boolean;
   ENABLE_FINNHUB: boolean;
+  HISTORY_CACHE_TTL_MINUTES: number;
+  REGISTRY_PATH: string;
+  REGISTRY_PRIORITY: "primary" | "fallback";
+  BASE_CURRENCY: string;
+  RISK_FREE_SERIES: string;
+  BENCHMARK_SYMBOL: string;
+  WITHHOLDING_TAX_PCT: number;
+  SWISS_BROKER: boolean;
+  SWISS_HORIZON_YEARS: number;
+  WEALTH_TAX_PCT: number;
+  CHART_THEME: "light" | "dark";
+  CHART_SVG: boolean;
+  SNAPSHOT_CHARTS: string[];
+  SNAPSHOT_EXPORTS: string[];
+  LOCALE: "it" | "en" | "de";
+  WATCHLIST_INTERVAL_MINUTES: number;
+  DIGEST_SYMBOLS: string[];
+  DIGEST_FRED_SERIES: string[];
+  DIGEST_TARGETS: string;
+  DIGEST_INTERVAL_DAYS: number;
+  HTTP_MODE: "live" | "record" | "replay";
+  FIXTURES_DIR: string;
 }
 
 const env = (key: string) => process.env[key]?.trim() ?? "";
@@ -16,6 +38,16 @@ const boolEnv = (key: string, defaultValue = false) => {
   if (!raw) return defaultValue;
   return truthy(raw);
 };
+const numberEnv = (key: string, defaultValue: number) => {
+  const parsed = Number.parseFloat(env(key));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : defaultValue;
+};
+
+const listEnv = (key: string, defaultValue = "") =>
+  (env(key) || defaultValue)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
 
 export const rip2etfSettings: Rip2EtfSettings = {
   ALPHAVANTAGE_API_KEY: env("ALPHAVANTAGE_API_KEY"),
@@ -25,7 +57,41 @@ export const rip2etfSettings: Rip2EtfSettings = {
   DEBUG: truthy(env("RIP2ETF_DEBUG")),
   ENABLE_ALPHA_VANTAGE: boolEnv("RIP2ETF_ENABLE_ALPHA_VANTAGE"),
   ENABLE_FMP: boolEnv("RIP2ETF_ENABLE_FMP"),
-  ENABLE_FINNHUB: boolEnv("RIP2ETF_ENABLE_FINNHUB")
+  ENABLE_FINNHUB: boolEnv("RIP2ETF_ENABLE_FINNHUB"),
+  HISTORY_CACHE_TTL_MINUTES: numberEnv("RIP2ETF_HISTORY_CACHE_TTL_MINUTES", 360),
+  REGISTRY_PATH: env("RIP2ETF_REGISTRY_PATH"),
+  REGISTRY_PRIORITY: /^primary$/i.test(env("RIP2ETF_REGISTRY_PRIORITY")) ? "primary" : "fallback",
+  BASE_CURRENCY: env("RIP2ETF_BASE_CURRENCY").toUpperCase() || "CHF",
+  RISK_FREE_SERIES: env("RIP2ETF_RISK_FREE_SERIES") || "DGS3MO",
+  BENCHMARK_SYMBOL: env("RIP2ETF_BENCHMARK").toUpperCase(),
+  WITHHOLDING_TAX_PCT: Math.min(numberEnv("RIP2ETF_WITHHOLDING_TAX_PCT", 0), 100),
+  SWISS_BROKER: boolEnv("RIP2ETF_SWISS_BROKER", true),
+  SWISS_HORIZON_YEARS: Math.min(
+    Math.max(Math.round(numberEnv("RIP2ETF_SWISS_HORIZON_YEARS", 10)), 1),
+    50
+  ),
+  WEALTH_TAX_PCT: Math.min(numberEnv("RIP2ETF_WEALTH_TAX_PCT", 0), 5),
+  CHART_THEME: /^dark$/i.test(env("RIP2ETF_CHART_THEME")) ? "dark" : "light",
+  CHART_SVG: boolEnv("RIP2ETF_CHART_SVG"),
+  SNAPSHOT_CHARTS: (env("RIP2ETF_SNAPSHOT_CHARTS") || "performance")
+    .split(",")
+    .map((kind) => kind.trim().toLowerCase())
+    .filter(Boolean),
+  SNAPSHOT_EXPORTS: listEnv("RIP2ETF_SNAPSHOT_EXPORTS").map((format) => format.toLowerCase()),
+  LOCALE: /^(en|de)$/i.test(env("RIP2ETF_LOCALE"))
+    ? (env("RIP2ETF_LOCALE").toLowerCase() as "en" | "de")
+    : "it",
+  WATCHLIST_INTERVAL_MINUTES: Math.max(numberEnv("RIP2ETF_WATCHLIST_INTERVAL_MINUTES", 60), 5),
+  DIGEST_SYMBOLS: listEnv("RIP2ETF_DIGEST_SYMBOLS").map((symbol) => symbol.toUpperCase()),
+  DIGEST_FRED_SERIES: listEnv("RIP2ETF_DIGEST_FRED_SERIES", "CPIAUCSL,DGS10,DGS3MO").map((id) =>
+    id.toUpperCase()
+  ),
+  DIGEST_TARGETS: env("RIP2ETF_DIGEST_TARGETS"),
+  DIGEST_INTERVAL_DAYS: Math.max(numberEnv("RIP2ETF_DIGEST_INTERVAL_DAYS", 7), 1),
+  HTTP_MODE: /^(record|replay)$/i.test(env("RIP2ETF_HTTP_MODE"))
+    ? (env("RIP2ETF_HTTP_MODE").toLowerCase() as "record" | "replay")
+    : "live",
+  FIXTURES_DIR: env("RIP2ETF_FIXTURES_DIR") || "fixtures/rip2etf"
 };
 
 export const hasAnyApiKey = () =>
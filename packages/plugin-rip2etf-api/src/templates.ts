@@ -0,0 +1,54 @@
+export const digestCommentaryTemplate = `<task>
+You are {{agentName}}. Write the short commentary that opens your {{period}} ETF and macro recap.
+</task>
+
+<character>
+{{system}}
+{{bio}}
+</character>
+
+<facts>
+{{facts}}
+</facts>
+
+<rules>
+- Write in Italian, in your usual voice, 3 to 5 sentences.
+- Use ONLY the numbers in <facts>, written exactly as they appear there. Do not compute, round or estimate new ones.
+- Do not mention ETFs, indices or series that are not in <facts>.
+- No forecasts, no buy or sell advice.
+- If a value is "n/d" or listed as not available, say the data is missing instead of guessing.
+</rules>
+
+<instructions>
+Return only the commentary text, without a title, tables or markdown.
+</instructions>`;
+
+export const symbolExtractionTemplate = `<task>
+Identify the ETFs the user wants data about in the message below.
+</task>
+
+<message>
+{{message}}
+</message>
+
+<candidates>
+{{candidates}}
+</candidates>
+
+<known_etfs>
+{{knownEtfs}}
+</known_etfs>
+
+<rules>
+- Return exchange tickers (VWCE, CSPX, VT, ...) or the ISINs the user wrote. Prefer the tickers in <known_etfs>.
+- Map a fund or index name to a ticker only when the message makes it unambiguous.
+- Candidates marked "rejected" were not found by any data source: replace them with the ticker the user most likely meant, or leave them out.
+- Leave out words that are not securities: brokers, currencies, exchanges, ordinary words.
+- "comparison" is true when the user wants the funds compared with each other.
+- "window": the period asked for, written as "last N years", "last N months", "since YYYY" or "YTD". Omit it when none is asked for.
+- "currency": the 3-letter reporting currency asked for ("in euro" is EUR). Omit it when none is asked for.
+</rules>
+
+<instructions>
+Return only a JSON object: {"symbols": string[], "comparison": boolean, "window"?: string, "currency"?: string}
+</instructions>`;
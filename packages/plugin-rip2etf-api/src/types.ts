@@ -1,27 +1,37 @@
 export type Ticker = string;
 
+export type ReplicationMethod = "physical" | "physical-sampling" | "synthetic";
+export type DistributionPolicy = "accumulating" | "distributing";
+
 export interface EtfOverview {
   symbol: Ticker;
   name?: string;
+  isin?: string;
   category?: string;
   issuer?: string;
   expenseRatio?: number;
   inceptionDate?: string;
   domicile?: string;
   benchmark?: string;
-  aumUSD?: number;
-  navUSD?: number;
-  lastCloseUSD?: number;
+  replication?: ReplicationMethod;
+  distributionPolicy?: DistributionPolicy;
+  /** Currency of `aum`, `nav` and `lastClose` (ISO 4217). */
+  currency?: string;
+  aum?: number;
+  nav?: number;
+  lastClose?: number;
   lastCloseDate?: string;
   dataSources: string[];
 }
 
 export interface Holding {
   symbol?: string;
+  isin?: string;
   name: string;
   weightPct?: number;
   shares?: number;
-  marketValueUSD?: number;
+  /** In the fund's `EtfOverview.currency`. */
+  marketValue?: number;
 }
 
 export interface EtfHoldings {
@@ -32,7 +42,21 @@ export interface EtfHoldings {
   dataSources: string[];
 }
 
+/** A listing returned by a symbol search. */
+export interface SymbolMatch {
+  symbol: Ticker;
+  name?: string;
+  isin?: string;
+  exchange?: string;
+  currency?: string;
+  dataSources: string[];
+}
+
+/** Bar spacing: intraday, daily, or daily closes resampled to weeks and months. */
+export type PriceInterval = "15m" | "1h" | "1d" | "1wk" | "1mo";
+
 export interface Bar {
+  /** YYYY-MM-DD, or "YYYY-MM-DD HH:MM" (exchange time) for intraday bars. */
   t: string;
   o?: number;
   h?: number;
@@ -43,7 +67,7 @@ export interface Bar {
 
 export interface PriceHistory {
   symbol: Ticker;
-  interval: "1d" | "1h" | "15m";
+  interval: PriceInterval;
   bars: Bar[];
   adjusted?: boolean;
   currency?: string;
@@ -51,6 +75,19 @@ export interface PriceHistory {
   sourceSymbol?: string;
 }
 
+export interface DistributionEvent {
+  exDate: string;
+  /** Cash per share, in `currency` (or the listing currency when absent). */
+  amount: number;
+  currency?: string;
+}
+
+export interface DistributionHistory {
+  symbol: Ticker;
+  events: DistributionEvent[];
+  dataSources: string[];
+}
+
 export interface CompareSeries {
   symbol: Ticker;
   points: Array<{ t: string; v: number }>;
@@ -61,3 +98,11 @@ export interface CompareResult {
   table: CompareSeries[];
   dataSources: string[];
 }
+
+export interface FxConversion {
+  symbol: Ticker;
+  from: string;
+  to: string;
+  pair: string;
+  dataSources: string[];
+}
@@ -0,0 +1,334 @@
+import { z } from "zod";
+import type { CompareSeries } from "../types";
+import { type DrawdownInfo, maxDrawdown } from "./metrics";
+
+export const rebalancePolicySchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("none") }),
+  z.object({ kind: z.literal("annual") }),
+  z.object({ kind: z.literal("threshold"), driftPct: z.number().positive().max(50) })
+]);
+
+export const backtestParamsSchema = z.object({
+  weights: z.array(z.object({ symbol: z.string().min(1), weight: z.number().positive() })).min(1),
+  start: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  lumpSum: z.number().min(0).default(0),
+  monthlyContribution: z.number().min(0).default(0),
+  rebalance: rebalancePolicySchema.default({ kind: "annual" }),
+  fees: z
+    .object({
+      perTrade: z.number().min(0).default(0),
+      pct: z.number().min(0).max(5).default(0)
+    })
+    .default({ perTrade: 0, pct: 0 })
+});
+
+export type RebalancePolicy = z.infer<typeof rebalancePolicySchema>;
+export type BacktestParams = z.infer<typeof backtestParamsSchema>;
+
+export interface BacktestResult {
+  start: string;
+  end: string;
+  /** Portfolio value and cumulative contributions per session. */
+  equity: Array<{ t: string; value: number; contributed: number }>;
+  finalValue: number;
+  totalContributed: number;
+  gains: number;
+  twrPct: number;
+  twrAnnualPct: number;
+  /** Money-weighted annual return; undefined when it cannot be solved. */
+  irrPct?: number;
+  maxDrawdown: DrawdownInfo;
+  feesPaid: number;
+  rebalances: number;
+  trades: number;
+  finalWeights: Record<string, number>;
+}
+
+/** Weights as fractions summing to 1, in the order given. */
+export function normalizeWeights(weights: BacktestParams["weights"]) {
+  const total = weights.reduce((acc, entry) => acc + entry.weight, 0);
+  return weights.map((entry) => ({ symbol: entry.symbol, weight: entry.weight / total }));
+}
+
+const yearFraction = (from: string, to: string) =>
+  (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (365.25 * 86_400_000);
+
+/** Annual rate solving NPV = 0 by bisection; flows are negative for money put in. */
+export function xirr(flows: Array<{ t: string; amount: number }>): number | undefined {
+  if (flows.length < 2) return undefined;
+  const origin = flows[0].t;
+  const npv = (rate: number) =>
+    flows.reduce((acc, flow) => acc + flow.amount / (1 + rate) ** yearFraction(origin, flow.t), 0);
+
+  let low = -0.99;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return undefined;
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Simulates a portfolio on aligned series (e.g. `alignAndRebase` output):
+ * lump sum on the first session, contributions on the first session of each
+ * later month split by target weight, and rebalancing per `params.rebalance`.
+ * Fees apply to every buy or sell.
+ */
+export function runBacktest(
+  dates: string[],
+  table: CompareSeries[],
+  params: BacktestParams
+): BacktestResult | null {
+  const targets = normalizeWeights(params.weights);
+  const prices = targets.map((target) => {
+    const series = table.find((entry) => entry.symbol === target.symbol);
+    return series ? series.points.map((point) => point.v) : null;
+  });
+  if (prices.some((series) => !series)) return null;
+
+  const startIndex = params.start ? dates.findIndex((date) => date >= params.start!) : 0;
+  if (startIndex < 0 || dates.length - startIndex < 2) return null;
+
+  const units = targets.map(() => 0);
+  const priceAt = (asset: number, day: number) => prices[asset]![day];
+  const valueAt = (day: number) =>
+    units.reduce((acc, held, asset) => acc + held * priceAt(asset, day), 0);
+
+  let feesPaid = 0;
+  let trades = 0;
+  let rebalances = 0;
+  const tradeCost = (notional: number) =>
+    notional > 0 ? params.fees.perTrade + (notional * params.fees.pct) / 100 : 0;
+
+  const invest = (cash: number, day: number) => {
+    targets.forEach((target, asset) => {
+      const budget = cash * target.weight;
+      if (budget <= 0) return;
+      const fee = Math.min(tradeCost(budget), budget);
+      units[asset] += (budget - fee) / priceAt(asset, day);
+      feesPaid += fee;
+      trades += 1;
+    });
+  };
+
+  const rebalance = (day: number) => {
+    const total = valueAt(day);
+    if (total <= 0) return;
+    const orders = targets
+      .map((target, asset) => total * target.weight - units[asset] * priceAt(asset, day))
+      .filter((delta) => Math.abs(delta) > 1e-9);
+    const fees = orders.reduce((acc, delta) => acc + tradeCost(Math.abs(delta)), 0);
+    // fees are paid out of the portfolio, then what is left is split by target weight
+    const net = Math.max(total - fees, 0);
+    targets.forEach((target, asset) => {
+      units[asset] = (net * target.weight) / priceAt(asset, day);
+    });
+    feesPaid += fees;
+    trades += orders.length;
+    rebalances += 1;
+  };
+
+  const drifted = (day: number, driftPct: number) => {
+    const total = valueAt(day);
+    if (total <= 0) return false;
+    return targets.some(
+      (target, asset) =>
+        Math.abs((units[asset] * priceAt(asset, day)) / total - target.weight) * 100 > driftPct
+    );
+  };
+
+  const equity: BacktestResult["equity"] = [];
+  const flows: Array<{ t: string; amount: number }> = [];
+  const twrIndex: Array<{ t: string; v: number }> = [];
+  let contributed = 0;
+  let twr = 1;
+  let previousValue = 0;
+
+  for (let day = startIndex; day < dates.length; day += 1) {
+    const date = dates[day];
+    if (prices.some((series) => !Number.isFinite(series![day]) || series![day] <= 0)) continue;
+
+    const valueBeforeFlows = valueAt(day);
+    if (previousValue > 0) twr *= valueBeforeFlows / previousValue;
+
+    let cash = 0;
+    if (day === startIndex) {
+      cash = params.lumpSum > 0 ? params.lumpSum : params.monthlyContribution;
+    } else if (date.slice(0, 7) !== equity[equity.length - 1]?.t.slice(0, 7)) {
+      cash = params.monthlyContribution;
+    }
+    if (cash > 0) {
+      invest(cash, day);
+      contributed += cash;
+      flows.push({ t: date, amount: -cash });
+    }
+
+    const previous = equity[equity.length - 1]?.t;
+    const newYear = previous !== undefined && date.slice(0, 4) !== previous.slice(0, 4);
+    if (
+      (params.rebalance.kind === "annual" && newYear) ||
+      (params.rebalance.kind === "threshold" && drifted(day, params.rebalance.driftPct))
+    ) {
+      rebalance(day);
+    }
+
+    previousValue = valueAt(day);
+    twrIndex.push({ t: date, v: twr });
+    equity.push({ t: date, value: previousValue, contributed });
+  }
+
+  if (equity.length < 2 || contributed <= 0) return null;
+
+  const first = equity[0];
+  const last = equity[equity.length - 1];
+  const years = Math.max(yearFraction(first.t, last.t), 1 / 365.25);
+  const irr = xirr([...flows, { t: last.t, amount: last.value }]);
+  const finalValue = last.value;
+
+  return {
+    start: first.t,
+    end: last.t,
+    equity,
+    finalValue,
+    totalContributed: contributed,
+    gains: finalValue - contributed,
+    twrPct: (twr - 1) * 100,
+    twrAnnualPct: (twr ** (1 / years) - 1) * 100,
+    irrPct: irr === undefined ? undefined : irr * 100,
+    maxDrawdown: maxDrawdown(twrIndex),
+    feesPaid,
+    rebalances,
+    trades,
+    finalWeights: Object.fromEntries(
+      targets.map((target, asset) => [
+        target.symbol,
+        finalValue > 0 ? (units[asset] * priceAt(asset, dates.indexOf(last.t))) / finalValue : 0
+      ])
+    )
+  };
+}
+
+const AMOUNT = "(\\d[\\d'’.,]*\\s*[kK]?)";
+const CURRENCY = "(?:\\s*(?:CHF|EUR|USD|GBP|€|\\$|franchi|euro|dollari))?";
+
+/** "10'000", "10.000", "10k", "2,5k" → number. */
+export function parseAmount(raw: string): number | undefined {
+  let text = raw.trim().replace(/['’\s]/g, "");
+  let multiplier = 1;
+  if (/k$/i.test(text)) {
+    multiplier = 1000;
+    text = text.slice(0, -1);
+  }
+  // "10.000" / "10,000" are thousands, "2,5" / "2.5" decimals
+  if (/^\d{1,3}([.,]\d{3})+$/.test(text)) text = text.replace(/[.,]/g, "");
+  else text = text.replace(",", ".");
+  const value = Number.parseFloat(text);
+  return Number.isFinite(value) ? value * multiplier : undefined;
+}
+
+const IGNORED_PERCENT_CONTEXT =
+  /\b(?:soglia|threshold|banda|band|commission[ei]?|fees?|costo|ritenuta|withholding|regola\s+del|rule|prelievo|withdrawal|inflazione|inflation)\s*(?:di|del|of)?\s*\d+(?:[.,]\d+)?\s*%/gi;
+
+/**
+ * Target weights from "80% VWCE + 20% AGGH" or "VWCE 60%"; symbols without a
+ * weight share what is left (an equal split when none has one).
+ */
+export function parseWeights(text: string, symbols: string[]): BacktestParams["weights"] {
+  const cleaned = text.replace(IGNORED_PERCENT_CONTEXT, " ");
+  const weights = new Map<string, number>();
+  const known = new Set(symbols);
+
+  for (const match of cleaned.matchAll(
+    /(\d{1,3}(?:[.,]\d+)?)\s*%\s*(?:(?:di|in|of)\s+)?([A-Z][A-Z0-9]{1,9}(?:\.[A-Z]{1,3})?)\b/g
+  )) {
+    if (known.has(match[2])) weights.set(match[2], Number.parseFloat(match[1].replace(",", ".")));
+  }
+  for (const match of cleaned.matchAll(
+    /\b([A-Z][A-Z0-9]{1,9}(?:\.[A-Z]{1,3})?)\s*(?:al|at|@|:)?\s*(\d{1,3}(?:[.,]\d+)?)\s*%/g
+  )) {
+    if (known.has(match[1]) && !weights.has(match[1])) {
+      weights.set(match[1], Number.parseFloat(match[2].replace(",", ".")));
+    }
+  }
+
+  const weighted = Array.from(weights.entries()).filter(([, weight]) => weight > 0);
+  const assigned = weighted.reduce((acc, [, weight]) => acc + weight, 0);
+  const rest = symbols.filter((symbol) => !weights.has(symbol));
+  const restWeight =
+    weighted.length === 0 ? 100 / Math.max(symbols.length, 1) : (100 - assigned) / rest.length;
+  return [
+    ...weighted.map(([symbol, weight]) => ({ symbol, weight })),
+    ...(restWeight > 0 ? rest.map((symbol) => ({ symbol, weight: restWeight })) : [])
+  ];
+}
+
+/**
+ * Reads a backtest request from chat: "80% VWCE + 20% AGGH dal 2015,
+ * 10k iniziali e 500 CHF al mese, ribilanciamento annuale, commissioni 5 CHF".
+ */
+export function parseBacktestRequest(
+  text: string,
+  symbols: string[]
+): Partial<BacktestParams> & { weights: BacktestParams["weights"] } {
+  const result: Partial<BacktestParams> & { weights: BacktestParams["weights"] } = {
+    weights: parseWeights(text, symbols)
+  };
+
+  const isoStart = /\b(\d{4}-\d{2}-\d{2})\b/.exec(text);
+  const monthStart =
+    /\b(?:dal|dall'|da|since|from|inizio)\s+(?:(\d{1,2})[/.-])?((?:19|20)\d{2})\b/i.exec(text);
+  if (isoStart) {
+    result.start = isoStart[1];
+  } else if (monthStart) {
+    result.start = `${monthStart[2]}-${(monthStart[1] ?? "1").padStart(2, "0")}-01`;
+  }
+
+  const monthly = new RegExp(
+    `${AMOUNT}${CURRENCY}\\s*(?:\\/\\s*(?:mese|month|mo)\\b|(?:al|a|per|each|every|ogni)\\s+(?:mese|month)|mensili|monthly)`,
+    "i"
+  ).exec(text);
+  if (monthly) result.monthlyContribution = parseAmount(monthly[1]);
+
+  const lump =
+    new RegExp(
+      `${AMOUNT}${CURRENCY}\\s*(?:iniziali|iniziale|subito|una\\s+tantum|lump\\s*sum|upfront|initial)`,
+      "i"
+    ).exec(text) ??
+    new RegExp(
+      `(?:lump\\s*sum|capitale\\s+iniziale|investimento\\s+iniziale)\\s*(?:di|of)?\\s*${AMOUNT}`,
+      "i"
+    ).exec(text);
+  if (lump) result.lumpSum = parseAmount(lump[1]);
+
+  if (/\b(?:nessun|senza|no)\s+ribilanciament|\bno\s+rebalanc|\bwithout\s+rebalanc/i.test(text)) {
+    result.rebalance = { kind: "none" };
+  } else {
+    const threshold =
+      /\b(?:soglia|threshold|banda|band)\s*(?:di|del|of)?\s*(\d+(?:[.,]\d+)?)\s*%/i.exec(text);
+    if (threshold) {
+      result.rebalance = {
+        kind: "threshold",
+        driftPct: Number.parseFloat(threshold[1].replace(",", "."))
+      };
+    } else if (/\b(?:annual[ei]?|annually|yearly|ogni\s+anno)\b/i.test(text)) {
+      result.rebalance = { kind: "annual" };
+    }
+  }
+
+  const fee =
+    /\b(?:commission[ei]?|fees?|costo)\s*(?:di|del|of)?\s*(\d+(?:[.,]\d+)?)\s*(%|CHF|EUR|USD|GBP)?/i.exec(
+      text
+    );
+  if (fee) {
+    const amount = Number.parseFloat(fee[1].replace(",", "."));
+    result.fees = fee[2] === "%" ? { perTrade: 0, pct: amount } : { perTrade: amount, pct: 0 };
+  }
+
+  return result;
+}
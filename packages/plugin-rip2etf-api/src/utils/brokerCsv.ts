@@ -0,0 +1,288 @@
+import {
+  type PortfolioTransaction,
+  type TransactionKind,
+  type TransactionSource,
+  transactionId
+} from "./portfolio";
+
+export type BrokerFormat = Exclude<TransactionSource, "chat">;
+
+export interface BrokerStatement {
+  format: BrokerFormat;
+  transactions: PortfolioTransaction[];
+  /** Data rows that were not trades or dividends, or could not be read. */
+  skipped: number;
+}
+
+type Draft = Omit<PortfolioTransaction, "id" | "source">;
+
+/** RFC 4180 rows: quoted fields may contain the delimiter, doubled quotes and newlines. */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      if (row.some((cell) => cell.trim())) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((cell) => cell.trim())) rows.push(row);
+  return rows.map((cells) => cells.map((cell) => cell.trim()));
+}
+
+/**
+ * Broker numbers: "1'105.50", "1,105.50", "1.105,50", "110,5", "-3.00".
+ * With `decimal` "." commas are thousands separators (IBKR, Swissquote).
+ * Otherwise the last separator is the decimal one when both appear, and a
+ * lone comma is read as decimal, as in Degiro's European exports.
+ */
+export function parseNumber(raw: string | undefined, decimal?: "."): number | undefined {
+  if (!raw) return undefined;
+  let text = raw.replace(/['’\s]/g, "");
+  if (decimal === ".") {
+    text = text.replace(/,/g, "");
+  } else if (text.includes(",") && text.includes(".")) {
+    text =
+      text.lastIndexOf(",") > text.lastIndexOf(".")
+        ? text.replace(/\./g, "").replace(",", ".")
+        : text.replace(/,/g, "");
+  } else {
+    text = text.replace(",", ".");
+  }
+  const value = Number.parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** "2024-03-01, 09:15:02", "05-03-2024 10:21:33", "01-03-2024", "05.03.2024" → "2024-03-05". */
+function parseDate(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(raw);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const european = /^(\d{1,2})[-./](\d{1,2})[-./](\d{4})/.exec(raw);
+  if (!european) return undefined;
+  return `${european[3]}-${european[2].padStart(2, "0")}-${european[1].padStart(2, "0")}`;
+}
+
+const column = (header: string[], ...names: string[]) =>
+  header.findIndex((cell) => names.some((name) => cell.toLowerCase() === name.toLowerCase()));
+
+/**
+ * Interactive Brokers activity statement: sections share one file, each with
+ * its own "Header" row. Only the Trades (order rows) and Dividends sections
+ * are read; dividends are gross, withholding is not subtracted.
+ */
+function parseIbkr(rows: string[][]): { drafts: Draft[]; skipped: number } {
+  const drafts: Draft[] = [];
+  let skipped = 0;
+  const headers = new Map<string, string[]>();
+  for (const row of rows) {
+    const [section, kind] = row;
+    if (kind === "Header") {
+      headers.set(section, row);
+      continue;
+    }
+    if (kind !== "Data") continue;
+    const header = headers.get(section);
+    if (!header) continue;
+    const cell = (...names: string[]) => row[column(header, ...names)];
+
+    if (section === "Trades") {
+      const quantity = parseNumber(cell("Quantity"), ".");
+      const price = parseNumber(cell("T. Price"), ".");
+      const date = parseDate(cell("Date/Time"));
+      if (row[2] !== "Order" || !quantity || !price || !date) {
+        skipped += 1;
+        continue;
+      }
+      drafts.push({
+        kind: quantity > 0 ? "buy" : "sell",
+        date,
+        symbol: cell("Symbol").toUpperCase(),
+        quantity: Math.abs(quantity),
+        price,
+        fees: Math.abs(parseNumber(cell("Comm/Fee"), ".") ?? 0),
+        currency: cell("Currency").toUpperCase()
+      });
+    } else if (section === "Dividends") {
+      const description = cell("Description") ?? "";
+      const match = /^([A-Z0-9.]+)\s*\(([A-Z]{2}[A-Z0-9]{9}\d)\)/.exec(description);
+      const amount = parseNumber(cell("Amount"), ".");
+      const date = parseDate(cell("Date"));
+      if (!match || !amount || !date) {
+        skipped += 1;
+        continue;
+      }
+      drafts.push({
+        kind: "dividend",
+        date,
+        symbol: match[1],
+        isin: match[2],
+        quantity: 0,
+        price: 0,
+        amount,
+        fees: 0,
+        currency: cell("Currency").toUpperCase()
+      });
+    }
+  }
+  return { drafts, skipped };
+}
+
+const SWISSQUOTE_KINDS: Record<string, TransactionKind> = {
+  buy: "buy",
+  sell: "sell",
+  dividend: "dividend",
+  kauf: "buy",
+  verkauf: "sell",
+  dividende: "dividend",
+  achat: "buy",
+  vente: "sell"
+};
+
+/** Swissquote transaction export (semicolon separated, one row per booking). */
+function parseSwissquote(rows: string[][]): { drafts: Draft[]; skipped: number } {
+  const [header, ...data] = rows;
+  const index = {
+    date: column(header, "Date", "Datum"),
+    kind: column(header, "Transaction", "Transaktion"),
+    symbol: column(header, "Symbol"),
+    isin: column(header, "ISIN"),
+    quantity: column(header, "Quantity", "Anzahl", "Quantité"),
+    price: column(header, "Unit price", "Stückpreis", "Prix unitaire"),
+    costs: column(header, "Costs", "Kosten", "Frais"),
+    net: column(header, "Net Amount", "Nettobetrag", "Montant net"),
+    currency: column(header, "Currency", "Währung", "Devise")
+  };
+
+  const drafts: Draft[] = [];
+  let skipped = 0;
+  for (const row of data) {
+    const kind = SWISSQUOTE_KINDS[row[index.kind]?.toLowerCase() ?? ""];
+    const date = parseDate(row[index.date]);
+    const symbol = (row[index.symbol] || row[index.isin] || "").toUpperCase();
+    if (!kind || !date || !symbol) {
+      skipped += 1;
+      continue;
+    }
+    const isin = row[index.isin]?.toUpperCase() || undefined;
+    const currency = row[index.currency]?.toUpperCase() ?? "";
+    if (kind === "dividend") {
+      const amount = parseNumber(row[index.net], ".");
+      if (!amount) {
+        skipped += 1;
+        continue;
+      }
+      drafts.push({ kind, date, symbol, isin, quantity: 0, price: 0, amount, fees: 0, currency });
+      continue;
+    }
+    const quantity = parseNumber(row[index.quantity], ".");
+    const price = parseNumber(row[index.price], ".");
+    if (!quantity || !price) {
+      skipped += 1;
+      continue;
+    }
+    drafts.push({
+      kind,
+      date,
+      symbol,
+      isin,
+      quantity: Math.abs(quantity),
+      price,
+      fees: Math.abs(parseNumber(row[index.costs], ".") ?? 0),
+      currency
+    });
+  }
+  return { drafts, skipped };
+}
+
+/**
+ * Degiro Transactions.csv (English, Dutch or German headers). Columns are read
+ * by position because several headers are blank: the unnamed column after
+ * each amount holds its currency. Fees are charged in the account currency
+ * and converted with the row's exchange rate. Dividends live in Account.csv
+ * and are not read here.
+ */
+function parseDegiro(rows: string[][]): { drafts: Draft[]; skipped: number } {
+  const drafts: Draft[] = [];
+  let skipped = 0;
+  for (const row of rows.slice(1)) {
+    const date = parseDate(row[0]);
+    const isin = row[3]?.toUpperCase();
+    const quantity = parseNumber(row[6]);
+    const price = parseNumber(row[7]);
+    const currency = row[8]?.toUpperCase();
+    if (!date || !isin || !quantity || !price || !currency) {
+      skipped += 1;
+      continue;
+    }
+    const fees = Math.abs(parseNumber(row[14]) ?? 0);
+    const feeCurrency = row[15]?.toUpperCase();
+    const rate = parseNumber(row[13]);
+    drafts.push({
+      kind: quantity > 0 ? "buy" : "sell",
+      date,
+      symbol: isin,
+      isin,
+      quantity: Math.abs(quantity),
+      price,
+      fees: feeCurrency && feeCurrency !== currency && rate ? fees * rate : fees,
+      currency
+    });
+  }
+  return { drafts, skipped };
+}
+
+export function detectBrokerFormat(text: string): BrokerFormat | null {
+  const head = text.trimStart().split(/\r?\n/, 1)[0] ?? "";
+  if (/^(?:Statement|Trades|Dividends),(?:Header|Data),/m.test(text)) return "ibkr";
+  if (head.includes(";") && /\b(?:Transaction|Transaktion)\b/i.test(head)) return "swissquote";
+  if (/^(?:Date|Datum),(?:Time|Tijd|Zeit),(?:Product|Produkt),ISIN\b/i.test(head)) return "degiro";
+  return null;
+}
+
+/** Trades and dividends from an IBKR, Swissquote or Degiro export; null for unknown layouts. */
+export function parseBrokerStatement(text: string): BrokerStatement | null {
+  const format = detectBrokerFormat(text);
+  if (!format) return null;
+  const rows = parseCsv(text.trim(), format === "swissquote" ? ";" : ",");
+  const { drafts, skipped } =
+    format === "ibkr"
+      ? parseIbkr(rows)
+      : format === "swissquote"
+        ? parseSwissquote(rows)
+        : parseDegiro(rows);
+
+  // the same trade can legitimately appear twice in one file (two fills at one price)
+  const occurrences = new Map<string, number>();
+  const transactions = drafts.map((draft) => {
+    const base = { ...draft, source: format };
+    const key = transactionId(base);
+    const seen = occurrences.get(key) ?? 0;
+    occurrences.set(key, seen + 1);
+    return { ...base, id: seen ? transactionId(base, seen) : key };
+  });
+  return { format, transactions, skipped };
+}
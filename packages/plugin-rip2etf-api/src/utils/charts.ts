@@ -1,10 +1,14 @@
-import { createCanvas } from "@napi-rs/canvas";
+import { ContentType, type Media } from "@elizaos/core";
+import { type SKRSContext2D, SvgExportFlag, createCanvas } from "@napi-rs/canvas";
 import {
   Chart,
   type ChartConfiguration,
   type ChartDataset as ChartJSDataset,
+  type ChartType,
   registerables
 } from "chart.js";
+import { rip2etfSettings } from "../settings";
+import { debugLog } from "./logger";
 
 Chart.register(...registerables);
 
@@ -29,6 +33,31 @@ const palette = [
   "#b2df8a"
 ];
 
+export type ChartTheme = "light" | "dark";
+
+interface ThemeColors {
+  background: string;
+  text: string;
+  grid: string;
+  /** Heatmap midpoint (zero correlation). */
+  neutral: string;
+}
+
+const THEMES: Record<ChartTheme, ThemeColors> = {
+  light: {
+    background: "#ffffff",
+    text: "#1f2933",
+    grid: "rgba(0, 0, 0, 0.08)",
+    neutral: "#f7f7f7"
+  },
+  dark: {
+    background: "#111827",
+    text: "#e5e7eb",
+    grid: "rgba(255, 255, 255, 0.12)",
+    neutral: "#374151"
+  }
+};
+
 export interface ChartDataset {
   label: string;
   data: Array<number | null>;
@@ -36,100 +65,381 @@ export interface ChartDataset {
   backgroundColor?: string;
 }
 
+interface ChartMeta {
+  title?: string;
+  /** Alt text for the attachment. */
+  description?: string;
+}
+
+/** Declarative chart description; actions build these and let `renderChart` draw them. */
+export type ChartSpec = ChartMeta &
+  (
+    | { kind: "line"; labels: string[]; datasets: ChartDataset[] }
+    /** Grouped bars, e.g. calendar-year returns per ETF; `unit` is appended to tick labels. */
+    | { kind: "bar"; labels: string[]; datasets: ChartDataset[]; stacked?: boolean; unit?: string }
+    /** Stacked area, e.g. allocation over time. */
+    | { kind: "area"; labels: string[]; datasets: ChartDataset[]; unit?: string }
+    /** Underwater chart: datasets hold drawdowns in % (≤ 0). */
+    | { kind: "drawdown"; labels: string[]; datasets: ChartDataset[] }
+    | { kind: "pie"; labels: string[]; values: number[]; doughnut?: boolean }
+    /** Square matrix such as pairwise correlations; null cells are left blank. */
+    | {
+        kind: "heatmap";
+        labels: string[];
+        matrix: Array<Array<number | null>>;
+        min?: number;
+        max?: number;
+      }
+  );
+
+export type ChartKind = ChartSpec["kind"];
+
+export interface ChartRenderOptions {
+  theme?: ChartTheme;
+  /** Also render an SVG copy next to the PNG. */
+  svg?: boolean;
+  width?: number;
+  height?: number;
+}
+
 export type ChartConfig = ChartConfiguration<"line", Array<number | null>, string>;
 
 export interface ChartResult {
+  kind: ChartKind;
+  title?: string;
+  description?: string;
   chartUrl: string;
-  config: ChartConfig;
+  /** Chart.js configuration; absent for charts drawn directly on the canvas (heatmap). */
+  config?: ChartConfiguration;
   mimeType: string;
   buffer: Buffer;
   fileName: string;
+  svg?: { buffer: Buffer; fileName: string; mimeType: string };
+}
+
+function lineDatasets(datasets: ChartDataset[], fill: boolean | string = false) {
+  return datasets.map((dataset, index): ChartJSDataset<"line", Array<number | null>> => {
+    const color = dataset.borderColor ?? palette[index % palette.length];
+    return {
+      label: dataset.label,
+      data: dataset.data,
+      borderColor: color,
+      backgroundColor: dataset.backgroundColor ?? (fill ? `${color}99` : color),
+      pointRadius: 0,
+      tension: 0.25,
+      borderWidth: fill ? 1 : 2,
+      spanGaps: true,
+      fill
+    };
+  });
+}
+
+const tickFormatter =
+  (unit = "", digits = 1) =>
+  (value: number | string) =>
+    typeof value === "number" && Number.isFinite(value) ? `${value.toFixed(digits)}${unit}` : value;
+
+function axes(colors: ThemeColors, options: { stacked?: boolean; unit?: string; digits?: number }) {
+  return {
+    x: {
+      stacked: options.stacked,
+      ticks: { maxTicksLimit: 12, color: colors.text },
+      grid: { color: colors.grid }
+    },
+    y: {
+      stacked: options.stacked,
+      ticks: { color: colors.text, callback: tickFormatter(options.unit, options.digits) },
+      grid: { color: colors.grid }
+    }
+  };
+}
+
+function baseOptions(colors: ThemeColors, title?: string) {
+  return {
+    responsive: false,
+    animation: false as const,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: "bottom" as const, labels: { color: colors.text } },
+      title: { display: Boolean(title), text: title, color: colors.text }
+    }
+  };
 }
 
 function buildLineChartConfig(
   labels: string[],
   datasets: ChartDataset[],
-  title?: string
+  title?: string,
+  colors: ThemeColors = THEMES.light
 ): ChartConfig {
-  const styledDatasets: ChartJSDataset<"line", Array<number | null>>[] = datasets.map(
-    (dataset, index) => {
-      const color = dataset.borderColor ?? palette[index % palette.length];
-      return {
-        label: dataset.label,
-        data: dataset.data,
-        borderColor: color,
-        backgroundColor: dataset.backgroundColor ?? color,
-        pointRadius: 0,
-        tension: 0.25,
-        borderWidth: 2,
-        spanGaps: true
-      };
-    }
-  );
-
   return {
     type: "line",
-    data: { labels, datasets: styledDatasets },
+    data: { labels, datasets: lineDatasets(datasets) },
     options: {
-      responsive: false,
-      animation: false,
-      maintainAspectRatio: false,
-      plugins: {
-        legend: { position: "bottom" },
-        title: { display: Boolean(title), text: title }
-      },
+      ...baseOptions(colors, title),
       interaction: {
         intersect: false,
         mode: "nearest"
       },
-      scales: {
-        x: {
-          ticks: { maxTicksLimit: 12 }
+      scales: axes(colors, {})
+    }
+  };
+}
+
+function buildChartConfig(spec: Exclude<ChartSpec, { kind: "heatmap" }>, colors: ThemeColors) {
+  switch (spec.kind) {
+    case "line":
+      return buildLineChartConfig(spec.labels, spec.datasets, spec.title, colors);
+    case "area":
+      return {
+        type: "line",
+        data: { labels: spec.labels, datasets: lineDatasets(spec.datasets, "stack") },
+        options: {
+          ...baseOptions(colors, spec.title),
+          interaction: { intersect: false, mode: "index" },
+          scales: axes(colors, { stacked: true, unit: spec.unit, digits: 0 })
+        }
+      } satisfies ChartConfiguration<"line", Array<number | null>, string>;
+    case "drawdown":
+      return {
+        type: "line",
+        data: {
+          labels: spec.labels,
+          datasets: lineDatasets(spec.datasets, "origin").map((dataset) => ({
+            ...dataset,
+            tension: 0
+          }))
+        },
+        options: {
+          ...baseOptions(colors, spec.title),
+          interaction: { intersect: false, mode: "nearest" },
+          scales: {
+            ...axes(colors, { unit: "%" }),
+            y: { ...axes(colors, { unit: "%" }).y, max: 0 }
+          }
+        }
+      } satisfies ChartConfiguration<"line", Array<number | null>, string>;
+    case "bar":
+      return {
+        type: "bar",
+        data: {
+          labels: spec.labels,
+          datasets: spec.datasets.map((dataset, index) => ({
+            label: dataset.label,
+            data: dataset.data,
+            backgroundColor:
+              dataset.backgroundColor ?? dataset.borderColor ?? palette[index % palette.length]
+          }))
         },
-        y: {
-          ticks: {
-            callback: (value: number | string) => {
-              if (typeof value === "number" && Number.isFinite(value)) {
-                return value.toFixed(1);
-              }
-              return value;
+        options: {
+          ...baseOptions(colors, spec.title),
+          scales: axes(colors, { stacked: spec.stacked, unit: spec.unit })
+        }
+      } satisfies ChartConfiguration<"bar", Array<number | null>, string>;
+    case "pie":
+      return {
+        type: spec.doughnut ? "doughnut" : "pie",
+        data: {
+          labels: spec.labels,
+          datasets: [
+            {
+              data: spec.values,
+              backgroundColor: spec.values.map((_, index) => palette[index % palette.length]),
+              borderColor: colors.background
             }
+          ]
+        },
+        options: {
+          ...baseOptions(colors, spec.title),
+          plugins: {
+            ...baseOptions(colors, spec.title).plugins,
+            legend: { position: "right" as const, labels: { color: colors.text } }
           }
         }
+      } satisfies ChartConfiguration<"pie" | "doughnut", number[], string>;
+  }
+}
+
+function mix(from: string, to: string, ratio: number) {
+  const parse = (hex: string) => [1, 3, 5].map((i) => Number.parseInt(hex.slice(i, i + 2), 16));
+  const [a, b] = [parse(from), parse(to)];
+  const channels = a.map((value, i) => Math.round(value + (b[i] - value) * ratio));
+  return `rgb(${channels.join(", ")})`;
+}
+
+/** Chart.js has no matrix chart without a plugin, so heatmaps are drawn by hand. */
+function drawHeatmap(
+  ctx: SKRSContext2D,
+  spec: Extract<ChartSpec, { kind: "heatmap" }>,
+  colors: ThemeColors,
+  width: number,
+  height: number
+) {
+  const min = spec.min ?? -1;
+  const max = spec.max ?? 1;
+  const size = spec.labels.length;
+  const top = spec.title ? 50 : 20;
+  const left = 110;
+  const bottom = 50;
+  const cell = Math.max(Math.min((width - left - 20) / size, (height - top - bottom) / size), 1);
+  const originX = left + (width - left - 20 - cell * size) / 2;
+
+  ctx.fillStyle = colors.text;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  if (spec.title) {
+    ctx.font = "bold 16px sans-serif";
+    ctx.fillText(spec.title, width / 2, top / 2);
+  }
+
+  ctx.font = `${Math.min(14, Math.max(9, cell / 5))}px sans-serif`;
+  spec.matrix.forEach((row, i) => {
+    row.forEach((value, j) => {
+      const x = originX + j * cell;
+      const y = top + i * cell;
+      if (value === null || !Number.isFinite(value)) {
+        ctx.strokeStyle = colors.grid;
+        ctx.strokeRect(x, y, cell, cell);
+        return;
       }
-    }
-  };
+      const midpoint = (min + max) / 2;
+      const ratio = Math.min(Math.abs(value - midpoint) / ((max - min) / 2), 1);
+      ctx.fillStyle = mix(colors.neutral, value >= midpoint ? "#b2182b" : "#2166ac", ratio);
+      ctx.fillRect(x, y, cell, cell);
+      ctx.fillStyle = ratio > 0.6 ? "#ffffff" : colors.text;
+      ctx.fillText(value.toFixed(2), x + cell / 2, y + cell / 2);
+    });
+  });
+
+  ctx.fillStyle = colors.text;
+  ctx.font = "13px sans-serif";
+  spec.labels.forEach((label, index) => {
+    ctx.textAlign = "right";
+    ctx.fillText(label, originX - 8, top + index * cell + cell / 2);
+    ctx.textAlign = "center";
+    ctx.fillText(label, originX + index * cell + cell / 2, top + size * cell + 16);
+  });
 }
 
 function bufferToDataUrl(buffer: Buffer, mimeType: string) {
   return `data:${mimeType};base64,${buffer.toString("base64")}`;
 }
 
-export async function createLineChartImage(
-  labels: string[],
-  datasets: ChartDataset[],
-  title?: string
-): Promise<ChartResult> {
-  const config = buildLineChartConfig(labels, datasets, title);
-  const canvas = createCanvas(chartWidth, chartHeight);
-  const ctx = canvas.getContext("2d");
-
+/** Draws the spec, hands the canvas to `encode` and only then tears Chart.js down (destroy clears it). */
+function draw<T>(
+  ctx: SKRSContext2D,
+  spec: ChartSpec,
+  colors: ThemeColors,
+  width: number,
+  height: number,
+  encode: () => T
+): { config?: ChartConfiguration; output: T } {
   // solid background to avoid transparent PNGs on dark mode clients
-  ctx.fillStyle = "#ffffff";
-  ctx.fillRect(0, 0, chartWidth, chartHeight);
+  ctx.fillStyle = colors.background;
+  ctx.fillRect(0, 0, width, height);
 
-  const chart = new Chart(ctx as unknown as CanvasRenderingContext2D, config);
-  chart.update();
+  if (spec.kind === "heatmap") {
+    drawHeatmap(ctx, spec, colors, width, height);
+    return { output: encode() };
+  }
 
-  const buffer = canvas.toBuffer("image/png");
+  const config = buildChartConfig(spec, colors) as ChartConfiguration;
+  const chart = new Chart(ctx as unknown as ConstructorParameters<typeof Chart>[0], config);
+  chart.update();
+  const output = encode();
   chart.destroy();
+  return { config, output };
+}
+
+export async function renderChart(
+  spec: ChartSpec,
+  options: ChartRenderOptions = {}
+): Promise<ChartResult> {
+  const colors = THEMES[options.theme ?? rip2etfSettings.CHART_THEME];
+  const width = options.width ?? chartWidth;
+  const height = options.height ?? chartHeight;
+  const stamp = Date.now();
+  const baseName = `rip2etf-${spec.kind === "line" ? "chart" : spec.kind}-${stamp}`;
 
+  const canvas = createCanvas(width, height);
   const mimeType = "image/png";
+  const { config, output: buffer } = draw(
+    canvas.getContext("2d"),
+    spec,
+    colors,
+    width,
+    height,
+    () => canvas.toBuffer(mimeType)
+  );
+
+  let svg: ChartResult["svg"];
+  if (options.svg ?? rip2etfSettings.CHART_SVG) {
+    const svgCanvas = createCanvas(width, height, SvgExportFlag.ConvertTextToPaths);
+    const { output } = draw(svgCanvas.getContext("2d"), spec, colors, width, height, () =>
+      svgCanvas.getContent()
+    );
+    svg = {
+      buffer: output,
+      fileName: `${baseName}.svg`,
+      mimeType: "image/svg+xml"
+    };
+  }
+
   return {
+    kind: spec.kind,
+    title: spec.title,
+    description: spec.description,
     chartUrl: bufferToDataUrl(buffer, mimeType),
     config,
     mimeType,
     buffer,
-    fileName: `rip2etf-chart-${Date.now()}.png`
+    fileName: `${baseName}.png`,
+    svg
   };
 }
+
+/** Renders every spec in order; a chart that fails is logged and skipped. */
+export async function renderCharts(
+  specs: ChartSpec[],
+  options: ChartRenderOptions = {}
+): Promise<ChartResult[]> {
+  const results: ChartResult[] = [];
+  for (const spec of specs) {
+    try {
+      results.push(await renderChart(spec, options));
+    } catch (error) {
+      debugLog("chart_render_error", { kind: spec.kind, error: (error as Error).message });
+    }
+  }
+  return results;
+}
+
+/** PNG attachment for a rendered chart, plus the SVG copy as a document when present. */
+export function chartAttachments(result: ChartResult, source: string): Media[] {
+  const png: Media = {
+    id: result.fileName.replace(/\.png$/, ""),
+    url: result.fileName,
+    data: result.buffer,
+    filename: result.fileName,
+    mimeType: result.mimeType,
+    title: result.title,
+    description: result.description,
+    source,
+    contentType: ContentType.IMAGE
+  };
+  if (!result.svg) return [png];
+  return [
+    png,
+    {
+      id: result.svg.fileName.replace(/\.svg$/, ""),
+      url: result.svg.fileName,
+      data: result.svg.buffer,
+      filename: result.svg.fileName,
+      mimeType: result.svg.mimeType,
+      title: result.title,
+      description: result.description,
+      source,
+      contentType: ContentType.DOCUMENT
+    }
+  ];
+}
@@ -0,0 +1,88 @@
+import type { Bar, PriceHistory } from "../types";
+
+export const BASE_CURRENCIES = ["CHF", "EUR", "USD", "GBP"] as const;
+export type BaseCurrency = (typeof BASE_CURRENCIES)[number];
+
+const CURRENCY_WORDS: Record<string, BaseCurrency> = {
+  chf: "CHF",
+  franchi: "CHF",
+  "franchi svizzeri": "CHF",
+  "swiss francs": "CHF",
+  franken: "CHF",
+  eur: "EUR",
+  euro: "EUR",
+  usd: "USD",
+  dollari: "USD",
+  dollars: "USD",
+  dollar: "USD",
+  gbp: "GBP",
+  sterline: "GBP",
+  pounds: "GBP"
+};
+
+const BASE_CURRENCY_REGEX = new RegExp(
+  `\\b(?:in|into|en|auf)\\s+(${Object.keys(CURRENCY_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .join("|")})\\b`,
+  "i"
+);
+
+export function isBaseCurrency(value: string): value is BaseCurrency {
+  return (BASE_CURRENCIES as readonly string[]).includes(value);
+}
+
+/** Reads the reporting currency from phrases like "in CHF", "in euro", "in dollari". */
+export function parseBaseCurrency(text: string): BaseCurrency | undefined {
+  if (!text) return undefined;
+  const match = BASE_CURRENCY_REGEX.exec(text);
+  return match ? CURRENCY_WORDS[match[1].toLowerCase()] : undefined;
+}
+
+/**
+ * Multiplies every price by the FX rate in effect on that day (last known
+ * rate, so FX holidays don't drop bars). Bars older than the first rate are
+ * discarded rather than converted with a guess.
+ */
+export function convertHistory(
+  history: PriceHistory,
+  rates: Array<{ t: string; v: number }>,
+  currency: string,
+  dataSources: string[] = []
+): PriceHistory {
+  const sortedRates = rates
+    .filter((rate) => Number.isFinite(rate.v) && rate.v > 0)
+    .sort((a, b) => a.t.localeCompare(b.t));
+
+  const bars: Bar[] = [];
+  let cursor = -1;
+  for (const bar of history.bars) {
+    while (cursor + 1 < sortedRates.length && sortedRates[cursor + 1].t <= bar.t) {
+      cursor += 1;
+    }
+    if (cursor < 0) continue;
+    const rate = sortedRates[cursor].v;
+    const scale = (value?: number) => (value === undefined ? undefined : value * rate);
+    bars.push({
+      ...bar,
+      o: scale(bar.o),
+      h: scale(bar.h),
+      l: scale(bar.l),
+      c: bar.c * rate
+    });
+  }
+
+  return {
+    ...history,
+    bars,
+    currency,
+    dataSources: Array.from(new Set([...history.dataSources, ...dataSources]))
+  };
+}
+
+export function formatMoney(value?: number, currency?: string) {
+  if (value === undefined || Number.isNaN(value)) return "n/d";
+  const unit = currency ? ` ${currency}` : "";
+  if (value >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(1)}B${unit}`;
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M${unit}`;
+  return `${value.toFixed(0)}${unit}`;
+}
@@ -0,0 +1,170 @@
+import type { PriceHistory } from "../types";
+
+type Point = { t: string; v: number };
+
+/** How a FRED series is summarised: an index as its year-on-year change, a rate as its level. */
+export type MacroKind = "yoy" | "rate";
+
+export const MACRO_SERIES: Record<string, { label: string; kind: MacroKind }> = {
+  CPIAUCSL: { label: "Inflazione USA (CPI)", kind: "yoy" },
+  CPILFESL: { label: "Inflazione core USA", kind: "yoy" },
+  CP0000EZ19M086NEST: { label: "Inflazione Eurozona (HICP)", kind: "yoy" },
+  CHECPIALLMINMEI: { label: "Inflazione Svizzera (CPI)", kind: "yoy" },
+  DGS10: { label: "Treasury USA 10 anni", kind: "rate" },
+  DGS2: { label: "Treasury USA 2 anni", kind: "rate" },
+  DGS3MO: { label: "T-bill USA 3 mesi", kind: "rate" },
+  FEDFUNDS: { label: "Fed funds", kind: "rate" },
+  ECBDFR: { label: "Tasso sui depositi BCE", kind: "rate" }
+};
+
+export interface EtfDigestRow {
+  symbol: string;
+  currency?: string;
+  asOf: string;
+  close: number;
+  weekPct: number | null;
+  monthPct: number | null;
+  ytdPct: number | null;
+}
+
+export interface MacroDigestRow {
+  id: string;
+  label: string;
+  kind: MacroKind;
+  asOf: string;
+  /** Rate in % or year-on-year change in %. */
+  value: number;
+  /** For rates: change in basis points over a week and a month. */
+  weekChangeBp?: number | null;
+  monthChangeBp?: number | null;
+  /** For indices: the previous observation's year-on-year change. */
+  previousValue?: number | null;
+}
+
+export interface DigestReport {
+  asOf: string;
+  period: "week" | "month";
+  etfs: EtfDigestRow[];
+  macro: MacroDigestRow[];
+  /** Symbols or series with no usable data. */
+  missing: string[];
+  dataSources: string[];
+}
+
+function shiftDate(isoDate: string, { days = 0, months = 0 }: { days?: number; months?: number }) {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Last point on or before `date`. */
+function valueAt(points: Point[], date: string): Point | undefined {
+  let found: Point | undefined;
+  for (const point of points) {
+    if (point.t > date) break;
+    found = point;
+  }
+  return found;
+}
+
+const changePct = (from: Point | undefined, to: Point) =>
+  from && from.v > 0 && from.t < to.t ? (to.v / from.v - 1) * 100 : null;
+
+export function etfDigestRow(history: PriceHistory): EtfDigestRow | null {
+  const points = history.bars
+    .filter((bar) => Number.isFinite(bar.c) && bar.c > 0)
+    .map((bar) => ({ t: bar.t, v: bar.c }));
+  const last = points[points.length - 1];
+  if (!last) return null;
+  return {
+    symbol: history.symbol,
+    currency: history.currency,
+    asOf: last.t,
+    close: last.v,
+    weekPct: changePct(valueAt(points, shiftDate(last.t, { days: -7 })), last),
+    monthPct: changePct(valueAt(points, shiftDate(last.t, { months: -1 })), last),
+    ytdPct: changePct(valueAt(points, `${Number(last.t.slice(0, 4)) - 1}-12-31`), last)
+  };
+}
+
+export function macroDigestRow(id: string, observations: Point[]): MacroDigestRow | null {
+  const points = observations.filter((point) => Number.isFinite(point.v));
+  const last = points[points.length - 1];
+  if (!last) return null;
+  const { label, kind } = MACRO_SERIES[id] ?? { label: id, kind: "rate" as const };
+
+  if (kind === "yoy") {
+    const yoy = (point: Point | undefined) => {
+      if (!point) return null;
+      const base = valueAt(points, shiftDate(point.t, { months: -12 }));
+      // monthly series: the base must be the same month one year earlier
+      return base && base.t.slice(0, 7) === shiftDate(point.t, { months: -12 }).slice(0, 7)
+        ? (point.v / base.v - 1) * 100
+        : null;
+    };
+    const value = yoy(last);
+    if (value === null) return null;
+    return { id, label, kind, asOf: last.t, value, previousValue: yoy(points[points.length - 2]) };
+  }
+
+  const bp = (from: Point | undefined) =>
+    from && from.t < last.t ? (last.v - from.v) * 100 : null;
+  return {
+    id,
+    label,
+    kind,
+    asOf: last.t,
+    value: last.v,
+    weekChangeBp: bp(valueAt(points, shiftDate(last.t, { days: -7 }))),
+    monthChangeBp: bp(valueAt(points, shiftDate(last.t, { months: -1 })))
+  };
+}
+
+const signedPct = (value: number | null | undefined) =>
+  value === null || value === undefined ? "n/d" : `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+const signedBp = (value: number | null | undefined) =>
+  value === null || value === undefined ? "n/d" : `${value >= 0 ? "+" : ""}${Math.round(value)} pb`;
+
+export function formatEtfRow(row: EtfDigestRow): string {
+  return `- ${row.symbol}${row.currency ? ` (${row.currency})` : ""}: 1S ${signedPct(row.weekPct)} · 1M ${signedPct(row.monthPct)} · YTD ${signedPct(row.ytdPct)} · close ${row.close.toFixed(2)} al ${row.asOf}`;
+}
+
+export function formatMacroRow(row: MacroDigestRow): string {
+  if (row.kind === "yoy") {
+    const previous =
+      row.previousValue !== null && row.previousValue !== undefined
+        ? ` (prec. ${row.previousValue.toFixed(1)}%)`
+        : "";
+    return `- ${row.label}: ${row.value.toFixed(1)}% a/a a ${row.asOf.slice(0, 7)}${previous}`;
+  }
+  return `- ${row.label}: ${row.value.toFixed(2)}% (1S ${signedBp(row.weekChangeBp)} · 1M ${signedBp(row.monthChangeBp)}) al ${row.asOf}`;
+}
+
+/** The tables of the digest; also the only facts the commentary may quote. */
+export function formatDigestTables(report: DigestReport): string {
+  return [
+    report.etfs.length ? "Performance (valuta di quotazione):" : "",
+    ...report.etfs.map(formatEtfRow),
+    report.macro.length ? "Macro (FRED):" : "",
+    ...report.macro.map(formatMacroRow),
+    report.missing.length ? `Dati non disponibili: ${report.missing.join(", ")}` : ""
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+const NUMBER_PATTERN = /[-+]?\d+(?:[.,]\d+)?/g;
+
+const normalizeNumber = (raw: string) => String(Math.abs(Number.parseFloat(raw.replace(",", "."))));
+
+/**
+ * Numbers in `text` that do not appear in `facts` (sign and decimal comma
+ * ignored), so commentary quoting anything not computed can be rejected.
+ */
+export function unsupportedNumbers(text: string, facts: string): string[] {
+  const allowed = new Set((facts.match(NUMBER_PATTERN) ?? []).map(normalizeNumber));
+  return Array.from(
+    new Set((text.match(NUMBER_PATTERN) ?? []).filter((raw) => !allowed.has(normalizeNumber(raw))))
+  );
+}
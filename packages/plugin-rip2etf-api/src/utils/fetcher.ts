@@ -1,25 +1,113 @@
-import { debugHttp, debugLog } from "./logger";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { rip2etfSettings } from "../settings";
+import { debugHttp, debugLog, sanitizeUrl } from "./logger";
 
 const DEFAULT_HEADERS = {
   "User-Agent": "rip2etf-plugin/0.1",
   Accept: "application/json;q=0.9,text/plain;q=0.8,*/*;q=0.5"
 } as const;
 
+/** A recorded response, stored as one JSON file per request under `RIP2ETF_FIXTURES_DIR`. */
+export interface HttpFixture {
+  method: string;
+  /** Sanitised, so fixtures never carry API keys. */
+  url: string;
+  status: number;
+  statusText: string;
+  contentType?: string;
+  body: string;
+}
+
+/**
+ * Fixtures are keyed on the sanitised URL, so a recording made with one API
+ * key replays with any other key, or none.
+ */
+export function fixturePath(method: string, url: string, dir = rip2etfSettings.FIXTURES_DIR) {
+  const sanitized = sanitizeUrl(url);
+  let host = "local";
+  try {
+    host = new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    // keep the placeholder
+  }
+  const hash = createHash("sha1").update(`${method} ${sanitized}`).digest("hex").slice(0, 12);
+  return path.resolve(dir, `${host}-${hash}.json`);
+}
+
+// query values sanitizeUrl masks; some APIs echo them back in the body
+function secretValues(url: string): string[] {
+  try {
+    const raw = new URL(url);
+    const clean = new URL(sanitizeUrl(url));
+    return Array.from(raw.searchParams)
+      .filter(([key, value]) => value && clean.searchParams.get(key) !== value)
+      .map(([, value]) => value);
+  } catch {
+    return [];
+  }
+}
+
+async function replay(method: string, url: string): Promise<Response> {
+  const file = fixturePath(method, url);
+  let fixture: HttpFixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(file, "utf8")) as HttpFixture;
+  } catch {
+    throw new Error(`No fixture for ${method} ${sanitizeUrl(url)} (${path.basename(file)})`);
+  }
+  return new Response(fixture.body, {
+    status: fixture.status,
+    statusText: fixture.statusText,
+    headers: fixture.contentType ? { "content-type": fixture.contentType } : undefined
+  });
+}
+
+async function record(method: string, url: string, res: Response) {
+  const body = secretValues(url).reduce(
+    (text, secret) => text.split(secret).join("***"),
+    await res.clone().text()
+  );
+  const fixture: HttpFixture = {
+    method,
+    url: sanitizeUrl(url),
+    status: res.status,
+    statusText: res.statusText,
+    contentType: res.headers.get("content-type") ?? undefined,
+    body
+  };
+  const file = fixturePath(method, url);
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+    debugLog("http_fixture_saved", { url: fixture.url, file });
+  } catch (error) {
+    debugLog("http_fixture_error", { url: fixture.url, file, error: (error as Error).message });
+  }
+}
+
 async function request(url: string, opts?: RequestInit) {
   const method = opts?.method ?? "GET";
+  const mode = rip2etfSettings.HTTP_MODE;
   const start = Date.now();
 
-  const res = await fetch(url, {
-    ...opts,
-    headers: {
-      ...DEFAULT_HEADERS,
-      ...(opts?.headers ?? {})
-    }
-  });
+  const res =
+    mode === "replay"
+      ? await replay(method, url)
+      : await fetch(url, {
+          ...opts,
+          headers: {
+            ...DEFAULT_HEADERS,
+            ...(opts?.headers ?? {})
+          }
+        });
+  if (mode === "record") await record(method, url, res);
 
   debugHttp(method, url, {
     status: res.status,
-    durationMs: Date.now() - start
+    durationMs: Date.now() - start,
+    ...(mode === "live" ? {} : { extra: { mode } })
   });
 
   if (!res.ok) {
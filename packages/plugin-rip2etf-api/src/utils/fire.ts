@@ -0,0 +1,376 @@
+import { z } from "zod";
+import type { CompareSeries } from "../types";
+import { normalizeWeights, parseAmount, parseWeights } from "./backtest";
+
+export const withdrawalRuleSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("fixed"), ratePct: z.number().positive().max(20).default(4) }),
+  z.object({
+    kind: z.literal("guardrails"),
+    ratePct: z.number().positive().max(20).default(4.5),
+    /** Cut (or raise) spending when the current rate drifts this far from the initial one. */
+    bandPct: z.number().positive().max(100).default(20),
+    adjustPct: z.number().positive().max(50).default(10)
+  }),
+  z.object({
+    kind: z.literal("vpw"),
+    /** Real return assumed by the amortisation table. */
+    expectedRealReturnPct: z.number().min(-5).max(15).default(3.5)
+  })
+]);
+
+export const firePlanSchema = z.object({
+  currentSavings: z.number().min(0),
+  /** Yearly amount saved until retirement. */
+  annualSavings: z.number().min(0).default(0),
+  /** Yearly spending in today's money. */
+  annualExpenses: z.number().positive(),
+  weights: z.array(z.object({ symbol: z.string().min(1), weight: z.number().positive() })).min(1),
+  yearsToRetirement: z.number().int().min(0).max(60).default(0),
+  /** Years simulated in retirement. */
+  horizonYears: z.number().int().min(1).max(80).default(40),
+  withdrawal: withdrawalRuleSchema.default({ kind: "fixed", ratePct: 4 }),
+  method: z.enum(["bootstrap", "montecarlo"]).default("bootstrap"),
+  simulations: z.number().int().min(100).max(20_000).default(2_000),
+  inflationPct: z.number().min(-2).max(15).default(2),
+  seed: z.number().int().default(42),
+  /** Bootstrap block length in months; keeps crashes and recoveries together. */
+  blockMonths: z.number().int().min(1).max(60).default(12)
+});
+
+export type WithdrawalRule = z.infer<typeof withdrawalRuleSchema>;
+export type FirePlanParams = z.infer<typeof firePlanSchema>;
+
+export const FIRE_PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+export interface FirePlanResult {
+  simulations: number;
+  /** Share of paths whose portfolio never ran out. */
+  successRatePct: number;
+  /** Share of retirement years in which the rule paid less than `annualExpenses`. */
+  shortfallYearsPct: number;
+  /** Portfolio needed on day one of retirement for the rule's initial rate. */
+  fireNumber?: number;
+  /** Year-end portfolio percentiles in today's money, year 0 = today. */
+  bands: Array<{ year: number; percentiles: Record<number, number> }>;
+  medianRetirementValue: number;
+  medianFinalValue: number;
+  /** Median real first-year withdrawal. */
+  medianInitialWithdrawal: number;
+  history: {
+    start: string;
+    end: string;
+    months: number;
+    annualReturnPct: number;
+    volatilityPct: number;
+  };
+}
+
+/** Small, fast and seedable; good enough for resampling. */
+export function mulberry32(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function gaussian(random: () => number) {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Month-end returns of a portfolio rebalanced monthly to `weights`, from
+ * aligned series (e.g. `alignAndRebase` output).
+ */
+export function monthlyPortfolioReturns(
+  dates: string[],
+  table: CompareSeries[],
+  weights: FirePlanParams["weights"]
+): Array<{ t: string; r: number }> | null {
+  const targets = normalizeWeights(weights);
+  const series = targets.map((target) => table.find((entry) => entry.symbol === target.symbol));
+  if (series.some((entry) => !entry)) return null;
+
+  const monthEnds: number[] = [];
+  dates.forEach((date, index) => {
+    const next = dates[index + 1];
+    const valid = series.every((entry) => Number.isFinite(entry!.points[index]?.v));
+    if (valid && (!next || next.slice(0, 7) !== date.slice(0, 7))) monthEnds.push(index);
+  });
+
+  const returns: Array<{ t: string; r: number }> = [];
+  for (let i = 1; i < monthEnds.length; i += 1) {
+    const [from, to] = [monthEnds[i - 1], monthEnds[i]];
+    const r = targets.reduce(
+      (acc, target, asset) =>
+        acc + target.weight * (series[asset]!.points[to].v / series[asset]!.points[from].v - 1),
+      0
+    );
+    returns.push({ t: dates[to], r });
+  }
+  return returns;
+}
+
+function percentile(sorted: number[], pct: number) {
+  if (!sorted.length) return 0;
+  const rank = (pct / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+const median = (values: number[]) =>
+  percentile(
+    [...values].sort((a, b) => a - b),
+    50
+  );
+
+/** Amortisation rate that spends the whole portfolio over `years` at `realReturn`. */
+function vpwRate(realReturn: number, years: number) {
+  if (years <= 1) return 1;
+  if (Math.abs(realReturn) < 1e-9) return 1 / years;
+  return realReturn / (1 - (1 + realReturn) ** -years);
+}
+
+/**
+ * Runs `params.simulations` paths month by month: savings are added during
+ * accumulation, then spending is taken at the start of each retirement year
+ * according to the withdrawal rule (fixed and guardrails start from
+ * `ratePct` of the portfolio, like the classic 4% rule). Values are nominal
+ * internally and reported in today's money. The same seed always gives the
+ * same result.
+ */
+export function simulateFirePlan(
+  monthlyReturns: Array<{ t: string; r: number }>,
+  params: FirePlanParams
+): FirePlanResult | null {
+  if (monthlyReturns.length < params.blockMonths * 2) return null;
+
+  const random = mulberry32(params.seed);
+  const returns = monthlyReturns.map((entry) => entry.r);
+  const logReturns = returns.map((r) => Math.log(1 + r));
+  const mu = logReturns.reduce((acc, value) => acc + value, 0) / logReturns.length;
+  const sigma = Math.sqrt(
+    logReturns.reduce((acc, value) => acc + (value - mu) ** 2, 0) / (logReturns.length - 1)
+  );
+
+  const annualInflation = 1 + params.inflationPct / 100;
+  const monthlyInflation = annualInflation ** (1 / 12) - 1;
+  const totalYears = params.yearsToRetirement + params.horizonYears;
+  const rule = params.withdrawal;
+  const initialRate = rule.kind === "vpw" ? undefined : rule.ratePct;
+
+  const yearEnd: number[][] = Array.from({ length: totalYears + 1 }, () => []);
+  const retirementValues: number[] = [];
+  const finalValues: number[] = [];
+  const initialWithdrawals: number[] = [];
+  let successes = 0;
+  let shortfallYears = 0;
+
+  for (let path = 0; path < params.simulations; path += 1) {
+    let portfolio = params.currentSavings;
+    let priceLevel = 1;
+    let withdrawal = 0;
+    let depleted = false;
+    let cursor = Math.floor(random() * returns.length);
+    let blockLeft = 0;
+    yearEnd[0].push(portfolio);
+
+    const nextReturn = () => {
+      if (params.method === "montecarlo") return Math.exp(mu + sigma * gaussian(random)) - 1;
+      if (blockLeft === 0) {
+        cursor = Math.floor(random() * returns.length);
+        blockLeft = params.blockMonths;
+      }
+      blockLeft -= 1;
+      const r = returns[cursor];
+      cursor = (cursor + 1) % returns.length;
+      return r;
+    };
+
+    for (let year = 1; year <= totalYears; year += 1) {
+      const retired = year > params.yearsToRetirement;
+      const retirementYear = year - params.yearsToRetirement;
+
+      if (retired && !depleted) {
+        const need = params.annualExpenses * priceLevel;
+        if (retirementYear === 1) {
+          retirementValues.push(portfolio / priceLevel);
+          withdrawal =
+            rule.kind === "vpw"
+              ? portfolio * vpwRate(rule.expectedRealReturnPct / 100, params.horizonYears)
+              : (portfolio * rule.ratePct) / 100;
+          initialWithdrawals.push(withdrawal / priceLevel);
+        } else if (rule.kind === "fixed") {
+          withdrawal *= annualInflation;
+        } else if (rule.kind === "guardrails") {
+          withdrawal *= annualInflation;
+          const currentRate = portfolio > 0 ? (withdrawal / portfolio) * 100 : Infinity;
+          const band = rule.bandPct / 100;
+          if (currentRate > rule.ratePct * (1 + band)) withdrawal *= 1 - rule.adjustPct / 100;
+          else if (currentRate < rule.ratePct * (1 - band)) withdrawal *= 1 + rule.adjustPct / 100;
+        } else {
+          const remaining = params.horizonYears - retirementYear + 1;
+          withdrawal = portfolio * vpwRate(rule.expectedRealReturnPct / 100, remaining);
+        }
+
+        if (withdrawal < need * 0.999) shortfallYears += 1;
+        portfolio -= withdrawal;
+        if (portfolio <= 0) {
+          portfolio = 0;
+          // VPW spends the remainder in the last year by design; that is not a failure
+          depleted = rule.kind !== "vpw" || retirementYear < params.horizonYears;
+        }
+      } else if (retired) {
+        shortfallYears += 1;
+      }
+
+      for (let month = 0; month < 12; month += 1) {
+        if (!retired) portfolio += (params.annualSavings / 12) * priceLevel;
+        portfolio *= 1 + nextReturn();
+        priceLevel *= 1 + monthlyInflation;
+      }
+      if (depleted) portfolio = 0;
+      yearEnd[year].push(portfolio / priceLevel);
+    }
+
+    if (!depleted) successes += 1;
+    finalValues.push(portfolio / priceLevel);
+  }
+
+  const annualReturn = Math.exp(mu * 12) - 1;
+  return {
+    simulations: params.simulations,
+    successRatePct: (successes / params.simulations) * 100,
+    shortfallYearsPct: (shortfallYears / (params.simulations * params.horizonYears)) * 100,
+    fireNumber: initialRate ? params.annualExpenses / (initialRate / 100) : undefined,
+    bands: yearEnd.map((values, year) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        year,
+        percentiles: Object.fromEntries(
+          FIRE_PERCENTILES.map((pct) => [pct, percentile(sorted, pct)])
+        )
+      };
+    }),
+    medianRetirementValue: median(retirementValues),
+    medianFinalValue: median(finalValues),
+    medianInitialWithdrawal: median(initialWithdrawals),
+    history: {
+      start: monthlyReturns[0].t,
+      end: monthlyReturns[monthlyReturns.length - 1].t,
+      months: monthlyReturns.length,
+      annualReturnPct: annualReturn * 100,
+      volatilityPct: sigma * Math.sqrt(12) * 100
+    }
+  };
+}
+
+const AMOUNT = "(\\d[\\d'’.,]*\\s*[kKmM]?)";
+const CURRENCY = "(?:\\s*(?:CHF|EUR|USD|GBP|€|\\$|franchi|euro|dollari))?";
+const PER_MONTH =
+  "(?:\\/\\s*(?:mese|month|mo)\\b|(?:al|a|per|each|every|ogni)\\s+(?:mese|month)|mensili|monthly)";
+const PER_YEAR =
+  "(?:\\/\\s*(?:anno|year|yr)\\b|(?:all'|l'|per|each|every|ogni|al)\\s*(?:anno|year)|annu[ia]|annual|yearly)";
+
+function amountNear(
+  text: string,
+  keywords: string
+): { value: number; monthly: boolean } | undefined {
+  const before = new RegExp(
+    `(?:${keywords})\\s*(?:di|of|:|=|circa|about)?\\s*${AMOUNT}${CURRENCY}\\s*(${PER_MONTH}|${PER_YEAR})?`,
+    "i"
+  ).exec(text);
+  const match =
+    before ??
+    new RegExp(
+      `${AMOUNT}${CURRENCY}\\s*(${PER_MONTH}|${PER_YEAR})?\\s*(?:di\\s+)?(?:${keywords})`,
+      "i"
+    ).exec(text);
+  if (!match) return undefined;
+  const raw = match[1].trim();
+  const millions = /m$/i.test(raw);
+  const value = parseAmount(millions ? raw.slice(0, -1) : raw);
+  if (value === undefined) return undefined;
+  return {
+    value: millions ? value * 1_000_000 : value,
+    monthly: Boolean(match[2]) && new RegExp(PER_MONTH, "i").test(match[2])
+  };
+}
+
+const yearly = (amount?: { value: number; monthly: boolean }) =>
+  amount ? (amount.monthly ? amount.value * 12 : amount.value) : undefined;
+
+/**
+ * Reads a FIRE plan from chat, e.g. "ho 300k investiti, risparmio 2000 al
+ * mese, spese 45k all'anno, 80% VWCE 20% AGGH, pensione tra 10 anni per 40
+ * anni, guardrails". Missing fields are left to the schema defaults.
+ */
+export function parseFireRequest(text: string, symbols: string[]): Partial<FirePlanParams> {
+  const result: Partial<FirePlanParams> = { weights: parseWeights(text, symbols) };
+
+  const savings = amountNear(
+    text,
+    "ho|con|patrimonio|risparmi(?:\\s+attuali)?|capitale|portafoglio|investiti|net\\s*worth|savings|portfolio"
+  );
+  if (savings && !savings.monthly) result.currentSavings = savings.value;
+
+  const contribution = amountNear(
+    text,
+    "risparmio|metto\\s+da\\s+parte|verso|investo|accantono|save|saving|contribut[a-z]*"
+  );
+  if (contribution) result.annualSavings = yearly(contribution);
+
+  const expenses = amountNear(
+    text,
+    "spese|spendo|spesa|costo\\s+della\\s+vita|expenses|spend(?:ing)?"
+  );
+  if (expenses) result.annualExpenses = yearly(expenses);
+
+  const retire =
+    /\b(?:pensione|fire|retire(?:ment)?|smetto\s+di\s+lavorare)\s+(?:tra|in|fra)\s+(\d{1,2})\s*(?:anni|years)/i.exec(
+      text
+    );
+  if (retire) result.yearsToRetirement = Number(retire[1]);
+  else if (/\b(?:già\s+in\s+pensione|already\s+retired|sono\s+fire)\b/i.test(text)) {
+    result.yearsToRetirement = 0;
+  }
+
+  const horizon =
+    /\b(?:per|for|durata|orizzonte|horizon)\s*(?:di\s+)?(\d{1,2})\s*(?:anni|years)\b/i.exec(text);
+  if (horizon) result.horizonYears = Number(horizon[1]);
+
+  const rate =
+    /\b(\d(?:[.,]\d+)?)\s*%\s*(?:rule|regola|swr|prelievo|withdrawal)|\b(?:regola\s+del|prelievo\s+(?:del|al)?|swr|withdrawal(?:\s+rate)?(?:\s+of)?)\s*(\d(?:[.,]\d+)?)\s*%/i.exec(
+      text
+    );
+  const ratePct = rate ? Number.parseFloat((rate[1] ?? rate[2]).replace(",", ".")) : undefined;
+  if (/\bvpw\b|variable\s+percentage/i.test(text)) {
+    result.withdrawal = { kind: "vpw", expectedRealReturnPct: 3.5 };
+  } else if (/\bguardrail|guyton|klinger/i.test(text)) {
+    result.withdrawal = { kind: "guardrails", ratePct: ratePct ?? 4.5, bandPct: 20, adjustPct: 10 };
+  } else if (ratePct !== undefined) {
+    result.withdrawal = { kind: "fixed", ratePct };
+  }
+
+  if (/\bmonte\s*carlo\b/i.test(text)) result.method = "montecarlo";
+  else if (/\bbootstrap|storic[oa]\b|historical/i.test(text)) result.method = "bootstrap";
+
+  const inflation = /\b(?:inflazione|inflation)\s*(?:del|of|al)?\s*(\d(?:[.,]\d+)?)\s*%/i.exec(
+    text
+  );
+  if (inflation) result.inflationPct = Number.parseFloat(inflation[1].replace(",", "."));
+
+  const seed = /\bseed\s*[:=]?\s*(\d{1,9})\b/i.exec(text);
+  if (seed) result.seed = Number(seed[1]);
+
+  const simulations = /\b(\d{3,5})\s*(?:simulazioni|simulations|scenari|paths)\b/i.exec(text);
+  if (simulations) result.simulations = Number(simulations[1]);
+
+  return result;
+}
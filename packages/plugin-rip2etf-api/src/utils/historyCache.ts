@@ -0,0 +1,187 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { rip2etfSettings } from "../settings";
+import type { Bar, PriceHistory } from "../types";
+import { debugLog } from "./logger";
+
+const CACHE_PREFIX = "rip2etf";
+
+export interface CachedHistory {
+  history: PriceHistory;
+  fetchedAt: number;
+}
+
+export interface IncrementalFetchParams {
+  /** First date (YYYY-MM-DD) still missing from the cache, if any bars are cached. */
+  since?: string;
+  /** Provider-specific symbol that resolved on a previous lookup (e.g. `vwce.de`). */
+  sourceSymbol?: string;
+}
+
+export type IncrementalFetcher = (params: IncrementalFetchParams) => Promise<PriceHistory | null>;
+
+const historyKey = (source: string, symbol: string) =>
+  `${CACHE_PREFIX}:history:${source}:${symbol.toUpperCase()}`;
+
+const resolvedSymbolKey = (source: string, symbol: string) =>
+  `${CACHE_PREFIX}:resolved:${source}:${symbol.toUpperCase()}`;
+
+export async function readCache<T>(runtime: IAgentRuntime, key: string): Promise<T | undefined> {
+  try {
+    return await runtime.getCache<T>(key);
+  } catch (error) {
+    debugLog("cache_read_error", { key, error: (error as Error).message });
+    return undefined;
+  }
+}
+
+export async function writeCache<T>(runtime: IAgentRuntime, key: string, value: T) {
+  try {
+    await runtime.setCache<T>(key, value);
+  } catch (error) {
+    debugLog("cache_write_error", { key, error: (error as Error).message });
+  }
+}
+
+export function mergeBars(existing: Bar[], incoming: Bar[]): Bar[] {
+  const byDate = new Map<string, Bar>();
+  for (const bar of existing) byDate.set(bar.t, bar);
+  // newer downloads win: providers may revise the last (partial) session
+  for (const bar of incoming) byDate.set(bar.t, bar);
+  return Array.from(byDate.values()).sort((a, b) => a.t.localeCompare(b.t));
+}
+
+export function nextMissingDate(history: PriceHistory): string | undefined {
+  const last = history.bars[history.bars.length - 1]?.t;
+  if (!last) return undefined;
+  const date = new Date(`${last}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return undefined;
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export function isFresh(
+  entry: { fetchedAt: number },
+  now = Date.now(),
+  ttlMinutes = rip2etfSettings.HISTORY_CACHE_TTL_MINUTES
+) {
+  const ttlMs = ttlMinutes * 60_000;
+  return ttlMs > 0 && now - entry.fetchedAt < ttlMs;
+}
+
+export async function getResolvedSymbol(
+  runtime: IAgentRuntime,
+  source: string,
+  symbol: string
+): Promise<string | undefined> {
+  return readCache<string>(runtime, resolvedSymbolKey(source, symbol));
+}
+
+export async function rememberResolvedSymbol(
+  runtime: IAgentRuntime,
+  source: string,
+  symbol: string,
+  sourceSymbol: string
+) {
+  await writeCache(runtime, resolvedSymbolKey(source, symbol), sourceSymbol);
+}
+
+/**
+ * Serves `PriceHistory` from the agent cache and only asks the provider for
+ * bars newer than the last stored date. Falls back to the cached copy when
+ * the provider fails or is throttled.
+ */
+export async function withHistoryCache(
+  runtime: IAgentRuntime | undefined,
+  source: string,
+  symbol: string,
+  fetcher: IncrementalFetcher
+): Promise<PriceHistory | null> {
+  if (!runtime) {
+    return fetcher({});
+  }
+
+  const key = historyKey(source, symbol);
+  const cached = await readCache<CachedHistory>(runtime, key);
+  const sourceSymbol =
+    cached?.history.sourceSymbol ?? (await getResolvedSymbol(runtime, source, symbol));
+
+  if (cached?.history.bars.length && isFresh(cached)) {
+    debugLog("history_cache_hit", { source, symbol, bars: cached.history.bars.length });
+    return cached.history;
+  }
+
+  const since = cached?.history.bars.length ? nextMissingDate(cached.history) : undefined;
+  debugLog("history_cache_refresh", { source, symbol, since, sourceSymbol });
+
+  let fresh: PriceHistory | null;
+  try {
+    fresh = await fetcher({ since, sourceSymbol });
+  } catch (error) {
+    // a throttled or failing provider still has its stored bars to offer
+    if (!cached?.history.bars.length) throw error;
+    debugLog("history_cache_stale", { source, symbol, error: (error as Error).message });
+    return cached.history;
+  }
+
+  if (!fresh?.bars.length) {
+    if (cached?.history.bars.length) {
+      // nothing new (weekend, holiday) or provider unavailable: keep serving the stored bars
+      await writeCache<CachedHistory>(runtime, key, { ...cached, fetchedAt: Date.now() });
+      return cached.history;
+    }
+    return fresh;
+  }
+
+  const history: PriceHistory = cached
+    ? {
+        ...cached.history,
+        ...fresh,
+        bars: mergeBars(cached.history.bars, fresh.bars),
+        dataSources: Array.from(new Set([...cached.history.dataSources, ...fresh.dataSources]))
+      }
+    : fresh;
+
+  await writeCache<CachedHistory>(runtime, key, { history, fetchedAt: Date.now() });
+  if (history.sourceSymbol && history.sourceSymbol !== sourceSymbol) {
+    await rememberResolvedSymbol(runtime, source, symbol, history.sourceSymbol);
+  }
+
+  return history;
+}
+
+interface CachedLookup<T> {
+  value: T | null;
+  fetchedAt: number;
+}
+
+/**
+ * Caches a one-shot lookup (dividends, profiles, ...) for the history TTL
+ * unless `ttlMinutes` says otherwise, "not found" included. A failing refresh
+ * serves the stale copy when there is one.
+ */
+export async function withLookupCache<T>(
+  runtime: IAgentRuntime | undefined,
+  key: string,
+  fetch: () => Promise<T | null>,
+  ttlMinutes?: number
+): Promise<T | null> {
+  if (!runtime) return fetch();
+
+  const cacheKey = `${CACHE_PREFIX}:${key}`;
+  const cached = await readCache<CachedLookup<T>>(runtime, cacheKey);
+  if (cached && isFresh(cached, Date.now(), ttlMinutes)) {
+    debugLog("lookup_cache_hit", { key });
+    return cached.value;
+  }
+
+  let value: T | null;
+  try {
+    value = await fetch();
+  } catch (error) {
+    if (!cached) throw error;
+    debugLog("lookup_cache_stale", { key, error: (error as Error).message });
+    return cached.value;
+  }
+  await writeCache<CachedLookup<T>>(runtime, cacheKey, { value, fetchedAt: Date.now() });
+  return value;
+}
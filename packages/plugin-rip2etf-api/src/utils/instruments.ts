@@ -0,0 +1,336 @@
+import { findRegistryEtf, type RegistryEtf } from "../data/registry";
+
+export type ExchangeCode = "US" | "XETRA" | "LSE" | "SIX" | "BIT" | "AEB";
+
+interface ExchangeInfo {
+  label: string;
+  /** Case-insensitive names as users write them in chat. */
+  names: string[];
+  /** Short codes, matched only when written in uppercase ("SIX", not "six months"). */
+  codes: string[];
+  currency: string;
+  stooqSuffix?: string;
+  alphaVantageSuffix?: string;
+  /** Yahoo-style suffix, understood by FMP and Finnhub. */
+  marketSuffix: string;
+}
+
+export const EXCHANGES: Record<ExchangeCode, ExchangeInfo> = {
+  US: {
+    label: "NYSE/Nasdaq",
+    names: ["nyse arca", "wall street"],
+    codes: ["NYSE", "ARCA"],
+    currency: "USD",
+    stooqSuffix: ".us",
+    alphaVantageSuffix: "",
+    marketSuffix: ""
+  },
+  XETRA: {
+    label: "Xetra",
+    names: ["xetra", "francoforte", "frankfurt"],
+    codes: ["XETR", "GER"],
+    currency: "EUR",
+    stooqSuffix: ".de",
+    alphaVantageSuffix: ".DEX",
+    marketSuffix: ".DE"
+  },
+  LSE: {
+    label: "London Stock Exchange",
+    names: ["london stock exchange", "borsa di londra", "londra", "london"],
+    codes: ["LSE", "LON"],
+    currency: "GBP",
+    stooqSuffix: ".uk",
+    alphaVantageSuffix: ".LON",
+    marketSuffix: ".L"
+  },
+  SIX: {
+    label: "SIX Swiss Exchange",
+    names: ["six swiss exchange", "borsa svizzera", "zurigo", "zurich"],
+    codes: ["SIX", "SWX"],
+    currency: "CHF",
+    marketSuffix: ".SW"
+  },
+  BIT: {
+    label: "Borsa Italiana",
+    names: ["borsa italiana", "piazza affari", "milano", "milan"],
+    codes: ["BIT", "MIL", "MTA"],
+    currency: "EUR",
+    marketSuffix: ".MI"
+  },
+  AEB: {
+    label: "Euronext Amsterdam",
+    names: ["euronext amsterdam", "amsterdam"],
+    codes: ["AEB", "AMS"],
+    currency: "EUR",
+    marketSuffix: ".AS"
+  }
+};
+
+export const EXCHANGE_CODES = Object.values(EXCHANGES).flatMap((exchange) => exchange.codes);
+
+export const LISTING_CURRENCIES = ["USD", "EUR", "CHF", "GBP"] as const;
+
+export interface ListingPreference {
+  exchange?: ExchangeCode;
+  currency?: string;
+}
+
+export interface InstrumentListing {
+  exchange?: ExchangeCode;
+  ticker: string;
+  currency?: string;
+}
+
+export interface ProviderSymbols {
+  /** Explicit Stooq candidates; when absent the provider falls back to suffix probing. */
+  stooq?: string[];
+  /** Absent when Alpha Vantage has no suffix for the exchange. */
+  alphaVantage?: string;
+  fmp: string;
+  finnhub: string;
+}
+
+export interface ResolvedInstrument {
+  /** What the user asked for (ticker or ISIN). */
+  query: string;
+  /** Ticker shown in charts and summaries. */
+  symbol: string;
+  /** Stable key for caches: ticker plus exchange when known. */
+  id: string;
+  isin?: string;
+  name?: string;
+  listing: InstrumentListing;
+  /** Other listings of the same fund in the same currency, tried when the preferred one has no data. */
+  alternates: InstrumentListing[];
+  providerSymbols: ProviderSymbols;
+}
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+/** ISO 6166 check digit: letters expand to two digits, then Luhn over the string. */
+export function isValidIsin(value: string): boolean {
+  const isin = value.trim().toUpperCase();
+  if (!ISIN_PATTERN.test(isin)) return false;
+
+  const digits = isin
+    .split("")
+    .map((char) => (/[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char))
+    .join("");
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i -= 1) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+export function looksLikeIsin(value: string): boolean {
+  return ISIN_PATTERN.test(value.trim().toUpperCase());
+}
+
+function escapeRegExp(input: string): string {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const EXCHANGE_PATTERNS: Array<{ code: ExchangeCode; pattern: RegExp }> = (
+  Object.entries(EXCHANGES) as Array<[ExchangeCode, ExchangeInfo]>
+).flatMap(([code, info]) => [
+  ...info.names.map((name) => ({ code, pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`, "i") })),
+  ...info.codes.map((short) => ({ code, pattern: new RegExp(`\\b${short}\\b`) }))
+]);
+
+export function parseExchange(text: string): ExchangeCode | undefined {
+  return EXCHANGE_PATTERNS.find(({ pattern }) => pattern.test(text))?.code;
+}
+
+const CONNECTOR = "(?:\\s+(?:su|sulla|sul|on|at|@))?\\s+";
+
+const EXCHANGE_NAMES = Object.values(EXCHANGES)
+  .flatMap((exchange) => exchange.names)
+  .map(escapeRegExp)
+  .join("|");
+const EXCHANGE_SHORT_CODES = EXCHANGE_CODES.join("|");
+
+/**
+ * Finds listing qualifiers attached to each symbol ("VWCE su Xetra", "CSPX USD",
+ * "CSSPX SIX CHF"). A single exchange named anywhere in the message applies to
+ * symbols without their own qualifier.
+ */
+export function extractListingPreferences(
+  text: string,
+  symbols: string[]
+): { bySymbol: Map<string, ListingPreference>; global: ListingPreference } {
+  const bySymbol = new Map<string, ListingPreference>();
+  if (!text) return { bySymbol, global: {} };
+
+  const currencies = LISTING_CURRENCIES.join("|");
+  for (const symbol of symbols) {
+    const escaped = escapeRegExp(symbol);
+    const preference: ListingPreference = {};
+
+    const byName = new RegExp(`\\b${escaped}\\b${CONNECTOR}(${EXCHANGE_NAMES})\\b`, "i").exec(text);
+    const byCode = new RegExp(`\\b${escaped}\\b${CONNECTOR}(${EXCHANGE_SHORT_CODES})\\b`).exec(
+      text
+    );
+    const venue = byName?.[1] ?? byCode?.[1];
+    if (venue) {
+      preference.exchange = parseExchange(venue);
+    }
+
+    // a currency directly after the ticker (or after its exchange) qualifies the listing;
+    // "in CHF" elsewhere in the message is left to the reporting currency
+    const currencyMatch = new RegExp(
+      `\\b${escaped}\\b(?:${CONNECTOR}(?:${venue ? escapeRegExp(venue) : "(?!)"}))?[\\s/(-]+(${currencies})\\b`
+    ).exec(text);
+    if (currencyMatch) {
+      preference.currency = currencyMatch[1];
+    }
+
+    if (preference.exchange || preference.currency) {
+      bySymbol.set(symbol, preference);
+    }
+  }
+
+  const mentioned = new Set(
+    EXCHANGE_PATTERNS.filter(({ pattern }) => pattern.test(text)).map((entry) => entry.code)
+  );
+  const global: ListingPreference = mentioned.size === 1 ? { exchange: [...mentioned][0] } : {};
+
+  return { bySymbol, global };
+}
+
+function pickListing(etf: RegistryEtf, query: string, preference: ListingPreference) {
+  const listings = etf.listings.map((listing) => ({
+    exchange: (listing.exchange in EXCHANGES ? listing.exchange : undefined) as
+      | ExchangeCode
+      | undefined,
+    ticker: listing.ticker.toUpperCase(),
+    currency: listing.currency.toUpperCase()
+  }));
+
+  const byExchange = preference.exchange
+    ? listings.filter((listing) => listing.exchange === preference.exchange)
+    : listings;
+  const byCurrency = preference.currency
+    ? byExchange.filter((listing) => listing.currency === preference.currency)
+    : byExchange;
+  const pool = byCurrency.length ? byCurrency : byExchange.length ? byExchange : listings;
+
+  return pool.find((listing) => listing.ticker === query) ?? pool[0];
+}
+
+function stooqSymbol(listing: InstrumentListing): string | undefined {
+  const suffix = listing.exchange ? EXCHANGES[listing.exchange].stooqSuffix : undefined;
+  return suffix ? `${listing.ticker.toLowerCase()}${suffix}` : undefined;
+}
+
+function buildProviderSymbols(
+  listing: InstrumentListing,
+  fallbacks: InstrumentListing[] = []
+): ProviderSymbols {
+  const exchange = listing.exchange ? EXCHANGES[listing.exchange] : undefined;
+  const ticker = listing.ticker;
+
+  const stooqCandidates = [listing, ...fallbacks]
+    .map(stooqSymbol)
+    .filter((candidate): candidate is string => Boolean(candidate));
+
+  return {
+    stooq: listing.exchange ? Array.from(new Set(stooqCandidates)) : undefined,
+    alphaVantage: !exchange
+      ? ticker
+      : exchange.alphaVantageSuffix !== undefined
+        ? `${ticker}${exchange.alphaVantageSuffix}`
+        : undefined,
+    fmp: `${ticker}${exchange?.marketSuffix ?? ""}`,
+    finnhub: `${ticker}${exchange?.marketSuffix ?? ""}`
+  };
+}
+
+/**
+ * Maps a ticker or ISIN to a canonical instrument with one listing and the
+ * symbol each provider expects. Returns null for ISINs that fail the checksum
+ * or are not in the registry (no free API resolves them).
+ */
+export function resolveInstrument(
+  query: string,
+  preference: ListingPreference = {}
+): ResolvedInstrument | null {
+  const normalized = query.trim().toUpperCase();
+  if (!normalized) return null;
+
+  const isIsin = looksLikeIsin(normalized);
+  if (isIsin && !isValidIsin(normalized)) return null;
+
+  const etf = findRegistryEtf(normalized);
+  if (!etf) {
+    if (isIsin) return null;
+    const currency =
+      preference.currency ??
+      (preference.exchange ? EXCHANGES[preference.exchange].currency : undefined);
+    const listing: InstrumentListing = {
+      exchange: preference.exchange,
+      ticker: normalized,
+      currency
+    };
+    return {
+      query: normalized,
+      symbol: normalized,
+      id: preference.exchange ? `${normalized}.${preference.exchange}` : normalized,
+      listing,
+      alternates: [],
+      providerSymbols: buildProviderSymbols(listing)
+    };
+  }
+
+  const listing = pickListing(etf, normalized, preference);
+  const others = etf.listings
+    .filter(
+      (other) =>
+        other.ticker.toUpperCase() !== listing.ticker || other.exchange !== listing.exchange
+    )
+    .map((other) => ({
+      exchange: (other.exchange in EXCHANGES ? other.exchange : undefined) as
+        | ExchangeCode
+        | undefined,
+      ticker: other.ticker.toUpperCase(),
+      currency: other.currency
+    }));
+  // data for another listing of the same fund beats no data at all, but only if
+  // it trades in the same currency as the one we report
+  const sameCurrency = others.filter((other) => other.currency === listing.currency);
+
+  return {
+    query: normalized,
+    symbol: listing.ticker,
+    id: listing.exchange ? `${listing.ticker}.${listing.exchange}` : listing.ticker,
+    isin: etf.isin,
+    name: etf.name,
+    listing,
+    alternates: sameCurrency,
+    providerSymbols: buildProviderSymbols(listing, sameCurrency)
+  };
+}
+
+/** The listing whose Stooq symbol actually returned data, so the snapshot reports what it used. */
+export function listingForSourceSymbol(
+  instrument: ResolvedInstrument,
+  sourceSymbol?: string
+): InstrumentListing {
+  if (!sourceSymbol) return instrument.listing;
+  const match = instrument.alternates.find((listing) => stooqSymbol(listing) === sourceSymbol);
+  return match ?? instrument.listing;
+}
+
+export function describeListing(instrument: ResolvedInstrument): string {
+  const { listing } = instrument;
+  const venue = listing.exchange ? EXCHANGES[listing.exchange].label : "listing non specificato";
+  return `${instrument.symbol} · ${venue}${listing.currency ? ` (${listing.currency})` : ""}`;
+}
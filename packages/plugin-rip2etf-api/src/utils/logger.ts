@@ -2,7 +2,7 @@ import { rip2etfSettings } from "../settings";
 
 const SECRET_PARAMS = new Set(["apikey", "token", "key", "api_key"]);
 
-function sanitizeUrl(raw: string): string {
+export function sanitizeUrl(raw: string): string {
   try {
     const url = new URL(raw);
     for (const [key] of url.searchParams) {
@@ -0,0 +1,33 @@
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+
+/** True for the agent's own replies, so rip2etf actions never re-trigger on their output. */
+export function isAgentMessage(runtime: IAgentRuntime, message: Memory): boolean {
+  if (!message) return false;
+
+  const agentId = runtime.agentId;
+  if (agentId && message.entityId === agentId) {
+    return true;
+  }
+
+  const role = (message.content as any)?.role;
+  if (typeof role === "string" && role.toLowerCase() === "assistant") {
+    return true;
+  }
+
+  const author = (message.content as any)?.author;
+  if (author && typeof author === "object" && "id" in author && author.id === agentId) {
+    return true;
+  }
+
+  const sourceTag = message.metadata?.source;
+  if (sourceTag && sourceTag.startsWith("rip2etf.")) {
+    return true;
+  }
+
+  const tags = message.metadata?.tags;
+  if (Array.isArray(tags) && tags.some((tag) => typeof tag === "string" && tag.includes("agent"))) {
+    return true;
+  }
+
+  return false;
+}
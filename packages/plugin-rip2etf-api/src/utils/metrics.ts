@@ -0,0 +1,337 @@
+import type { PriceHistory } from "../types";
+
+export const METRIC_WINDOWS = ["1Y", "3Y", "5Y", "max"] as const;
+export type MetricWindow = (typeof METRIC_WINDOWS)[number];
+
+const TRADING_DAYS = 252;
+const WINDOW_YEARS: Record<Exclude<MetricWindow, "max">, number> = { "1Y": 1, "3Y": 3, "5Y": 5 };
+// a window counts as covered if the history starts at most this many days after its start
+const COVERAGE_TOLERANCE_DAYS = 7;
+
+export interface DrawdownInfo {
+  pct: number;
+  peakDate: string;
+  troughDate: string;
+  recoveryDate?: string;
+}
+
+export interface WindowMetrics {
+  window: MetricWindow;
+  start: string;
+  end: string;
+  observations: number;
+  totalReturnPct: number;
+  cagrPct: number;
+  volatilityPct: number;
+  maxDrawdown: DrawdownInfo;
+  sharpe?: number;
+  sortino?: number;
+  beta?: number;
+}
+
+export interface CorrelationMatrix {
+  window: MetricWindow;
+  symbols: string[];
+  matrix: Array<Array<number | null>>;
+}
+
+export interface RiskMetricsReport {
+  windows: MetricWindow[];
+  benchmark?: string;
+  riskFree?: { seriesId: string; averageRatePct: number; dataSources: string[] };
+  perSymbol: Record<string, Partial<Record<MetricWindow, WindowMetrics | null>>>;
+  correlation: CorrelationMatrix | null;
+}
+
+type Point = { t: string; v: number };
+
+const toPoints = (history: PriceHistory): Point[] =>
+  history.bars
+    .filter((bar) => Number.isFinite(bar.c) && bar.c > 0)
+    .map((bar) => ({ t: bar.t, v: bar.c }));
+
+function shiftYears(isoDate: string, years: number) {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCFullYear(date.getUTCFullYear() - years);
+  return date.toISOString().slice(0, 10);
+}
+
+const daysBetween = (from: string, to: string) =>
+  (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000;
+
+/** Points inside the window, or null when the history is too short to cover it. */
+export function sliceWindow(points: Point[], window: MetricWindow): Point[] | null {
+  if (points.length < 2) return null;
+  if (window === "max") return points;
+  const end = points[points.length - 1].t;
+  const start = shiftYears(end, WINDOW_YEARS[window]);
+  if (daysBetween(start, points[0].t) > COVERAGE_TOLERANCE_DAYS) return null;
+  const sliced = points.filter((point) => point.t >= start);
+  return sliced.length >= 2 ? sliced : null;
+}
+
+function dailyReturns(points: Point[]): Point[] {
+  const returns: Point[] = [];
+  for (let i = 1; i < points.length; i += 1) {
+    returns.push({ t: points[i].t, v: points[i].v / points[i - 1].v - 1 });
+  }
+  return returns;
+}
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+function stdev(values: number[]) {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+function covariance(a: number[], b: number[]) {
+  const avgA = mean(a);
+  const avgB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += (a[i] - avgA) * (b[i] - avgB);
+  return sum / (a.length - 1);
+}
+
+export function maxDrawdown(points: Point[]): DrawdownInfo {
+  let peak = points[0];
+  let worst: DrawdownInfo = { pct: 0, peakDate: peak.t, troughDate: peak.t };
+  let worstPeakValue = peak.v;
+
+  for (const point of points) {
+    if (point.v > peak.v) peak = point;
+    const drawdown = (point.v / peak.v - 1) * 100;
+    if (drawdown < worst.pct) {
+      worst = { pct: drawdown, peakDate: peak.t, troughDate: point.t };
+      worstPeakValue = peak.v;
+    }
+  }
+
+  if (worst.pct < 0) {
+    worst.recoveryDate = points.find((p) => p.t > worst.troughDate && p.v >= worstPeakValue)?.t;
+  }
+  return worst;
+}
+
+/** Distance from the running peak in % (≤ 0) for every point, for underwater charts. */
+export function drawdownSeries(points: Point[]): Point[] {
+  let peak = Number.NEGATIVE_INFINITY;
+  return points.map((point) => {
+    peak = Math.max(peak, point.v);
+    return { t: point.t, v: (point.v / peak - 1) * 100 };
+  });
+}
+
+/**
+ * Calendar-year returns in %, each year measured from the previous year's last
+ * close. Years the history does not fully cover (first and current) are
+ * flagged `partial`.
+ */
+export function calendarYearReturns(
+  history: PriceHistory
+): Array<{ year: number; returnPct: number; partial: boolean }> {
+  const points = toPoints(history);
+  const yearEnds = new Map<number, Point>();
+  for (const point of points) yearEnds.set(Number(point.t.slice(0, 4)), point);
+
+  const results: Array<{ year: number; returnPct: number; partial: boolean }> = [];
+  let previous = points[0];
+  for (const [year, last] of yearEnds) {
+    if (!previous || last.t <= previous.t) continue;
+    results.push({
+      year,
+      returnPct: (last.v / previous.v - 1) * 100,
+      partial: previous.t.startsWith(String(year)) || last.t.slice(5) < "12-20"
+    });
+    previous = last;
+  }
+  return results;
+}
+
+/** Pairs returns of two series on the dates both traded. */
+function alignReturns(a: Point[], b: Point[]): [number[], number[]] {
+  const other = new Map(b.map((point) => [point.t, point.v]));
+  const left: number[] = [];
+  const right: number[] = [];
+  for (const point of a) {
+    const match = other.get(point.t);
+    if (match === undefined) continue;
+    left.push(point.v);
+    right.push(match);
+  }
+  return [left, right];
+}
+
+export function correlation(a: Point[], b: Point[]): number | null {
+  const [left, right] = alignReturns(a, b);
+  if (left.length < 20) return null;
+  const denominator = stdev(left) * stdev(right);
+  return denominator > 0 ? covariance(left, right) / denominator : null;
+}
+
+/** Converts annualised percentage yields (e.g. DGS3MO) into a daily rate lookup with carry-forward. */
+export function dailyRiskFreeLookup(rates: Point[]) {
+  const sorted = rates
+    .filter((point) => Number.isFinite(point.v))
+    .sort((a, b) => a.t.localeCompare(b.t));
+  return (date: string) => {
+    let low = 0;
+    let high = sorted.length - 1;
+    let index = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid].t <= date) {
+        index = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return index < 0 ? 0 : (1 + sorted[index].v / 100) ** (1 / TRADING_DAYS) - 1;
+  };
+}
+
+export function computeWindowMetrics(
+  points: Point[],
+  window: MetricWindow,
+  options: { riskFree?: (date: string) => number; benchmark?: Point[] } = {}
+): WindowMetrics | null {
+  const sliced = sliceWindow(points, window);
+  if (!sliced) return null;
+
+  const first = sliced[0];
+  const last = sliced[sliced.length - 1];
+  const years = Math.max(daysBetween(first.t, last.t) / 365.25, 1 / 365.25);
+  const growth = last.v / first.v;
+  const returns = dailyReturns(sliced);
+  const values = returns.map((r) => r.v);
+  const volatility = stdev(values) * Math.sqrt(TRADING_DAYS);
+
+  const metrics: WindowMetrics = {
+    window,
+    start: first.t,
+    end: last.t,
+    observations: sliced.length,
+    totalReturnPct: (growth - 1) * 100,
+    cagrPct: (growth ** (1 / years) - 1) * 100,
+    volatilityPct: volatility * 100,
+    maxDrawdown: maxDrawdown(sliced)
+  };
+
+  if (values.length >= 20) {
+    const riskFree = options.riskFree ?? (() => 0);
+    const excess = returns.map((r) => r.v - riskFree(r.t));
+    const excessMean = mean(excess) * TRADING_DAYS;
+    if (volatility > 0) metrics.sharpe = excessMean / volatility;
+
+    const downside =
+      Math.sqrt(excess.reduce((acc, v) => acc + Math.min(v, 0) ** 2, 0) / excess.length) *
+      Math.sqrt(TRADING_DAYS);
+    if (downside > 0) metrics.sortino = excessMean / downside;
+  }
+
+  if (options.benchmark) {
+    const benchmarkReturns = dailyReturns(
+      options.benchmark.filter((p) => p.t >= first.t && p.t <= last.t)
+    );
+    const [own, market] = alignReturns(returns, benchmarkReturns);
+    if (own.length >= 20) {
+      const variance = stdev(market) ** 2;
+      if (variance > 0) metrics.beta = covariance(own, market) / variance;
+    }
+  }
+
+  return metrics;
+}
+
+export function correlationMatrix(
+  histories: PriceHistory[],
+  window: MetricWindow
+): CorrelationMatrix {
+  const returns = histories.map((history) => {
+    const sliced = sliceWindow(toPoints(history), window) ?? toPoints(history);
+    return dailyReturns(sliced);
+  });
+  const matrix = returns.map((a, i) => returns.map((b, j) => (i === j ? 1 : correlation(a, b))));
+  return { window, symbols: histories.map((history) => history.symbol), matrix };
+}
+
+/**
+ * Risk/return block for a set of (currency-aligned) histories. `benchmark`
+ * should be one of the histories or an extra series; beta is omitted when it
+ * is missing.
+ */
+export function computeRiskMetrics(
+  histories: PriceHistory[],
+  options: {
+    windows?: MetricWindow[];
+    benchmark?: PriceHistory;
+    riskFree?: { seriesId: string; points: Point[]; dataSources: string[] };
+  } = {}
+): RiskMetricsReport {
+  const windows = options.windows?.length ? options.windows : [...METRIC_WINDOWS];
+  const riskFree = options.riskFree?.points.length
+    ? dailyRiskFreeLookup(options.riskFree.points)
+    : undefined;
+  const benchmarkPoints = options.benchmark ? toPoints(options.benchmark) : undefined;
+
+  const perSymbol: RiskMetricsReport["perSymbol"] = {};
+  for (const history of histories) {
+    const points = toPoints(history);
+    const isBenchmark = options.benchmark?.symbol === history.symbol;
+    perSymbol[history.symbol] = Object.fromEntries(
+      windows.map((window) => [
+        window,
+        computeWindowMetrics(points, window, {
+          riskFree,
+          benchmark: benchmarkPoints && !isBenchmark ? benchmarkPoints : undefined
+        })
+      ])
+    );
+    if (isBenchmark) {
+      for (const metrics of Object.values(perSymbol[history.symbol])) {
+        if (metrics) metrics.beta = 1;
+      }
+    }
+  }
+
+  // correlations on the longest window every series covers
+  const commonWindow =
+    [...windows]
+      .reverse()
+      .find((window) => histories.every((h) => sliceWindow(toPoints(h), window))) ?? "max";
+
+  return {
+    windows,
+    benchmark: options.benchmark?.symbol,
+    riskFree: options.riskFree?.points.length
+      ? {
+          seriesId: options.riskFree.seriesId,
+          averageRatePct: mean(options.riskFree.points.map((p) => p.v)),
+          dataSources: options.riskFree.dataSources
+        }
+      : undefined,
+    perSymbol,
+    correlation: histories.length > 1 ? correlationMatrix(histories, commonWindow) : null
+  };
+}
+
+/** Windows that fit in a span of `years` (with the coverage tolerance), plus "max". */
+export function metricWindowsWithin(years: number): MetricWindow[] {
+  const days = years * 365.25 + COVERAGE_TOLERANCE_DAYS;
+  return METRIC_WINDOWS.filter(
+    (window) => window === "max" || WINDOW_YEARS[window] * 365.25 <= days
+  );
+}
+
+/** Parses "1Y", "3 anni", "5 years", "max" from a message; empty when none is mentioned. */
+export function parseMetricWindows(text: string): MetricWindow[] {
+  if (!text) return [];
+  const found = new Set<MetricWindow>();
+  const pattern = /\b(1|3|5)\s*(?:y|yr|years?|anni|anno)\b|\b(max|massimo|da sempre|inception)\b/gi;
+  for (const match of text.matchAll(pattern)) {
+    found.add(match[1] ? (`${match[1]}Y` as MetricWindow) : "max");
+  }
+  return METRIC_WINDOWS.filter((window) => found.has(window));
+}
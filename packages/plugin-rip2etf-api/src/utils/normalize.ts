@@ -1,4 +1,15 @@
-import { EtfOverview, PriceHistory } from "../types";
+import { Bar, EtfOverview, PriceHistory } from "../types";
+
+/** Copies `key` from `fragment` unless `merged` already has a value for it. */
+function fillMissing<K extends keyof EtfOverview>(
+  merged: EtfOverview,
+  fragment: Partial<EtfOverview>,
+  key: K
+) {
+  const value = fragment[key];
+  if (value === undefined || value === null || merged[key] !== undefined) return;
+  merged[key] = value;
+}
 
 export function reconcileOverview(
   symbol: string,
@@ -12,16 +23,12 @@ export function reconcileOverview(
   for (const fragment of fragments) {
     if (!fragment) continue;
 
-    const { dataSources, ...rest } = fragment;
-    Object.entries(rest).forEach(([key, value]) => {
-      if (value === undefined || value === null) return;
-      if ((merged as Record<string, unknown>)[key] === undefined) {
-        (merged as Record<string, unknown>)[key] = value;
-      }
-    });
+    for (const key of Object.keys(fragment) as Array<keyof EtfOverview>) {
+      if (key !== "dataSources") fillMissing(merged, fragment, key);
+    }
 
-    if (Array.isArray(dataSources)) {
-      merged.dataSources.push(...dataSources);
+    if (Array.isArray(fragment.dataSources)) {
+      merged.dataSources.push(...fragment.dataSources);
     }
   }
 
@@ -57,3 +64,33 @@ export function alignAndRebase(series: PriceHistory[]): {
   const sources = Array.from(new Set(series.flatMap((s) => s.dataSources)));
   return { dates: commonDates, table, sources };
 }
+
+/** First session of the week (Monday) or of the month a YYYY-MM-DD date falls in. */
+export function periodStart(date: string, interval: "1wk" | "1mo"): string {
+  if (interval === "1mo") return `${date.slice(0, 7)}-01`;
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Daily bars folded into weekly or monthly ones, labelled with the first day
+ * of the period so that funds listed on different calendars line up. The
+ * close is the last one of the period, the current one included.
+ */
+export function resampleHistory(history: PriceHistory, interval: "1wk" | "1mo"): PriceHistory {
+  const bars: Bar[] = [];
+  for (const bar of history.bars) {
+    const t = periodStart(bar.t, interval);
+    const current = bars[bars.length - 1];
+    if (current?.t !== t) {
+      bars.push({ ...bar, t });
+      continue;
+    }
+    current.c = bar.c;
+    if (bar.h !== undefined) current.h = Math.max(current.h ?? bar.h, bar.h);
+    if (bar.l !== undefined) current.l = Math.min(current.l ?? bar.l, bar.l);
+    if (bar.v !== undefined) current.v = (current.v ?? 0) + bar.v;
+  }
+  return { ...history, interval, bars };
+}
@@ -0,0 +1,360 @@
+import type { EtfHoldings, Holding } from "../types";
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+// names at or above this bigram similarity are treated as the same issuer
+const NAME_SIMILARITY_THRESHOLD = 0.9;
+const CORPORATE_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "ltd",
+  "limited",
+  "plc",
+  "ag",
+  "sa",
+  "se",
+  "nv",
+  "spa",
+  "holding",
+  "holdings",
+  "group",
+  "the",
+  "class",
+  "cl",
+  "a",
+  "b",
+  "c",
+  "reg",
+  "registered",
+  "shs",
+  "ord",
+  "adr"
+]);
+
+/** One fund's holdings as used for the comparison. */
+export interface FundHoldings {
+  symbol: string;
+  holdings: EtfHoldings;
+}
+
+/** A security matched across funds; `weights` are % of each fund. */
+export interface OverlapPosition {
+  name: string;
+  symbol?: string;
+  isin?: string;
+  weights: Record<string, number>;
+}
+
+export interface FundCoverage {
+  symbol: string;
+  /** True when only the top holdings were available. */
+  partial: boolean;
+  positions: number;
+  /** Share of the fund (%) the known positions add up to. */
+  coveredPct: number;
+  asOf?: string;
+  dataSources: string[];
+}
+
+export interface PairOverlap {
+  a: string;
+  b: string;
+  /** Sum of min(weight in a, weight in b) over the common positions, in %. */
+  overlapPct: number;
+  commonPositions: number;
+}
+
+export type Allocation = Array<{ symbol: string; weight: number }>;
+
+export interface LookThroughExposure {
+  allocation: Allocation;
+  /** Largest underlying positions, weights in % of the combined portfolio. */
+  top: Array<{ name: string; symbol?: string; weightPct: number; via: string[] }>;
+  /** Part of the portfolio not covered by known holdings. */
+  unknownPct: number;
+}
+
+export interface OverlapReport {
+  funds: FundCoverage[];
+  pairs: PairOverlap[];
+  common: OverlapPosition[];
+  lookThrough: LookThroughExposure;
+  /** Overlap between two groups' look-through portfolios ("VWCE vs IWDA + EIMI"). */
+  groups?: { left: Allocation; right: Allocation; overlapPct: number };
+  partial: boolean;
+}
+
+/** Lowercase, accent-free issuer name without share-class and legal-form noise. */
+export function normalizeHoldingName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !CORPORATE_SUFFIXES.has(token))
+    .join(" ");
+}
+
+/** "BRK.B", "BRK/B" and "BRK B US" all become "BRKB"; exchange suffixes are dropped. */
+export function normalizeHoldingSymbol(symbol?: string) {
+  if (!symbol) return undefined;
+  const cleaned = symbol
+    .toUpperCase()
+    .trim()
+    .replace(/\s+(?:US|LN|GY|FP|NA|SW|JP|CN)$/, "")
+    .replace(/\.(?:L|DE|PA|AS|SW|MI|TO|T)$/, "")
+    .replace(/[^A-Z0-9]/g, "");
+  return cleaned || undefined;
+}
+
+function bigrams(value: string) {
+  const grams = new Map<string, number>();
+  const compact = value.replace(/\s+/g, "");
+  for (let i = 0; i < compact.length - 1; i += 1) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Sørensen–Dice similarity of character bigrams, 0…1. */
+export function nameSimilarity(a: string, b: string) {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const total = [...left.values(), ...right.values()].reduce((acc, count) => acc + count, 0);
+  if (total === 0) return 0;
+  let shared = 0;
+  for (const [gram, count] of left) shared += Math.min(count, right.get(gram) ?? 0);
+  return (2 * shared) / total;
+}
+
+interface Entity {
+  position: OverlapPosition;
+  isin?: string;
+  symbol?: string;
+  nameKey: string;
+}
+
+/** Lookup by ISIN, symbol and exact name, with fuzzy names bucketed by first word. */
+function createEntityIndex() {
+  const entities: Entity[] = [];
+  const byIsin = new Map<string, Entity>();
+  const bySymbol = new Map<string, Entity>();
+  const byName = new Map<string, Entity>();
+  const byFirstWord = new Map<string, Entity[]>();
+
+  const index = (entity: Entity) => {
+    if (entity.isin && !byIsin.has(entity.isin)) byIsin.set(entity.isin, entity);
+    if (entity.symbol && !bySymbol.has(entity.symbol)) bySymbol.set(entity.symbol, entity);
+    if (entity.nameKey && !byName.has(entity.nameKey)) byName.set(entity.nameKey, entity);
+  };
+
+  return {
+    entities,
+    index,
+    add(entity: Entity) {
+      entities.push(entity);
+      index(entity);
+      if (entity.nameKey) {
+        const word = entity.nameKey.split(" ")[0];
+        const bucket = byFirstWord.get(word);
+        if (bucket) bucket.push(entity);
+        else byFirstWord.set(word, [entity]);
+      }
+    },
+    find(isin?: string, symbol?: string, nameKey?: string): Entity | undefined {
+      if (isin && byIsin.has(isin)) return byIsin.get(isin);
+      // a different ISIN is a different security, whatever the name says
+      const compatible = (entity?: Entity) =>
+        entity && !(isin && entity.isin && entity.isin !== isin) ? entity : undefined;
+      const sameSymbol = symbol ? compatible(bySymbol.get(symbol)) : undefined;
+      if (sameSymbol) return sameSymbol;
+      if (!nameKey) return undefined;
+      const sameName = compatible(byName.get(nameKey));
+      if (sameName) return sameName;
+      return (byFirstWord.get(nameKey.split(" ")[0]) ?? []).find(
+        (entity) =>
+          compatible(entity) && nameSimilarity(nameKey, entity.nameKey) >= NAME_SIMILARITY_THRESHOLD
+      );
+    }
+  };
+}
+
+const holdingsOf = (fund: FundHoldings): Holding[] =>
+  fund.holdings.allHoldings?.length ? fund.holdings.allHoldings : fund.holdings.topHoldings;
+
+/**
+ * Matches the funds' holdings by ISIN, then normalised symbol, then fuzzy
+ * issuer name. Several lines of one fund that map to the same security (share
+ * classes, duplicated listings) are summed.
+ */
+export function matchHoldings(funds: FundHoldings[]): OverlapPosition[] {
+  const index = createEntityIndex();
+  for (const fund of funds) {
+    for (const holding of holdingsOf(fund)) {
+      const weight = holding.weightPct ?? 0;
+      if (!(weight > 0)) continue;
+      const isin = holding.isin && ISIN_PATTERN.test(holding.isin) ? holding.isin : undefined;
+      const symbol = normalizeHoldingSymbol(holding.symbol);
+      const nameKey = normalizeHoldingName(holding.name);
+      let entity = index.find(isin, symbol, nameKey);
+      if (!entity) {
+        entity = {
+          position: { name: holding.name, symbol: holding.symbol, isin, weights: {} },
+          isin,
+          symbol,
+          nameKey
+        };
+        index.add(entity);
+      } else {
+        entity.isin ??= isin;
+        entity.symbol ??= symbol;
+        entity.position.isin ??= isin;
+        entity.position.symbol ??= holding.symbol;
+        index.index(entity);
+      }
+      entity.position.weights[fund.symbol] = (entity.position.weights[fund.symbol] ?? 0) + weight;
+    }
+  }
+  return index.entities.map((entity) => entity.position);
+}
+
+/** Weighted overlap of two exposure maps (both in % of their portfolio). */
+function overlapOf(a: Map<OverlapPosition, number>, b: Map<OverlapPosition, number>) {
+  let overlap = 0;
+  let common = 0;
+  for (const [position, weight] of a) {
+    const other = b.get(position);
+    if (other === undefined) continue;
+    overlap += Math.min(weight, other);
+    common += 1;
+  }
+  return { overlapPct: overlap, commonPositions: common };
+}
+
+function exposureOf(positions: OverlapPosition[], allocation: Allocation) {
+  const total = allocation.reduce((acc, entry) => acc + entry.weight, 0) || 1;
+  const exposure = new Map<OverlapPosition, number>();
+  for (const position of positions) {
+    const weight = allocation.reduce(
+      (acc, entry) => acc + ((position.weights[entry.symbol] ?? 0) * entry.weight) / total,
+      0
+    );
+    if (weight > 0) exposure.set(position, weight);
+  }
+  return exposure;
+}
+
+export function computeOverlap(
+  funds: FundHoldings[],
+  options: {
+    /** Combined portfolio for the look-through; equal weights by default. */
+    allocation?: Allocation;
+    groups?: { left: Allocation; right: Allocation };
+    topPositions?: number;
+  } = {}
+): OverlapReport {
+  const positions = matchHoldings(funds);
+  const top = options.topPositions ?? 10;
+
+  const coverage: FundCoverage[] = funds.map((fund) => {
+    const list = holdingsOf(fund).filter((holding) => (holding.weightPct ?? 0) > 0);
+    return {
+      symbol: fund.symbol,
+      partial: !fund.holdings.allHoldings?.length,
+      positions: list.length,
+      coveredPct: Math.min(
+        list.reduce((acc, holding) => acc + (holding.weightPct ?? 0), 0),
+        100
+      ),
+      asOf: fund.holdings.asOf,
+      dataSources: fund.holdings.dataSources
+    };
+  });
+
+  const single = (symbol: string) => exposureOf(positions, [{ symbol, weight: 1 }]);
+  const pairs: PairOverlap[] = [];
+  for (let i = 0; i < funds.length; i += 1) {
+    for (let j = i + 1; j < funds.length; j += 1) {
+      pairs.push({
+        a: funds[i].symbol,
+        b: funds[j].symbol,
+        ...overlapOf(single(funds[i].symbol), single(funds[j].symbol))
+      });
+    }
+  }
+
+  const common = positions
+    .filter((position) => Object.keys(position.weights).length > 1)
+    .sort(
+      (a, b) =>
+        Math.min(...Object.values(b.weights)) - Math.min(...Object.values(a.weights)) ||
+        Object.values(b.weights).reduce((x, y) => x + y, 0) -
+          Object.values(a.weights).reduce((x, y) => x + y, 0)
+    )
+    .slice(0, top);
+
+  const allocation = options.allocation?.length
+    ? options.allocation
+    : funds.map((fund) => ({ symbol: fund.symbol, weight: 100 / funds.length }));
+  const allocationTotal = allocation.reduce((acc, entry) => acc + entry.weight, 0) || 1;
+  const combined = exposureOf(positions, allocation);
+  const unknownPct = allocation.reduce((acc, entry) => {
+    const covered = coverage.find((fund) => fund.symbol === entry.symbol)?.coveredPct ?? 0;
+    return acc + ((100 - covered) * entry.weight) / allocationTotal;
+  }, 0);
+
+  let groups: OverlapReport["groups"];
+  if (options.groups?.left.length && options.groups.right.length) {
+    const { left, right } = options.groups;
+    groups = {
+      left,
+      right,
+      overlapPct: overlapOf(exposureOf(positions, left), exposureOf(positions, right)).overlapPct
+    };
+  }
+
+  return {
+    funds: coverage,
+    pairs,
+    common,
+    lookThrough: {
+      allocation,
+      top: Array.from(combined.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, top)
+        .map(([position, weightPct]) => ({
+          name: position.name,
+          symbol: position.symbol,
+          weightPct,
+          via: Object.keys(position.weights)
+        })),
+      unknownPct
+    },
+    groups,
+    partial: coverage.some((fund) => fund.partial)
+  };
+}
+
+/**
+ * Splits "VWCE vs IWDA + EIMI" into the two sides of the comparison, keeping
+ * the order symbols appear in the text. Null without a "vs"/"contro".
+ */
+export function splitComparisonGroups(
+  text: string,
+  symbols: string[]
+): { left: string[]; right: string[] } | null {
+  const separator = /\s(?:vs\.?|versus|contro|rispetto a|oppure)\s/i.exec(text);
+  if (!separator) return null;
+  const position = (symbol: string) => text.toUpperCase().indexOf(symbol.toUpperCase());
+  const found = symbols.filter((symbol) => position(symbol) >= 0);
+  const left = found.filter((symbol) => position(symbol) < separator.index);
+  const right = found.filter((symbol) => position(symbol) > separator.index);
+  return left.length && right.length ? { left, right } : null;
+}
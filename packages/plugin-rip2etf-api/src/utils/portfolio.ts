@@ -0,0 +1,423 @@
+import { createHash } from "node:crypto";
+import { parseAmount } from "./backtest";
+
+export type TransactionKind = "buy" | "sell" | "dividend";
+export type TransactionSource = "chat" | "ibkr" | "swissquote" | "degiro";
+
+/**
+ * One entry of a user's ledger. Buys and sells are in shares at `price`;
+ * dividends carry the cash received in `amount`. Everything is in `currency`,
+ * the currency the trade was settled in.
+ */
+export interface PortfolioTransaction {
+  /** Content hash, so importing the same statement twice adds nothing. */
+  id: string;
+  kind: TransactionKind;
+  date: string;
+  /** Resolved ticker, or the ISIN when the registry does not know it. */
+  symbol: string;
+  isin?: string;
+  quantity: number;
+  price: number;
+  amount?: number;
+  fees: number;
+  currency: string;
+  source: TransactionSource;
+}
+
+export interface TargetWeight {
+  symbol: string;
+  weight: number;
+}
+
+export interface PositionQuote {
+  price: number;
+  currency: string;
+  date: string;
+}
+
+/** Units of the base currency per unit of `currency` on `date` (undefined when unknown). */
+export type RateAt = (currency: string, date: string) => number | undefined;
+
+export interface PositionReport {
+  symbol: string;
+  quantity: number;
+  /** Average cost per share in the trade currency. */
+  averageCost: number;
+  currency: string;
+  /** Remaining cost basis in the base currency, at the FX rates of the buy dates. */
+  costBasis: number;
+  marketValue?: number;
+  unrealisedPnl?: number;
+  realisedPnl: number;
+  dividends: number;
+  quote?: PositionQuote;
+  /** True when an FX rate was missing: the position is left out of the totals. */
+  unconverted: boolean;
+}
+
+export interface AllocationDrift {
+  symbol: string;
+  targetPct: number;
+  currentPct: number;
+  driftPct: number;
+}
+
+export interface PortfolioReport {
+  baseCurrency: string;
+  positions: PositionReport[];
+  totals: {
+    marketValue: number;
+    costBasis: number;
+    unrealisedPnl: number;
+    realisedPnl: number;
+    dividends: number;
+  };
+  drift: AllocationDrift[];
+  /** Open positions with no price, valued at cost in the drift. */
+  missingPrices: string[];
+  unconverted: string[];
+  warnings: string[];
+}
+
+export function transactionId(
+  transaction: Omit<PortfolioTransaction, "id">,
+  salt: string | number = ""
+): string {
+  const key = [
+    transaction.source,
+    transaction.date,
+    transaction.kind,
+    transaction.symbol,
+    transaction.quantity,
+    transaction.price,
+    transaction.amount ?? "",
+    salt
+  ].join("|");
+  return createHash("sha1").update(key).digest("hex").slice(0, 16);
+}
+
+/** Keeps the ledger in date order and drops transactions already recorded. */
+export function mergeTransactions(
+  existing: PortfolioTransaction[],
+  incoming: PortfolioTransaction[]
+): { transactions: PortfolioTransaction[]; added: number; duplicates: number } {
+  const seen = new Set(existing.map((transaction) => transaction.id));
+  const fresh = incoming.filter((transaction) => {
+    if (seen.has(transaction.id)) return false;
+    seen.add(transaction.id);
+    return true;
+  });
+  return {
+    transactions: [...existing, ...fresh].sort((a, b) => a.date.localeCompare(b.date)),
+    added: fresh.length,
+    duplicates: incoming.length - fresh.length
+  };
+}
+
+/** Shares still held per symbol (buys minus sells), leaving out closed positions. */
+export function openQuantities(transactions: PortfolioTransaction[]): Map<string, number> {
+  const held = new Map<string, number>();
+  for (const transaction of transactions) {
+    if (transaction.kind === "dividend") continue;
+    const sign = transaction.kind === "buy" ? 1 : -1;
+    held.set(transaction.symbol, (held.get(transaction.symbol) ?? 0) + sign * transaction.quantity);
+  }
+  for (const [symbol, quantity] of held) {
+    if (quantity <= 1e-9) held.delete(symbol);
+  }
+  return held;
+}
+
+/** Last rate on or before `date`, or the first one when the series starts later. */
+export function rateOn(rates: Array<{ t: string; v: number }>, date: string): number | undefined {
+  if (!rates.length) return undefined;
+  let low = 0;
+  let high = rates.length - 1;
+  if (rates[0].t > date) return rates[0].v;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (rates[mid].t <= date) low = mid;
+    else high = mid - 1;
+  }
+  return rates[low].v;
+}
+
+/**
+ * Average-cost positions, realised and unrealised P&L and dividends, all in
+ * `baseCurrency`. Cost is converted at the rate of each buy and proceeds at
+ * the rate of each sale, so FX moves show up in the P&L.
+ */
+export function computePortfolio(
+  transactions: PortfolioTransaction[],
+  options: {
+    baseCurrency: string;
+    rateAt: RateAt;
+    quotes: Map<string, PositionQuote>;
+    targets?: TargetWeight[];
+  }
+): PortfolioReport {
+  const { baseCurrency, rateAt, quotes } = options;
+  const rate = (currency: string, date: string) =>
+    currency === baseCurrency ? 1 : rateAt(currency, date);
+
+  const bySymbol = new Map<string, PositionReport>();
+  const warnings: string[] = [];
+  const ordered = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  for (const transaction of ordered) {
+    let position = bySymbol.get(transaction.symbol);
+    if (!position) {
+      position = {
+        symbol: transaction.symbol,
+        quantity: 0,
+        averageCost: 0,
+        currency: transaction.currency,
+        costBasis: 0,
+        realisedPnl: 0,
+        dividends: 0,
+        unconverted: false
+      };
+      bySymbol.set(transaction.symbol, position);
+    }
+    const fx = rate(transaction.currency, transaction.date);
+    if (fx === undefined) position.unconverted = true;
+    const toBase = (value: number) => value * (fx ?? 0);
+
+    if (transaction.kind === "dividend") {
+      position.dividends += toBase(transaction.amount ?? 0);
+      continue;
+    }
+
+    if (transaction.kind === "buy") {
+      const cost = transaction.quantity * transaction.price + transaction.fees;
+      position.averageCost =
+        (position.averageCost * position.quantity + cost) /
+        (position.quantity + transaction.quantity);
+      position.quantity += transaction.quantity;
+      position.costBasis += toBase(cost);
+      continue;
+    }
+
+    let quantity = transaction.quantity;
+    if (quantity > position.quantity + 1e-9) {
+      warnings.push(
+        `${transaction.symbol}: vendita di ${quantity} quote il ${transaction.date} oltre la posizione (${position.quantity})`
+      );
+      quantity = position.quantity;
+    }
+    if (quantity <= 0) continue;
+    const soldBasis =
+      position.quantity > 0 ? (position.costBasis * quantity) / position.quantity : 0;
+    const proceeds = toBase(quantity * transaction.price - transaction.fees);
+    position.realisedPnl += proceeds - soldBasis;
+    position.costBasis -= soldBasis;
+    position.quantity -= quantity;
+    if (position.quantity < 1e-9) {
+      position.quantity = 0;
+      position.costBasis = 0;
+      position.averageCost = 0;
+    }
+  }
+
+  const missingPrices: string[] = [];
+  for (const position of bySymbol.values()) {
+    if (position.quantity <= 0) continue;
+    const quote = quotes.get(position.symbol);
+    if (!quote) {
+      missingPrices.push(position.symbol);
+      continue;
+    }
+    const fx = rate(quote.currency, quote.date);
+    position.quote = quote;
+    if (fx === undefined) {
+      position.unconverted = true;
+      continue;
+    }
+    position.marketValue = position.quantity * quote.price * fx;
+    position.unrealisedPnl = position.marketValue - position.costBasis;
+  }
+
+  const positions = Array.from(bySymbol.values());
+  const counted = positions.filter((position) => !position.unconverted);
+  const sum = (pick: (position: PositionReport) => number | undefined) =>
+    counted.reduce((acc, position) => acc + (pick(position) ?? 0), 0);
+  const totals = {
+    marketValue: sum((position) => position.marketValue),
+    costBasis: sum((position) => (position.quantity > 0 ? position.costBasis : 0)),
+    unrealisedPnl: sum((position) => position.unrealisedPnl),
+    realisedPnl: sum((position) => position.realisedPnl),
+    dividends: sum((position) => position.dividends)
+  };
+
+  return {
+    baseCurrency,
+    positions,
+    totals,
+    drift: allocationDrift(counted, options.targets ?? []),
+    missingPrices,
+    unconverted: positions.filter((position) => position.unconverted).map((p) => p.symbol),
+    warnings
+  };
+}
+
+/** Current weights (market value, or cost when unpriced) against the targets. */
+export function allocationDrift(
+  positions: PositionReport[],
+  targets: TargetWeight[]
+): AllocationDrift[] {
+  if (!targets.length) return [];
+  const held = positions.filter((position) => position.quantity > 0);
+  const valueOf = (position: PositionReport) => position.marketValue ?? position.costBasis;
+  const total = held.reduce((acc, position) => acc + valueOf(position), 0);
+  const targetTotal = targets.reduce((acc, target) => acc + target.weight, 0) || 1;
+  const symbols = Array.from(
+    new Set([...targets.map((target) => target.symbol), ...held.map((position) => position.symbol)])
+  );
+  return symbols.map((symbol) => {
+    const position = held.find((candidate) => candidate.symbol === symbol);
+    const target = targets.find((candidate) => candidate.symbol === symbol);
+    const currentPct = position && total > 0 ? (valueOf(position) / total) * 100 : 0;
+    const targetPct = target ? (target.weight / targetTotal) * 100 : 0;
+    return { symbol, targetPct, currentPct, driftPct: currentPct - targetPct };
+  });
+}
+
+const BUY_HINT =
+  /\b(?:comprat[oiae]|acquistat[oiae]|compr[oa]|comprare|acquist[oa]|bought|buy|gekauft|kauf)\b/i;
+const SELL_HINT = /\b(?:vendut[oiae]|vend[oi]|vendere|sold|sell|verkauft|verkauf)\b/i;
+const DIVIDEND_HINT = /\b(?:dividend[oi]?|dividends?|cedol[ae]|distribuzion[ei]|dividende)\b/i;
+const NUMBER = String.raw`(\d[\d'’.,]*)`;
+const CURRENCY = String.raw`\s*(CHF|EUR|USD|GBP|€|\$)?`;
+const CURRENCY_SIGNS: Record<string, string> = { "€": "EUR", $: "USD" };
+
+/** Which kind of trade a chat message reports, if any ("ho comprato", "venduto", "dividendo"). */
+export function transactionKind(text: string): TransactionKind | null {
+  if (DIVIDEND_HINT.test(text)) return "dividend";
+  if (SELL_HINT.test(text)) return "sell";
+  if (BUY_HINT.test(text)) return "buy";
+  return null;
+}
+
+function parseChatDate(text: string, today: string): string {
+  const iso = /\b(\d{4})-(\d{2})-(\d{2})\b/.exec(text);
+  if (iso) return iso[0];
+  const european = /\b(\d{1,2})[./](\d{1,2})[./](\d{2}|\d{4})\b/.exec(text);
+  if (!european) return today;
+  const year = european[3].length === 2 ? `20${european[3]}` : european[3];
+  return `${year}-${european[2].padStart(2, "0")}-${european[1].padStart(2, "0")}`;
+}
+
+/**
+ * Reads one trade from chat: "ho comprato 10 VWCE a 110,5 EUR il 3.1.2024,
+ * commissioni 5", "venduto 5 CSPX a 600", "dividendo VHYL 12,50 CHF".
+ * `defaultCurrency` is used when the message names none (the listing currency).
+ */
+export function parseTransactionText(
+  text: string,
+  symbol: string,
+  options: { defaultCurrency: string; today: string }
+): Omit<PortfolioTransaction, "id" | "source"> | null {
+  const kind = transactionKind(text);
+  if (!kind) return null;
+
+  const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // dates would otherwise be read as amounts
+  const body = text.replace(/\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}[./]\d{1,2}[./]\d{2,4}\b/g, " ");
+  const fees = new RegExp(
+    String.raw`\b(?:commission[ei]|fees?|spese|gebühren?)\s*(?:di|of)?\s*${NUMBER}`,
+    "i"
+  ).exec(body);
+  const withoutFees = fees ? body.replace(fees[0], " ") : body;
+  const date = parseChatDate(text, options.today);
+
+  if (kind === "dividend") {
+    const amount =
+      new RegExp(String.raw`${NUMBER}${CURRENCY}\s*(?:di\s+|da\s+|from\s+)?${escaped}\b`, "i").exec(
+        withoutFees
+      ) ?? new RegExp(String.raw`\b${escaped}\b[^\d]*?${NUMBER}${CURRENCY}`, "i").exec(withoutFees);
+    const value = amount ? parseAmount(amount[1]) : undefined;
+    if (!value) return null;
+    return {
+      kind,
+      date,
+      symbol,
+      quantity: 0,
+      price: 0,
+      amount: value,
+      fees: 0,
+      currency: CURRENCY_SIGNS[amount![2]] ?? amount![2]?.toUpperCase() ?? options.defaultCurrency
+    };
+  }
+
+  const quantity = new RegExp(
+    String.raw`${NUMBER}\s*(?:quote|azioni|shares?|pz|x)?\s*(?:di\s+)?${escaped}\b`,
+    "i"
+  ).exec(withoutFees);
+  const price = new RegExp(
+    String.raw`(?:^|\s)(?:a|at|@|zu|prezzo|price)\s*${NUMBER}${CURRENCY}`,
+    "i"
+  ).exec(withoutFees);
+  const shares = quantity ? parseAmount(quantity[1]) : undefined;
+  const unitPrice = price ? parseAmount(price[1]) : undefined;
+  if (!shares || !unitPrice) return null;
+  return {
+    kind,
+    date,
+    symbol,
+    quantity: shares,
+    price: unitPrice,
+    fees: fees ? (parseAmount(fees[1]) ?? 0) : 0,
+    currency: CURRENCY_SIGNS[price![2]] ?? price![2]?.toUpperCase() ?? options.defaultCurrency
+  };
+}
+
+const money = (value: number | undefined, currency: string) =>
+  value === undefined ? "n/d" : `${value.toFixed(2)} ${currency}`;
+const signed = (value: number | undefined, currency: string) =>
+  value === undefined ? "n/d" : `${value >= 0 ? "+" : ""}${money(value, currency)}`;
+const shares = (value: number) => `${Number(value.toFixed(4))}`;
+
+/** Chat summary of a valued portfolio; also used as "your portfolio" context for snapshots. */
+export function renderPortfolioText(report: PortfolioReport): string {
+  const { baseCurrency, totals } = report;
+  const open = report.positions.filter((position) => position.quantity > 0);
+  const closed = report.positions.filter(
+    (position) => position.quantity === 0 && (position.realisedPnl || position.dividends)
+  );
+  const positionLine = (position: PositionReport) => {
+    const pnlPct =
+      position.unrealisedPnl !== undefined && position.costBasis > 0
+        ? ` (${position.unrealisedPnl >= 0 ? "+" : ""}${((position.unrealisedPnl / position.costBasis) * 100).toFixed(1)}%)`
+        : "";
+    return [
+      `- ${position.symbol}: ${shares(position.quantity)} quote`,
+      `PMC ${money(position.averageCost, position.currency)}`,
+      `valore ${money(position.marketValue, baseCurrency)}`,
+      `P&L non realizzato ${signed(position.unrealisedPnl, baseCurrency)}${pnlPct}`
+    ].join(" · ");
+  };
+  const drift = report.drift.map(
+    (entry) =>
+      `${entry.symbol} ${entry.currentPct.toFixed(1)}% (target ${entry.targetPct.toFixed(1)}%, ${entry.driftPct >= 0 ? "+" : ""}${entry.driftPct.toFixed(1)} pt)`
+  );
+
+  return [
+    `**Portafoglio (${baseCurrency})**`,
+    ...open.map(positionLine),
+    ...closed.map(
+      (position) =>
+        `- ${position.symbol}: chiusa · P&L realizzato ${signed(position.realisedPnl, baseCurrency)}`
+    ),
+    `Totale: valore ${money(totals.marketValue, baseCurrency)} · costo ${money(totals.costBasis, baseCurrency)} · P&L non realizzato ${signed(totals.unrealisedPnl, baseCurrency)} · realizzato ${signed(totals.realisedPnl, baseCurrency)} · dividendi ${money(totals.dividends, baseCurrency)}`,
+    drift.length ? `Scostamento dal target: ${drift.join(", ")}` : "",
+    report.missingPrices.length
+      ? `Senza prezzo (valutati al costo nello scostamento): ${report.missingPrices.join(", ")}`
+      : "",
+    report.unconverted.length
+      ? `Senza cambio verso ${baseCurrency} (esclusi dai totali): ${report.unconverted.join(", ")}`
+      : "",
+    ...report.warnings.map((warning) => `Attenzione: ${warning}`)
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,365 @@
+import { z } from "zod";
+import { normalizeWeights, parseAmount } from "./backtest";
+
+export const REBALANCE_BROKERS = ["ibkr", "swissquote", "degiro"] as const;
+export type RebalanceBroker = (typeof REBALANCE_BROKERS)[number];
+
+export const tradeFeesSchema = z.object({
+  perTrade: z.number().min(0).default(0),
+  pct: z.number().min(0).max(5).default(0),
+  /** Minimum charged per order, e.g. IBKR's 0.05% with a floor. */
+  min: z.number().min(0).default(0)
+});
+
+export type TradeFees = z.infer<typeof tradeFeesSchema>;
+
+/**
+ * Indicative ETF order costs in the reporting currency, used when the message
+ * names a broker but no fee. They change often: "commissioni 5" overrides them.
+ */
+export const BROKER_FEES: Record<RebalanceBroker, TradeFees> = {
+  ibkr: { perTrade: 0, pct: 0.05, min: 1.5 },
+  swissquote: { perTrade: 9, pct: 0, min: 0 },
+  degiro: { perTrade: 3, pct: 0, min: 0 }
+};
+
+export const rebalanceParamsSchema = z.object({
+  weights: z.array(z.object({ symbol: z.string().min(1), weight: z.number().positive() })).min(1),
+  /** "full" sells overweight positions; "contribution" only invests new cash. */
+  mode: z.enum(["full", "contribution"]).default("full"),
+  contribution: z.number().min(0).default(0),
+  /** Orders below this value (reporting currency) are not placed. */
+  minTrade: z.number().min(0).default(0),
+  wholeShares: z.boolean().default(true),
+  broker: z.enum(REBALANCE_BROKERS).optional(),
+  fees: tradeFeesSchema.default({ perTrade: 0, pct: 0, min: 0 })
+});
+
+export type RebalanceParams = z.infer<typeof rebalanceParamsSchema>;
+
+export interface RebalanceHolding {
+  symbol: string;
+  quantity: number;
+  /** Last price in the reporting currency. */
+  price: number;
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  side: "buy" | "sell";
+  shares: number;
+  price: number;
+  value: number;
+  fee: number;
+}
+
+export interface AllocationRow {
+  symbol: string;
+  value: number;
+  pct: number;
+  targetPct: number;
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  before: AllocationRow[];
+  after: AllocationRow[];
+  /** Cash not invested (rounding to whole shares, minimum trade size, fees). */
+  cashLeft: number;
+  feesTotal: number;
+  /** Largest |current − target| in percentage points. */
+  maxDriftBefore: number;
+  maxDriftAfter: number;
+}
+
+export function tradeFee(value: number, fees: TradeFees): number {
+  if (value <= 0) return 0;
+  return Math.max(fees.min, fees.perTrade + (value * fees.pct) / 100);
+}
+
+/** Largest order value whose cost plus fee fits in `budget`. */
+function affordableValue(budget: number, fees: TradeFees): number {
+  const proportional = (budget - fees.perTrade) / (1 + fees.pct / 100);
+  return Math.max(Math.min(proportional, budget - fees.min), 0);
+}
+
+/**
+ * Splits `cash` so the most underweight positions are topped up first: every
+ * symbol is filled up to the same multiple λ of its target weight, which
+ * minimises the largest shortfall without selling.
+ */
+export function waterFill(
+  values: Map<string, number>,
+  weights: Array<{ symbol: string; weight: number }>,
+  cash: number
+): Map<string, number> {
+  const amounts = new Map<string, number>();
+  const valueOf = (symbol: string) => values.get(symbol) ?? 0;
+  const ranked = weights
+    .filter((entry) => entry.weight > 0)
+    .map((entry) => ({ ...entry, level: valueOf(entry.symbol) / entry.weight }))
+    .sort((a, b) => a.level - b.level);
+  if (!ranked.length || cash <= 0) return amounts;
+
+  // widen the filled set until λ stays below the next symbol's current level
+  let weightSum = 0;
+  let valueSum = 0;
+  let level = 0;
+  let active = 0;
+  for (const entry of ranked) {
+    weightSum += entry.weight;
+    valueSum += valueOf(entry.symbol);
+    active += 1;
+    level = (cash + valueSum) / weightSum;
+    const next = ranked[active]?.level;
+    if (next === undefined || level <= next) break;
+  }
+  for (const entry of ranked.slice(0, active)) {
+    const amount = level * entry.weight - valueOf(entry.symbol);
+    if (amount > 1e-9) amounts.set(entry.symbol, amount);
+  }
+  return amounts;
+}
+
+function allocation(
+  values: Map<string, number>,
+  targets: Map<string, number>
+): { rows: AllocationRow[]; maxDrift: number } {
+  const total = Array.from(values.values()).reduce((acc, value) => acc + value, 0);
+  const symbols = Array.from(new Set([...targets.keys(), ...values.keys()]));
+  const rows = symbols.map((symbol) => {
+    const value = values.get(symbol) ?? 0;
+    return {
+      symbol,
+      value,
+      pct: total > 0 ? (value / total) * 100 : 0,
+      targetPct: (targets.get(symbol) ?? 0) * 100
+    };
+  });
+  const maxDrift = rows.reduce((acc, row) => Math.max(acc, Math.abs(row.pct - row.targetPct)), 0);
+  return { rows, maxDrift };
+}
+
+/**
+ * Orders that bring `holdings` towards `params.weights`. In "full" mode
+ * overweight positions (and positions outside the targets) are sold first and
+ * the proceeds, plus any contribution, are reinvested; in "contribution" mode
+ * only the new cash is invested. Buys are then sized to whole shares when
+ * asked, orders under `minTrade` are dropped, and leftover cash buys one
+ * share at a time of the most underweight symbol it can still afford.
+ */
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  params: RebalanceParams
+): RebalancePlan {
+  const weights = normalizeWeights(params.weights);
+  const targets = new Map(weights.map((entry) => [entry.symbol, entry.weight]));
+  const prices = new Map(holdings.map((holding) => [holding.symbol, holding.price]));
+  const shares = new Map(holdings.map((holding) => [holding.symbol, holding.quantity]));
+  const valuesOf = () =>
+    new Map(
+      Array.from(shares.entries()).map(([symbol, quantity]) => [
+        symbol,
+        quantity * (prices.get(symbol) ?? 0)
+      ])
+    );
+  const roundShares = (value: number) => (params.wholeShares ? Math.floor(value + 1e-9) : value);
+
+  const before = allocation(valuesOf(), targets);
+  const invested = before.rows.reduce((acc, row) => acc + row.value, 0);
+  const trades = new Map<string, RebalanceTrade>();
+  let cash = params.contribution;
+
+  if (params.mode === "full") {
+    const total = invested + params.contribution;
+    for (const [symbol, quantity] of shares) {
+      const price = prices.get(symbol) ?? 0;
+      if (price <= 0) continue;
+      const excess = quantity * price - (targets.get(symbol) ?? 0) * total;
+      const sold = Math.min(quantity, roundShares(excess / price));
+      const value = sold * price;
+      if (sold <= 0 || value < params.minTrade) continue;
+      const fee = tradeFee(value, params.fees);
+      trades.set(symbol, { symbol, side: "sell", shares: sold, price, value, fee });
+      shares.set(symbol, quantity - sold);
+      cash += value - fee;
+    }
+  }
+
+  const buyable = weights.filter((entry) => (prices.get(entry.symbol) ?? 0) > 0);
+  const budgets = waterFill(valuesOf(), buyable, cash);
+  for (const [symbol, budget] of budgets) {
+    const price = prices.get(symbol)!;
+    const bought = roundShares(affordableValue(budget, params.fees) / price);
+    const value = bought * price;
+    if (bought <= 0 || value < params.minTrade) continue;
+    const fee = tradeFee(value, params.fees);
+    trades.set(symbol, { symbol, side: "buy", shares: bought, price, value, fee });
+    shares.set(symbol, (shares.get(symbol) ?? 0) + bought);
+    cash -= value + fee;
+  }
+
+  // whole shares leave change behind: spend it where the allocation is furthest below target
+  if (params.wholeShares) {
+    for (let guard = 0; guard < 10_000; guard += 1) {
+      const values = valuesOf();
+      const total = Array.from(values.values()).reduce((acc, value) => acc + value, 0);
+      const candidates = buyable
+        .filter((entry) => trades.get(entry.symbol)?.side !== "sell")
+        .map((entry) => {
+          const price = prices.get(entry.symbol)!;
+          const trade = trades.get(entry.symbol);
+          const value = (trade?.value ?? 0) + price;
+          const cost = price + tradeFee(value, params.fees) - (trade?.fee ?? 0);
+          const gap = entry.weight - (values.get(entry.symbol) ?? 0) / (total || 1);
+          return { symbol: entry.symbol, price, value, cost, gap };
+        })
+        .filter((candidate) => candidate.cost <= cash + 1e-9 && candidate.value >= params.minTrade)
+        .sort((a, b) => b.gap - a.gap);
+      const pick = candidates[0];
+      if (!pick || pick.gap <= 0) break;
+      const trade = trades.get(pick.symbol);
+      const fee = tradeFee(pick.value, params.fees);
+      trades.set(pick.symbol, {
+        symbol: pick.symbol,
+        side: "buy",
+        shares: (trade?.shares ?? 0) + 1,
+        price: pick.price,
+        value: pick.value,
+        fee
+      });
+      shares.set(pick.symbol, (shares.get(pick.symbol) ?? 0) + 1);
+      cash -= pick.cost;
+    }
+  }
+
+  const after = allocation(valuesOf(), targets);
+  const ordered = Array.from(trades.values()).sort((a, b) =>
+    a.side === b.side ? b.value - a.value : a.side === "sell" ? -1 : 1
+  );
+  return {
+    trades: ordered,
+    before: before.rows,
+    after: after.rows,
+    cashLeft: Math.max(cash, 0),
+    feesTotal: ordered.reduce((acc, trade) => acc + trade.fee, 0),
+    maxDriftBefore: before.maxDrift,
+    maxDriftAfter: after.maxDrift
+  };
+}
+
+const AMOUNT = "(\\d[\\d'’.,]*\\s*[kK]?)";
+const CURRENCY = "\\s*(CHF|EUR|USD|GBP|€|\\$|franchi|euro|dollari)?";
+// "verso 80% VWCE" is a weight, not a contribution
+const NOT_PERCENT = "(?![\\d'’.,]*\\s*%)";
+const HOLDING_CURRENCY = "(?:CHF|EUR|USD|GBP|€|\\$|franchi|euro|dollari)";
+const CURRENCY_CODES: Record<string, string> = {
+  "€": "EUR",
+  $: "USD",
+  franchi: "CHF",
+  euro: "EUR",
+  dollari: "USD"
+};
+
+export interface RebalanceRequest {
+  mode?: RebalanceParams["mode"];
+  contribution?: number;
+  /** Currency the contribution was written in, when named. */
+  contributionCurrency?: string;
+  minTrade?: number;
+  wholeShares?: boolean;
+  broker?: RebalanceBroker;
+  fees?: TradeFees;
+  /** Positions written in the message, as shares or as a value in the reporting currency. */
+  holdings: Array<{ symbol: string; quantity?: number; value?: number }>;
+}
+
+/**
+ * Reads a rebalancing request: "ho 30 VWCE e 10 AGGH, target 80/20, verso
+ * 2'000 CHF senza vendere, ordine minimo 500, su IBKR". Weights are parsed
+ * separately with `parseWeights`.
+ */
+export function parseRebalanceRequest(text: string, symbols: string[]): RebalanceRequest {
+  const result: RebalanceRequest = { holdings: [] };
+  let rest = text;
+
+  const contribution =
+    new RegExp(
+      `\\b(?:vers(?:o|are|amento)|investi(?:re)?|invest(?:o|ing)?|aggiung(?:o|ere)|apporto|contribut(?:o|ion|e)|nuova liquidità|add(?:ing)?)\\s*(?:di|of|altri|another)?\\s*${AMOUNT}${NOT_PERCENT}${CURRENCY}`,
+      "i"
+    ).exec(rest) ??
+    new RegExp(
+      `${AMOUNT}${CURRENCY}\\s*(?:da\\s+(?:investire|versare)|to\\s+invest|nuovi|in\\s+più|di\\s+liquidità|cash)`,
+      "i"
+    ).exec(rest);
+  if (contribution) {
+    result.contribution = parseAmount(contribution[1]);
+    const currency = contribution[2];
+    if (currency)
+      result.contributionCurrency =
+        CURRENCY_CODES[currency.toLowerCase()] ?? currency.toUpperCase();
+    rest = rest.replace(contribution[0], " ");
+  }
+
+  const minTrade = new RegExp(
+    `\\b(?:ordine\\s+minimo|minimo\\s+(?:per\\s+ordine|\\d)|min(?:imum)?\\s+(?:trade|order)|taglio\\s+minimo)\\s*(?:di|of|da)?\\s*${AMOUNT}${CURRENCY}`,
+    "i"
+  ).exec(rest);
+  if (minTrade) {
+    result.minTrade = parseAmount(minTrade[1]);
+    rest = rest.replace(minTrade[0], " ");
+  }
+
+  const fee =
+    /\b(?:commission[ei]?|fees?|costo)\s*(?:di|del|of)?\s*(\d+(?:[.,]\d+)?)\s*(%|CHF|EUR|USD|GBP)?/i.exec(
+      rest
+    );
+  if (fee) {
+    const amount = Number.parseFloat(fee[1].replace(",", "."));
+    result.fees =
+      fee[2] === "%" ? { perTrade: 0, pct: amount, min: 0 } : { perTrade: amount, pct: 0, min: 0 };
+    rest = rest.replace(fee[0], " ");
+  }
+
+  if (/\b(?:interactive\s*brokers|ibkr)\b/i.test(text)) result.broker = "ibkr";
+  else if (/\bswissquote\b/i.test(text)) result.broker = "swissquote";
+  else if (/\bdegiro\b/i.test(text)) result.broker = "degiro";
+
+  if (/\b(?:frazionat[ei]|fractional|frazioni di quota)\b/i.test(text)) result.wholeShares = false;
+  if (
+    /\b(?:senza\s+vendere|solo\s+acquist|solo\s+(?:con\s+)?(?:il\s+)?versament|no\s+sell|without\s+selling|buy\s+only)/i.test(
+      text
+    )
+  ) {
+    result.mode = "contribution";
+  } else if (
+    /\b(?:vendendo|anche\s+vendendo|con\s+vendite|selling|sell\s+and\s+buy)\b/i.test(text)
+  ) {
+    result.mode = "full";
+  } else if (result.contribution) {
+    result.mode = "contribution";
+  }
+
+  for (const symbol of symbols) {
+    const escaped = symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const value =
+      new RegExp(
+        `\\b${escaped}\\b\\s*(?::|=|per|da|con|di)?\\s*${AMOUNT}\\s*${HOLDING_CURRENCY}`,
+        "i"
+      ).exec(rest) ??
+      new RegExp(`${AMOUNT}\\s*${HOLDING_CURRENCY}\\s*(?:di|in|su|of)\\s+${escaped}\\b`, "i").exec(
+        rest
+      );
+    if (value) {
+      result.holdings.push({ symbol, value: parseAmount(value[1]) });
+      continue;
+    }
+    const quantity = new RegExp(
+      `(\\d[\\d'’.,]*)(?!\\s*%)\\s*(?:quote|azioni|shares?|pz|x)?\\s*(?:di\\s+)?${escaped}\\b`,
+      "i"
+    ).exec(rest);
+    if (quantity) result.holdings.push({ symbol, quantity: parseAmount(quantity[1]) });
+  }
+
+  return result;
+}
@@ -0,0 +1,317 @@
+import { ContentType, type Media } from "@elizaos/core";
+import { z } from "zod";
+import { METRIC_WINDOWS } from "./metrics";
+import { SWISS_COST_GAPS, SWISS_COST_NOTES } from "./swissTax";
+import { PRICE_INTERVALS, TIME_WINDOW_UNITS } from "./timeWindow";
+
+/** Bumped on any breaking change to `etfSnapshotSchema`; additive fields keep the version. */
+export const SNAPSHOT_SCHEMA_VERSION = 1;
+
+export const SNAPSHOT_EXPORT_FORMATS = ["csv", "json"] as const;
+export type SnapshotExportFormat = (typeof SNAPSHOT_EXPORT_FORMATS)[number];
+
+const EXPORT_HINT = /\b(?:esporta(?:re)?|export(?:ieren)?|scarica(?:re)?|download)\b/i;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD");
+// intraday bars carry the exchange time
+const barTime = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(?: \d{2}:\d{2})?$/, "expected YYYY-MM-DD or YYYY-MM-DD HH:MM");
+const currency = z.string().length(3);
+// metrics can come out as NaN or ±Infinity on flat or very short series; those become "missing"
+const optionalMetric = z.preprocess(
+  (value) => (typeof value === "number" && !Number.isFinite(value) ? undefined : value),
+  z.number().optional()
+);
+const nullableMetric = z.preprocess(
+  (value) => (typeof value === "number" && !Number.isFinite(value) ? null : value),
+  z.number().nullable()
+);
+
+export const snapshotOverviewSchema = z.object({
+  symbol: z.string().min(1),
+  name: z.string().optional(),
+  isin: z.string().optional(),
+  category: z.string().optional(),
+  issuer: z.string().optional(),
+  expenseRatio: optionalMetric,
+  inceptionDate: z.string().optional(),
+  domicile: z.string().optional(),
+  benchmark: z.string().optional(),
+  replication: z.enum(["physical", "physical-sampling", "synthetic"]).optional(),
+  distributionPolicy: z.enum(["accumulating", "distributing"]).optional(),
+  currency: z.string().optional(),
+  aum: optionalMetric,
+  nav: optionalMetric,
+  lastClose: optionalMetric,
+  lastCloseDate: z.string().optional(),
+  dataSources: z.array(z.string())
+});
+
+const snapshotHoldingSchema = z.object({
+  symbol: z.string().optional(),
+  isin: z.string().optional(),
+  name: z.string(),
+  weightPct: optionalMetric,
+  shares: optionalMetric,
+  marketValue: optionalMetric
+});
+
+export const snapshotHoldingsSchema = z.object({
+  symbol: z.string().min(1),
+  asOf: z.string().optional(),
+  topHoldings: z.array(snapshotHoldingSchema),
+  dataSources: z.array(z.string())
+});
+
+export const snapshotListingSchema = z.object({
+  symbol: z.string().min(1),
+  /** What the user typed (ticker or ISIN). */
+  query: z.string(),
+  isin: z.string().optional(),
+  exchange: z.enum(["US", "XETRA", "LSE", "SIX", "BIT", "AEB"]).optional(),
+  ticker: z.string(),
+  currency: currency.optional(),
+  /** Upstream symbol the prices were read from (e.g. "vwce.de"). */
+  sourceSymbol: z.string().optional(),
+  hasHistory: z.boolean()
+});
+
+const fxConversionSchema = z.object({
+  symbol: z.string(),
+  from: currency,
+  to: currency,
+  pair: z.string(),
+  dataSources: z.array(z.string())
+});
+
+export const snapshotWindowSchema = z.object({
+  kind: z.enum(["last", "since", "ytd"]),
+  start: isoDate,
+  end: isoDate.optional(),
+  amount: z.number().int().positive().optional(),
+  unit: z.enum(TIME_WINDOW_UNITS).optional()
+});
+
+export const snapshotPerformanceSchema = z.object({
+  /** Charted bars: the requested window, else the last `dates.length` common trading days. */
+  dates: z.array(barTime),
+  /** Spacing of `dates`; absent in snapshots written before it was added, meaning "1d". */
+  interval: z.enum(PRICE_INTERVALS).optional(),
+  /** Set when the message asked for intraday bars no source could provide. */
+  requestedInterval: z.enum(PRICE_INTERVALS).optional(),
+  /** Rebased to 100 on `dates[0]`, in `baseCurrency`, one value per date (null = no quote). */
+  series: z.array(z.object({ symbol: z.string(), values: z.array(nullableMetric) })),
+  priceSources: z.array(z.string()),
+  fxConversions: z.array(fxConversionSchema),
+  /** Series left in their own currency because the currency or the FX rates were missing. */
+  unconverted: z.array(z.string())
+});
+
+export const snapshotTotalReturnSchema = z.object({
+  symbol: z.string(),
+  /** Over the performance window, in `baseCurrency`. */
+  priceReturnPct: nullableMetric,
+  totalReturnPct: nullableMetric,
+  reinvested: z.number().int().min(0),
+  /** Distributions skipped because they could not be converted to the listing currency. */
+  dropped: z.number().int().min(0),
+  accumulating: z.boolean(),
+  missingData: z.boolean(),
+  dataSources: z.array(z.string())
+});
+
+const metricWindow = z.enum(METRIC_WINDOWS);
+
+const windowMetricsSchema = z.object({
+  window: metricWindow,
+  start: isoDate,
+  end: isoDate,
+  observations: z.number().int(),
+  totalReturnPct: nullableMetric,
+  cagrPct: nullableMetric,
+  volatilityPct: nullableMetric,
+  maxDrawdown: z.object({
+    pct: nullableMetric,
+    peakDate: isoDate,
+    troughDate: isoDate,
+    recoveryDate: isoDate.optional()
+  }),
+  sharpe: optionalMetric,
+  sortino: optionalMetric,
+  beta: optionalMetric
+});
+
+export const snapshotMetricsSchema = z.object({
+  windows: z.array(metricWindow),
+  benchmark: z.string().optional(),
+  riskFree: z
+    .object({
+      seriesId: z.string(),
+      averageRatePct: nullableMetric,
+      dataSources: z.array(z.string())
+    })
+    .optional(),
+  perSymbol: z.record(z.string(), z.record(z.string(), windowMetricsSchema.nullable())),
+  correlation: z
+    .object({
+      window: metricWindow,
+      symbols: z.array(z.string()),
+      matrix: z.array(z.array(nullableMetric))
+    })
+    .nullable()
+});
+
+const swissCostRowSchema = z.object({
+  symbol: z.string(),
+  domicile: z.string().optional(),
+  distributionPolicy: z.enum(["accumulating", "distributing"]).optional(),
+  terPct: nullableMetric,
+  dividendYieldPct: nullableMetric,
+  usEquityPct: nullableMetric,
+  usWithholdingRatePct: nullableMetric,
+  withholdingDragPct: nullableMetric,
+  stampDutyPct: z.number().min(0),
+  stampDutyAnnualPct: z.number().min(0),
+  wealthTaxPct: z.number().min(0),
+  totalPct: z.number(),
+  missing: z.array(z.enum(SWISS_COST_GAPS)),
+  notes: z.array(z.enum(SWISS_COST_NOTES))
+});
+
+export const snapshotSwissCostsSchema = z.object({
+  horizonYears: z.number().int().min(1),
+  swissBroker: z.boolean(),
+  wealthTaxPct: z.number().min(0),
+  /** Yearly cost for a Swiss resident, in % of the invested value, cheapest first. */
+  rows: z.array(swissCostRowSchema)
+});
+
+export const etfSnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_SCHEMA_VERSION),
+  generatedAt: z.string().datetime(),
+  primarySymbol: z.string().min(1),
+  compareSymbols: z.array(z.string()),
+  /** Inputs that could not be resolved to an instrument (unknown ISINs). */
+  unresolved: z.array(z.string()),
+  baseCurrency: currency,
+  listings: z.array(snapshotListingSchema),
+  /** Time window asked for in the message; absent or null when none was. */
+  window: snapshotWindowSchema.nullable().optional(),
+  overview: snapshotOverviewSchema,
+  holdings: snapshotHoldingsSchema.nullable(),
+  performance: snapshotPerformanceSchema.nullable(),
+  totalReturn: z
+    .object({
+      withholdingPct: z.number().min(0).max(100),
+      rows: z.array(snapshotTotalReturnSchema)
+    })
+    .nullable(),
+  metrics: snapshotMetricsSchema.nullable(),
+  /** Only for CHF reports; absent in snapshots written before it was added. */
+  swissCosts: snapshotSwissCostsSchema.nullable().optional(),
+  charts: z.array(z.object({ kind: z.string(), title: z.string(), fileName: z.string() }))
+});
+
+export type EtfSnapshot = z.infer<typeof etfSnapshotSchema>;
+export type SnapshotListing = z.infer<typeof snapshotListingSchema>;
+export type SnapshotPerformance = z.infer<typeof snapshotPerformanceSchema>;
+export type SnapshotWindow = z.infer<typeof snapshotWindowSchema>;
+export type SnapshotMetrics = z.infer<typeof snapshotMetricsSchema>;
+export type SnapshotSwissCosts = z.infer<typeof snapshotSwissCostsSchema>;
+
+/**
+ * Validates a snapshot against the current schema. A failure here is a bug in
+ * the builder, so it throws with every issue listed rather than returning a
+ * partial result.
+ */
+export function parseEtfSnapshot(value: unknown): EtfSnapshot {
+  const parsed = etfSnapshotSchema.safeParse(value);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`[rip2etf] snapshot failed validation:\n${issues}`);
+  }
+  return parsed.data;
+}
+
+/** Export formats from `options.exports`, the configured defaults and the message ("csv", "json"). */
+export function selectSnapshotExports(
+  text: string,
+  configured: string[],
+  requested?: unknown
+): SnapshotExportFormat[] {
+  const selected = new Set<string>(configured);
+  if (Array.isArray(requested)) requested.forEach((format) => selected.add(String(format)));
+  const mentioned = SNAPSHOT_EXPORT_FORMATS.filter((format) =>
+    new RegExp(`\\b${format}\\b`, "i").test(text)
+  );
+  // "esporta i dati" with no format named means both
+  const wanted = mentioned.length || !EXPORT_HINT.test(text) ? mentioned : SNAPSHOT_EXPORT_FORMATS;
+  wanted.forEach((format) => selected.add(format));
+  return SNAPSHOT_EXPORT_FORMATS.filter((format) => selected.has(format));
+}
+
+const csvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** One row per date, one column per symbol; empty cells where a series has no quote. */
+export function snapshotSeriesCsv(performance: SnapshotPerformance): string {
+  const header = ["date", ...performance.series.map((series) => series.symbol)];
+  const rows = performance.dates.map((date, index) => [
+    date,
+    ...performance.series.map((series) => {
+      const value = series.values[index];
+      return value === null || value === undefined ? "" : value.toFixed(4);
+    })
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function snapshotJson(snapshot: EtfSnapshot): string {
+  return `${JSON.stringify(snapshot, null, 2)}\n`;
+}
+
+/** CSV of the rebased series (when there is one) and the full snapshot as JSON. */
+export function snapshotExportAttachments(
+  snapshot: EtfSnapshot,
+  formats: SnapshotExportFormat[],
+  source: string
+): Media[] {
+  const day = snapshot.generatedAt.slice(0, 10);
+  const baseName = `rip2etf-snapshot-${snapshot.primarySymbol.toLowerCase()}-${day}`;
+  const document = (fileName: string, mimeType: string, body: string, title: string): Media => ({
+    id: fileName.replace(".", "-"),
+    url: fileName,
+    data: Buffer.from(body, "utf8"),
+    filename: fileName,
+    mimeType,
+    title,
+    source,
+    contentType: ContentType.DOCUMENT
+  });
+
+  const attachments: Media[] = [];
+  if (formats.includes("csv") && snapshot.performance?.dates.length) {
+    attachments.push(
+      document(
+        `${baseName}.csv`,
+        "text/csv",
+        snapshotSeriesCsv(snapshot.performance),
+        `${snapshot.primarySymbol} rebased 100 (${snapshot.baseCurrency})`
+      )
+    );
+  }
+  if (formats.includes("json")) {
+    attachments.push(
+      document(
+        `${baseName}.json`,
+        "application/json",
+        snapshotJson(snapshot),
+        `${snapshot.primarySymbol} snapshot v${snapshot.version}`
+      )
+    );
+  }
+  return attachments;
+}
@@ -0,0 +1,788 @@
+import { formatMoney } from "./currency";
+import { EXCHANGES } from "./instruments";
+import type { PriceInterval } from "../types";
+import type {
+  EtfSnapshot,
+  SnapshotListing,
+  SnapshotMetrics,
+  SnapshotSwissCosts,
+  SnapshotWindow
+} from "./snapshot";
+import type { SwissCostGap, SwissCostNote } from "./swissTax";
+import type { TimeWindowUnit } from "./timeWindow";
+
+export const SNAPSHOT_LOCALES = ["it", "en", "de"] as const;
+export type SnapshotLocale = (typeof SNAPSHOT_LOCALES)[number];
+
+type WindowMetrics = NonNullable<SnapshotMetrics["perSymbol"][string][string]>;
+
+interface SwissCostStrings {
+  title: string;
+  withholding: string;
+  stampDuty: string;
+  wealthTax: string;
+  perYear: string;
+  missing: string;
+  gaps: Record<SwissCostGap, string>;
+  notes: Record<SwissCostNote, string>;
+  stampDutyBasis: (years: number) => string;
+  noStampDuty: string;
+  withholdingBasis: string;
+  taxValue: (wealthTaxPct: number) => string;
+  incomeTax: string;
+  disclaimer: string;
+}
+
+interface SpanStrings {
+  /** Charted bars when no window was asked for: "180 giorni", "52 settimane". */
+  points: (count: number, interval: PriceInterval) => string;
+  last: (amount: number, unit: TimeWindowUnit) => string;
+  since: (start: string, end?: string) => string;
+  ytd: string;
+  intervals: Record<PriceInterval, string>;
+  intradayUnavailable: (interval: string) => string;
+}
+
+/** Titles and descriptions of the snapshot charts. */
+export interface ChartStrings {
+  performance: (span: string, currency: string) => string;
+  performanceDescription: (span: string, currency: string) => string;
+  drawdown: (currency: string) => string;
+  drawdownDescription: (start: string, end: string) => string;
+  annual: (currency: string) => string;
+  annualDescription: (symbols: string) => string;
+  correlation: (window: string) => string;
+  correlationDescription: (symbols: string) => string;
+  holdings: (symbol: string) => string;
+  holdingsDescription: (count: number, symbol: string) => string;
+  /** Slice for the weight outside the charted holdings. */
+  other: string;
+}
+
+/** Answers to a snapshot request that cannot be served as asked. */
+interface RequestStrings {
+  unresolvedIsin: (symbols: string) => string;
+  /** `suggestions` is empty when no close match was found. */
+  unknownSymbols: (symbols: string, suggestions: string) => string;
+  missingSymbol: string;
+  noData: string;
+}
+
+interface SnapshotStrings {
+  /** Placeholder for a missing value. */
+  na: string;
+  title: (symbol: string) => string;
+  listing: string;
+  unspecifiedListing: string;
+  issuer: string;
+  category: string;
+  domicile: string;
+  distribution: string;
+  accumulating: string;
+  distributing: string;
+  lastClose: string;
+  topHoldings: (asOf?: string) => string;
+  performance: (currency: string, span: string) => string;
+  listingsUsed: string;
+  fxApplied: string;
+  unconverted: (symbols: string, currency: string) => string;
+  priceSources: string;
+  totalReturn: (span: string, currency: string) => string;
+  reinvested: (count: number) => string;
+  distributionsMissing: string;
+  withholding: string;
+  droppedDistributions: string;
+  risk: (currency: string) => string;
+  insufficientHistory: string;
+  recovered: string;
+  correlations: string;
+  betaVs: string;
+  riskFree: (seriesId: string, average: string) => string;
+  riskFreeMissing: string;
+  compareWith: string;
+  charts: (count: number) => string;
+  exports: string;
+  unresolved: string;
+  swiss: SwissCostStrings;
+  span: SpanStrings;
+  chart: ChartStrings;
+  request: RequestStrings;
+}
+
+const STRINGS: Record<SnapshotLocale, SnapshotStrings> = {
+  it: {
+    na: "n/d",
+    title: (symbol) => `**${symbol} · snapshot dati**`,
+    listing: "Listing",
+    unspecifiedListing: "listing non specificato",
+    issuer: "Issuer",
+    category: "Categoria",
+    domicile: "Domicilio",
+    distribution: "Distribuzione",
+    accumulating: "accumulazione",
+    distributing: "distribuzione",
+    lastClose: "ultimo close",
+    topHoldings: (asOf) => `Top holdings${asOf ? ` (al ${asOf})` : ""}:`,
+    performance: (currency, span) => `Performance rebased 100 in ${currency} (${span}):`,
+    listingsUsed: "Listing usati",
+    fxApplied: "Cambi applicati",
+    unconverted: (symbols, currency) =>
+      `Attenzione: ${symbols} non convertiti in ${currency} (valuta o cambio non disponibile)`,
+    priceSources: "Fonti prezzo",
+    totalReturn: (span, currency) => `Prezzo vs total return (${span}, ${currency}):`,
+    reinvested: (count) => `${count} distribuzioni reinvestite`,
+    distributionsMissing: "distribuzioni non disponibili",
+    withholding: "Ritenuta alla fonte sulle distribuzioni",
+    droppedDistributions: "Distribuzioni escluse (cambio non disponibile)",
+    risk: (currency) => `Rischio/rendimento in ${currency} (total return):`,
+    insufficientHistory: "storico insufficiente",
+    recovered: "recuperato",
+    correlations: "Correlazioni",
+    betaVs: "Beta calcolato vs",
+    riskFree: (seriesId, average) => `Sharpe/Sortino con risk-free ${seriesId} (media ${average})`,
+    riskFreeMissing: "Sharpe/Sortino con risk-free 0% (serie FRED non disponibile)",
+    compareWith: "Confronto con",
+    charts: (count) =>
+      count === 1 ? "Grafico Chart.js allegato in coda." : `${count} grafici allegati in coda.`,
+    exports: "Export allegati",
+    unresolved: "Non risolti (ISIN non nel registry o ticker sconosciuti)",
+    swiss: {
+      title: "Costi annui per un residente svizzero (% del capitale):",
+      withholding: "ritenuta USA persa",
+      stampDuty: "bollo",
+      wealthTax: "patrimoniale",
+      perYear: "/anno",
+      missing: "mancano",
+      gaps: {
+        ter: "TER",
+        domicile: "domicilio",
+        yield: "rendimento da dividendi",
+        usShare: "quota USA"
+      },
+      notes: {
+        da1: "15% USA sulle distribuzioni recuperabile con il modulo DA-1",
+        estateTax: "fondo USA: esposto all'imposta di successione americana",
+        swissWithholding: "imposta preventiva 35% sui proventi, rimborsata in dichiarazione"
+      },
+      stampDutyBasis: (years) =>
+        `Bollo: 0.15% (0.075% per fondi CH) sull'acquisto tramite banca o broker svizzero, ripartito su ${years} anni; la vendita lo paga di nuovo.`,
+      noStampDuty: "Bollo escluso: acquisto tramite broker estero.",
+      withholdingBasis:
+        "Ritenuta: solo dividendi USA, in proporzione alla quota azionaria USA (IE 15%, LU 30%, fondi USA e CH recuperabili); le ritenute di altri paesi dentro il fondo non sono stimate.",
+      taxValue: (wealthTaxPct) =>
+        wealthTaxPct > 0
+          ? `Valore fiscale: corso di fine anno della Kursliste AFC in CHF; patrimoniale ${wealthTaxPct}% inclusa.`
+          : "Valore fiscale: corso di fine anno della Kursliste AFC in CHF; patrimoniale esclusa (dipende da cantone e comune).",
+      incomeTax:
+        "I proventi sono reddito imponibile sia per i fondi ad accumulazione sia a distribuzione (imposta sul reddito non inclusa).",
+      disclaimer: "Stima indicativa, non consulenza fiscale: verifica con l'AFC o il tuo cantone."
+    },
+    span: {
+      points: (count, interval) =>
+        `${count} ${{ "15m": "barre da 15 minuti", "1h": "ore", "1d": "giorni", "1wk": "settimane", "1mo": "mesi" }[interval]}`,
+      last: (amount, unit) =>
+        amount === 1
+          ? {
+              days: "ultimo giorno",
+              weeks: "ultima settimana",
+              months: "ultimo mese",
+              years: "ultimo anno"
+            }[unit]
+          : `${unit === "weeks" ? "ultime" : "ultimi"} ${amount} ${{ days: "giorni", weeks: "settimane", months: "mesi", years: "anni" }[unit]}`,
+      since: (start, end) => (end ? `dal ${start} al ${end}` : `dal ${start}`),
+      ytd: "da inizio anno",
+      intervals: {
+        "15m": "barre da 15 minuti",
+        "1h": "barre orarie",
+        "1d": "giornaliero",
+        "1wk": "settimanale",
+        "1mo": "mensile"
+      },
+      intradayUnavailable: (interval) =>
+        `Dati intraday (${interval}) non disponibili: uso le chiusure giornaliere.`
+    },
+    chart: {
+      performance: (span, currency) => `Andamento (${span}, ${currency}, base 100)`,
+      performanceDescription: (span, currency) =>
+        `Performance rebased 100 in ${currency} (${span})`,
+      drawdown: (currency) => `Drawdown dal massimo precedente (total return, ${currency})`,
+      drawdownDescription: (start, end) => `Drawdown in % dal ${start} al ${end}`,
+      annual: (currency) =>
+        `Rendimenti per anno solare (total return, ${currency}; * anno parziale)`,
+      annualDescription: (symbols) => `Rendimento annuo in % per ${symbols}`,
+      correlation: (window) => `Correlazione dei rendimenti giornalieri (${window})`,
+      correlationDescription: (symbols) => `Matrice di correlazione ${symbols}`,
+      holdings: (symbol) => `Principali posizioni di ${symbol} (% del fondo)`,
+      holdingsDescription: (count, symbol) => `Peso delle prime ${count} posizioni di ${symbol}`,
+      other: "Altro"
+    },
+    request: {
+      unresolvedIsin: (symbols) =>
+        `Non riesco a risolvere ${symbols}: ISIN non presente nel registry ETF. Indica il ticker e la borsa (es. VWCE su Xetra).`,
+      unknownSymbols: (symbols, suggestions) =>
+        `Non trovo ${symbols} tra gli ETF che conosco${suggestions ? ` (forse ${suggestions}?)` : ""}. Quale intendevi? Indica il ticker e la borsa (es. VWCE su Xetra) o l'ISIN.`,
+      missingSymbol:
+        "Non ho trovato ticker validi nel messaggio. Indica almeno un simbolo ETF (es. VOO) e riprovo.",
+      noData:
+        "Non sono riuscito a trovare dati affidabili per i simboli indicati. Controlla i ticker (es. VOO, VWCE) e riprova."
+    }
+  },
+  en: {
+    na: "n/a",
+    title: (symbol) => `**${symbol} · data snapshot**`,
+    listing: "Listing",
+    unspecifiedListing: "listing not specified",
+    issuer: "Issuer",
+    category: "Category",
+    domicile: "Domicile",
+    distribution: "Distribution",
+    accumulating: "accumulating",
+    distributing: "distributing",
+    lastClose: "last close",
+    topHoldings: (asOf) => `Top holdings${asOf ? ` (as of ${asOf})` : ""}:`,
+    performance: (currency, span) => `Performance rebased to 100 in ${currency} (${span}):`,
+    listingsUsed: "Listings used",
+    fxApplied: "FX applied",
+    unconverted: (symbols, currency) =>
+      `Warning: ${symbols} not converted to ${currency} (currency or FX rate not available)`,
+    priceSources: "Price sources",
+    totalReturn: (span, currency) => `Price vs total return (${span}, ${currency}):`,
+    reinvested: (count) => `${count} distributions reinvested`,
+    distributionsMissing: "distributions not available",
+    withholding: "Withholding tax on distributions",
+    droppedDistributions: "Distributions skipped (FX rate not available)",
+    risk: (currency) => `Risk/return in ${currency} (total return):`,
+    insufficientHistory: "not enough history",
+    recovered: "recovered",
+    correlations: "Correlations",
+    betaVs: "Beta measured against",
+    riskFree: (seriesId, average) => `Sharpe/Sortino with risk-free ${seriesId} (mean ${average})`,
+    riskFreeMissing: "Sharpe/Sortino with a 0% risk-free rate (FRED series not available)",
+    compareWith: "Compared with",
+    charts: (count) =>
+      count === 1 ? "Chart.js chart attached below." : `${count} charts attached below.`,
+    exports: "Exports attached",
+    unresolved: "Unresolved (ISIN not in the registry or unknown tickers)",
+    swiss: {
+      title: "Yearly costs for a Swiss resident (% of the invested value):",
+      withholding: "lost US withholding",
+      stampDuty: "stamp duty",
+      wealthTax: "wealth tax",
+      perYear: "/yr",
+      missing: "missing",
+      gaps: {
+        ter: "TER",
+        domicile: "domicile",
+        yield: "dividend yield",
+        usShare: "US share"
+      },
+      notes: {
+        da1: "15% US tax on distributions reclaimable with form DA-1",
+        estateTax: "US fund: exposed to US estate tax",
+        swissWithholding: "35% Swiss withholding on income, refunded through the tax return"
+      },
+      stampDutyBasis: (years) =>
+        `Stamp duty: 0.15% (0.075% for Swiss funds) on purchases through a Swiss bank or broker, spread over ${years} years; selling pays it again.`,
+      noStampDuty: "No stamp duty: bought through a foreign broker.",
+      withholdingBasis:
+        "Withholding: US dividends only, in proportion to the US equity share (IE 15%, LU 30%, US and Swiss funds reclaimable); other countries' withholding inside the fund is not estimated.",
+      taxValue: (wealthTaxPct) =>
+        wealthTaxPct > 0
+          ? `Tax value: year-end price from the ESTV Kursliste in CHF; ${wealthTaxPct}% wealth tax included.`
+          : "Tax value: year-end price from the ESTV Kursliste in CHF; wealth tax left out (it depends on canton and commune).",
+      incomeTax:
+        "Fund income is taxable for accumulating and distributing funds alike (income tax not included).",
+      disclaimer: "Indicative estimate, not tax advice: check with the ESTV or your canton."
+    },
+    span: {
+      points: (count, interval) =>
+        `${count} ${{ "15m": "15-minute bars", "1h": "hours", "1d": "days", "1wk": "weeks", "1mo": "months" }[interval]}`,
+      last: (amount, unit) =>
+        amount === 1 ? `last ${unit.slice(0, -1)}` : `last ${amount} ${unit}`,
+      since: (start, end) => (end ? `from ${start} to ${end}` : `since ${start}`),
+      ytd: "year to date",
+      intervals: {
+        "15m": "15-minute bars",
+        "1h": "hourly bars",
+        "1d": "daily",
+        "1wk": "weekly",
+        "1mo": "monthly"
+      },
+      intradayUnavailable: (interval) =>
+        `Intraday data (${interval}) not available: using daily closes.`
+    },
+    chart: {
+      performance: (span, currency) => `Performance (${span}, ${currency}, rebased to 100)`,
+      performanceDescription: (span, currency) =>
+        `Performance rebased to 100 in ${currency} (${span})`,
+      drawdown: (currency) => `Drawdown from the previous peak (total return, ${currency})`,
+      drawdownDescription: (start, end) => `Drawdown in % from ${start} to ${end}`,
+      annual: (currency) => `Calendar-year returns (total return, ${currency}; * partial year)`,
+      annualDescription: (symbols) => `Annual return in % for ${symbols}`,
+      correlation: (window) => `Correlation of daily returns (${window})`,
+      correlationDescription: (symbols) => `Correlation matrix ${symbols}`,
+      holdings: (symbol) => `Top holdings of ${symbol} (% of the fund)`,
+      holdingsDescription: (count, symbol) => `Weight of the top ${count} holdings of ${symbol}`,
+      other: "Other"
+    },
+    request: {
+      unresolvedIsin: (symbols) =>
+        `Cannot resolve ${symbols}: ISIN not in the ETF registry. Give the ticker and the exchange (e.g. VWCE on Xetra).`,
+      unknownSymbols: (symbols, suggestions) =>
+        `I can't find ${symbols} among the ETFs I know${suggestions ? ` (maybe ${suggestions}?)` : ""}. Which one did you mean? Give the ticker and the exchange (e.g. VWCE on Xetra) or the ISIN.`,
+      missingSymbol:
+        "I found no valid ticker in the message. Give at least one ETF symbol (e.g. VOO) and I'll try again.",
+      noData:
+        "I could not find reliable data for the given symbols. Check the tickers (e.g. VOO, VWCE) and try again."
+    }
+  },
+  de: {
+    na: "k. A.",
+    title: (symbol) => `**${symbol} · Datenüberblick**`,
+    listing: "Listing",
+    unspecifiedListing: "Listing nicht angegeben",
+    issuer: "Anbieter",
+    category: "Kategorie",
+    domicile: "Domizil",
+    distribution: "Ertragsverwendung",
+    accumulating: "thesaurierend",
+    distributing: "ausschüttend",
+    lastClose: "letzter Schlusskurs",
+    topHoldings: (asOf) => `Größte Positionen${asOf ? ` (Stand ${asOf})` : ""}:`,
+    performance: (currency, span) => `Wertentwicklung indexiert auf 100 in ${currency} (${span}):`,
+    listingsUsed: "Verwendete Listings",
+    fxApplied: "Angewandte Wechselkurse",
+    unconverted: (symbols, currency) =>
+      `Achtung: ${symbols} nicht in ${currency} umgerechnet (Währung oder Wechselkurs nicht verfügbar)`,
+    priceSources: "Kursquellen",
+    totalReturn: (span, currency) => `Kurs vs. Gesamtrendite (${span}, ${currency}):`,
+    reinvested: (count) => `${count} Ausschüttungen reinvestiert`,
+    distributionsMissing: "Ausschüttungen nicht verfügbar",
+    withholding: "Quellensteuer auf Ausschüttungen",
+    droppedDistributions: "Ausgeschlossene Ausschüttungen (Wechselkurs nicht verfügbar)",
+    risk: (currency) => `Risiko/Rendite in ${currency} (Gesamtrendite):`,
+    insufficientHistory: "Historie zu kurz",
+    recovered: "erholt",
+    correlations: "Korrelationen",
+    betaVs: "Beta gemessen gegen",
+    riskFree: (seriesId, average) =>
+      `Sharpe/Sortino mit risikofreiem Zins ${seriesId} (Mittel ${average})`,
+    riskFreeMissing: "Sharpe/Sortino mit risikofreiem Zins 0% (FRED-Reihe nicht verfügbar)",
+    compareWith: "Vergleich mit",
+    charts: (count) =>
+      count === 1 ? "Chart.js-Grafik unten angehängt." : `${count} Grafiken unten angehängt.`,
+    exports: "Angehängte Exporte",
+    unresolved: "Nicht aufgelöst (ISIN nicht im Registry oder unbekannte Ticker)",
+    swiss: {
+      title: "Jährliche Kosten für in der Schweiz Ansässige (% des Anlagewerts):",
+      withholding: "verlorene US-Quellensteuer",
+      stampDuty: "Umsatzabgabe",
+      wealthTax: "Vermögenssteuer",
+      perYear: "/Jahr",
+      missing: "fehlt",
+      gaps: {
+        ter: "TER",
+        domicile: "Domizil",
+        yield: "Dividendenrendite",
+        usShare: "US-Anteil"
+      },
+      notes: {
+        da1: "15% US-Quellensteuer auf Ausschüttungen mit Formular DA-1 zurückforderbar",
+        estateTax: "US-Fonds: der US-Nachlasssteuer ausgesetzt",
+        swissWithholding:
+          "35% Verrechnungssteuer auf Erträge, über die Steuererklärung zurückerstattet"
+      },
+      stampDutyBasis: (years) =>
+        `Umsatzabgabe: 0.15% (0.075% bei Schweizer Fonds) beim Kauf über eine Schweizer Bank oder einen Schweizer Broker, verteilt auf ${years} Jahre; beim Verkauf fällt sie erneut an.`,
+      noStampDuty: "Keine Umsatzabgabe: Kauf über einen ausländischen Broker.",
+      withholdingBasis:
+        "Quellensteuer: nur US-Dividenden, anteilig zum US-Aktienanteil (IE 15%, LU 30%, US- und Schweizer Fonds rückforderbar); Quellensteuern anderer Länder im Fonds sind nicht geschätzt.",
+      taxValue: (wealthTaxPct) =>
+        wealthTaxPct > 0
+          ? `Steuerwert: Jahresendkurs der ESTV-Kursliste in CHF; Vermögenssteuer ${wealthTaxPct}% eingerechnet.`
+          : "Steuerwert: Jahresendkurs der ESTV-Kursliste in CHF; Vermögenssteuer nicht eingerechnet (abhängig von Kanton und Gemeinde).",
+      incomeTax:
+        "Erträge sind bei thesaurierenden wie ausschüttenden Fonds steuerbares Einkommen (Einkommenssteuer nicht eingerechnet).",
+      disclaimer:
+        "Unverbindliche Schätzung, keine Steuerberatung: bei der ESTV oder beim Kanton prüfen."
+    },
+    span: {
+      points: (count, interval) =>
+        `${count} ${{ "15m": "15-Minuten-Balken", "1h": "Stunden", "1d": "Tage", "1wk": "Wochen", "1mo": "Monate" }[interval]}`,
+      last: (amount, unit) =>
+        amount === 1
+          ? {
+              days: "letzter Tag",
+              weeks: "letzte Woche",
+              months: "letzter Monat",
+              years: "letztes Jahr"
+            }[unit]
+          : `letzte ${amount} ${{ days: "Tage", weeks: "Wochen", months: "Monate", years: "Jahre" }[unit]}`,
+      since: (start, end) => (end ? `${start} bis ${end}` : `seit ${start}`),
+      ytd: "seit Jahresbeginn",
+      intervals: {
+        "15m": "15-Minuten-Balken",
+        "1h": "Stundenbalken",
+        "1d": "täglich",
+        "1wk": "wöchentlich",
+        "1mo": "monatlich"
+      },
+      intradayUnavailable: (interval) =>
+        `Intraday-Daten (${interval}) nicht verfügbar: tägliche Schlusskurse verwendet.`
+    },
+    chart: {
+      performance: (span, currency) => `Wertentwicklung (${span}, ${currency}, Basis 100)`,
+      performanceDescription: (span, currency) =>
+        `Wertentwicklung indexiert auf 100 in ${currency} (${span})`,
+      drawdown: (currency) => `Drawdown vom vorherigen Höchststand (Gesamtrendite, ${currency})`,
+      drawdownDescription: (start, end) => `Drawdown in % vom ${start} bis ${end}`,
+      annual: (currency) =>
+        `Renditen pro Kalenderjahr (Gesamtrendite, ${currency}; * unvollständiges Jahr)`,
+      annualDescription: (symbols) => `Jahresrendite in % für ${symbols}`,
+      correlation: (window) => `Korrelation der Tagesrenditen (${window})`,
+      correlationDescription: (symbols) => `Korrelationsmatrix ${symbols}`,
+      holdings: (symbol) => `Größte Positionen von ${symbol} (% des Fonds)`,
+      holdingsDescription: (count, symbol) => `Gewicht der ${count} größten Positionen von ${symbol}`,
+      other: "Sonstige"
+    },
+    request: {
+      unresolvedIsin: (symbols) =>
+        `${symbols} kann nicht aufgelöst werden: ISIN nicht im ETF-Registry. Bitte Ticker und Börse angeben (z. B. VWCE auf Xetra).`,
+      unknownSymbols: (symbols, suggestions) =>
+        `${symbols} ist unter den bekannten ETFs nicht zu finden${suggestions ? ` (vielleicht ${suggestions}?)` : ""}. Welcher ist gemeint? Bitte Ticker und Börse (z. B. VWCE auf Xetra) oder die ISIN angeben.`,
+      missingSymbol:
+        "Keine gültigen Ticker in der Nachricht gefunden. Bitte mindestens ein ETF-Symbol angeben (z. B. VOO).",
+      noData:
+        "Keine verlässlichen Daten für die angegebenen Symbole gefunden. Bitte die Ticker prüfen (z. B. VOO, VWCE)."
+    }
+  }
+};
+
+/** Chart titles and descriptions, so the charts follow the text's language. */
+export function snapshotChartStrings(locale: SnapshotLocale = "it"): ChartStrings {
+  return STRINGS[locale].chart;
+}
+
+export type SnapshotRequestFailure =
+  | "unresolved_isin"
+  | "clarify_symbols"
+  | "missing_symbol"
+  | "no_data_for_symbols";
+
+/**
+ * Answer to a request the snapshot cannot serve: symbols to clarify (with the
+ * close matches found), none given, or none with data.
+ */
+export function renderRequestFailure(
+  failure: SnapshotRequestFailure,
+  locale: SnapshotLocale = "it",
+  symbols: string[] = [],
+  suggestions: string[] = []
+): string {
+  const request = STRINGS[locale].request;
+  switch (failure) {
+    case "unresolved_isin":
+      return request.unresolvedIsin(symbols.join(", "));
+    case "clarify_symbols":
+      return request.unknownSymbols(symbols.join(", "), suggestions.join(", "));
+    case "missing_symbol":
+      return request.missingSymbol;
+    case "no_data_for_symbols":
+      return request.noData;
+  }
+}
+
+/** "en", "EN", "en-GB", "deutsch"... anything else falls back to `fallback`. */
+export function parseSnapshotLocale(
+  value: unknown,
+  fallback: SnapshotLocale = "it"
+): SnapshotLocale {
+  if (typeof value !== "string") return fallback;
+  const code = value.trim().toLowerCase();
+  if (/^(?:en|english|inglese)\b/.test(code)) return "en";
+  if (/^(?:de|deutsch|german|tedesco)\b/.test(code)) return "de";
+  if (/^(?:it|italiano|italian)\b/.test(code)) return "it";
+  return fallback;
+}
+
+const formatPercent = (na: string, value?: number | null) =>
+  value === undefined || value === null ? na : `${value.toFixed(2)}%`;
+
+const formatSignedPercent = (na: string, value?: number | null) =>
+  value === undefined || value === null ? na : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const formatRatio = (na: string, value?: number | null) =>
+  value === undefined || value === null ? na : value.toFixed(2);
+
+const formatAmount = (na: string, value?: number, currency?: string) =>
+  value === undefined ? na : formatMoney(value, currency);
+
+function describeListing(listing: SnapshotListing, strings: SnapshotStrings) {
+  const venue = listing.exchange ? EXCHANGES[listing.exchange].label : strings.unspecifiedListing;
+  return `${listing.symbol} · ${venue}${listing.currency ? ` (${listing.currency})` : ""}`;
+}
+
+function formatWindowMetrics(metrics: WindowMetrics, strings: SnapshotStrings) {
+  const { na } = strings;
+  const drawdown = metrics.maxDrawdown;
+  const parts = [
+    `CAGR ${formatPercent(na, metrics.cagrPct)}`,
+    `Vol ${formatPercent(na, metrics.volatilityPct)}`,
+    `MaxDD ${formatPercent(na, drawdown.pct)} (${drawdown.peakDate}→${drawdown.troughDate}${drawdown.recoveryDate ? `, ${strings.recovered} ${drawdown.recoveryDate}` : ""})`,
+    `Sharpe ${formatRatio(na, metrics.sharpe)}`,
+    `Sortino ${formatRatio(na, metrics.sortino)}`
+  ];
+  if (metrics.beta !== undefined) parts.push(`Beta ${formatRatio(na, metrics.beta)}`);
+  return parts.join(" · ");
+}
+
+function formatRiskMetrics(
+  report: SnapshotMetrics,
+  baseCurrency: string,
+  strings: SnapshotStrings
+): string[] {
+  const lines = [strings.risk(baseCurrency)];
+  for (const [symbol, byWindow] of Object.entries(report.perSymbol)) {
+    lines.push(`${symbol}:`);
+    for (const window of report.windows) {
+      const metrics = byWindow[window];
+      lines.push(
+        metrics
+          ? `- ${window}: ${formatWindowMetrics(metrics, strings)}`
+          : `- ${window}: ${strings.insufficientHistory}`
+      );
+    }
+  }
+
+  const correlation = report.correlation;
+  if (correlation) {
+    const pairs: string[] = [];
+    correlation.symbols.forEach((left, i) => {
+      correlation.symbols.slice(i + 1).forEach((right, offset) => {
+        pairs.push(
+          `${left}/${right} ${formatRatio(strings.na, correlation.matrix[i][i + 1 + offset])}`
+        );
+      });
+    });
+    lines.push(`${strings.correlations} (${correlation.window}): ${pairs.join(", ")}`);
+  }
+
+  lines.push(
+    report.benchmark ? `${strings.betaVs} ${report.benchmark}` : "",
+    report.riskFree
+      ? strings.riskFree(
+          report.riskFree.seriesId,
+          formatPercent(strings.na, report.riskFree.averageRatePct)
+        )
+      : strings.riskFreeMissing
+  );
+  return lines;
+}
+
+/**
+ * What the performance figures cover: the requested window and, when not
+ * daily, the bar spacing ("ultimi 5 anni, settimanale"), else the bar count.
+ */
+export function describeSpan(
+  window: SnapshotWindow | null | undefined,
+  interval: PriceInterval,
+  points: number,
+  locale: SnapshotLocale = "it"
+): string {
+  const span = STRINGS[locale].span;
+  if (!window) return span.points(points, interval);
+  const label =
+    window.kind === "ytd"
+      ? span.ytd
+      : window.kind === "last"
+        ? span.last(window.amount ?? 1, window.unit ?? "years")
+        : span.since(window.start, window.end);
+  return interval === "1d" ? label : `${label}, ${span.intervals[interval]}`;
+}
+
+/**
+ * One line per ETF with the cost components, then the assumptions behind
+ * them. Shared by the snapshot and `rip2etf.swiss_costs`.
+ */
+export function renderSwissCosts(
+  costs: SnapshotSwissCosts,
+  locale: SnapshotLocale = "it"
+): string[] {
+  const strings = STRINGS[locale];
+  const swiss = strings.swiss;
+  // stamp duty spread over the years needs a third decimal, TERs do not
+  const pct = (value: number) => {
+    const fine = value.toFixed(3);
+    return `${value < 0.1 && !fine.endsWith("0") ? fine : value.toFixed(2)}%`;
+  };
+
+  const lines = [swiss.title];
+  for (const row of costs.rows) {
+    const qualifiers = [
+      row.domicile,
+      row.distributionPolicy === "accumulating"
+        ? strings.accumulating
+        : row.distributionPolicy === "distributing"
+          ? strings.distributing
+          : undefined
+    ].filter(Boolean);
+    const parts = [
+      row.terPct !== null ? `TER ${pct(row.terPct)}` : "",
+      row.withholdingDragPct !== null ? `${swiss.withholding} ${pct(row.withholdingDragPct)}` : "",
+      row.stampDutyAnnualPct > 0 ? `${swiss.stampDuty} ${pct(row.stampDutyAnnualPct)}` : "",
+      row.wealthTaxPct > 0 ? `${swiss.wealthTax} ${pct(row.wealthTaxPct)}` : ""
+    ].filter(Boolean);
+    const total = `${row.missing.length ? "≥ " : ""}${pct(row.totalPct)}${swiss.perYear}`;
+    const extras = [
+      row.missing.length
+        ? `${swiss.missing}: ${row.missing.map((gap) => swiss.gaps[gap]).join(", ")}`
+        : "",
+      ...row.notes.map((note) => swiss.notes[note])
+    ].filter(Boolean);
+    lines.push(
+      `- ${row.symbol}${qualifiers.length ? ` (${qualifiers.join(", ")})` : ""}: ${parts.join(" + ")} = ${total}${extras.length ? ` · ${extras.join(" · ")}` : ""}`
+    );
+  }
+
+  lines.push(
+    costs.swissBroker ? swiss.stampDutyBasis(costs.horizonYears) : swiss.noStampDuty,
+    swiss.withholdingBasis,
+    swiss.taxValue(costs.wealthTaxPct),
+    swiss.incomeTax,
+    swiss.disclaimer
+  );
+  return lines;
+}
+
+/**
+ * Renders a validated snapshot as the chat reply. Everything shown comes from
+ * the snapshot, so the text and the JSON export never disagree.
+ */
+export function renderSnapshotText(
+  snapshot: EtfSnapshot,
+  locale: SnapshotLocale = "it",
+  attachments: { exports?: string[] } = {}
+): string {
+  const strings = STRINGS[locale];
+  const { na } = strings;
+  const { overview, holdings, performance, totalReturn, metrics, baseCurrency } = snapshot;
+  const primaryListing = snapshot.listings.find(
+    (listing) => listing.symbol === snapshot.primarySymbol
+  );
+
+  const sections = [
+    strings.title(snapshot.primarySymbol),
+    primaryListing ? `- ${strings.listing}: ${describeListing(primaryListing, strings)}` : "",
+    `- ${strings.issuer}: ${overview.issuer ?? na}`,
+    `- ${strings.category}: ${overview.category ?? na}`,
+    `- Benchmark: ${overview.benchmark ?? na}`,
+    overview.isin ? `- ISIN: ${overview.isin}` : "",
+    overview.domicile ? `- ${strings.domicile}: ${overview.domicile}` : "",
+    overview.distributionPolicy
+      ? `- ${strings.distribution}: ${overview.distributionPolicy === "accumulating" ? strings.accumulating : strings.distributing}`
+      : "",
+    `- TER: ${formatPercent(na, overview.expenseRatio)}`,
+    `- AUM: ${formatAmount(na, overview.aum, overview.currency)}`,
+    `- NAV: ${formatAmount(na, overview.nav, overview.currency)} (${strings.lastClose} ${overview.lastCloseDate ?? na})`
+  ];
+
+  const topHoldings = (holdings?.topHoldings ?? []).filter((holding) => holding.name).slice(0, 5);
+  if (topHoldings.length) {
+    sections.push(
+      "",
+      `${strings.topHoldings(holdings!.asOf)}\n${topHoldings
+        .map(
+          (holding, index) =>
+            `${index + 1}. ${holding.name}${holding.weightPct ? ` (${holding.weightPct.toFixed(2)}%)` : ""}`
+        )
+        .join("\n")}`
+    );
+  }
+
+  const span = describeSpan(
+    snapshot.window,
+    performance?.interval ?? "1d",
+    performance?.dates.length ?? 0,
+    locale
+  );
+  if (performance?.series.length) {
+    const latest = performance.series.map((series) => {
+      const last = [...series.values].reverse().find((value) => value !== null);
+      return `${series.symbol}: ${last !== undefined && last !== null ? last.toFixed(1) : na}`;
+    });
+    sections.push(
+      "",
+      strings.performance(baseCurrency, span),
+      latest.join(" | "),
+      performance.requestedInterval
+        ? strings.span.intradayUnavailable(strings.span.intervals[performance.requestedInterval])
+        : "",
+      `${strings.listingsUsed}: ${snapshot.listings
+        .filter((listing) => listing.hasHistory)
+        .map((listing) => describeListing(listing, strings))
+        .join(", ")}`,
+      performance.fxConversions.length
+        ? `${strings.fxApplied}: ${performance.fxConversions
+            .map((fx) => `${fx.symbol} ${fx.from}→${fx.to} (${fx.pair})`)
+            .join(", ")}`
+        : "",
+      performance.unconverted.length
+        ? strings.unconverted(performance.unconverted.join(", "), baseCurrency)
+        : "",
+      performance.priceSources.length
+        ? `${strings.priceSources}: ${performance.priceSources.join(", ")}`
+        : ""
+    );
+  }
+
+  if (totalReturn?.rows.length) {
+    const rows = totalReturn.rows.map((row) => {
+      const note = row.accumulating
+        ? strings.accumulating
+        : row.missingData
+          ? strings.distributionsMissing
+          : strings.reinvested(row.reinvested);
+      return `${row.symbol} ${formatSignedPercent(na, row.priceReturnPct)} / ${formatSignedPercent(na, row.totalReturnPct)} (${note})`;
+    });
+    const dropped = totalReturn.rows.filter((row) => row.dropped > 0);
+    sections.push(
+      "",
+      strings.totalReturn(span, baseCurrency),
+      rows.join(" | "),
+      totalReturn.withholdingPct > 0
+        ? `${strings.withholding}: ${totalReturn.withholdingPct}%`
+        : "",
+      dropped.length
+        ? `${strings.droppedDistributions}: ${dropped
+            .map((row) => `${row.symbol} ${row.dropped}`)
+            .join(", ")}`
+        : ""
+    );
+  }
+
+  if (metrics) {
+    sections.push("", ...formatRiskMetrics(metrics, baseCurrency, strings));
+  }
+
+  if (snapshot.swissCosts?.rows.length) {
+    sections.push("", ...renderSwissCosts(snapshot.swissCosts, locale));
+  }
+
+  if (snapshot.compareSymbols.length > 0) {
+    sections.push("", `${strings.compareWith}: ${snapshot.compareSymbols.join(", ")}`);
+  }
+
+  if (snapshot.charts.length > 0) {
+    sections.push("", strings.charts(snapshot.charts.length));
+  }
+
+  if (attachments.exports?.length) {
+    sections.push("", `${strings.exports}: ${attachments.exports.join(", ")}`);
+  }
+
+  if (snapshot.unresolved.length > 0) {
+    sections.push("", `${strings.unresolved}: ${snapshot.unresolved.join(", ")}`);
+  }
+
+  return sections.filter(Boolean).join("\n");
+}
@@ -0,0 +1,256 @@
+import { z } from "zod";
+import { rip2etfSettings } from "../settings";
+import type {
+  DistributionEvent,
+  DistributionPolicy,
+  EtfHoldings,
+  EtfOverview,
+  PriceHistory
+} from "../types";
+import { parseAmount } from "./backtest";
+
+/**
+ * Share of US dividends lost for good by a Swiss resident, by fund domicile.
+ * US funds receive US dividends gross and the 15% withheld on their own
+ * distributions is credited through the DA-1 form; Swiss funds pass the US
+ * withholding on as creditable too. Irish funds pay the 15% treaty rate and
+ * Luxembourg funds the full 30%, neither recoverable.
+ */
+export const US_DIVIDEND_LEAKAGE_PCT: Record<string, number> = {
+  US: 0,
+  CH: 0,
+  IE: 15,
+  LU: 30
+};
+
+/** Federal securities transfer tax (Umsatzabgabe) charged by Swiss brokers on each trade. */
+export const SWISS_STAMP_DUTY_PCT = { domestic: 0.075, foreign: 0.15 } as const;
+
+export const SWISS_COST_NOTES = ["da1", "estateTax", "swissWithholding"] as const;
+export type SwissCostNote = (typeof SWISS_COST_NOTES)[number];
+
+export const SWISS_COST_GAPS = ["ter", "domicile", "yield", "usShare"] as const;
+export type SwissCostGap = (typeof SWISS_COST_GAPS)[number];
+
+export const swissCostParamsSchema = z.object({
+  /** Years the purchase stamp duty is spread over. */
+  horizonYears: z.number().int().min(1).max(50).default(10),
+  /** Stamp duty only applies through a Swiss securities dealer. */
+  swissBroker: z.boolean().default(true),
+  /** Cantonal and communal wealth tax on the tax value (%), 0 = left out. */
+  wealthTaxPct: z.number().min(0).max(5).default(0),
+  /** Invested amount in CHF, to show the costs in francs as well. */
+  amount: z.number().positive().optional()
+});
+
+export type SwissCostParams = z.infer<typeof swissCostParamsSchema>;
+
+export interface SwissCostInput {
+  symbol: string;
+  domicile?: string;
+  distributionPolicy?: DistributionPolicy;
+  terPct?: number;
+  dividendYieldPct?: number;
+  usEquityPct?: number;
+}
+
+export interface SwissCostEstimate {
+  symbol: string;
+  domicile?: string;
+  distributionPolicy?: DistributionPolicy;
+  terPct: number | null;
+  dividendYieldPct: number | null;
+  usEquityPct: number | null;
+  /** US withholding the fund cannot recover, as % of the US dividends. */
+  usWithholdingRatePct: number | null;
+  /** Yearly loss from that withholding, as % of the invested value. */
+  withholdingDragPct: number | null;
+  stampDutyPct: number;
+  stampDutyAnnualPct: number;
+  wealthTaxPct: number;
+  /** Sum of the known components, per year. Incomplete when `missing` is not empty. */
+  totalPct: number;
+  missing: SwissCostGap[];
+  notes: SwissCostNote[];
+}
+
+const US_BENCHMARK =
+  /\b(?:S&P\s*500|Nasdaq|Russell|MSCI\s+USA|CRSP\s+US|Total\s+(?:Stock\s+)?Market|Dow\s+Jones)\b/i;
+
+/**
+ * US share of a fund: the registry figure, else the holdings with a US ISIN
+ * when the list covers at least 90% of the fund, else 100 for US benchmarks.
+ */
+export function usEquityShare(
+  registryPct: number | undefined,
+  holdings: EtfHoldings | null | undefined,
+  benchmark?: string
+): number | undefined {
+  if (registryPct !== undefined) return registryPct;
+  const positions = holdings?.allHoldings?.length ? holdings.allHoldings : holdings?.topHoldings;
+  const weighted = (positions ?? []).filter((holding) => holding.weightPct && holding.isin);
+  const covered = weighted.reduce((acc, holding) => acc + (holding.weightPct ?? 0), 0);
+  if (covered >= 90) {
+    const us = weighted
+      .filter((holding) => holding.isin!.toUpperCase().startsWith("US"))
+      .reduce((acc, holding) => acc + (holding.weightPct ?? 0), 0);
+    return (us / covered) * 100;
+  }
+  return benchmark && US_BENCHMARK.test(benchmark) ? 100 : undefined;
+}
+
+/** Distributions of the last 12 months over the last close, both in the listing currency. */
+export function trailingYieldPct(
+  events: DistributionEvent[],
+  history: PriceHistory | null | undefined
+): number | undefined {
+  const last = history?.bars.at(-1);
+  if (!last || last.c <= 0 || !events.length) return undefined;
+  const from = new Date(`${last.t}T00:00:00Z`);
+  from.setUTCFullYear(from.getUTCFullYear() - 1);
+  const start = from.toISOString().slice(0, 10);
+  const paid = events
+    .filter((event) => event.exDate > start && event.exDate <= last.t)
+    .reduce((acc, event) => acc + event.amount, 0);
+  return paid > 0 ? (paid / last.c) * 100 : undefined;
+}
+
+/**
+ * Overview fields, the registry tax profile and, failing that, the trailing
+ * yield. A fund's ISIN starts with its domicile when no source states it.
+ */
+export function swissCostInput(
+  overview: EtfOverview,
+  holdings: EtfHoldings | null | undefined,
+  profile: { usEquityPct?: number; dividendYieldPct?: number } | null,
+  trailingYield?: number
+): SwissCostInput {
+  return {
+    symbol: overview.symbol,
+    domicile: overview.domicile ?? overview.isin?.slice(0, 2),
+    distributionPolicy: overview.distributionPolicy,
+    terPct: overview.expenseRatio,
+    dividendYieldPct: profile?.dividendYieldPct ?? trailingYield,
+    usEquityPct: usEquityShare(profile?.usEquityPct, holdings, overview.benchmark)
+  };
+}
+
+/**
+ * Yearly cost of holding one ETF for a Swiss resident, in % of the invested
+ * value: TER, US withholding lost inside the fund, purchase stamp duty spread
+ * over the horizon and wealth tax. Income tax on dividends is the same for
+ * accumulating and distributing funds and is not included.
+ */
+export function estimateSwissCosts(
+  input: SwissCostInput,
+  params: SwissCostParams
+): SwissCostEstimate {
+  const domicile = input.domicile?.trim().toUpperCase() || undefined;
+  const missing: SwissCostGap[] = [];
+  const notes: SwissCostNote[] = [];
+
+  const terPct = input.terPct ?? null;
+  if (terPct === null) missing.push("ter");
+
+  const usWithholdingRatePct = domicile ? (US_DIVIDEND_LEAKAGE_PCT[domicile] ?? null) : null;
+  if (usWithholdingRatePct === null) missing.push("domicile");
+  const dividendYieldPct = input.dividendYieldPct ?? null;
+  const usEquityPct = input.usEquityPct ?? null;
+  let withholdingDragPct: number | null = null;
+  if (usWithholdingRatePct === 0) {
+    withholdingDragPct = 0;
+  } else if (usWithholdingRatePct !== null) {
+    if (dividendYieldPct === null) missing.push("yield");
+    if (usEquityPct === null) missing.push("usShare");
+    if (dividendYieldPct !== null && usEquityPct !== null) {
+      // dividends are assumed to follow the equity weights
+      withholdingDragPct = (dividendYieldPct * usEquityPct * usWithholdingRatePct) / 10_000;
+    }
+  }
+
+  if (domicile === "US") notes.push("da1", "estateTax");
+  if (domicile === "CH") notes.push("swissWithholding");
+
+  const stampDutyPct = params.swissBroker
+    ? domicile === "CH"
+      ? SWISS_STAMP_DUTY_PCT.domestic
+      : SWISS_STAMP_DUTY_PCT.foreign
+    : 0;
+  const stampDutyAnnualPct = stampDutyPct / params.horizonYears;
+
+  return {
+    symbol: input.symbol,
+    domicile,
+    distributionPolicy: input.distributionPolicy,
+    terPct,
+    dividendYieldPct,
+    usEquityPct,
+    usWithholdingRatePct,
+    withholdingDragPct,
+    stampDutyPct,
+    stampDutyAnnualPct,
+    wealthTaxPct: params.wealthTaxPct,
+    totalPct: (terPct ?? 0) + (withholdingDragPct ?? 0) + stampDutyAnnualPct + params.wealthTaxPct,
+    missing,
+    notes
+  };
+}
+
+/** Cheapest first; incomplete estimates go last since their total is a lower bound. */
+export function rankSwissCosts(estimates: SwissCostEstimate[]): SwissCostEstimate[] {
+  return [...estimates].sort(
+    (a, b) => Number(a.missing.length > 0) - Number(b.missing.length > 0) || a.totalPct - b.totalPct
+  );
+}
+
+const FOREIGN_BROKER =
+  /\b(?:ibkr|interactive\s*brokers|degiro|trading\s*212|broker\s+(?:estero|straniero)|foreign\s+broker|ausländische[rn]?\s+broker)\b/i;
+const SWISS_BROKER =
+  /\b(?:swissquote|postfinance|ubs|raiffeisen|zkb|yuh|neon|broker\s+svizzero|swiss\s+broker|schweizer\s+broker)\b/i;
+
+/** Configured defaults overridden by what the message says. */
+export function resolveSwissCostParams(text: string): SwissCostParams {
+  return swissCostParamsSchema.parse({
+    horizonYears: rip2etfSettings.SWISS_HORIZON_YEARS,
+    swissBroker: rip2etfSettings.SWISS_BROKER,
+    wealthTaxPct: rip2etfSettings.WEALTH_TAX_PCT,
+    ...parseSwissCostRequest(text)
+  });
+}
+
+/**
+ * Reads the estimate parameters from chat, e.g. "su 100'000 CHF, orizzonte 20
+ * anni, patrimoniale 3‰, con IBKR". Missing fields are left to the defaults.
+ */
+export function parseSwissCostRequest(text: string): Partial<SwissCostParams> {
+  const result: Partial<SwissCostParams> = {};
+
+  const horizon =
+    /\b(?:orizzonte|horizon|per|for|für|tenendol[oi]|holding)\s*(?:di|of|von)?\s*(\d{1,2})\s*(?:anni|years?|jahre)\b/i.exec(
+      text
+    );
+  if (horizon) result.horizonYears = Number.parseInt(horizon[1], 10);
+
+  if (FOREIGN_BROKER.test(text)) result.swissBroker = false;
+  else if (SWISS_BROKER.test(text)) result.swissBroker = true;
+
+  const wealth =
+    /\b(?:patrimoniale|imposta\s+sulla\s+sostanza|sostanza|wealth\s+tax|verm[öo]gens?steuer)\s*(?:del|di|of|von|:)?\s*(\d+(?:[.,]\d+)?)\s*(%|‰|per\s*mille|promille)/i.exec(
+      text
+    );
+  if (wealth) {
+    const rate = Number.parseFloat(wealth[1].replace(",", "."));
+    result.wealthTaxPct = wealth[2] === "%" ? rate : rate / 10;
+  }
+
+  const amount =
+    /\b(?:su|per|investo|investire|on|auf)\s+(\d[\d'’.,]*\s*[kK]?)\s*(?:CHF|franchi|fr\.?)(?!\w)/i.exec(
+      text
+    );
+  if (amount) {
+    const value = parseAmount(amount[1]);
+    if (value) result.amount = value;
+  }
+
+  return result;
+}
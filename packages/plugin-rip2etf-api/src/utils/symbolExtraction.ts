@@ -0,0 +1,194 @@
+import {
+  type IAgentRuntime,
+  ModelType,
+  composePrompt,
+  parseJSONObjectFromText
+} from "@elizaos/core";
+import { z } from "zod";
+import { findRegistryEtf, getEtfRegistry } from "../data/registry";
+import { searchSymbols } from "../providers/search";
+import { symbolExtractionTemplate } from "../templates";
+import { isValidIsin, looksLikeIsin } from "./instruments";
+import { debugLog } from "./logger";
+import { ALIAS_SYMBOLS, type SymbolExtractionParams, collectSymbols } from "./tickers";
+
+/**
+ * How a candidate was confirmed. "unverified" means no search source was
+ * available to say either way; "rejected" that one searched and found nothing.
+ */
+export type SymbolCheck = "registry" | "alias" | "search" | "unverified" | "rejected";
+
+export interface SymbolExtraction {
+  /** Symbols to use, message order first. */
+  symbols: string[];
+  /** Candidates no source recognised: the user should be asked what they meant. */
+  unresolved: string[];
+  checks: Record<string, SymbolCheck>;
+  /** Close matches the search returned for rejected candidates. */
+  suggestions: Record<string, string[]>;
+  /** What the model read from the message, when the rules were not enough. */
+  model?: { comparison?: boolean; window?: string; currency?: string };
+}
+
+const modelExtractionSchema = z.object({
+  symbols: z.array(z.string()).default([]),
+  comparison: z.boolean().optional(),
+  window: z.string().nullish(),
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .nullish()
+});
+
+const MODEL_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    symbols: { type: "array", items: { type: "string" } },
+    comparison: { type: "boolean" },
+    window: { type: "string" },
+    currency: { type: "string" }
+  },
+  required: ["symbols"]
+};
+
+const MAX_SUGGESTIONS = 3;
+
+/** Registry and index aliases first; other tickers go through the `search` chain. */
+async function checkSymbol(
+  runtime: IAgentRuntime,
+  symbol: string,
+  corrId?: string
+): Promise<{ check: SymbolCheck; suggestions: string[] }> {
+  if (looksLikeIsin(symbol)) {
+    // ISINs outside the registry cannot be resolved with free APIs
+    const known = isValidIsin(symbol) && Boolean(findRegistryEtf(symbol));
+    return { check: known ? "registry" : "rejected", suggestions: [] };
+  }
+  if (findRegistryEtf(symbol)) return { check: "registry", suggestions: [] };
+  if (ALIAS_SYMBOLS.has(symbol)) return { check: "alias", suggestions: [] };
+
+  const matches = await searchSymbols(runtime, symbol, corrId).catch((error) => {
+    debugLog("symbol_search_error", { symbol, error: (error as Error).message });
+    return null;
+  });
+  if (!matches) return { check: "unverified", suggestions: [] };
+  if (matches.some((match) => match.symbol === symbol || match.symbol.split(".")[0] === symbol)) {
+    return { check: "search", suggestions: [] };
+  }
+  return {
+    check: "rejected",
+    suggestions: Array.from(new Set(matches.map((match) => match.symbol))).slice(0, MAX_SUGGESTIONS)
+  };
+}
+
+async function askModel(
+  runtime: IAgentRuntime,
+  text: string,
+  checks: Record<string, SymbolCheck>
+): Promise<z.infer<typeof modelExtractionSchema> | null> {
+  if (typeof runtime.useModel !== "function") return null;
+  const prompt = composePrompt({
+    state: {
+      message: text,
+      candidates:
+        Object.entries(checks)
+          .map(([symbol, check]) => `- ${symbol}: ${check}`)
+          .join("\n") || "(none)",
+      knownEtfs: getEtfRegistry()
+        .etfs.map(
+          (etf) =>
+            `- ${Array.from(new Set(etf.listings.map((listing) => listing.ticker))).join("/")}: ${etf.name} (${etf.isin})`
+        )
+        .join("\n")
+    },
+    template: symbolExtractionTemplate
+  });
+
+  try {
+    const raw = await runtime.useModel(ModelType.OBJECT_SMALL, {
+      prompt,
+      schema: MODEL_OUTPUT_SCHEMA
+    });
+    const value = typeof raw === "string" ? parseJSONObjectFromText(raw) : raw;
+    const parsed = modelExtractionSchema.safeParse(value);
+    if (!parsed.success) {
+      debugLog("symbol_model_invalid", { raw });
+      return null;
+    }
+    return parsed.data;
+  } catch (error) {
+    debugLog("symbol_model_error", { error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * Hybrid symbol extraction. The rules of `collectSymbols` run first and every
+ * candidate is checked against the registry and the `search` providers. When
+ * that leaves doubts (nothing found, or candidates no source confirms) the
+ * small object model reads the message, and its answer is checked the same
+ * way: a ticker it names is kept only if a source confirms it or the user
+ * actually wrote it.
+ */
+export async function extractSymbols(
+  runtime: IAgentRuntime,
+  params: SymbolExtractionParams & { corrId?: string }
+): Promise<SymbolExtraction> {
+  const text = typeof params.message.content?.text === "string" ? params.message.content.text : "";
+  const candidates = collectSymbols(params);
+  const checks: Record<string, SymbolCheck> = {};
+  const suggestions: Record<string, string[]> = {};
+  const check = async (symbol: string) => {
+    if (!checks[symbol]) {
+      const result = await checkSymbol(runtime, symbol, params.corrId);
+      checks[symbol] = result.check;
+      if (result.suggestions.length) suggestions[symbol] = result.suggestions;
+    }
+    return checks[symbol];
+  };
+  for (const candidate of candidates) await check(candidate);
+
+  const confirmed = (symbol: string) =>
+    checks[symbol] === "registry" || checks[symbol] === "alias" || checks[symbol] === "search";
+  const rejected = candidates.filter((candidate) => checks[candidate] === "rejected");
+  const ruled: SymbolExtraction = {
+    symbols: candidates.filter((candidate) => checks[candidate] !== "rejected"),
+    unresolved: rejected,
+    checks,
+    suggestions
+  };
+  const ambiguous = Boolean(text.trim()) && (!candidates.length || !candidates.every(confirmed));
+  if (!ambiguous) return ruled;
+
+  const model = await askModel(runtime, text, checks);
+  debugLog("symbol_model", { candidates, checks, model });
+  if (!model) return ruled;
+
+  const written = (symbol: string) =>
+    new RegExp(`(?:^|[^\\w.])${symbol.replace(/[.]/g, "\\.")}(?![\\w])`, "i").test(text);
+  const picked: string[] = [];
+  const unresolved: string[] = [];
+  for (const raw of model.symbols) {
+    const symbol = raw.trim().toUpperCase();
+    if (!symbol || picked.includes(symbol)) continue;
+    const result = await check(symbol);
+    if (confirmed(symbol) || (result === "unverified" && written(symbol))) picked.push(symbol);
+    else if (result === "rejected" && written(symbol)) unresolved.push(symbol);
+  }
+
+  const symbols = Array.from(new Set([...candidates.filter(confirmed), ...picked]));
+  const limited =
+    typeof params.limit === "number" && params.limit > 0 ? symbols.slice(0, params.limit) : symbols;
+  return {
+    symbols: limited,
+    // rejected candidates the model could not replace still need an answer from the user
+    unresolved: Array.from(new Set([...unresolved, ...(limited.length ? [] : rejected)])),
+    checks,
+    suggestions,
+    model: {
+      comparison: model.comparison,
+      window: model.window ?? undefined,
+      currency: model.currency?.toUpperCase() ?? undefined
+    }
+  };
+}
@@ -1,4 +1,6 @@
 import type { HandlerOptions, Memory, State } from "@elizaos/core";
+import { findRegistryEtf } from "../data/registry";
+import { EXCHANGE_CODES, isValidIsin, looksLikeIsin } from "./instruments";
 
 const STOP_WORDS = new Set([
   "ETF",
@@ -73,10 +75,26 @@ const STOP_WORDS = new Set([
   "PERFORMANCE",
   "NUOVO",
   "NUOVAMENTE",
-  "PREGO"
+  "PREGO",
+  "GBP",
+  "ISIN",
+  "XETRA",
+  "BORSA",
+  "LISTING",
+  "BACKTEST",
+  "TWR",
+  "IRR",
+  "WATCHLIST",
+  "ALERT",
+  "YTD",
+  ...EXCHANGE_CODES
 ]);
 
-const TICKER_REGEX = /\b[A-Z]{2,6}(?:\.[A-Z]{1,3})?\b/g;
+// ISINs first so the ticker alternative never matches inside one; any case, so
+// that registry tickers typed in lowercase ("vwce") are found too; up to three
+// digits for the index aliases (SP500, NASDAQ100)
+const TICKER_REGEX = /\b(?:[A-Z]{2}[A-Z0-9]{9}\d|[A-Z]{2,6}\d{0,3}(?:\.[A-Z]{1,3})?)\b/gi;
+const LOOSE_ISIN_REGEX = /\b[a-z]{2}[a-z0-9]{9}\d\b/gi;
 
 const PHRASE_ALIAS_MAP: Record<string, string> = {
   "S&P 500": "SP500",
@@ -90,6 +108,7 @@ const PHRASE_ALIAS_MAP: Record<string, string> = {
   "NASDAQ": "NASDAQ",
   "DOW JONES": "DOWJONES",
   "DOW 30": "DOW30",
+  "S&P": "SP500",
 };
 
 const PRIMARY_ALIAS_MAP: Record<string, string> = {
@@ -110,8 +129,14 @@ const PRIMARY_ALIAS_MAP: Record<string, string> = {
   DOW30: "DIA"
 };
 
+/** Symbols the index aliases stand for (SPY, QQQ, DIA): known without a lookup. */
+export const ALIAS_SYMBOLS = new Set(Object.values(PRIMARY_ALIAS_MAP));
+
 function normalizePhrases(text: string): string {
-  let normalized = text;
+  // users paste ISINs in any case; uppercase the valid ones so the ticker pass sees them
+  let normalized = text.replace(LOOSE_ISIN_REGEX, (match) =>
+    isValidIsin(match) ? match.toUpperCase() : match
+  );
   for (const [phrase, replacement] of Object.entries(PHRASE_ALIAS_MAP)) {
     const pattern = new RegExp(escapeRegExp(phrase), "gi");
     normalized = normalized.replace(pattern, ` ${replacement} `);
@@ -126,8 +151,14 @@ function extractFromText(target: Set<string>, text: string) {
   for (const raw of matches) {
     const token = raw.replace(/[^\w.]/g, "");
     if (!token || token.length < 3) continue;
+    if (looksLikeIsin(token)) {
+      if (isValidIsin(token)) target.add(token);
+      continue;
+    }
     const upper = token.toUpperCase();
     if (STOP_WORDS.has(upper)) continue;
+    // lowercase words are mostly prose: only tickers the registry knows count
+    if (token !== upper && !findRegistryEtf(upper)) continue;
     const normalized = PRIMARY_ALIAS_MAP[upper] ?? upper;
     if (STOP_WORDS.has(normalized)) continue;
     target.add(normalized);
@@ -164,6 +195,7 @@ function normalizeSymbol(candidate: unknown): string | null {
   if (!token || token.length < 2) return null;
   const upper = token.toUpperCase();
   if (STOP_WORDS.has(upper)) return null;
+  if (looksLikeIsin(upper) && !isValidIsin(upper)) return null;
   return upper;
 }
 
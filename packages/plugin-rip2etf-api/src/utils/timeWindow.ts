@@ -0,0 +1,138 @@
+import type { PriceHistory, PriceInterval } from "../types";
+
+export const PRICE_INTERVALS = [
+  "15m",
+  "1h",
+  "1d",
+  "1wk",
+  "1mo"
+] as const satisfies readonly PriceInterval[];
+
+export const TIME_WINDOW_UNITS = ["days", "weeks", "months", "years"] as const;
+export type TimeWindowUnit = (typeof TIME_WINDOW_UNITS)[number];
+
+export interface TimeWindow {
+  /** "ultimi 5 anni", "dal 2020", "YTD". */
+  kind: "last" | "since" | "ytd";
+  /** First date included, YYYY-MM-DD. */
+  start: string;
+  /** Last date included, only when the message closes the range ("dal 2020 al 2022"). */
+  end?: string;
+  amount?: number;
+  unit?: TimeWindowUnit;
+}
+
+export const isIntraday = (interval: PriceInterval): interval is "15m" | "1h" =>
+  interval === "15m" || interval === "1h";
+
+const UNIT_PATTERNS: Array<[TimeWindowUnit, RegExp]> = [
+  ["years", /^(?:ann[oi]|years?|jahr(?:e|en)?)$/i],
+  ["months", /^(?:mes[ei]|months?|monat(?:e|en)?)$/i],
+  ["weeks", /^(?:settiman[ae]|weeks?|wochen?)$/i],
+  ["days", /^(?:giorn[oi]|days?|tag(?:e|en)?)$/i]
+];
+
+const LAST =
+  /\b(?:ultim[oiae]|last|past|previous|letzten?|vergangenen?)\s+(?:(\d{1,3})\s+)?(ann[oi]|years?|jahr(?:e|en)?|mes[ei]|months?|monat(?:e|en)?|settiman[ae]|weeks?|wochen?|giorn[oi]|days?|tag(?:e|en)?)\b/i;
+const YTD =
+  /\b(?:ytd|year[\s-]to[\s-]date|da\s+inizio\s+anno|dall'inizio\s+dell'anno|seit\s+jahres(?:beginn|anfang))\b/i;
+const SINCE =
+  /(?:\bdall'|\b(?:dal|da|since|from|seit|ab)\s+)(?:(\d{4}-\d{2}-\d{2})\b|(?:(\d{1,2})[/.-])?((?:19|20)\d{2})\b)/i;
+const UNTIL =
+  /^\s*(?:al|fino\s+al|a|to|until|bis)\s+(?:(\d{4}-\d{2}-\d{2})\b|(?:(\d{1,2})[/.-])?((?:19|20)\d{2})\b)/i;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/** Calendar shift that keeps month ends on month ends (31 March - 1 month = 28/29 February). */
+export function shiftDate(isoDate: string, unit: TimeWindowUnit, amount: number): string {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  if (unit === "days" || unit === "weeks") {
+    date.setUTCDate(date.getUTCDate() + amount * (unit === "weeks" ? 7 : 1));
+    return date.toISOString().slice(0, 10);
+  }
+  const months = date.getUTCMonth() + amount * (unit === "years" ? 12 : 1);
+  const year = date.getUTCFullYear() + Math.floor(months / 12);
+  const month = (((months % 12) + 12) % 12) + 1;
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Reads the requested time window from a message: "ultimi 5 anni", "last 6
+ * months", "YTD", "dal 2020", "dal 03/2021 al 2022", "seit 2019-06-01".
+ * Relative windows count back from `asOf`, normally the last available close.
+ */
+export function parseTimeWindow(
+  text: string,
+  asOf = new Date().toISOString().slice(0, 10)
+): TimeWindow | undefined {
+  if (!text) return undefined;
+
+  if (YTD.test(text)) return { kind: "ytd", start: `${asOf.slice(0, 4)}-01-01` };
+
+  const since = SINCE.exec(text);
+  if (since) {
+    const start = since[1] ?? `${since[3]}-${pad(Number(since[2] ?? 1))}-01`;
+    const until = UNTIL.exec(text.slice(since.index + since[0].length));
+    let end: string | undefined;
+    if (until?.[1]) {
+      end = until[1];
+    } else if (until) {
+      const year = Number(until[3]);
+      const month = until[2] ? Number(until[2]) : 12;
+      end = `${year}-${pad(month)}-${pad(daysInMonth(year, month))}`;
+    }
+    return end && end >= start ? { kind: "since", start, end } : { kind: "since", start };
+  }
+
+  const last = LAST.exec(text);
+  if (last) {
+    const amount = last[1] ? Number.parseInt(last[1], 10) : 1;
+    const unit = UNIT_PATTERNS.find(([, pattern]) => pattern.test(last[2]))?.[0];
+    if (unit && amount > 0) {
+      return { kind: "last", start: shiftDate(asOf, unit, -amount), amount, unit };
+    }
+  }
+
+  return undefined;
+}
+
+/** "settimanale", "monthly", "orario", "15 minuti", "intraday"; undefined when not stated. */
+export function parseInterval(text: string): PriceInterval | undefined {
+  if (!text) return undefined;
+  if (/\b(?:15\s*min(?:uti|utes?)?|intraday|infragiornalier[oia])\b/i.test(text)) return "15m";
+  if (/\b(?:orari[oae]|hourly|stündlich|1\s*h|60\s*min(?:uti|utes?)?)(?!\w)/i.test(text))
+    return "1h";
+  if (/\b(?:settimanal[ei]|weekly|wöchentlich)\b/i.test(text)) return "1wk";
+  if (/\b(?:mensil[ei]|monthly|monatlich)\b/i.test(text)) return "1mo";
+  if (/\b(?:giornalier[oia]|daily|täglich)(?!\w)/i.test(text)) return "1d";
+  return undefined;
+}
+
+/** Years between the window start and its end (or `asOf`). */
+export function windowYears(window: TimeWindow, asOf: string): number {
+  const end = window.end ?? asOf;
+  return (
+    (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${window.start}T00:00:00Z`)) / 31_557_600_000
+  );
+}
+
+/** Daily up to two years, weekly up to ten, monthly beyond: charts stay around 500 points. */
+export function defaultInterval(window: TimeWindow, asOf: string): PriceInterval {
+  const years = windowYears(window, asOf);
+  if (years <= 2) return "1d";
+  return years <= 10 ? "1wk" : "1mo";
+}
+
+/** Bars inside the window; intraday timestamps compare on their date. */
+export function clipHistory(history: PriceHistory, window: TimeWindow): PriceHistory {
+  return {
+    ...history,
+    bars: history.bars.filter((bar) => {
+      const day = bar.t.slice(0, 10);
+      return day >= window.start && (!window.end || day <= window.end);
+    })
+  };
+}
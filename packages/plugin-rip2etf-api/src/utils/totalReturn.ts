@@ -0,0 +1,60 @@
+import type { DistributionEvent, PriceHistory } from "../types";
+
+export interface TotalReturnResult {
+  history: PriceHistory;
+  /** Distributions that fell inside the price history and were reinvested. */
+  reinvested: number;
+  withholdingPct: number;
+}
+
+/**
+ * Reinvests each distribution at the close of its ex-date, net of
+ * `withholdingPct`. The series starts at the first close, so it can be rebased
+ * next to the price series. Events must already be in the history's currency.
+ */
+export function buildTotalReturnHistory(
+  history: PriceHistory,
+  events: DistributionEvent[],
+  withholdingPct = 0
+): TotalReturnResult {
+  const bars = history.bars.filter((bar) => Number.isFinite(bar.c) && bar.c > 0);
+  const sorted = [...events].sort((a, b) => a.exDate.localeCompare(b.exDate));
+  const netShare = 1 - Math.min(Math.max(withholdingPct, 0), 100) / 100;
+
+  let cursor = 0;
+  while (cursor < sorted.length && bars.length && sorted[cursor].exDate <= bars[0].t) cursor += 1;
+
+  let reinvested = 0;
+  let index = bars[0]?.c ?? 0;
+  const totalBars = bars.map((bar, i) => {
+    if (i === 0) return { t: bar.t, c: index };
+    let cash = 0;
+    while (cursor < sorted.length && sorted[cursor].exDate <= bar.t) {
+      cash += sorted[cursor].amount * netShare;
+      reinvested += 1;
+      cursor += 1;
+    }
+    index *= (bar.c + cash) / bars[i - 1].c;
+    return { t: bar.t, c: index };
+  });
+
+  return {
+    history: {
+      ...history,
+      bars: totalBars,
+      adjusted: true
+    },
+    reinvested,
+    withholdingPct
+  };
+}
+
+/** Reads "ritenuta 15%" / "withholding 30%" from a message. */
+export function parseWithholdingPct(text: string): number | undefined {
+  if (!text) return undefined;
+  const match =
+    /\b(?:ritenuta|withholding(?:\s+tax)?|quellensteuer)\s*(?:del|of|di)?\s*(\d{1,2}(?:[.,]\d+)?)\s*%/i.exec(
+      text
+    );
+  return match ? Number.parseFloat(match[1].replace(",", ".")) : undefined;
+}
@@ -0,0 +1,213 @@
+import type { PriceHistory } from "../types";
+import { drawdownSeries } from "./metrics";
+
+type Point = { t: string; v: number };
+
+/** Conditions a watched symbol is checked against on every watchlist run. */
+export type WatchRule =
+  /** Close more than `thresholdPct` below the highest close in the history. */
+  | { kind: "drawdown"; thresholdPct: number }
+  /** Close-to-close change over `days` sessions beyond ±`thresholdPct`. */
+  | { kind: "move"; thresholdPct: number; days: number }
+  | { kind: "above"; level: number }
+  | { kind: "below"; level: number }
+  /** TER in the registry differs from the one seen on the previous run. */
+  | { kind: "ter" };
+
+export const DEFAULT_WATCH_RULES: WatchRule[] = [
+  { kind: "drawdown", thresholdPct: 10 },
+  { kind: "ter" }
+];
+
+export interface WatchSignal {
+  rule: WatchRule;
+  key: string;
+  triggered: boolean;
+  /** Drawdown or change in %, close, or TER, depending on the rule. */
+  value?: number;
+  detail: string;
+}
+
+export interface WatchContext {
+  history: PriceHistory | null;
+  ter?: number;
+  previousTer?: number;
+}
+
+const NUMBER = String.raw`(\d+(?:[.,]\d+)?)`;
+const DRAWDOWN_PATTERN = new RegExp(
+  String.raw`\b(?:drawdown|dd|dai massimi|from (?:the )?high)\s*(?:>=?|oltre|sopra|superiore a|maggiore di|over|above|del|di|of)?\s*-?${NUMBER}\s*%`,
+  "gi"
+);
+const MOVE_PATTERN = new RegExp(
+  String.raw`\b(?:scende|sale|cala|perde|guadagna|si muove|muove|varia|variazione|move[sd]?|drops?|falls?|rises?|gains?)\s*(?:di|del|più del|oltre il|by|more than|over)?\s*${NUMBER}\s*%(?:\s*(?:in|su|over|within)\s*(?:(\d+)\s*(?:giorni|gg|sedute|sessions|days)|(?:un|una|1|one|a)?\s*(giorno|seduta|day|session|settimana|week|mese|month)))?`,
+  "gi"
+);
+const LEVEL_PATTERN = new RegExp(
+  String.raw`\b(sopra|oltre quota|supera|above|sotto|scende sotto|below)\s*(?:(?:a|quota|i|di|the)\s+)?${NUMBER}(?!\s*%|[\d.,])`,
+  "gi"
+);
+const TER_PATTERN = /\bter\b/i;
+const PERIOD_SESSIONS: Record<string, number> = {
+  giorno: 1,
+  seduta: 1,
+  day: 1,
+  session: 1,
+  settimana: 5,
+  week: 5,
+  mese: 21,
+  month: 21
+};
+
+const toNumber = (raw: string) => Number.parseFloat(raw.replace(",", "."));
+
+/** Stable id of a rule, used to remember which alerts are already active. */
+export function ruleKey(rule: WatchRule): string {
+  switch (rule.kind) {
+    case "drawdown":
+      return `drawdown:${rule.thresholdPct}`;
+    case "move":
+      return `move:${rule.thresholdPct}:${rule.days}`;
+    case "above":
+    case "below":
+      return `${rule.kind}:${rule.level}`;
+    case "ter":
+      return "ter";
+  }
+}
+
+export function describeRule(rule: WatchRule): string {
+  switch (rule.kind) {
+    case "drawdown":
+      return `drawdown > ${rule.thresholdPct}% dal massimo`;
+    case "move":
+      return `variazione > ±${rule.thresholdPct}% in ${rule.days === 1 ? "una seduta" : `${rule.days} sedute`}`;
+    case "above":
+      return `prezzo sopra ${rule.level}`;
+    case "below":
+      return `prezzo sotto ${rule.level}`;
+    case "ter":
+      return "variazione del TER";
+  }
+}
+
+/**
+ * Rules written in the message ("drawdown > 10%", "se scende del 5% in una
+ * settimana", "sotto 95", "TER"). Empty when the message names none.
+ */
+export function parseWatchRules(text: string): WatchRule[] {
+  const rules: WatchRule[] = [];
+  for (const match of text.matchAll(DRAWDOWN_PATTERN)) {
+    rules.push({ kind: "drawdown", thresholdPct: toNumber(match[1]) });
+  }
+  for (const match of text.matchAll(MOVE_PATTERN)) {
+    const days = match[2]
+      ? Number.parseInt(match[2], 10)
+      : match[3]
+        ? PERIOD_SESSIONS[match[3].toLowerCase()]
+        : 1;
+    rules.push({ kind: "move", thresholdPct: toNumber(match[1]), days: Math.max(days, 1) });
+  }
+  for (const match of text.matchAll(LEVEL_PATTERN)) {
+    const kind = /sotto|below/i.test(match[1]) ? "below" : "above";
+    rules.push({ kind, level: toNumber(match[2]) });
+  }
+  if (TER_PATTERN.test(text)) rules.push({ kind: "ter" });
+
+  const unique = new Map<string, WatchRule>();
+  rules
+    .filter((rule) =>
+      "thresholdPct" in rule
+        ? rule.thresholdPct > 0 && rule.thresholdPct < 100
+        : !("level" in rule) || rule.level > 0
+    )
+    .forEach((rule) => unique.set(ruleKey(rule), rule));
+  return Array.from(unique.values());
+}
+
+/** Keeps existing rules and adds the new ones, without duplicates. */
+export function mergeWatchRules(current: WatchRule[], next: WatchRule[]): WatchRule[] {
+  const merged = new Map(current.map((rule) => [ruleKey(rule), rule]));
+  next.forEach((rule) => merged.set(ruleKey(rule), rule));
+  return Array.from(merged.values());
+}
+
+const closes = (history: PriceHistory | null): Point[] =>
+  (history?.bars ?? [])
+    .filter((bar) => Number.isFinite(bar.c) && bar.c > 0)
+    .map((bar) => ({ t: bar.t, v: bar.c }));
+
+const formatPct = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+export function evaluateWatchRule(rule: WatchRule, context: WatchContext): WatchSignal {
+  const key = ruleKey(rule);
+  const points = closes(context.history);
+  const last = points[points.length - 1];
+
+  if (rule.kind === "ter") {
+    const { ter, previousTer } = context;
+    const changed = ter !== undefined && previousTer !== undefined && ter !== previousTer;
+    return {
+      rule,
+      key,
+      triggered: changed,
+      value: ter,
+      detail: changed
+        ? `TER cambiato da ${previousTer.toFixed(2)}% a ${ter.toFixed(2)}%`
+        : `TER ${ter !== undefined ? `${ter.toFixed(2)}%` : "n/d"}`
+    };
+  }
+
+  if (!last) return { rule, key, triggered: false, detail: "storico prezzi non disponibile" };
+
+  if (rule.kind === "drawdown") {
+    const drawdown = drawdownSeries(points)[points.length - 1].v;
+    const peak = points.reduce((best, point) => (point.v > best.v ? point : best), points[0]);
+    return {
+      rule,
+      key,
+      triggered: -drawdown > rule.thresholdPct,
+      value: drawdown,
+      detail: `drawdown ${formatPct(drawdown)} dal massimo del ${peak.t} (${peak.v.toFixed(2)})`
+    };
+  }
+
+  if (rule.kind === "move") {
+    const base = points[points.length - 1 - rule.days];
+    if (!base) return { rule, key, triggered: false, detail: "storico troppo corto" };
+    const change = (last.v / base.v - 1) * 100;
+    return {
+      rule,
+      key,
+      triggered: Math.abs(change) > rule.thresholdPct,
+      value: change,
+      detail: `${formatPct(change)} dal ${base.t} (${rule.days === 1 ? "una seduta" : `${rule.days} sedute`})`
+    };
+  }
+
+  const crossed = rule.kind === "above" ? last.v > rule.level : last.v < rule.level;
+  return {
+    rule,
+    key,
+    triggered: crossed,
+    value: last.v,
+    detail: `ultimo close ${last.v.toFixed(2)} (${last.t}), soglia ${rule.level}`
+  };
+}
+
+/**
+ * Signals that should produce an alert now. Price rules fire once when the
+ * condition starts holding and re-arm after it stops, so a fund that stays in
+ * drawdown is not reported on every run; a TER change fires each time it happens.
+ */
+export function newAlerts(signals: WatchSignal[], activeKeys: string[]) {
+  const active = new Set(activeKeys);
+  return {
+    alerts: signals.filter(
+      (signal) => signal.triggered && (signal.rule.kind === "ter" || !active.has(signal.key))
+    ),
+    active: signals
+      .filter((signal) => signal.triggered && signal.rule.kind !== "ter")
+      .map((signal) => signal.key)
+  };
+}
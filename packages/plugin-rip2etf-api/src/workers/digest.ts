@@ -0,0 +1,364 @@
+import {
+  ChannelType,
+  type Content,
+  type IAgentRuntime,
+  type Memory,
+  MemoryType,
+  ModelType,
+  type TargetInfo,
+  type TaskWorker,
+  type UUID,
+  composePrompt,
+  createUniqueUuid
+} from "@elizaos/core";
+import { fredSeriesCached } from "../providers/fred";
+import { fetchPriceHistory } from "../providers/prices";
+import { rip2etfSettings } from "../settings";
+import { digestCommentaryTemplate } from "../templates";
+import type { PriceHistory } from "../types";
+import { type ChartResult, type ChartSpec, chartAttachments, renderCharts } from "../utils/charts";
+import {
+  type DigestReport,
+  etfDigestRow,
+  formatDigestTables,
+  macroDigestRow,
+  unsupportedNumbers
+} from "../utils/digest";
+import { resolveInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { alignAndRebase } from "../utils/normalize";
+
+export const DIGEST_TASK_NAME = "RIP2ETF_DIGEST";
+export const DIGEST_TAG = "rip2etf-digest";
+/** Memory table the published digests are archived in. */
+export const DIGEST_TABLE = "rip2etf_digests";
+
+const DAY_MS = 86_400_000;
+const MACRO_LOOKBACK_YEARS = 3;
+const COMMENTARY_ATTEMPTS = 2;
+
+export interface DigestConfig {
+  symbols: string[];
+  fredSeries: string[];
+  targets: TargetInfo[];
+  intervalDays: number;
+}
+
+export interface DigestRun {
+  text: string;
+  report: DigestReport;
+  commentary: string | null;
+  delivered: TargetInfo[];
+  failed: TargetInfo[];
+  memoryId?: UUID;
+}
+
+/** "discord:123456789, telegram:-1001234567" → one target per channel. */
+export function parseDigestTargets(value: string): TargetInfo[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim().match(/^([\w-]+):(.+)$/))
+    .filter((match): match is RegExpMatchArray => Boolean(match))
+    .map((match) => ({ source: match[1].toLowerCase(), channelId: match[2].trim() }));
+}
+
+/** Character settings first, then the `RIP2ETF_DIGEST_*` environment. */
+export function digestConfig(runtime: IAgentRuntime): DigestConfig {
+  const setting = (key: string) => {
+    const value = runtime.getSetting(key);
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+  const list = (key: string, fallback: string[]) =>
+    setting(key)
+      ?.split(",")
+      .map((item) => item.trim().toUpperCase())
+      .filter(Boolean) ?? fallback;
+  const interval = Number.parseFloat(setting("RIP2ETF_DIGEST_INTERVAL_DAYS") ?? "");
+  return {
+    symbols: list("RIP2ETF_DIGEST_SYMBOLS", rip2etfSettings.DIGEST_SYMBOLS),
+    fredSeries: list("RIP2ETF_DIGEST_FRED_SERIES", rip2etfSettings.DIGEST_FRED_SERIES),
+    targets: parseDigestTargets(
+      setting("RIP2ETF_DIGEST_TARGETS") ?? rip2etfSettings.DIGEST_TARGETS
+    ),
+    intervalDays:
+      Number.isFinite(interval) && interval >= 1 ? interval : rip2etfSettings.DIGEST_INTERVAL_DAYS
+  };
+}
+
+function digestCharts(report: DigestReport, histories: PriceHistory[]): ChartSpec[] {
+  const specs: ChartSpec[] = [];
+  if (report.etfs.length) {
+    specs.push({
+      kind: "bar",
+      labels: report.etfs.map((row) => row.symbol),
+      datasets: [
+        { label: "1 settimana", data: report.etfs.map((row) => row.weekPct) },
+        { label: "1 mese", data: report.etfs.map((row) => row.monthPct) }
+      ],
+      unit: "%",
+      title: `Performance al ${report.asOf}`,
+      description: "Rendimento a una settimana e a un mese nella valuta di quotazione"
+    });
+  }
+
+  const monthAgo = new Date(Date.parse(`${report.asOf}T00:00:00Z`) - 31 * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+  const aligned = alignAndRebase(
+    histories.map((history) => ({
+      ...history,
+      bars: history.bars.filter((bar) => bar.t >= monthAgo)
+    }))
+  );
+  if (aligned.dates.length > 1) {
+    specs.push({
+      kind: "line",
+      labels: aligned.dates,
+      datasets: aligned.table.map((series) => ({
+        label: series.symbol,
+        data: series.points.map((point) => (Number.isFinite(point.v) ? point.v : null))
+      })),
+      title: "Ultimo mese, base 100",
+      description: `Performance rebased 100 dal ${aligned.dates[0]} al ${aligned.dates[aligned.dates.length - 1]}`
+    });
+  }
+  return specs;
+}
+
+/** Fetches the universe and the macro series and computes the digest tables and charts. */
+export async function buildDigest(
+  runtime: IAgentRuntime,
+  config: DigestConfig,
+  corrId: string
+): Promise<{ report: DigestReport; charts: ChartResult[] }> {
+  const missing: string[] = [];
+  const histories: PriceHistory[] = [];
+  for (const symbol of config.symbols) {
+    const instrument = resolveInstrument(symbol);
+    const history = instrument ? await fetchPriceHistory(runtime, instrument, corrId) : null;
+    if (history?.bars.length) histories.push({ ...history, symbol: instrument!.symbol });
+    else missing.push(symbol);
+  }
+
+  const start = new Date();
+  start.setUTCFullYear(start.getUTCFullYear() - MACRO_LOOKBACK_YEARS);
+  const macro = [];
+  for (const id of config.fredSeries) {
+    const observations = rip2etfSettings.FRED_API_KEY
+      ? await fredSeriesCached(runtime, id, start.toISOString().slice(0, 10))
+      : null;
+    const row = observations ? macroDigestRow(id, observations) : null;
+    if (row) macro.push(row);
+    else missing.push(id);
+  }
+
+  const etfs = histories.map(etfDigestRow).filter((row) => row !== null);
+  const asOf = etfs.reduce((latest, row) => (row.asOf > latest ? row.asOf : latest), "");
+  const report: DigestReport = {
+    asOf: asOf || new Date().toISOString().slice(0, 10),
+    period: config.intervalDays >= 28 ? "month" : "week",
+    etfs,
+    macro,
+    missing,
+    dataSources: Array.from(
+      new Set([
+        ...histories.flatMap((history) => history.dataSources),
+        ...(macro.length ? ["fred"] : [])
+      ])
+    )
+  };
+  const charts = await renderCharts(digestCharts(report, histories));
+  return { report, charts };
+}
+
+/**
+ * Asks the model for a short commentary in the character's voice. Drafts
+ * quoting numbers that are not in the tables are rejected; after
+ * `COMMENTARY_ATTEMPTS` the digest goes out without commentary.
+ */
+export async function writeDigestCommentary(
+  runtime: IAgentRuntime,
+  report: DigestReport,
+  tables: string
+): Promise<string | null> {
+  const { character } = runtime;
+  const prompt = composePrompt({
+    state: {
+      agentName: character?.name ?? "Mr. RIP",
+      system: character?.system ?? "",
+      bio: Array.isArray(character?.bio) ? character.bio.join("\n") : (character?.bio ?? ""),
+      period: report.period === "month" ? "monthly" : "weekly",
+      facts: tables
+    },
+    template: digestCommentaryTemplate
+  });
+
+  for (let attempt = 1; attempt <= COMMENTARY_ATTEMPTS; attempt += 1) {
+    try {
+      const draft = String((await runtime.useModel(ModelType.TEXT_SMALL, { prompt })) ?? "").trim();
+      const invented = unsupportedNumbers(draft, tables);
+      if (draft && !invented.length) return draft;
+      debugLog("digest_commentary_rejected", { attempt, invented, empty: !draft });
+    } catch (error) {
+      debugLog("digest_commentary_error", { attempt, error: (error as Error).message });
+    }
+  }
+  return null;
+}
+
+async function archiveDigest(runtime: IAgentRuntime, run: Omit<DigestRun, "memoryId">) {
+  const worldId = createUniqueUuid(runtime, "rip2etf-digest-world");
+  const roomId = createUniqueUuid(runtime, "rip2etf-digest");
+  await runtime.ensureWorldExists({
+    id: worldId,
+    name: "rip2etf",
+    agentId: runtime.agentId,
+    serverId: "rip2etf"
+  });
+  await runtime.ensureRoomExists({
+    id: roomId,
+    name: "rip2etf digest",
+    source: "rip2etf",
+    type: ChannelType.SELF,
+    worldId
+  });
+  return runtime.createMemory(
+    {
+      entityId: runtime.agentId,
+      agentId: runtime.agentId,
+      roomId,
+      worldId,
+      content: {
+        text: run.text,
+        source: "rip2etf",
+        digest: run.report,
+        commentary: run.commentary
+      },
+      createdAt: Date.now(),
+      metadata: {
+        type: MemoryType.CUSTOM,
+        source: "rip2etf",
+        timestamp: Date.now(),
+        tags: [DIGEST_TAG]
+      }
+    },
+    DIGEST_TABLE
+  );
+}
+
+/** The most recent archived digest, if any. */
+export async function latestDigest(runtime: IAgentRuntime): Promise<Memory | null> {
+  const [memory] = await runtime.getMemories({
+    tableName: DIGEST_TABLE,
+    roomId: createUniqueUuid(runtime, "rip2etf-digest"),
+    count: 1
+  });
+  return memory ?? null;
+}
+
+/** Builds the digest, publishes it to every configured channel and archives it. */
+export async function runDigest(
+  runtime: IAgentRuntime,
+  config: DigestConfig = digestConfig(runtime)
+): Promise<DigestRun | null> {
+  if (!config.symbols.length && !config.fredSeries.length) return null;
+  const corrId = `digest-${Date.now()}`;
+  const { report, charts } = await buildDigest(runtime, config, corrId);
+  if (!report.etfs.length && !report.macro.length) {
+    debugLog("digest_empty", { corrId, missing: report.missing });
+    return null;
+  }
+
+  const tables = formatDigestTables(report);
+  const commentary = await writeDigestCommentary(runtime, report, tables);
+  const text = [
+    `**Recap ETF e macro · ${report.period === "month" ? "mese" : "settimana"} al ${report.asOf}**`,
+    commentary ?? "",
+    tables,
+    report.dataSources.length ? `Fonti: ${report.dataSources.join(", ")}` : ""
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const content: Content = {
+    text,
+    attachments: charts.flatMap((chart) => chartAttachments(chart, "rip2etf.digest")),
+    source: "rip2etf",
+    actions: []
+  };
+  const delivered: TargetInfo[] = [];
+  const failed: TargetInfo[] = [];
+  for (const target of config.targets) {
+    try {
+      await runtime.sendMessageToTarget(target, content);
+      delivered.push(target);
+    } catch (error) {
+      failed.push(target);
+      runtime.logger?.error?.(
+        { error: (error as Error).message, target },
+        "[rip2etf.digest] pubblicazione fallita"
+      );
+    }
+  }
+
+  const run = { text, report, commentary, delivered, failed };
+  let memoryId: UUID | undefined;
+  try {
+    memoryId = await archiveDigest(runtime, run);
+  } catch (error) {
+    debugLog("digest_archive_error", { corrId, error: (error as Error).message });
+  }
+  debugLog("digest_published", {
+    corrId,
+    asOf: report.asOf,
+    etfs: report.etfs.length,
+    macro: report.macro.length,
+    commentary: Boolean(commentary),
+    delivered: delivered.length,
+    failed: failed.length
+  });
+  return { ...run, memoryId };
+}
+
+export const digestWorker: TaskWorker = {
+  name: DIGEST_TASK_NAME,
+  execute: async (runtime) => {
+    await runDigest(runtime);
+  }
+};
+
+/**
+ * Keeps exactly one repeating digest task in line with the configuration:
+ * created when a universe and targets are configured, removed otherwise.
+ */
+export async function ensureDigestTask(runtime: IAgentRuntime) {
+  const config = digestConfig(runtime);
+  const tasks = await runtime.getTasksByName(DIGEST_TASK_NAME);
+  const enabled =
+    config.targets.length > 0 && (config.symbols.length > 0 || config.fredSeries.length > 0);
+  const updateInterval = config.intervalDays * DAY_MS;
+
+  if (!enabled) {
+    await Promise.all(tasks.filter((task) => task.id).map((task) => runtime.deleteTask(task.id!)));
+    return;
+  }
+  const [current, ...duplicates] = tasks;
+  await Promise.all(
+    duplicates.filter((task) => task.id).map((task) => runtime.deleteTask(task.id!))
+  );
+  if (current?.id) {
+    if (current.metadata?.updateInterval !== updateInterval) {
+      await runtime.updateTask(current.id, { metadata: { ...current.metadata, updateInterval } });
+    }
+    return;
+  }
+
+  const now = Date.now();
+  await runtime.createTask({
+    name: DIGEST_TASK_NAME,
+    description: "Recap periodico ETF e macro",
+    tags: ["queue", "repeat", DIGEST_TAG],
+    metadata: { updateInterval, createdAt: now, updatedAt: now }
+  });
+  debugLog("digest_scheduled", { intervalDays: config.intervalDays, targets: config.targets });
+}
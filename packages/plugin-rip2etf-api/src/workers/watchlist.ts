@@ -0,0 +1,192 @@
+import type { Content, IAgentRuntime, Media, Task, TaskWorker } from "@elizaos/core";
+import { findRegistryEtf } from "../data/registry";
+import {
+  WATCHLIST_TASK_NAME,
+  type WatchItem,
+  type WatchItemState,
+  type Watchlist,
+  readWatchlist
+} from "../data/watchlists";
+import { fetchPriceHistory } from "../providers/prices";
+import type { PriceHistory } from "../types";
+import { type ChartSpec, chartAttachments, renderChart } from "../utils/charts";
+import { resolveInstrument } from "../utils/instruments";
+import { debugLog } from "../utils/logger";
+import { drawdownSeries } from "../utils/metrics";
+import { type WatchSignal, describeRule, evaluateWatchRule, newAlerts } from "../utils/watchlist";
+
+// sessions shown in alert charts
+const CHART_SESSIONS = 252;
+
+export interface WatchAlert {
+  symbol: string;
+  signals: WatchSignal[];
+  attachments: Media[];
+}
+
+function alertChart(symbol: string, history: PriceHistory, signals: WatchSignal[]): ChartSpec {
+  const bars = history.bars.filter((bar) => Number.isFinite(bar.c) && bar.c > 0);
+  const recent = bars.slice(-CHART_SESSIONS);
+  const labels = recent.map((bar) => bar.t);
+  if (signals.some((signal) => signal.rule.kind === "drawdown")) {
+    // measured on the full history, so the peak may predate the chart window
+    const drawdowns = drawdownSeries(bars.map((bar) => ({ t: bar.t, v: bar.c })));
+    return {
+      kind: "drawdown",
+      labels,
+      datasets: [
+        {
+          label: symbol,
+          data: drawdowns.slice(-CHART_SESSIONS).map((point) => Number(point.v.toFixed(2)))
+        }
+      ],
+      title: `${symbol} · drawdown dal massimo`,
+      description: `Drawdown di ${symbol} dal ${labels[0]} al ${labels[labels.length - 1]}`
+    };
+  }
+
+  const levels = signals.flatMap((signal) =>
+    signal.rule.kind === "above" || signal.rule.kind === "below"
+      ? [{ label: describeRule(signal.rule), level: signal.rule.level }]
+      : []
+  );
+  return {
+    kind: "line",
+    labels,
+    datasets: [
+      { label: symbol, data: recent.map((bar) => bar.c) },
+      ...levels.map((entry) => ({ label: entry.label, data: labels.map(() => entry.level) }))
+    ],
+    title: `${symbol} · ultimo anno`,
+    description: `Close giornalieri di ${symbol} dal ${labels[0]} al ${labels[labels.length - 1]}`
+  };
+}
+
+async function checkItem(
+  runtime: IAgentRuntime,
+  item: WatchItem,
+  previous: WatchItemState | undefined,
+  corrId: string
+): Promise<{ state: WatchItemState; alert: WatchAlert | null }> {
+  const instrument = resolveInstrument(item.symbol, item.preference);
+  const needsHistory = item.rules.some((rule) => rule.kind !== "ter");
+  const history =
+    instrument && needsHistory ? await fetchPriceHistory(runtime, instrument, corrId) : null;
+  const registryEtf = findRegistryEtf(instrument?.isin ?? item.symbol);
+
+  const signals = item.rules.map((rule) =>
+    evaluateWatchRule(rule, {
+      history,
+      ter: registryEtf?.terPct,
+      previousTer: previous?.ter
+    })
+  );
+  const { alerts, active } = newAlerts(signals, previous?.active ?? []);
+  const lastBar = history?.bars[history.bars.length - 1];
+  const state: WatchItemState = {
+    active,
+    ter: registryEtf?.terPct ?? previous?.ter,
+    lastClose: lastBar?.c ?? previous?.lastClose,
+    lastDate: lastBar?.t ?? previous?.lastDate,
+    checkedAt: Date.now()
+  };
+  if (!alerts.length) return { state, alert: null };
+
+  let attachments: Media[] = [];
+  const priceAlerts = alerts.filter((signal) => signal.rule.kind !== "ter");
+  if (history && priceAlerts.length) {
+    try {
+      attachments = chartAttachments(
+        await renderChart(alertChart(item.symbol, history, priceAlerts)),
+        "rip2etf.watchlist"
+      );
+    } catch (error) {
+      debugLog("watchlist_chart_error", {
+        symbol: item.symbol,
+        error: (error as Error).message
+      });
+    }
+  }
+  return { state, alert: { symbol: item.symbol, signals: alerts, attachments } };
+}
+
+export function formatWatchAlerts(alerts: WatchAlert[]): string {
+  return [
+    `**Alert watchlist ETF**`,
+    ...alerts.flatMap((alert) =>
+      alert.signals.map(
+        (signal) => `- ${alert.symbol}: ${describeRule(signal.rule)} · ${signal.detail}`
+      )
+    )
+  ].join("\n");
+}
+
+/**
+ * Re-checks every symbol of the list, posts new alerts to the channel the
+ * list belongs to and stores what it saw for the next run.
+ */
+export async function runWatchlist(runtime: IAgentRuntime, task: Task): Promise<WatchAlert[]> {
+  // the scheduler hands over the task as it was before it bumped `updatedAt`
+  const current = (task.id ? await runtime.getTask(task.id) : null) ?? task;
+  const watchlist = readWatchlist(current);
+  if (!watchlist || !watchlist.items.length) return [];
+
+  const corrId = `watchlist-${task.id ?? watchlist.roomId}-${Date.now()}`;
+  const alerts: WatchAlert[] = [];
+  const state: Watchlist["state"] = { ...watchlist.state };
+  for (const item of watchlist.items) {
+    try {
+      const result = await checkItem(runtime, item, watchlist.state[item.symbol], corrId);
+      state[item.symbol] = result.state;
+      if (result.alert) alerts.push(result.alert);
+    } catch (error) {
+      debugLog("watchlist_item_error", {
+        corrId,
+        symbol: item.symbol,
+        error: (error as Error).message
+      });
+    }
+  }
+  debugLog("watchlist_run", {
+    corrId,
+    symbols: watchlist.items.map((item) => item.symbol),
+    alerts: alerts.map((alert) => ({
+      symbol: alert.symbol,
+      rules: alert.signals.map((signal) => signal.key)
+    }))
+  });
+
+  if (alerts.length) {
+    const content: Content = {
+      text: formatWatchAlerts(alerts),
+      attachments: alerts.flatMap((alert) => alert.attachments),
+      source: "rip2etf",
+      actions: []
+    };
+    try {
+      await runtime.sendMessageToTarget(watchlist.target, content);
+    } catch (error) {
+      // keep the previous state so the same alerts are retried on the next run
+      runtime.logger?.error?.(
+        { error: (error as Error).message, target: watchlist.target },
+        "[rip2etf.watchlist] invio alert fallito"
+      );
+      return [];
+    }
+  }
+
+  if (task.id) {
+    const pruned = Object.fromEntries(
+      watchlist.items.map((item) => [item.symbol, state[item.symbol]]).filter(([, value]) => value)
+    );
+    await runtime.updateTask(task.id, { metadata: { ...current.metadata, state: pruned } });
+  }
+  return alerts;
+}
+
+export const watchlistWorker: TaskWorker = {
+  name: WATCHLIST_TASK_NAME,
+  execute: async (runtime, _options, task) => {
+    await runWatchlist(runtime, task);
+  }
+};
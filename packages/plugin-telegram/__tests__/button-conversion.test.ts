@@ -6,6 +6,7 @@ mock.module('telegraf', () => ({
     button: {
       url: mock((text: string, url: string) => ({ text, url, type: 'url' })),
       login: mock((text: string, url: string) => ({ text, url, type: 'login' })),
+      callback: mock((text: string, data: string) => ({ text, callback_data: data })),
     },
   },
 }));
@@ -151,6 +152,17 @@ describe('Telegram Utils', () => {
       });
     });
 
+    it('should convert valid callback buttons correctly', () => {
+      const buttons: Button[] = [
+        { kind: 'callback', text: 'Confirm', data: 'order:confirm' },
+        { kind: 'callback', text: 'No data', data: '' },
+      ];
+
+      const result = convertToTelegramButtons(buttons);
+
+      expect(result).toEqual([{ text: 'Confirm', callback_data: 'order:confirm' }] as any);
+    });
+
     it('should handle multiple buttons', () => {
       const buttons: Button[] = [
         { kind: 'url', text: 'Button 1', url: 'https://example1.com' },
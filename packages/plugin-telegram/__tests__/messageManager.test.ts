@@ -36,6 +36,7 @@ mock.module('telegraf', () => ({
     button: {
       url: mock((text: string, url: string) => ({ text, url, type: 'url' })),
       login: mock((text: string, url: string) => ({ text, url, type: 'login' })),
+      callback: mock((text: string, data: string) => ({ text, callback_data: data })),
     },
   },
 }));
@@ -60,7 +61,7 @@ mock.module('@elizaos/core', () => ({
     warn: mock(),
     error: mock(),
   },
-  createUniqueUuid: mock(() => 'test-uuid-123'),
+  createUniqueUuid: mock((_runtime: unknown, id: string) => `uuid-${id}`),
   ChannelType: {
     DM: 'DM',
     GROUP: 'GROUP',
@@ -254,6 +255,64 @@ describe('MessageManager', () => {
     });
   });
 
+  describe('handleCallbackQuery', () => {
+    const callbackCtx = (query: Record<string, unknown>) =>
+      ({
+        callbackQuery: {
+          id: 'query-1',
+          from: { id: 42 },
+          message: { message_id: 7, chat: { id: CHAT_ID, type: 'group' } },
+          ...query,
+        },
+        answerCbQuery: mock(() => Promise.resolve(true)),
+      }) as any;
+
+    it('should answer the query and emit the button data with its user and room', async () => {
+      const ctx = callbackCtx({ data: 'order:confirm' });
+
+      await messageManager.handleCallbackQuery(ctx);
+
+      expect(ctx.answerCbQuery).toHaveBeenCalled();
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        'TELEGRAM_CALLBACK_QUERY_RECEIVED',
+        expect.objectContaining({
+          source: 'telegram',
+          entityId: 'uuid-42',
+          roomId: `uuid-${CHAT_ID}`,
+          data: 'order:confirm',
+        })
+      );
+    });
+
+    it('should use the forum topic as the room', async () => {
+      await messageManager.handleCallbackQuery(
+        callbackCtx({
+          data: 'order:confirm',
+          message: {
+            message_id: 7,
+            message_thread_id: 5,
+            is_topic_message: true,
+            chat: { id: CHAT_ID, type: 'supergroup' },
+          },
+        })
+      );
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        'TELEGRAM_CALLBACK_QUERY_RECEIVED',
+        expect.objectContaining({ roomId: `uuid-${CHAT_ID}-5` })
+      );
+    });
+
+    it('should ignore queries without data or message', async () => {
+      await messageManager.handleCallbackQuery(callbackCtx({ game_short_name: 'game' }));
+      await messageManager.handleCallbackQuery(
+        callbackCtx({ data: 'order:confirm', message: undefined })
+      );
+
+      expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle message send failures', async () => {
       const ctx = {
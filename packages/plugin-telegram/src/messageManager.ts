@@ -17,6 +17,7 @@ import type { Chat, Message, ReactionType, Update, Document } from '@telegraf/ty
 import type { Context, NarrowedContext, Telegraf } from 'telegraf';
 import { Markup } from 'telegraf';
 import {
+  type TelegramCallbackQueryPayload,
   type TelegramContent,
   TelegramEventTypes,
   type TelegramMessageSentPayload,
@@ -852,6 +853,46 @@ export class MessageManager {
     }
   }
 
+  /**
+   * Handles a press on a callback button by emitting the callback data, with
+   * the user and room it came from, for plugins to act on.
+   * @param {NarrowedContext<Context<Update>, Update.CallbackQueryUpdate>} ctx The context of the callback query update
+   * @returns {Promise<void>} A Promise that resolves when the callback query handling is complete
+   */
+  public async handleCallbackQuery(
+    ctx: NarrowedContext<Context<Update>, Update.CallbackQueryUpdate>
+  ): Promise<void> {
+    const query = ctx.callbackQuery;
+    // Buttons on inline-mode messages carry no chat, so there is no room to act in
+    if (!('data' in query) || !query.message) return;
+
+    // Stop the loading indicator on the button
+    await ctx.answerCbQuery();
+
+    try {
+      const message = query.message;
+      const threadId =
+        'is_topic_message' in message && message.is_topic_message
+          ? message.message_thread_id?.toString()
+          : undefined;
+      // Same room as the messages of the chat (or forum topic)
+      const telegramRoomid = threadId
+        ? `${message.chat.id}-${threadId}`
+        : message.chat.id.toString();
+
+      await this.runtime.emitEvent(TelegramEventTypes.CALLBACK_QUERY_RECEIVED, {
+        runtime: this.runtime,
+        source: 'telegram',
+        ctx,
+        entityId: createUniqueUuid(this.runtime, query.from.id.toString()) as UUID,
+        roomId: createUniqueUuid(this.runtime, telegramRoomid) as UUID,
+        data: query.data,
+      } as TelegramCallbackQueryPayload);
+    } catch (error) {
+      logger.error({ error }, 'Error handling callback query');
+    }
+  }
+
   /**
    * Sends a message to a Telegram chat and emits appropriate events
    * @param {number | string} chatId - The Telegram chat ID to send the message to
@@ -310,6 +310,15 @@ export class TelegramService extends Service {
         logger.error({ error }, 'Error handling reaction');
       }
     });
+
+    // Callback button handler
+    this.bot?.on('callback_query', async (ctx) => {
+      try {
+        await this.messageManager!.handleCallbackQuery(ctx);
+      } catch (error) {
+        logger.error({ error }, 'Error handling callback query');
+      }
+    });
   }
 
   /**
@@ -1,4 +1,11 @@
-import type { Content, EntityPayload, MessagePayload, WorldPayload } from '@elizaos/core';
+import type {
+  Content,
+  EntityPayload,
+  EventPayload,
+  MessagePayload,
+  UUID,
+  WorldPayload,
+} from '@elizaos/core';
 import type { Chat, Message, ReactionType } from '@telegraf/types';
 import type { Context } from 'telegraf';
 
@@ -13,14 +20,23 @@ export interface TelegramContent extends Content {
 /**
  * Represents a flexible button configuration
  */
-export type Button = {
-  /** The type of button */
-  kind: 'login' | 'url';
-  /** The text to display on the button */
-  text: string;
-  /** The URL or endpoint the button should link to */
-  url: string;
-};
+export type Button =
+  | {
+      /** The type of button */
+      kind: 'login' | 'url';
+      /** The text to display on the button */
+      text: string;
+      /** The URL or endpoint the button should link to */
+      url: string;
+    }
+  | {
+      /** A button answered by the bot through a callback query */
+      kind: 'callback';
+      /** The text to display on the button */
+      text: string;
+      /** The data sent back when the button is pressed (at most 64 bytes) */
+      data: string;
+    };
 
 /**
  * Telegram-specific event types
@@ -43,6 +59,7 @@ export enum TelegramEventTypes {
   // Interaction events
   REACTION_RECEIVED = 'TELEGRAM_REACTION_RECEIVED',
   INTERACTION_RECEIVED = 'TELEGRAM_INTERACTION_RECEIVED',
+  CALLBACK_QUERY_RECEIVED = 'TELEGRAM_CALLBACK_QUERY_RECEIVED',
   
   // Command events
   SLASH_START = 'TELEGRAM_SLASH_START',
@@ -63,6 +80,7 @@ export interface TelegramEventPayloadMap {
   [TelegramEventTypes.ENTITY_LEFT]: TelegramEntityPayload;
   [TelegramEventTypes.ENTITY_UPDATED]: TelegramEntityPayload;
   [TelegramEventTypes.INTERACTION_RECEIVED]: TelegramReactionReceivedPayload;
+  [TelegramEventTypes.CALLBACK_QUERY_RECEIVED]: TelegramCallbackQueryPayload;
 }
 
 /**
@@ -95,6 +113,20 @@ export interface TelegramReactionReceivedPayload extends TelegramMessageReceived
   originalReaction: ReactionType;
 }
 
+/**
+ * Telegram-specific callback query payload, for a pressed callback button
+ */
+export interface TelegramCallbackQueryPayload extends EventPayload {
+  /** The original Telegram context */
+  ctx: Context;
+  /** The user who pressed the button */
+  entityId: UUID;
+  /** The room of the message holding the button */
+  roomId: UUID;
+  /** The data of the pressed button */
+  data: string;
+}
+
 /**
  * Telegram-specific world payload
  */
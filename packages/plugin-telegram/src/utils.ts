@@ -208,6 +208,15 @@ export function convertToTelegramButtons(buttons?: Button[] | null): InlineKeybo
   const telegramButtons: InlineKeyboardButton[] = [];
 
   for (const button of buttons) {
+    if (button?.kind === 'callback') {
+      if (!button.text || !button.data) {
+        logger.warn({ button }, 'Invalid button configuration, skipping');
+        continue;
+      }
+      telegramButtons.push(Markup.button.callback(button.text, button.data));
+      continue;
+    }
+
     // Validate button has required properties
     if (!button || !button.text || !button.url) {
       logger.warn({ button }, 'Invalid button configuration, skipping');
@@ -222,10 +231,13 @@ export function convertToTelegramButtons(buttons?: Button[] | null): InlineKeybo
       case 'url':
         telegramButton = Markup.button.url(button.text, button.url);
         break;
-      default:
-        logger.warn(`Unknown button kind '${button.kind}', treating as URL button`);
-        telegramButton = Markup.button.url(button.text, button.url);
+      default: {
+        // Untyped content can still carry other kinds
+        const unknown = button as { kind: string; text: string; url: string };
+        logger.warn(`Unknown button kind '${unknown.kind}', treating as URL button`);
+        telegramButton = Markup.button.url(unknown.text, unknown.url);
         break;
+      }
     }
 
     telegramButtons.push(telegramButton);